@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import { getSharedTestData } from './setup/testData.js'
+import { resourceManager } from './setup/resourceManager.js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+describe('Authors API Endpoints', () => {
+  let testUserId = null
+  let testFamilyId = null
+  let authorId = null
+  const authorName = `Test Author ${Date.now()}`
+
+  beforeAll(async () => {
+    const sharedData = getSharedTestData()
+    testUserId = sharedData.userId
+    testFamilyId = sharedData.familyId
+
+    const response = await request(app)
+      .post('/api/books')
+      .set('x-user-id', testUserId)
+      .send({ title: `Author Page Book ${Date.now()}`, author: authorName, family_id: testFamilyId })
+      .expect(201)
+
+    resourceManager.track('books', response.body.book.id)
+    authorId = response.body.book.author_id
+  })
+
+  afterAll(async () => {
+    await resourceManager.cleanup()
+  })
+
+  it('should link a new book to an author', () => {
+    expect(authorId).toBeTruthy()
+  })
+
+  it('should link another spelling of the name to the same author', async () => {
+    const response = await request(app)
+      .post('/api/books')
+      .set('x-user-id', testUserId)
+      .send({ title: `Second Author Page Book ${Date.now()}`, author: `  ${authorName.toUpperCase()}.`, family_id: testFamilyId })
+      .expect(201)
+
+    resourceManager.track('books', response.body.book.id)
+    expect(response.body.book.author_id).toBe(authorId)
+  })
+
+  describe('GET /api/authors/:id', () => {
+    it('should list the community books by the author', async () => {
+      const response = await request(app)
+        .get(`/api/authors/${authorId}`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.author.name).toBe(authorName)
+      expect(response.body.author.aliases).toContain(authorName)
+      expect(response.body.books.length).toBeGreaterThanOrEqual(2)
+      expect(response.body.books[0]).toHaveProperty('availableCopies')
+      expect(response.body.books.every((book) => book.ownedByViewer)).toBe(true)
+    })
+
+    it('should return 404 for an unknown author', async () => {
+      const response = await request(app)
+        .get('/api/authors/00000000-0000-0000-0000-000000000000')
+        .expect(404)
+
+      expect(response.body.error).toBe('Author not found')
+    })
+  })
+
+  describe('POST /api/authors/:id/aliases', () => {
+    it('should return 401 without authentication', async () => {
+      await request(app)
+        .post(`/api/authors/${authorId}/aliases`)
+        .send({ alias: 'שם אחר' })
+        .expect(401)
+    })
+
+    it('should require an alias', async () => {
+      const response = await request(app)
+        .post(`/api/authors/${authorId}/aliases`)
+        .set('x-user-id', testUserId)
+        .send({ alias: '   ' })
+
+      // Non-admins are turned away before validation
+      expect([400, 403]).toContain(response.statusCode)
+    })
+  })
+})
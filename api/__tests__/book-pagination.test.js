@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeCursor,
+  encodeCursor,
+  paginateCatalogKeys,
+  sortModeFor,
+  toCatalogKey
+} from '../../backend_shared_src/services/bookPagination.js'
+
+const book = (id, title, copies, extra = {}) => ({
+  id,
+  title,
+  family_books: copies.map(([copyId, updatedAt]) => ({ id: copyId, updated_at: updatedAt })),
+  ...extra
+})
+
+const books = [
+  book('cat-a', 'אלף', [['fb-1', '2026-01-01T00:00:00+00:00'], ['fb-3', '2026-05-01T00:00:00+00:00']]),
+  book('cat-b', 'בית', [['fb-2', '2026-03-01T00:00:00+00:00']]),
+  book('cat-c', 'גימל', [['fb-4', '2026-02-01T00:00:00+00:00']]),
+  book('cat-d', 'דלת', [['fb-5', '2026-04-01T00:00:00+00:00']])
+]
+
+describe('Book list sort keys', () => {
+  it('should key a catalog book by its copies, with the latest update', () => {
+    const key = toCatalogKey(books[0])
+    expect(key.catalogId).toBe('cat-a')
+    expect(key.familyBookIds).toEqual(['fb-1', 'fb-3'])
+    expect(key.updatedAt).toBe('2026-05-01T00:00:00+00:00')
+  })
+
+  it('should sort search results by relevance unless sorted by update', () => {
+    expect(sortModeFor(undefined, true)).toBe('relevance')
+    expect(sortModeFor('updated', true)).toBe('updated')
+    expect(sortModeFor(undefined, false)).toBe('title')
+  })
+})
+
+describe('Book list cursors', () => {
+  it('should return the total and a cursor to the next page', () => {
+    const { page, total, nextCursor } = paginateCatalogKeys(books.map(toCatalogKey), { mode: 'title', limit: 2 })
+    expect(total).toBe(4)
+    expect(page.map((key) => key.catalogId)).toEqual(['cat-a', 'cat-b'])
+    expect(nextCursor).toBeTruthy()
+
+    const next = paginateCatalogKeys(books.map(toCatalogKey), { mode: 'title', after: decodeCursor(nextCursor).key, limit: 2 })
+    expect(next.page.map((key) => key.catalogId)).toEqual(['cat-c', 'cat-d'])
+    expect(next.nextCursor).toBeNull()
+  })
+
+  it('should continue after the last book even when books were added before it', () => {
+    const first = paginateCatalogKeys(books.map(toCatalogKey), { mode: 'updated', limit: 2 })
+    expect(first.page.map((key) => key.catalogId)).toEqual(['cat-a', 'cat-d'])
+
+    const withNewBook = [...books, book('cat-e', 'הא', [['fb-6', '2026-06-01T00:00:00+00:00']])]
+    const next = paginateCatalogKeys(withNewBook.map(toCatalogKey), {
+      mode: 'updated',
+      after: decodeCursor(first.nextCursor).key,
+      limit: 2
+    })
+    expect(next.total).toBe(5)
+    expect(next.page.map((key) => key.catalogId)).toEqual(['cat-b', 'cat-c'])
+  })
+
+  it('should break ties by catalog id so equal ranks are not skipped', () => {
+    const ranked = books.map((row) => toCatalogKey({ ...row, search_rank: 0.5 }))
+    const first = paginateCatalogKeys(ranked, { mode: 'relevance', limit: 3 })
+    const next = paginateCatalogKeys(ranked, { mode: 'relevance', after: decodeCursor(first.nextCursor).key, limit: 3 })
+    expect([...first.page, ...next.page].map((key) => key.catalogId)).toEqual(['cat-a', 'cat-b', 'cat-c', 'cat-d'])
+  })
+
+  it('should round-trip the cursor and reject malformed ones', () => {
+    const key = toCatalogKey(books[0])
+    expect(decodeCursor(encodeCursor(key, 'title'))).toEqual({
+      mode: 'title',
+      key: { catalogId: 'cat-a', title: 'אלף', updatedAt: '', rank: 0 }
+    })
+    expect(decodeCursor(encodeCursor(key, 'updated')).key.updatedAt).toBe('2026-05-01T00:00:00+00:00')
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+    expect(decodeCursor(Buffer.from(JSON.stringify({ m: 'title', v: 5, id: 'x' })).toString('base64url'))).toBeNull()
+  })
+})
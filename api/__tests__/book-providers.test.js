@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getBookProviders,
+  registerBookProvider,
+  searchProvider,
+  toOpenLibraryResult
+} from '../../backend_shared_src/services/bookProviders.js'
+import { mergeProviderResults, searchBookByIsbn, searchBooks } from '../../backend_shared_src/services/bookSearch.js'
+
+describe('Book metadata providers', () => {
+  describe('Configuration', () => {
+    it('should use the listed providers in priority order with their timeouts', () => {
+      const providers = getBookProviders({ BOOK_PROVIDERS: 'openlibrary:2500, simania', BOOK_PROVIDER_TIMEOUT_MS: '4000' })
+      expect(providers.map((provider) => provider.name)).toEqual(['openlibrary', 'simania'])
+      expect(providers.map((provider) => provider.priority)).toEqual([0, 1])
+      expect(providers.map((provider) => provider.timeoutMs)).toEqual([2500, 4000])
+    })
+
+    it('should default to Simania and Open Library', () => {
+      expect(getBookProviders({}).map((provider) => provider.name)).toEqual(['simania', 'openlibrary'])
+    })
+
+    it('should reject an unknown provider', () => {
+      expect(() => getBookProviders({ BOOK_PROVIDERS: 'simania,nope' })).toThrow('Unknown book provider: nope')
+    })
+  })
+
+  describe('Fixture provider', () => {
+    it('should find fixture books by title, author or ISBN without the network', async () => {
+      const byAuthor = await searchBooks('רואלד דאל')
+      expect(byAuthor.map((book) => book.title)).toEqual(['מטילדה'])
+      expect(byAuthor[0].source).toBe('Fixture')
+
+      const byIsbn = await searchBooks('978-0-14-241037-0')
+      expect(byIsbn.map((book) => book.title)).toEqual(['Matilda'])
+    })
+
+    it('should refuse a provider that is not configured', async () => {
+      await expect(searchBooks('Matilda', { provider: 'google' })).rejects.toThrow('Provider google is disabled')
+    })
+  })
+
+  describe('Timeouts', () => {
+    it('should give up on a slow provider and abort its request', async () => {
+      let aborted = false
+      registerBookProvider('slow', () => ({
+        name: 'slow',
+        displayName: 'Slow',
+        timeoutMs: 1000,
+        search: (query, { signal }) => new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            aborted = true
+          })
+          setTimeout(() => resolve([{ title: 'Too late' }]), 5000)
+        })
+      }))
+
+      const [slow] = getBookProviders({ BOOK_PROVIDERS: 'slow:20' })
+      expect(await searchProvider(slow, 'anything')).toEqual([])
+      expect(aborted).toBe(true)
+    })
+  })
+
+  describe('Merging results', () => {
+    it('should merge the same book from two providers, keeping the higher priority one', () => {
+      const merged = mergeProviderResults([
+        [{ title: 'Matilda', author: 'Roald Dahl', isbn: '0142410373', cover_image_url: null, source: 'Simania' }],
+        [
+          { title: 'Matilda (Puffin)', author: 'Dahl', isbn: '978-0-14-241037-0', cover_image_url: 'cover.jpg', source: 'Open Library' },
+          { title: 'The BFG', author: 'Roald Dahl', isbn: null, source: 'Open Library' }
+        ]
+      ])
+
+      expect(merged).toHaveLength(2)
+      expect(merged[0]).toMatchObject({
+        title: 'Matilda',
+        cover_image_url: 'cover.jpg',
+        source: 'Simania',
+        sources: ['Simania', 'Open Library']
+      })
+      expect(merged[1].title).toBe('The BFG')
+    })
+
+    it('should recognize a book without an ISBN by title and author', () => {
+      const merged = mergeProviderResults([
+        [{ title: 'הנסיך הקטן', author: 'אנטואן דה סנט-אכזופרי', pages: null, source: 'Simania' }],
+        [{ title: 'הנסיך הקטן', author: 'אנטואן דה סנט-אכזופרי', pages: 96, source: 'Fixture' }]
+      ])
+      expect(merged).toHaveLength(1)
+      expect(merged[0].pages).toBe(96)
+    })
+  })
+
+  describe('ISBN lookup', () => {
+    it('should only accept a result with the same ISBN', async () => {
+      registerBookProvider('isbn-test', () => ({
+        name: 'isbn-test',
+        displayName: 'ISBN test',
+        timeoutMs: 1000,
+        search: async () => [
+          { title: 'No ISBN', author: 'Someone', isbn: null },
+          { title: 'Matilda', author: 'Roald Dahl', isbn: '0-14-241037-3' }
+        ]
+      }))
+
+      const providers = process.env.BOOK_PROVIDERS
+      process.env.BOOK_PROVIDERS = 'isbn-test'
+      try {
+        expect((await searchBookByIsbn('9780142410370')).title).toBe('Matilda')
+        expect(await searchBookByIsbn('9780306406157')).toBeNull()
+      } finally {
+        process.env.BOOK_PROVIDERS = providers
+      }
+    })
+  })
+
+  describe('Open Library', () => {
+    it('should map a search document to a book result', () => {
+      const result = toOpenLibraryResult({
+        title: 'The Hobbit',
+        author_name: ['J.R.R. Tolkien'],
+        first_publish_year: 1937,
+        isbn: ['0261102214', '9780261102217'],
+        cover_i: 12345,
+        subject: ['Fantasy'],
+        language: ['eng']
+      })
+
+      expect(result).toMatchObject({
+        title: 'The Hobbit',
+        author: 'J.R.R. Tolkien',
+        publish_year: 1937,
+        isbn: '9780261102217',
+        cover_image_url: 'https://covers.openlibrary.org/b/id/12345-M.jpg',
+        genre: 'פנטזיה',
+        language: 'en',
+        source: 'Open Library'
+      })
+    })
+  })
+})
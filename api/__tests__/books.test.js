@@ -60,6 +60,33 @@ describe('Books API Endpoints', () => {
       expect(Array.isArray(response.body.books)).toBe(true)
     })
 
+    it('should page the list with a cursor and return the total', async () => {
+      const first = await request(app)
+        .get('/api/books?view=all&limit=1')
+        .expect(200)
+
+      expect(first.body.meta).toHaveProperty('total')
+      expect(first.body.books.length).toBeLessThanOrEqual(1)
+      expect(first.body.meta.hasMore).toBe(Boolean(first.body.meta.nextCursor))
+
+      if (first.body.meta.nextCursor) {
+        const next = await request(app)
+          .get(`/api/books?view=all&limit=1&cursor=${first.body.meta.nextCursor}`)
+          .expect(200)
+
+        expect(next.body.meta.total).toBe(first.body.meta.total)
+        expect(next.body.books[0]?.catalogId).not.toBe(first.body.books[0].catalogId)
+      }
+    })
+
+    it('should return 400 for an invalid cursor', async () => {
+      const response = await request(app)
+        .get('/api/books?view=all&cursor=not-a-cursor')
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
     it('should filter books by familyId', async () => {
       const response = await request(app)
         .get(`/api/books?familyId=${testFamilyId}`)
@@ -148,6 +175,71 @@ describe('Books API Endpoints', () => {
     })
   })
 
+  describe('GET /api/search', () => {
+    it('should return results with facet counts', async () => {
+      const response = await request(app)
+        .get('/api/search?q=Test&limit=5')
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(Array.isArray(response.body.results)).toBe(true)
+      expect(response.body.results.length).toBeLessThanOrEqual(5)
+      expect(typeof response.body.total).toBe('number')
+      expect(response.body.facets).toHaveProperty('genre')
+      expect(response.body.facets).toHaveProperty('family')
+    })
+
+    it('should page through results with nextOffset', async () => {
+      const first = await request(app)
+        .get('/api/search?limit=1')
+        .expect(200)
+
+      if (first.body.total > 1) {
+        expect(first.body.nextOffset).toBe(1)
+        const second = await request(app)
+          .get(`/api/search?limit=1&offset=${first.body.nextOffset}`)
+          .expect(200)
+        expect(second.body.results[0].catalogId).not.toBe(first.body.results[0].catalogId)
+      } else {
+        expect(first.body.nextOffset).toBeNull()
+      }
+    })
+  })
+
+  describe('GET /api/search-books/sources', () => {
+    it('should list the configured book providers', async () => {
+      const response = await request(app)
+        .get('/api/search-books/sources')
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.sources).toEqual([{ name: 'fixture', displayName: expect.any(String) }])
+    })
+  })
+
+  describe('GET /api/search-books/isbn/:isbn', () => {
+    it('should reject an invalid ISBN', async () => {
+      const response = await request(app)
+        .get('/api/search-books/isbn/1234567890123')
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body.error).toBe('Invalid ISBN')
+    })
+
+    it('should return the book or a JSON 404 for a valid ISBN', async () => {
+      const response = await request(app)
+        .get('/api/search-books/isbn/978-0-306-40615-7')
+        .expect('Content-Type', /json/)
+
+      expect([200, 404]).toContain(response.status)
+      expect(response.body.isbn).toBe('9780306406157')
+      if (response.status === 200) {
+        expect(response.body.result).toHaveProperty('title')
+      }
+    })
+  })
+
   describe('GET /api/books/:id', () => {
     it('should return book by ID', async () => {
       const response = await request(app)
@@ -303,6 +395,92 @@ describe('Books API Endpoints', () => {
     })
   })
 
+  describe('Multiple copies', () => {
+    let firstCopyId = null
+
+    beforeAll(async () => {
+      const response = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Two Copies ${Date.now()}`,
+          author: 'Copy Author',
+          family_id: testFamilyId
+        })
+        .expect(201)
+
+      firstCopyId = response.body.book.id
+      resourceManager.track('books', firstCopyId)
+    })
+
+    it('should return the existing copy when adding an owned book again', async () => {
+      const first = await request(app).get(`/api/books/${firstCopyId}`).expect(200)
+      const response = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({ title: first.body.book.title, author: 'Copy Author', family_id: testFamilyId })
+        .expect(201)
+
+      expect(response.body.book._alreadyOwned).toBe(true)
+      expect(response.body.book.id).toBe(firstCopyId)
+    })
+
+    it('should add a second copy with its own condition', async () => {
+      const response = await request(app)
+        .post(`/api/books/${firstCopyId}/copies`)
+        .set('x-user-id', testUserId)
+        .send({ condition: 'fair', notes: 'העותק של נועה' })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      resourceManager.track('books', response.body.book.id)
+      expect(response.body.book.id).not.toBe(firstCopyId)
+      expect(response.body.book.condition).toBe('fair')
+      expect(response.body.book.status).toBe('available')
+    })
+
+    it('should list the family copies oldest first', async () => {
+      const response = await request(app)
+        .get(`/api/books/${firstCopyId}/copies`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.copies.length).toBeGreaterThanOrEqual(2)
+      expect(response.body.copies[0].familyBookId).toBe(firstCopyId)
+      expect(response.body.copies[1]).toHaveProperty('loan', null)
+    })
+
+    it('should reject an unknown condition', async () => {
+      const response = await request(app)
+        .post(`/api/books/${firstCopyId}/copies`)
+        .set('x-user-id', testUserId)
+        .send({ condition: 'shiny' })
+        .expect(400)
+
+      expect(response.body.error).toContain('condition')
+    })
+
+    it('should list the editions of the book\'s work', async () => {
+      const response = await request(app)
+        .get(`/api/books/${firstCopyId}/editions`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      const current = response.body.editions.find((edition) => edition.isCurrent)
+      expect(current).toBeDefined()
+      expect(current.ownedByViewer).toBe(true)
+      expect(current.totalCopies).toBeGreaterThanOrEqual(2)
+    })
+
+    it('should return 404 for editions of an unknown book', async () => {
+      await request(app)
+        .get('/api/books/00000000-0000-0000-0000-000000000000/editions')
+        .expect(404)
+    })
+  })
+
   describe('DELETE /api/books/:id', () => {
     it('should delete book', async () => {
       // Create a book to delete
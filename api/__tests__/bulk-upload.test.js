@@ -327,5 +327,123 @@ describe('Bulk Upload API Endpoints', () => {
       }
     })
   })
+
+  describe('Library import', () => {
+    it('should require a file for the preview', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .post('/api/books/import/preview')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body.error).toContain('No file provided')
+    })
+
+    it('should reject files that are not CSV or JSON', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .post('/api/books/import/preview')
+        .set('x-user-id', testUserId)
+        .attach('file', Buffer.from('not a library'), 'library.xlsx')
+        .expect(400)
+
+      expect(response.body.error).toContain('Only CSV or JSON files')
+    })
+
+    it('should preview a CSV file', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const timestamp = Date.now()
+      const csv = `Title,Author\nImported Book ${timestamp},Import Author\n,No Title`
+
+      const response = await request(app)
+        .post('/api/books/import/preview')
+        .set('x-user-id', testUserId)
+        .attach('file', Buffer.from(csv), 'library.csv')
+        .expect(200)
+
+      expect(response.body.format).toBe('csv')
+      expect(response.body.mapping).toEqual({ title: 'Title', author: 'Author' })
+      expect(response.body.rows).toHaveLength(2)
+      expect(response.body.rows[1].issues).toContain('missing_title')
+    })
+
+    it('should match imported books against the catalog', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .post('/api/books/import/match')
+        .set('x-user-id', testUserId)
+        .send({ books: [{ title: `Imported Book ${Date.now()}`, author: 'Import Author' }, { title: '' }] })
+        .expect(200)
+
+      expect(response.body.matches).toEqual([null, null])
+    })
+
+    it('should limit matching to batches of 100', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const books = Array.from({ length: 101 }, (_, i) => ({ title: `Book ${i}` }))
+      const response = await request(app)
+        .post('/api/books/import/match')
+        .set('x-user-id', testUserId)
+        .send({ books })
+        .expect(400)
+
+      expect(response.body.error).toContain('Maximum 100 books')
+    })
+
+    it('should limit enrichment to small batches', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const books = Array.from({ length: 21 }, (_, i) => ({ title: `Book ${i}` }))
+      const response = await request(app)
+        .post('/api/books/import/enrich')
+        .set('x-user-id', testUserId)
+        .send({ books })
+        .expect(400)
+
+      expect(response.body.error).toContain('Maximum 20 books')
+    })
+
+    it('should import a batch of books', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const timestamp = Date.now()
+      const books = Array.from({ length: 3 }, (_, i) => ({
+        title: `Imported Book ${i} ${timestamp}`,
+        author: 'Import Author'
+      }))
+
+      const response = await request(app)
+        .post('/api/books/import')
+        .set('x-user-id', testUserId)
+        .send({ books })
+        .expect(200)
+
+      expect(response.body.added).toBe(3)
+      expect(response.body.failed).toBe(0)
+
+      for (const book of response.body.books) {
+        await request(app).delete(`/api/books/${book.id}`).set('x-user-id', testUserId)
+      }
+    })
+
+    it('should limit imports to bulk-add batches', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const books = Array.from({ length: 51 }, (_, i) => ({ title: `Book ${i}` }))
+      const response = await request(app)
+        .post('/api/books/import')
+        .set('x-user-id', testUserId)
+        .send({ books })
+        .expect(400)
+
+      expect(response.body.error).toContain('Maximum 50 books')
+    })
+  })
 })
 
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import { getSharedTestData } from './setup/testData.js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+// Helper to ensure test data exists
+const requireTestData = (data, message) => {
+  if (!data) {
+    throw new Error(`Test setup failed: ${message}`)
+  }
+}
+
+describe('Calendar API Endpoints', () => {
+  let testUserId = null
+  let feedPath = null
+
+  beforeAll(async () => {
+    const sharedData = getSharedTestData()
+    testUserId = sharedData.userId
+  })
+
+  afterAll(async () => {
+    if (testUserId) {
+      await request(app)
+        .delete('/api/calendar/feed')
+        .set('x-user-id', testUserId)
+    }
+  })
+
+  describe('Calendar feed token', () => {
+    it('should return 401 without authentication', async () => {
+      const response = await request(app)
+        .get('/api/calendar/feed')
+        .expect('Content-Type', /json/)
+        .expect(401)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should create a feed for the current user', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .post('/api/calendar/feed')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.feed.path).toMatch(/^\/api\/calendar\/[\w-]+\.ics$/)
+      feedPath = response.body.feed.path
+    })
+
+    it('should return the existing feed', async () => {
+      requireTestData(feedPath, 'feedPath is required')
+
+      const response = await request(app)
+        .get('/api/calendar/feed')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.feed.path).toBe(feedPath)
+    })
+  })
+
+  describe('GET /api/calendar/:token.ics', () => {
+    it('should serve an iCalendar document without login', async () => {
+      requireTestData(feedPath, 'feedPath is required')
+
+      const response = await request(app)
+        .get(feedPath)
+        .expect('Content-Type', /text\/calendar/)
+        .expect(200)
+
+      expect(response.text).toContain('BEGIN:VCALENDAR')
+      expect(response.text).toContain('END:VCALENDAR')
+    })
+
+    it('should stop serving the old link after the token is replaced', async () => {
+      requireTestData(feedPath, 'feedPath is required')
+
+      const response = await request(app)
+        .post('/api/calendar/feed')
+        .set('x-user-id', testUserId)
+        .expect(201)
+      expect(response.body.feed.path).not.toBe(feedPath)
+
+      await request(app)
+        .get(feedPath)
+        .expect(404)
+      feedPath = response.body.feed.path
+    })
+
+    it('should return 404 for an unknown token', async () => {
+      const response = await request(app)
+        .get('/api/calendar/not-a-real-token.ics')
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compareCatalogBooks,
+  findDuplicateCandidates,
+  suggestSurvivor
+} from '../../backend_shared_src/services/catalogDuplicates.js'
+
+const philosophersStone = {
+  id: 'a',
+  title: "Harry Potter and the Philosopher's Stone",
+  title_hebrew: 'הארי פוטר ואבן החכמים',
+  author: 'J.K. Rowling',
+  isbn: '9780747532699',
+  series_number: 1,
+  created_at: '2025-01-01T00:00:00Z'
+}
+
+describe('Catalog duplicate detection', () => {
+  it('should match a Hebrew record to its English record by title', () => {
+    const hebrew = { id: 'b', title: 'הארי פוטר ואבן החכמים', author: "ג'יי קיי רולינג", isbn: null, series_number: null }
+
+    const match = compareCatalogBooks(philosophersStone, hebrew)
+    expect(match).not.toBeNull()
+    expect(match.reasons).toEqual(expect.arrayContaining(['similar_title', 'missing_isbn', 'missing_series_number']))
+  })
+
+  it('should match records with the same ISBN in different forms', () => {
+    const isbn10 = { id: 'b', title: 'Harry Potter and the Philosophers Stone', author: 'JK Rowling', isbn: '0-7475-3269-9' }
+
+    const match = compareCatalogBooks(philosophersStone, isbn10)
+    expect(match.score).toBe(1)
+    expect(match.reasons).toContain('same_isbn')
+  })
+
+  it('should not match different volumes of a series or different authors', () => {
+    const secondBook = { ...philosophersStone, id: 'b', isbn: null, series_number: 2 }
+    expect(compareCatalogBooks(philosophersStone, secondBook)).toBeNull()
+
+    const matilda = { id: 'c', title: 'מטילדה', author: 'רואלד דאל' }
+    const otherMatilda = { id: 'd', title: 'מטילדה', author: 'שירה גפן' }
+    expect(compareCatalogBooks(matilda, otherMatilda)).toBeNull()
+  })
+
+  it('should skip editions already grouped under one work', () => {
+    const hebrew = { id: 'b', work_id: 'w1', title: 'הארי פוטר ואבן החכמים', author: "ג'יי קיי רולינג" }
+
+    expect(compareCatalogBooks({ ...philosophersStone, work_id: 'w1' }, hebrew)).toBeNull()
+    expect(compareCatalogBooks({ ...philosophersStone, work_id: 'w2' }, hebrew)).not.toBeNull()
+  })
+
+  it('should list each pair once, best score first', () => {
+    const books = [
+      philosophersStone,
+      { id: 'b', title: 'הארי פוטר ואבן החכמים', author: "ג'יי קיי רולינג" },
+      { id: 'c', title: 'Harry Potter and the Philosophers Stone', author: 'JK Rowling', isbn: '0747532699' },
+      { id: 'd', title: 'מטילדה', author: 'רואלד דאל' }
+    ]
+
+    // b and c share no title language, so only a (which has both titles) links them
+    const pairs = findDuplicateCandidates(books)
+    expect(pairs.map(({ a, b }) => `${a.id}-${b.id}`)).toEqual(['a-c', 'a-b'])
+    expect(findDuplicateCandidates(books, { limit: 1 })).toHaveLength(1)
+  })
+
+  it('should suggest keeping the record more families own', () => {
+    const sparse = { id: 'b', title: 'הארי פוטר ואבן החכמים', created_at: '2024-01-01T00:00:00Z' }
+
+    expect(suggestSurvivor(philosophersStone, sparse).id).toBe('a')
+    expect(suggestSurvivor(philosophersStone, sparse, new Map([['a', 1], ['b', 3]])).id).toBe('b')
+  })
+})
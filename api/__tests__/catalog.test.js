@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import request from 'supertest'
+import { createClient } from '@supabase/supabase-js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+)
+
+// Site admins come from SITE_ADMIN_USER_IDS; the first user found is made one for the admin tests
+async function findUser(isAdmin) {
+  const { data } = await supabase
+    .from('users')
+    .select('id, family_id')
+    .not('family_id', 'is', null)
+    .limit(2)
+  const [admin, other] = data || []
+  if (admin) process.env.SITE_ADMIN_USER_IDS = admin.id
+  return isAdmin ? admin : other
+}
+
+describe('Catalog API Endpoints', () => {
+  describe('GET /api/catalog/duplicates', () => {
+    it('should return 401 without authentication', async () => {
+      const response = await request(app)
+        .get('/api/catalog/duplicates')
+        .expect('Content-Type', /json/)
+        .expect(401)
+
+      expect(response.body.error).toBe('Authentication required')
+    })
+
+    it('should return 403 for a non-admin user', async () => {
+      const user = await findUser(false)
+      if (!user) {
+        console.log('⊘ Skipping test - no non-admin user available')
+        return
+      }
+
+      const response = await request(app)
+        .get('/api/catalog/duplicates')
+        .set('x-user-id', user.id)
+        .expect(403)
+
+      expect(response.body.error).toBe('Only admins can review catalog duplicates')
+    })
+
+    it('should list candidate pairs for an admin', async () => {
+      const admin = await findUser(true)
+      if (!admin) {
+        console.log('⊘ Skipping test - no admin user available')
+        return
+      }
+
+      const response = await request(app)
+        .get('/api/catalog/duplicates?limit=5')
+        .set('x-user-id', admin.id)
+        .expect(200)
+
+      expect(Array.isArray(response.body.candidates)).toBe(true)
+      expect(response.body.candidates.length).toBeLessThanOrEqual(5)
+      response.body.candidates.forEach((candidate) => {
+        expect(candidate.books).toHaveLength(2)
+        expect(candidate.books.map((book) => book.id)).toContain(candidate.suggestedSurvivorId)
+        expect(typeof candidate.books[0].copyCount).toBe('number')
+      })
+    })
+  })
+
+  describe('POST /api/catalog/merge', () => {
+    it('should return 401 without authentication', async () => {
+      await request(app)
+        .post('/api/catalog/merge')
+        .send({ survivor_id: 'a', duplicate_id: 'b' })
+        .expect(401)
+    })
+
+    it('should validate the request for an admin', async () => {
+      const admin = await findUser(true)
+      if (!admin) {
+        console.log('⊘ Skipping test - no admin user available')
+        return
+      }
+
+      const missing = await request(app)
+        .post('/api/catalog/merge')
+        .set('x-user-id', admin.id)
+        .send({ survivor_id: '00000000-0000-0000-0000-000000000000' })
+        .expect(400)
+      expect(missing.body.error).toBe('survivor_id and duplicate_id are required')
+
+      const notFound = await request(app)
+        .post('/api/catalog/merge')
+        .set('x-user-id', admin.id)
+        .send({
+          survivor_id: '00000000-0000-0000-0000-000000000000',
+          duplicate_id: '00000000-0000-0000-0000-000000000001'
+        })
+        .expect(404)
+      expect(notFound.body.error).toBe('Book not found')
+    })
+  })
+})
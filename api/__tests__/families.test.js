@@ -168,14 +168,81 @@ describe('Families API Endpoints', () => {
       expect(response.body.family.phone).toBe('9999999999')
     })
 
-    it('should return JSON error for non-existent family', async () => {
+    it('should update default loan period', async () => {
+      requireTestData(testFamilyId, 'testFamilyId is required')
+
+      const response = await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ default_loan_period_days: 21 })
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.family.default_loan_period_days).toBe(21)
+    })
+
+    it('should return JSON error for invalid default loan period', async () => {
+      requireTestData(testFamilyId, 'testFamilyId is required')
+
+      const response = await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ default_loan_period_days: 0 })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return JSON error for an invalid lending policy', async () => {
+      requireTestData(testFamilyId, 'testFamilyId is required')
+
+      const response = await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ max_loans_per_borrower: 0, allowed_borrower_family_ids: 'everyone' })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should save custom WhatsApp templates and drop empty ones', async () => {
+      requireTestData(testFamilyId, 'testFamilyId is required')
+
+      const response = await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ whatsapp_templates: { due_reminder: 'היי {family}, "{book}" עד {due_date}', general: '' } })
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.family.whatsapp_templates).toEqual({
+        due_reminder: 'היי {family}, "{book}" עד {due_date}',
+      })
+    })
+
+    it('should return JSON error for an unknown WhatsApp template', async () => {
+      requireTestData(testFamilyId, 'testFamilyId is required')
+
+      const response = await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ whatsapp_templates: { birthday: 'מזל טוב' } })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 for another family', async () => {
       const fakeId = '00000000-0000-0000-0000-000000000000'
       const response = await request(app)
         .put(`/api/families/${fakeId}`)
         .set('x-user-id', testUserId)
         .send({ phone: '8888888888' })
         .expect('Content-Type', /json/)
-        .expect(400)
+        .expect(403)
 
       expect(response.body).toHaveProperty('error')
     })
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildHighlights,
+  findMatchRanges,
+  normalizeHebrew
+} from '../../backend_shared_src/services/hebrewSearch.js'
+
+describe('Hebrew search normalization', () => {
+  it('should drop niqqud and map final letters to their regular form', () => {
+    expect(normalizeHebrew('שָׁלוֹם')).toBe(normalizeHebrew('שלומ'))
+    expect(normalizeHebrew('מלך')).toBe('מלכ')
+  })
+
+  it('should treat gershayim, quotes and no quotes the same', () => {
+    expect(normalizeHebrew('צה״ל')).toBe('צהל')
+    expect(normalizeHebrew('צה"ל')).toBe('צהל')
+  })
+
+  it('should lowercase, split on maqaf and punctuation and collapse spaces', () => {
+    expect(normalizeHebrew('  Harry   Potter: ספר־הבית! ')).toBe('harry potter ספר הבית')
+  })
+})
+
+describe('Search match ranges', () => {
+  it('should map a match back to the original text, niqqud included', () => {
+    const text = 'הַאֲרִי פּוֹטֶר'
+    const [[start, end]] = findMatchRanges(text, 'הארי')
+    expect(start).toBe(0)
+    expect(text.slice(start, end)).toBe('הַאֲרִי')
+  })
+
+  it('should match a query typed with a final letter mid-word', () => {
+    expect(findMatchRanges('המלכה', 'מלך')).toEqual([[1, 4]])
+  })
+
+  it('should highlight each query word when the whole query does not appear', () => {
+    const text = 'Harry Potter and the Chamber of Secrets'
+    const ranges = findMatchRanges(text, 'secrets potter')
+    expect(ranges.map(([start, end]) => text.slice(start, end))).toEqual(['Potter', 'Secrets'])
+  })
+
+  it('should highlight the closest word for a typo', () => {
+    const text = 'Harry Potter'
+    const ranges = findMatchRanges(text, 'Poter')
+    expect(ranges.map(([start, end]) => text.slice(start, end))).toEqual(['Potter'])
+  })
+
+  it('should return highlights only for fields that matched', () => {
+    const book = { title: 'Matilda', title_hebrew: 'מטילדה', author: 'Roald Dahl', author_hebrew: 'רואלד דאל' }
+    expect(buildHighlights(book, 'דאל', ['title', 'title_hebrew', 'author', 'author_hebrew'])).toEqual({
+      author_hebrew: [[6, 9]]
+    })
+  })
+})
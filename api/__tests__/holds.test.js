@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import { getSharedTestData } from './setup/testData.js'
+import { createClient } from '@supabase/supabase-js'
+import { resourceManager } from './setup/resourceManager.js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+// Helper to ensure test data exists
+const requireTestData = (data, message) => {
+  if (!data) {
+    throw new Error(`Test setup failed: ${message}`)
+  }
+}
+
+// Initialize Supabase for creating the owning family
+const supabase = createClient(
+  process.env.SUPABASE_URL,
+  process.env.SUPABASE_SERVICE_ROLE_KEY
+)
+
+describe('Holds API Endpoints', () => {
+  let testUserId = null
+  let testFamilyId = null
+  let ownerFamilyId = null
+  let ownedCatalogId = null
+  let otherCatalogId = null
+  let holdId = null
+
+  beforeAll(async () => {
+    const sharedData = getSharedTestData()
+    testUserId = sharedData.userId
+    testFamilyId = sharedData.familyId
+
+    // Create or find a family that owns the queued book
+    const { data: existingFamily } = await supabase
+      .from('families')
+      .select('id')
+      .eq('name', 'Holds Test Owner Family')
+      .maybeSingle()
+
+    if (existingFamily) {
+      ownerFamilyId = existingFamily.id
+    } else {
+      const { data: newFamily, error } = await supabase
+        .from('families')
+        .insert({ name: 'Holds Test Owner Family', phone: '3333333333' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating owner family:', error)
+        throw error
+      }
+
+      ownerFamilyId = newFamily.id
+      resourceManager.track('families', ownerFamilyId)
+    }
+
+    // A copy owned by the other family
+    const otherBook = await request(app)
+      .post('/api/books')
+      .set('x-user-id', testUserId)
+      .send({
+        title: `Hold Queue Test ${Date.now()}`,
+        author: 'Hold Author',
+        family_id: ownerFamilyId
+      })
+
+    if (otherBook.body.book) {
+      otherCatalogId = otherBook.body.book.book_catalog_id
+      resourceManager.track('books', otherBook.body.book.id)
+    }
+
+    // A copy owned by the test family
+    const ownBook = await request(app)
+      .post('/api/books')
+      .set('x-user-id', testUserId)
+      .send({
+        title: `Hold Queue Own Test ${Date.now()}`,
+        author: 'Hold Author',
+        family_id: testFamilyId
+      })
+
+    if (ownBook.body.book) {
+      ownedCatalogId = ownBook.body.book.book_catalog_id
+      resourceManager.track('books', ownBook.body.book.id)
+    }
+  })
+
+  afterAll(async () => {
+    await resourceManager.cleanup()
+  })
+
+  describe('POST /api/holds', () => {
+    it('should add the family to the queue', async () => {
+      requireTestData(otherCatalogId, 'otherCatalogId is required')
+
+      const response = await request(app)
+        .post('/api/holds')
+        .set('x-user-id', testUserId)
+        .send({ book_catalog_id: otherCatalogId })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body).toHaveProperty('hold')
+      // The copy is on the shelf, so the only family in line gets a claim right away
+      expect(response.body.hold.status).toBe('claimable')
+      expect(response.body.hold.claim_expires_at).toBeTruthy()
+
+      holdId = response.body.hold.id
+      resourceManager.track('holds', holdId)
+    })
+
+    it('should return 409 when the family is already in the queue', async () => {
+      requireTestData(holdId, 'holdId is required')
+
+      const response = await request(app)
+        .post('/api/holds')
+        .set('x-user-id', testUserId)
+        .send({ book_catalog_id: otherCatalogId })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 for a book the family owns', async () => {
+      requireTestData(ownedCatalogId, 'ownedCatalogId is required')
+
+      const response = await request(app)
+        .post('/api/holds')
+        .set('x-user-id', testUserId)
+        .send({ book_catalog_id: ownedCatalogId })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 for missing book_catalog_id', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .set('x-user-id', testUserId)
+        .send({})
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 404 for a non-existent book', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post('/api/holds')
+        .set('x-user-id', testUserId)
+        .send({ book_catalog_id: fakeId })
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 401 without authentication', async () => {
+      const response = await request(app)
+        .post('/api/holds')
+        .send({ book_catalog_id: otherCatalogId })
+        .expect('Content-Type', /json/)
+        .expect(401)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('GET /api/holds', () => {
+    it('should return the queue for a book', async () => {
+      requireTestData(holdId, 'holdId is required')
+
+      const response = await request(app)
+        .get(`/api/holds?bookCatalogId=${otherCatalogId}`)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(Array.isArray(response.body.holds)).toBe(true)
+      expect(response.body.holds.some((hold) => hold.id === holdId)).toBe(true)
+    })
+
+    it('should return 400 without a filter', async () => {
+      const response = await request(app)
+        .get('/api/holds')
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('POST /api/holds/:id/claim', () => {
+    it('should turn the claim into a pending loan request', async () => {
+      requireTestData(holdId, 'holdId is required')
+
+      const response = await request(app)
+        .post(`/api/holds/${holdId}/claim`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.hold.status).toBe('fulfilled')
+      expect(response.body.loan.status).toBe('pending')
+      expect(response.body.loan.borrower_family_id).toBe(testFamilyId)
+      resourceManager.track('loans', response.body.loan.id)
+    })
+
+    it('should return 409 when cancelling a fulfilled hold', async () => {
+      requireTestData(holdId, 'holdId is required')
+
+      const response = await request(app)
+        .delete(`/api/holds/${holdId}`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 404 for a non-existent hold', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post(`/api/holds/${fakeId}/claim`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+})
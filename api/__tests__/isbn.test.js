@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeIsbn, toIsbn10, toIsbn13, isbnVariants } from '../../backend_shared_src/services/isbn.js'
+
+describe('ISBN helpers', () => {
+  it('should normalize hyphenated and spaced ISBNs', () => {
+    expect(normalizeIsbn('978-0-306-40615-7')).toBe('9780306406157')
+    expect(normalizeIsbn(' 0 306 40615 2 ')).toBe('0306406152')
+    expect(normalizeIsbn('080442957x')).toBe('080442957X')
+  })
+
+  it('should reject bad check digits and non-book barcodes', () => {
+    expect(normalizeIsbn('9780306406158')).toBeNull()
+    expect(normalizeIsbn('0306406153')).toBeNull()
+    // EAN-13 of a non-book product
+    expect(normalizeIsbn('7290000066318')).toBeNull()
+    expect(normalizeIsbn('')).toBeNull()
+    expect(normalizeIsbn(undefined)).toBeNull()
+  })
+
+  it('should convert between ISBN-10 and ISBN-13', () => {
+    expect(toIsbn13('0306406152')).toBe('9780306406157')
+    expect(toIsbn10('9780306406157')).toBe('0306406152')
+    expect(toIsbn10('9791090636071')).toBeNull()
+  })
+
+  it('should list both forms for catalog matching', () => {
+    expect(isbnVariants('0306406152')).toEqual(['9780306406157', '0306406152'])
+    expect(isbnVariants('9791090636071')).toEqual(['9791090636071'])
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeImportFile,
+  enrichImportedBook,
+  parseCsv,
+  parseLibraryImport,
+  suggestMapping
+} from '../../backend_shared_src/services/libraryImport.js'
+
+const GOODREADS_HEADER = 'Book Id,Title,Author,Author l-f,Additional Authors,ISBN,ISBN13,My Rating,Average Rating,Publisher,Binding,Number of Pages,Year Published,Original Publication Year,Date Read,Date Added,Bookshelves,Bookshelves with positions,Exclusive Shelf'
+
+describe('Library import', () => {
+  describe('CSV parsing', () => {
+    it('should handle quoted fields, escaped quotes and line breaks inside quotes', () => {
+      const rows = parseCsv('﻿Title,Notes\r\n"Matilda, the book","She said ""hi""\nand left"\r\n\r\nThe BFG,')
+      expect(rows).toEqual([
+        ['Title', 'Notes'],
+        ['Matilda, the book', 'She said "hi"\nand left'],
+        ['The BFG', '']
+      ])
+    })
+
+    it('should detect a semicolon delimiter', () => {
+      expect(parseCsv('שם;מחבר\nמטילדה;רואלד דאל')).toEqual([['שם', 'מחבר'], ['מטילדה', 'רואלד דאל']])
+    })
+
+    it('should decode Windows-1255 files saved by Excel', () => {
+      const buffer = Buffer.from([0xf9, 0xed]) // "שם"
+      expect(decodeImportFile(buffer)).toBe('שם')
+      expect(decodeImportFile(Buffer.from('שם', 'utf8'))).toBe('שם')
+    })
+  })
+
+  describe('Formats', () => {
+    it('should read the My Books CSV export', () => {
+      const csv = [
+        '"Title","Author","Series","Series Number","Genre","Age Range","Status","Copies","Owner"',
+        '"הארי פוטר ואבן החכמים","ג\'יי קיי רולינג","הארי פוטר","1","פנטזיה","10-12","Available","1","כהן"'
+      ].join('\n')
+      const { format, rows } = parseLibraryImport(csv)
+
+      expect(format).toBe('shelf-csv')
+      expect(rows[0].book).toMatchObject({
+        title: 'הארי פוטר ואבן החכמים',
+        author: "ג'יי קיי רולינג",
+        series: 'הארי פוטר',
+        series_number: 1,
+        genre: 'פנטזיה',
+        age_range: '10-12'
+      })
+      expect(rows[0].issues).toEqual([])
+    })
+
+    it('should read the My Books JSON export', () => {
+      const json = JSON.stringify([{
+        title: 'מטילדה',
+        author: 'רואלד דאל',
+        series: '',
+        seriesNumber: null,
+        genre: 'ילדים',
+        ageRange: '7-9',
+        coverImageUrl: 'https://example.com/matilda.jpg',
+        availableCopies: 1,
+        totalCopies: 1,
+        owners: []
+      }])
+      const { format, mapping, rows } = parseLibraryImport(json)
+
+      expect(format).toBe('json')
+      expect(mapping).toMatchObject({ title: 'title', series_number: 'seriesNumber', age_range: 'ageRange', cover_image_url: 'coverImageUrl' })
+      expect(rows[0].book).toMatchObject({
+        title: 'מטילדה',
+        series: null,
+        age_range: '7-9',
+        cover_image_url: 'https://example.com/matilda.jpg'
+      })
+    })
+
+    it('should read a Goodreads export, with series from the title and spreadsheet ISBNs', () => {
+      const csv = [
+        GOODREADS_HEADER,
+        '1,"Harry Potter and the Philosopher\'s Stone (Harry Potter, #1)",J.K. Rowling,"Rowling, J.K.",,"=""0747532699""","=""9780747532699""",5,4.47,Bloomsbury,Hardcover,223,1997,1997,,2024/01/01,,,read',
+        '2,Matilda,Roald Dahl,"Dahl, Roald",,"=""""","=""""",0,4.33,Puffin,Paperback,240,2007,1988,,2024/01/02,to-read,to-read (#1),to-read'
+      ].join('\n')
+      const { format, rows } = parseLibraryImport(csv)
+
+      expect(format).toBe('goodreads')
+      expect(rows[0].book).toMatchObject({
+        title: "Harry Potter and the Philosopher's Stone",
+        series: 'Harry Potter',
+        series_number: 1,
+        isbn: '9780747532699',
+        publish_year: 1997,
+        pages: 223
+      })
+      expect(rows[1].book.isbn).toBeNull()
+      expect(rows[1].book.publish_year).toBe(1988)
+      expect(rows[1].issues).toEqual(['to_read'])
+    })
+
+    it('should map a generic CSV by the chosen columns', () => {
+      const csv = 'Name,Writer,Code,Shelf\nמטילדה,רואלד דאל,978-0-14-241037-0,A\n,Nobody,123,B'
+      expect(suggestMapping(['Name', 'Writer', 'Code', 'Shelf'])).toEqual({ title: 'Name', author: 'Writer' })
+
+      const { format, mapping, rows } = parseLibraryImport(csv, {
+        mapping: { title: 'Name', author: 'Writer', isbn: 'Code', series: 'Missing column' }
+      })
+      expect(format).toBe('csv')
+      expect(mapping).toEqual({ title: 'Name', author: 'Writer', isbn: 'Code' })
+      expect(rows[0].book.isbn).toBe('9780142410370')
+      expect(rows[1].issues).toEqual(['invalid_isbn', 'missing_title'])
+    })
+
+    it('should recognize Hebrew column names', () => {
+      expect(suggestMapping(['שם הספר', 'מחבר', 'מסת"ב', 'מו"ל', 'ז\'אנר'])).toEqual({
+        title: 'שם הספר',
+        author: 'מחבר',
+        isbn: 'מסת"ב',
+        genre: 'ז\'אנר',
+        publisher: 'מו"ל'
+      })
+    })
+
+    it('should reject empty, malformed and unknown-format files', () => {
+      expect(() => parseLibraryImport('Title,Author\n')).toThrow('No books found in file')
+      expect(() => parseLibraryImport('[{"title": ')).toThrow('Invalid JSON file')
+      expect(() => parseLibraryImport('{"title": "x"}')).toThrow('JSON file must contain a list of books')
+      expect(() => parseLibraryImport('Title\nx', { format: 'excel' })).toThrow('Unknown import format: excel')
+    })
+  })
+
+  describe('Enrichment', () => {
+    it('should fill in missing fields from the providers and keep the file\'s values', async () => {
+      const { book, source } = await enrichImportedBook({
+        title: 'Matilda',
+        author: 'Roald Dahl',
+        isbn: '9780142410370',
+        genre: 'ילדים',
+        pages: null
+      })
+      expect(source).toBe('Fixture')
+      expect(book).toMatchObject({ title: 'Matilda', genre: 'ילדים', pages: 240, publisher: 'Puffin' })
+    })
+
+    it('should leave a book nobody knows as it is', async () => {
+      const original = { title: 'ספר שלא קיים בשום מקום', author: null, isbn: null }
+      expect(await enrichImportedBook(original)).toEqual({ book: original, source: null })
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest'
 import request from 'supertest'
+import { randomUUID } from 'crypto'
 import { getSharedTestData } from './setup/testData.js'
 import { createClient } from '@supabase/supabase-js'
 import { resourceManager } from './setup/resourceManager.js'
@@ -20,6 +21,22 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY
 )
 
+// Lend another family's copy to the test family - only the owning family can do it through the API
+const lendToFamily = async (familyBookId, borrowerFamilyId, requesterUserId) => {
+  const dueDate = new Date()
+  dueDate.setDate(dueDate.getDate() + 14)
+  const { data, error } = await supabase.rpc('create_loan', {
+    p_id: null,
+    p_family_book_id: familyBookId,
+    p_borrower_family_id: borrowerFamilyId,
+    p_requester_user_id: requesterUserId,
+    p_due_date: dueDate.toISOString(),
+    p_notes: null
+  })
+  if (error) throw error
+  return data.loan
+}
+
 describe('Loans API Endpoints', () => {
   let testUserId = null
   let testFamilyId = null
@@ -187,13 +204,24 @@ describe('Loans API Endpoints', () => {
       requireTestData(testBookId, 'testBookId is required')
       requireTestData(borrowerFamilyId, 'borrowerFamilyId is required')
 
+      // testBookId is already on loan, so lend a fresh copy
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Create Loan Test ${Date.now()}`,
+          author: 'Create Author',
+          family_id: testFamilyId
+        })
+      const bookId = bookResponse.body.book.id
+      resourceManager.track('books', bookId)
+
       const response = await request(app)
         .post('/api/loans')
         .set('x-user-id', testUserId)
         .send({
-          family_book_id: testBookId,
+          family_book_id: bookId,
           borrower_family_id: borrowerFamilyId,
-          owner_family_id: testFamilyId,
           requester_user_id: testUserId,
           status: 'active'
         })
@@ -202,10 +230,93 @@ describe('Loans API Endpoints', () => {
 
       expect(response.body).toHaveProperty('loan')
       expect(response.body.loan).toHaveProperty('id')
+      expect(response.body.loan.due_date).toBeTruthy()
       
       resourceManager.track('loans', response.body.loan.id)
     })
 
+    it('should reject a second active loan on the same copy', async () => {
+      requireTestData(testLoanId, 'testLoanId is required')
+
+      const response = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({
+          family_book_id: testBookId,
+          borrower_family_id: borrowerFamilyId,
+          owner_family_id: testFamilyId,
+          requester_user_id: testUserId
+        })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return the same loan when a client loan id is sent again', async () => {
+      requireTestData(borrowerFamilyId, 'borrowerFamilyId is required')
+
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Idempotent Loan Test ${Date.now()}`,
+          author: 'Retry Author',
+          family_id: testFamilyId
+        })
+      const bookId = bookResponse.body.book.id
+      resourceManager.track('books', bookId)
+
+      const payload = {
+        id: randomUUID(),
+        family_book_id: bookId,
+        borrower_family_id: borrowerFamilyId,
+        owner_family_id: testFamilyId,
+        requester_user_id: testUserId
+      }
+      const first = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send(payload)
+        .expect(201)
+      resourceManager.track('loans', first.body.loan.id)
+
+      const retry = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send(payload)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(retry.body.loan.id).toBe(payload.id)
+
+      const { count } = await supabase
+        .from('loans')
+        .select('id', { count: 'exact', head: true })
+        .eq('family_book_id', bookId)
+      expect(count).toBe(1)
+    })
+
+    it('should return JSON error for invalid due_date', async () => {
+      requireTestData(testBookId, 'testBookId is required')
+      requireTestData(borrowerFamilyId, 'borrowerFamilyId is required')
+
+      const response = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({
+          family_book_id: testBookId,
+          borrower_family_id: borrowerFamilyId,
+          owner_family_id: testFamilyId,
+          requester_user_id: testUserId,
+          due_date: 'not-a-date'
+        })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
     it('should return JSON error for missing required fields', async () => {
       const response = await request(app)
         .post('/api/loans')
@@ -286,6 +397,19 @@ describe('Loans API Endpoints', () => {
   })
 
   describe('PUT /api/loans/:id', () => {
+    it('should not cancel a loan that was handed over', async () => {
+      requireTestData(testLoanId, 'testLoanId is required')
+
+      const response = await request(app)
+        .put(`/api/loans/${testLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ status: 'cancelled' })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
     it('should update loan status', async () => {
       requireTestData(testLoanId, 'testLoanId is required')
 
@@ -350,6 +474,32 @@ describe('Loans API Endpoints', () => {
       expect(bookCheck.body.book.status).toBe('available')
     })
 
+    it('should only change the status through the request endpoints', async () => {
+      requireTestData(testLoanId, 'testLoanId is required')
+
+      const response = await request(app)
+        .put(`/api/loans/${testLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ status: 'approved' })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body.error).toContain('approved')
+    })
+
+    it('should reject changes to the families on a loan', async () => {
+      requireTestData(testLoanId, 'testLoanId is required')
+
+      const response = await request(app)
+        .put(`/api/loans/${testLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ borrower_family_id: testFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body.error).toContain('borrower_family_id')
+    })
+
     it('should return JSON error for non-existent loan', async () => {
       const fakeId = '00000000-0000-0000-0000-000000000000'
       const response = await request(app)
@@ -362,4 +512,776 @@ describe('Loans API Endpoints', () => {
       expect(response.body).toHaveProperty('error')
     })
   })
+
+  describe('Loan request workflow', () => {
+    let otherFamilyBookId = null
+    let requestLoanId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      // A copy owned by the other family so the shared test user can request it
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Loan Request Test ${Date.now()}`,
+          author: 'Request Author',
+          family_id: borrowerFamilyId
+        })
+
+      if (bookResponse.body.book) {
+        otherFamilyBookId = bookResponse.body.book.id
+        resourceManager.track('books', otherFamilyBookId)
+      }
+    })
+
+    it('should create a pending request for another family\'s copy', async () => {
+      requireTestData(otherFamilyBookId, 'otherFamilyBookId is required')
+
+      const response = await request(app)
+        .post('/api/loans/requests')
+        .set('x-user-id', testUserId)
+        .send({ family_book_id: otherFamilyBookId })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.loan.status).toBe('pending')
+      expect(response.body.loan.borrower_family_id).toBe(testFamilyId)
+      expect(response.body.loan.owner_family_id).toBe(borrowerFamilyId)
+
+      requestLoanId = response.body.loan.id
+      resourceManager.track('loans', requestLoanId)
+    })
+
+    it('should not change book status while the request is pending', async () => {
+      requireTestData(otherFamilyBookId, 'otherFamilyBookId is required')
+
+      const bookCheck = await request(app)
+        .get(`/api/books/${otherFamilyBookId}`)
+        .expect(200)
+
+      expect(bookCheck.body.book.status).toBe('available')
+    })
+
+    it('should reject a duplicate open request with 409', async () => {
+      requireTestData(requestLoanId, 'requestLoanId is required')
+
+      const response = await request(app)
+        .post('/api/loans/requests')
+        .set('x-user-id', testUserId)
+        .send({ family_book_id: otherFamilyBookId })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 when a non-owner tries to approve', async () => {
+      requireTestData(requestLoanId, 'requestLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${requestLoanId}/approve`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 when a non-owner lends the copy directly', async () => {
+      requireTestData(otherFamilyBookId, 'otherFamilyBookId is required')
+
+      const response = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({ family_book_id: otherFamilyBookId, borrower_family_id: testFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 when the borrower marks the loan returned', async () => {
+      requireTestData(requestLoanId, 'requestLoanId is required')
+
+      const response = await request(app)
+        .put(`/api/loans/${requestLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ status: 'returned' })
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should let the requesting family cancel its request', async () => {
+      requireTestData(requestLoanId, 'requestLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${requestLoanId}/cancel`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.loan.status).toBe('cancelled')
+    })
+
+    it('should return 409 when cancelling an already cancelled request', async () => {
+      requireTestData(requestLoanId, 'requestLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${requestLoanId}/cancel`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 when requesting a book your family owns', async () => {
+      requireTestData(testBookId, 'testBookId is required')
+
+      const response = await request(app)
+        .post('/api/loans/requests')
+        .set('x-user-id', testUserId)
+        .send({ family_book_id: testBookId })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 for missing family_book_id', async () => {
+      const response = await request(app)
+        .post('/api/loans/requests')
+        .set('x-user-id', testUserId)
+        .send({})
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 401 without authentication', async () => {
+      const response = await request(app)
+        .post('/api/loans/requests')
+        .send({ family_book_id: otherFamilyBookId })
+        .expect('Content-Type', /json/)
+        .expect(401)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 404 for a non-existent loan', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post(`/api/loans/${fakeId}/approve`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('Loan renewals', () => {
+    let renewalLoanId = null
+    let renewalId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      // The shared test family borrows a copy owned by the other family
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Loan Renewal Test ${Date.now()}`,
+          author: 'Renewal Author',
+          family_id: borrowerFamilyId
+        })
+      if (!bookResponse.body.book) return
+      resourceManager.track('books', bookResponse.body.book.id)
+
+      const loan = await lendToFamily(bookResponse.body.book.id, testFamilyId, testUserId)
+      renewalLoanId = loan.id
+      resourceManager.track('loans', renewalLoanId)
+    })
+
+    it('should let the borrowing family request a renewal', async () => {
+      requireTestData(renewalLoanId, 'renewalLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${renewalLoanId}/renewals`)
+        .set('x-user-id', testUserId)
+        .send({ extra_days: 7 })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.renewal.status).toBe('pending')
+      renewalId = response.body.renewal.id
+    })
+
+    it('should return 409 while another renewal is pending', async () => {
+      requireTestData(renewalId, 'renewalId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${renewalLoanId}/renewals`)
+        .set('x-user-id', testUserId)
+        .send({ extra_days: 7 })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 when the borrower tries to approve', async () => {
+      requireTestData(renewalId, 'renewalId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${renewalLoanId}/renewals/${renewalId}/approve`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should reject direct due date edits', async () => {
+      requireTestData(renewalLoanId, 'renewalLoanId is required')
+
+      const dueDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+      const response = await request(app)
+        .put(`/api/loans/${renewalLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ due_date: dueDate })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body.error).toMatch(/renewal/)
+    })
+
+    it('should return 403 when the owner requests a renewal', async () => {
+      requireTestData(testLoanId, 'testLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${testLoanId}/renewals`)
+        .set('x-user-id', testUserId)
+        .send({ extra_days: 7 })
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 for invalid extra_days', async () => {
+      requireTestData(renewalLoanId, 'renewalLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${renewalLoanId}/renewals`)
+        .set('x-user-id', testUserId)
+        .send({ extra_days: 0 })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 404 for a non-existent loan', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post(`/api/loans/${fakeId}/renewals`)
+        .set('x-user-id', testUserId)
+        .send({ extra_days: 7 })
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('Loan pass-on', () => {
+    let passOnLoanId = null
+    let nextFamilyId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      // A third family to hand the book to
+      const { data: existingFamily } = await supabase
+        .from('families')
+        .select('id')
+        .eq('name', 'Loans Test Next Family')
+        .maybeSingle()
+
+      if (existingFamily) {
+        nextFamilyId = existingFamily.id
+      } else {
+        const { data: newFamily } = await supabase
+          .from('families')
+          .insert({ name: 'Loans Test Next Family', phone: '4444444444' })
+          .select()
+          .single()
+        if (newFamily) {
+          nextFamilyId = newFamily.id
+          resourceManager.track('families', nextFamilyId)
+        }
+      }
+
+      // The shared test family borrows a copy owned by the other family
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Loan Pass-On Test ${Date.now()}`,
+          author: 'Pass-On Author',
+          family_id: borrowerFamilyId
+        })
+      if (!bookResponse.body.book) return
+      resourceManager.track('books', bookResponse.body.book.id)
+
+      const loan = await lendToFamily(bookResponse.body.book.id, testFamilyId, testUserId)
+      passOnLoanId = loan.id
+      resourceManager.track('loans', passOnLoanId)
+    })
+
+    it('should return 400 when passing on to the owner', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on`)
+        .set('x-user-id', testUserId)
+        .send({ next_family_id: borrowerFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 without a next family when nobody is waiting', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on`)
+        .set('x-user-id', testUserId)
+        .send({})
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should let the borrowing family propose a pass-on', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+      requireTestData(nextFamilyId, 'nextFamilyId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on`)
+        .set('x-user-id', testUserId)
+        .send({ next_family_id: nextFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.loan.pass_on_family_id).toBe(nextFamilyId)
+      expect(['active', 'overdue']).toContain(response.body.loan.status)
+    })
+
+    it('should return 409 while a pass-on is pending', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on`)
+        .set('x-user-id', testUserId)
+        .send({ next_family_id: nextFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(409)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 403 when the borrower tries to approve', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on/approve`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should let the borrowing family withdraw the pass-on', async () => {
+      requireTestData(passOnLoanId, 'passOnLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${passOnLoanId}/pass-on/decline`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.loan.pass_on_family_id).toBeNull()
+    })
+
+    it('should return 404 for a non-existent loan', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post(`/api/loans/${fakeId}/pass-on`)
+        .set('x-user-id', testUserId)
+        .send({ next_family_id: nextFamilyId })
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('Loan condition records', () => {
+    let conditionLoanId = null
+    let conditionBookId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Loan Condition Test ${Date.now()}`,
+          author: 'Condition Author',
+          family_id: testFamilyId
+        })
+      if (!bookResponse.body.book) return
+      conditionBookId = bookResponse.body.book.id
+      resourceManager.track('books', conditionBookId)
+
+      const loanResponse = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({
+          family_book_id: conditionBookId,
+          borrower_family_id: borrowerFamilyId,
+          owner_family_id: testFamilyId,
+          requester_user_id: testUserId
+        })
+      if (loanResponse.body.loan) {
+        conditionLoanId = loanResponse.body.loan.id
+        resourceManager.track('loans', conditionLoanId)
+      }
+    })
+
+    it('should record the condition at check-out', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${conditionLoanId}/condition`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'checkout', condition: 'good', notes: 'Small crease on the cover' })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.record.kind).toBe('checkout')
+      expect(response.body.record.condition).toBe('good')
+      expect(response.body.record.photo_paths).toEqual([])
+
+      const { data: copy } = await supabase
+        .from('family_books')
+        .select('condition')
+        .eq('id', conditionBookId)
+        .single()
+      expect(copy.condition).toBe('good')
+    })
+
+    it('should return 400 for an unknown condition', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${conditionLoanId}/condition`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'checkin', condition: 'shredded' })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should return 400 for an unknown kind', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${conditionLoanId}/condition`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'damage', condition: 'poor' })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should list the condition records of a loan', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .get(`/api/loans/${conditionLoanId}/condition`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(Array.isArray(response.body.records)).toBe(true)
+      expect(response.body.records.length).toBeGreaterThan(0)
+      expect(response.body.records[0]).toHaveProperty('photo_urls')
+    })
+
+    it('should return 400 for a damage report without details', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${conditionLoanId}/damage-report`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'damage' })
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should mark the copy unavailable on a damage report', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${conditionLoanId}/damage-report`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'damage', condition: 'poor', notes: 'Water damage on the last pages' })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.record.kind).toBe('damage')
+      expect(response.body.record.loan_id).toBe(conditionLoanId)
+      expect(response.body.book.status).toBe('unavailable')
+    })
+
+    it('should keep a damaged copy unavailable when the loan is returned', async () => {
+      requireTestData(conditionLoanId, 'conditionLoanId is required')
+
+      await request(app)
+        .put(`/api/loans/${conditionLoanId}`)
+        .set('x-user-id', testUserId)
+        .send({ status: 'returned', return_date: new Date().toISOString() })
+        .expect(200)
+
+      const { data: copy } = await supabase
+        .from('family_books')
+        .select('status')
+        .eq('id', conditionBookId)
+        .single()
+      expect(copy.status).toBe('unavailable')
+    })
+
+    it('should return 404 for a non-existent loan', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .post(`/api/loans/${fakeId}/damage-report`)
+        .set('x-user-id', testUserId)
+        .send({ kind: 'loss' })
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('Lending policy', () => {
+    let policyBookId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Lending Policy Test ${Date.now()}`,
+          author: 'Policy Author',
+          family_id: testFamilyId
+        })
+      if (bookResponse.body.book) {
+        policyBookId = bookResponse.body.book.id
+        resourceManager.track('books', policyBookId)
+      }
+
+      // Lend only to a family other than the borrower, for at most 7 days
+      await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ allowed_borrower_family_ids: [testFamilyId], max_loan_period_days: 7 })
+    })
+
+    afterAll(async () => {
+      await request(app)
+        .put(`/api/families/${testFamilyId}`)
+        .set('x-user-id', testUserId)
+        .send({ allowed_borrower_family_ids: null, max_loan_period_days: null })
+    })
+
+    it('should return 400 without a book and a borrower', async () => {
+      const response = await request(app)
+        .get('/api/loans/policy-check')
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should explain policy violations before a loan is created', async () => {
+      requireTestData(policyBookId, 'policyBookId is required')
+
+      const dueDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
+      const response = await request(app)
+        .get(`/api/loans/policy-check?family_book_id=${policyBookId}&borrower_family_id=${borrowerFamilyId}&due_date=${dueDate}`)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.allowed).toBe(false)
+      const codes = response.body.violations.map((violation) => violation.code)
+      expect(codes).toContain('borrower_not_allowed')
+      expect(codes).toContain('max_loan_period')
+    })
+
+    it('should reject a loan that breaks the policy', async () => {
+      requireTestData(policyBookId, 'policyBookId is required')
+
+      const response = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({
+          family_book_id: policyBookId,
+          borrower_family_id: borrowerFamilyId,
+          owner_family_id: testFamilyId,
+          requester_user_id: testUserId
+        })
+        .expect('Content-Type', /json/)
+        .expect(403)
+
+      expect(response.body).toHaveProperty('error')
+      expect(response.body.violations.length).toBeGreaterThan(0)
+    })
+
+    it('should return 404 for a non-existent book', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .get(`/api/loans/policy-check?family_book_id=${fakeId}&borrower_family_id=${borrowerFamilyId}`)
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
+
+  describe('Loan events', () => {
+    let eventsLoanId = null
+    let eventsBookId = null
+
+    beforeAll(async () => {
+      if (!borrowerFamilyId) return
+
+      const bookResponse = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `Loan Events Test ${Date.now()}`,
+          author: 'Events Author',
+          family_id: testFamilyId
+        })
+      if (!bookResponse.body.book) return
+      eventsBookId = bookResponse.body.book.id
+      resourceManager.track('books', eventsBookId)
+
+      const loanResponse = await request(app)
+        .post('/api/loans')
+        .set('x-user-id', testUserId)
+        .send({
+          family_book_id: eventsBookId,
+          borrower_family_id: borrowerFamilyId,
+          owner_family_id: testFamilyId,
+          requester_user_id: testUserId
+        })
+      if (loanResponse.body.loan) {
+        eventsLoanId = loanResponse.body.loan.id
+        resourceManager.track('loans', eventsLoanId)
+      }
+    })
+
+    it('should record a hand-over event when a loan is created', async () => {
+      requireTestData(eventsLoanId, 'eventsLoanId is required')
+
+      const response = await request(app)
+        .get(`/api/loans/${eventsLoanId}/events`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      const types = response.body.events.map((event) => event.event_type)
+      expect(types).toContain('handed_over')
+    })
+
+    it('should list the events of a copy', async () => {
+      requireTestData(eventsBookId, 'eventsBookId is required')
+
+      const response = await request(app)
+        .get(`/api/loans/events?familyBookId=${eventsBookId}`)
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.events.length).toBeGreaterThan(0)
+      expect(response.body.events.every((event) => event.family_book_id === eventsBookId)).toBe(true)
+    })
+
+    it('should require sign-in to read the events', async () => {
+      requireTestData(eventsLoanId, 'eventsLoanId is required')
+
+      await request(app)
+        .get(`/api/loans/${eventsLoanId}/events`)
+        .expect('Content-Type', /json/)
+        .expect(401)
+    })
+
+    it('should return 400 for a dispute without a reason', async () => {
+      requireTestData(eventsLoanId, 'eventsLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${eventsLoanId}/dispute`)
+        .set('x-user-id', testUserId)
+        .send({})
+        .expect('Content-Type', /json/)
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should add a dispute to the timeline', async () => {
+      requireTestData(eventsLoanId, 'eventsLoanId is required')
+
+      const response = await request(app)
+        .post(`/api/loans/${eventsLoanId}/dispute`)
+        .set('x-user-id', testUserId)
+        .send({ reason: 'The book came back without its dust jacket' })
+        .expect('Content-Type', /json/)
+        .expect(201)
+
+      expect(response.body.event.event_type).toBe('disputed')
+      expect(response.body.event.details.reason).toBe('The book came back without its dust jacket')
+    })
+
+    it('should return 404 for a non-existent loan', async () => {
+      const fakeId = '00000000-0000-0000-0000-000000000000'
+      const response = await request(app)
+        .get(`/api/loans/${fakeId}/events`)
+        .expect('Content-Type', /json/)
+        .expect(404)
+
+      expect(response.body).toHaveProperty('error')
+    })
+  })
 })
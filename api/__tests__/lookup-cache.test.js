@@ -0,0 +1,133 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  createLookupCache,
+  lookupCacheKey,
+  LOOKUP_TTL_MS,
+  NOT_FOUND_TTL_MS
+} from '../../backend_shared_src/services/lookupCache.js'
+import { searchBookDetails, setLookupCache } from '../../backend_shared_src/services/bookSearch.js'
+
+// book_lookup_cache in memory, with get_book_lookup()'s expiry and counters
+function memoryStore(now) {
+  const entries = new Map()
+  const metrics = { hits: 0, negativeHits: 0, misses: 0 }
+  return {
+    entries,
+    metrics,
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry || new Date(entry.expires_at).getTime() <= now()) {
+        metrics.misses++
+        return null
+      }
+      if (entry.found) metrics.hits++
+      else metrics.negativeHits++
+      return { result: entry.result, found: entry.found }
+    },
+    async set(entry) {
+      entries.set(entry.cache_key, entry)
+    }
+  }
+}
+
+function setup() {
+  const clock = { time: Date.parse('2026-10-18T12:00:00Z') }
+  const now = () => clock.time
+  const store = memoryStore(now)
+  return { clock, store, cache: createLookupCache(store, { now }) }
+}
+
+describe('Book lookup cache', () => {
+  afterEach(() => {
+    setLookupCache(null)
+  })
+
+  it('should answer a repeated lookup from the cache', async () => {
+    const { store, cache } = setup()
+    let calls = 0
+    const lookup = async () => {
+      calls++
+      return { title: 'מטילדה' }
+    }
+
+    expect(await cache.cached('details', { title: 'מטילדה', author: '' }, lookup)).toEqual({ title: 'מטילדה' })
+    expect(await cache.cached('details', { title: 'מטילדה', author: '' }, lookup)).toEqual({ title: 'מטילדה' })
+    expect(calls).toBe(1)
+    expect(store.metrics).toEqual({ hits: 1, negativeHits: 0, misses: 1 })
+  })
+
+  it('should keep "nothing found" for a shorter time', async () => {
+    const { clock, store, cache } = setup()
+    let calls = 0
+    const lookup = async () => {
+      calls++
+      return null
+    }
+
+    await cache.cached('isbn', { isbn: '9780000000002' }, lookup)
+    const [entry] = store.entries.values()
+    expect(entry.found).toBe(false)
+    expect(new Date(entry.expires_at).getTime()).toBe(clock.time + NOT_FOUND_TTL_MS)
+
+    await cache.cached('isbn', { isbn: '9780000000002' }, lookup)
+    expect(calls).toBe(1)
+    expect(store.metrics.negativeHits).toBe(1)
+
+    clock.time += NOT_FOUND_TTL_MS
+    await cache.cached('isbn', { isbn: '9780000000002' }, lookup)
+    expect(calls).toBe(2)
+  })
+
+  it('should look a book up again once its entry expires', async () => {
+    const { clock, cache } = setup()
+    let calls = 0
+    const lookup = async () => [{ title: `Matilda ${++calls}` }]
+
+    await cache.cached('search', { query: 'Matilda' }, lookup)
+    clock.time += LOOKUP_TTL_MS - 1
+    expect(await cache.cached('search', { query: 'Matilda' }, lookup)).toEqual([{ title: 'Matilda 1' }])
+
+    clock.time += 1
+    expect(await cache.cached('search', { query: 'Matilda' }, lookup)).toEqual([{ title: 'Matilda 2' }])
+  })
+
+  it('should not cache a lookup that failed', async () => {
+    const { store, cache } = setup()
+    await expect(cache.cached('details', { title: 'x' }, async () => {
+      throw new Error('Simania is down')
+    })).rejects.toThrow('Simania is down')
+    expect(store.entries.size).toBe(0)
+  })
+
+  it('should still look books up when the cache is unavailable', async () => {
+    const failing = {
+      get: async () => {
+        throw Object.assign(new Error('relation "book_lookup_cache" does not exist'), { code: '42P01' })
+      },
+      set: async () => {
+        throw new Error('should not be called once the cache is disabled')
+      }
+    }
+    const cache = createLookupCache(failing)
+    expect(await cache.cached('details', { title: 'x' }, async () => ({ title: 'x' }))).toEqual({ title: 'x' })
+  })
+
+  it('should key lookups by their normalized text', () => {
+    expect(lookupCacheKey('details', { title: 'שָׁלוֹם  עֲלֵיכֶם', author: 'שלום-עליכם' }))
+      .toBe(lookupCacheKey('details', { title: 'שלומ עליכמ', author: 'שלום עליכם' }))
+    expect(lookupCacheKey('isbn', { isbn: '978-0-14-241037-0' })).toBe('isbn:9780142410370')
+    expect(lookupCacheKey('search', { query: 'Matilda', provider: 'auto', maxResults: 10 }))
+      .not.toBe(lookupCacheKey('search', { query: 'Matilda', provider: 'auto', maxResults: 5 }))
+  })
+
+  it('should cache book detail lookups made through the book search', async () => {
+    const { store, cache } = setup()
+    setLookupCache(cache)
+
+    const first = await searchBookDetails('מטילדה', 'רואלד דאל')
+    const second = await searchBookDetails('מְטִילְדָה', 'רואלד דאל')
+    expect(first.title).toBe('מטילדה')
+    expect(second).toEqual(first)
+    expect(store.metrics).toEqual({ hits: 1, negativeHits: 0, misses: 1 })
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import { getSharedTestData } from './setup/testData.js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+// Helper to ensure test data exists
+const requireTestData = (data, message) => {
+  if (!data) {
+    throw new Error(`Test setup failed: ${message}`)
+  }
+}
+
+describe('Notifications API Endpoints', () => {
+  let testUserId = null
+
+  beforeAll(async () => {
+    const sharedData = getSharedTestData()
+    testUserId = sharedData.userId
+  })
+
+  afterAll(async () => {
+    // Leave the shared test user with every notification type on
+    if (testUserId) {
+      await request(app)
+        .put('/api/notifications/preferences')
+        .set('x-user-id', testUserId)
+        .send({ preferences: { new_review: true } })
+      await request(app)
+        .put('/api/notifications/digest')
+        .set('x-user-id', testUserId)
+        .send({ frequency: 'daily', quiet_hours_start: null, quiet_hours_end: null })
+    }
+  })
+
+  describe('Notification list', () => {
+    it('should return 401 without authentication', async () => {
+      const response = await request(app)
+        .get('/api/notifications')
+        .expect('Content-Type', /json/)
+        .expect(401)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should list the current user notifications', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .get('/api/notifications')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(Array.isArray(response.body.notifications)).toBe(true)
+      expect(typeof response.body.unread_count).toBe('number')
+    })
+
+    it('should return the unread count', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .get('/api/notifications/unread-count')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(typeof response.body.count).toBe('number')
+    })
+
+    it('should mark all notifications as read', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      await request(app)
+        .post('/api/notifications/read-all')
+        .set('x-user-id', testUserId)
+        .expect(200)
+
+      const response = await request(app)
+        .get('/api/notifications/unread-count')
+        .set('x-user-id', testUserId)
+        .expect(200)
+
+      expect(response.body.count).toBe(0)
+    })
+
+    it('should return 404 when marking an unknown notification as read', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      await request(app)
+        .post('/api/notifications/00000000-0000-0000-0000-000000000000/read')
+        .set('x-user-id', testUserId)
+        .expect(404)
+    })
+  })
+
+  describe('Notification preferences', () => {
+    it('should return every type with a default of on', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .get('/api/notifications/preferences')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.preferences).toHaveProperty('loan_request')
+      expect(response.body.preferences).toHaveProperty('hold_claimable')
+    })
+
+    it('should turn a type off and keep the others', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .put('/api/notifications/preferences')
+        .set('x-user-id', testUserId)
+        .send({ preferences: { new_review: false } })
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.preferences.new_review).toBe(false)
+      expect(response.body.preferences.loan_request).toBe(true)
+    })
+
+    it('should reject unknown types', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .put('/api/notifications/preferences')
+        .set('x-user-id', testUserId)
+        .send({ preferences: { newsletter: true } })
+        .expect(400)
+
+      expect(response.body).toHaveProperty('error')
+    })
+
+    it('should reject non-boolean values', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      await request(app)
+        .put('/api/notifications/preferences')
+        .set('x-user-id', testUserId)
+        .send({ preferences: { overdue: 'yes' } })
+        .expect(400)
+    })
+  })
+
+  describe('Reminder digest settings', () => {
+    it('should return the digest settings', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .get('/api/notifications/digest')
+        .set('x-user-id', testUserId)
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(['off', 'daily', 'weekly']).toContain(response.body.digest.frequency)
+    })
+
+    it('should update frequency and quiet hours', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      const response = await request(app)
+        .put('/api/notifications/digest')
+        .set('x-user-id', testUserId)
+        .send({ frequency: 'weekly', quiet_hours_start: 22, quiet_hours_end: 7 })
+        .expect('Content-Type', /json/)
+        .expect(200)
+
+      expect(response.body.digest).toMatchObject({
+        frequency: 'weekly',
+        quiet_hours_start: 22,
+        quiet_hours_end: 7,
+      })
+    })
+
+    it('should reject an unknown frequency', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      await request(app)
+        .put('/api/notifications/digest')
+        .set('x-user-id', testUserId)
+        .send({ frequency: 'hourly' })
+        .expect(400)
+    })
+
+    it('should reject half a quiet window', async () => {
+      requireTestData(testUserId, 'testUserId is required')
+
+      await request(app)
+        .put('/api/notifications/digest')
+        .set('x-user-id', testUserId)
+        .send({ quiet_hours_start: 22 })
+        .expect(400)
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect, afterAll } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  buildReminderDigest,
+  isDigestDue,
+  isInQuietHours,
+} from '../../backend_shared_src/services/reminderDigest.js'
+import { createEmailChannel, registerEmailChannel } from '../../backend_shared_src/services/emailChannels.js'
+
+// 10:00 in Jerusalem (UTC+3 in October)
+const NOW = new Date('2026-10-18T07:00:00Z')
+const FAMILY_ID = 'family-a'
+
+const makeLoan = (overrides = {}) => ({
+  id: 'loan-1',
+  status: 'active',
+  due_date: '2026-10-19T12:00:00Z',
+  owner_family_id: 'family-b',
+  borrower_family_id: FAMILY_ID,
+  family_books: { book_catalog: { title: 'Matilda', title_hebrew: 'מטילדה' } },
+  owner_family: { name: 'כהן' },
+  borrower_family: { name: 'לוי' },
+  ...overrides,
+})
+
+const user = { id: 'user-1', email: 'parent@example.com', full_name: 'דנה', family_id: FAMILY_ID }
+
+describe('Reminder digests', () => {
+  describe('Quiet hours', () => {
+    it('should handle a window within the day', () => {
+      expect(isInQuietHours(13, 12, 16)).toBe(true)
+      expect(isInQuietHours(16, 12, 16)).toBe(false)
+    })
+
+    it('should handle a window past midnight', () => {
+      expect(isInQuietHours(23, 22, 7)).toBe(true)
+      expect(isInQuietHours(3, 22, 7)).toBe(true)
+      expect(isInQuietHours(10, 22, 7)).toBe(false)
+    })
+
+    it('should never be quiet without a window', () => {
+      expect(isInQuietHours(3, null, null)).toBe(false)
+    })
+  })
+
+  describe('Schedule', () => {
+    it('should send a first daily digest', () => {
+      expect(isDigestDue({ ...user, digest_frequency: 'daily' }, NOW)).toBe(true)
+    })
+
+    it('should not send when turned off', () => {
+      expect(isDigestDue({ ...user, digest_frequency: 'off' }, NOW)).toBe(false)
+    })
+
+    it('should not send before the send hour', () => {
+      expect(isDigestDue({ ...user, digest_frequency: 'daily' }, new Date('2026-10-18T02:00:00Z'))).toBe(false)
+    })
+
+    it('should not send during quiet hours', () => {
+      const quiet = { ...user, digest_frequency: 'daily', digest_quiet_start: 9, digest_quiet_end: 12 }
+      expect(isDigestDue(quiet, NOW)).toBe(false)
+    })
+
+    it('should send once per day or week', () => {
+      const sentYesterday = '2026-10-17T07:00:00Z'
+      const sentToday = '2026-10-18T05:00:00Z'
+      expect(isDigestDue({ ...user, digest_frequency: 'daily', digest_last_sent_at: sentToday }, NOW)).toBe(false)
+      expect(isDigestDue({ ...user, digest_frequency: 'daily', digest_last_sent_at: sentYesterday }, NOW)).toBe(true)
+      expect(isDigestDue({ ...user, digest_frequency: 'weekly', digest_last_sent_at: sentYesterday }, NOW)).toBe(false)
+    })
+  })
+
+  describe('Digest content', () => {
+    it('should return null when nothing is due soon', () => {
+      const digest = buildReminderDigest({
+        user,
+        loans: [makeLoan({ due_date: '2026-11-30T12:00:00Z' })],
+        now: NOW,
+      })
+      expect(digest).toBeNull()
+    })
+
+    it('should list borrowed and lent books', () => {
+      const digest = buildReminderDigest({
+        user,
+        loans: [
+          makeLoan(),
+          makeLoan({
+            id: 'loan-2',
+            status: 'overdue',
+            due_date: '2026-10-10T12:00:00Z',
+            owner_family_id: FAMILY_ID,
+            borrower_family_id: 'family-c',
+          }),
+        ],
+        appUrl: 'https://library.example.com',
+        now: NOW,
+      })
+
+      expect(digest.to).toBe('parent@example.com')
+      expect(digest.loanIds).toEqual(['loan-2', 'loan-1'])
+      expect(digest.subject).toContain('באיחור')
+      expect(digest.text).toContain('ספרים שצריך להחזיר')
+      expect(digest.text).toContain('ספרים שהשאלתם')
+      expect(digest.text).toContain('https://library.example.com/profile')
+      expect(digest.html).toContain('dir="rtl"')
+    })
+  })
+
+  describe('Email channels', () => {
+    let outboxDir = null
+
+    afterAll(async () => {
+      if (outboxDir) {
+        await rm(outboxDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should default to the console channel without SMTP settings', () => {
+      expect(createEmailChannel({}).name).toBe('console')
+    })
+
+    it('should write messages to the outbox with the file channel', async () => {
+      outboxDir = await mkdtemp(path.join(tmpdir(), 'digest-outbox-'))
+      const channel = createEmailChannel({ EMAIL_CHANNEL: 'file', EMAIL_OUTBOX_DIR: outboxDir })
+
+      await channel.send({ to: 'parent@example.com', subject: 'תזכורת', text: 'שלום' })
+
+      const files = await readdir(outboxDir)
+      expect(files).toHaveLength(1)
+      const message = JSON.parse(await readFile(path.join(outboxDir, files[0]), 'utf8'))
+      expect(message).toMatchObject({ to: 'parent@example.com', subject: 'תזכורת' })
+    })
+
+    it('should use a registered channel', async () => {
+      const sent = []
+      registerEmailChannel('memory', () => ({ name: 'memory', send: async (message) => sent.push(message) }))
+
+      await createEmailChannel({ EMAIL_CHANNEL: 'memory' }).send({ to: 'a@example.com', subject: 's', text: 't' })
+      expect(sent).toHaveLength(1)
+    })
+
+    it('should reject an unknown channel', () => {
+      expect(() => createEmailChannel({ EMAIL_CHANNEL: 'pigeon' })).toThrow('Unknown email channel')
+    })
+  })
+})
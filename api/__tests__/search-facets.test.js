@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectLanguage,
+  searchRecords,
+  toSearchRecord
+} from '../../backend_shared_src/services/searchFacets.js'
+
+const copy = (id, familyId, status = 'available', name = `Family ${familyId}`) =>
+  ({ id, family_id: familyId, status, families: { name } })
+
+const books = [
+  {
+    id: 'matilda',
+    title: 'מטילדה',
+    author: 'Roald Dahl',
+    author_hebrew: 'רואלד דאל',
+    author_id: 'dahl',
+    genre: 'ילדים',
+    age_level: '8-12',
+    year_published: 1988,
+    family_books: [copy('c1', 'f1'), copy('c2', 'f2', 'on_loan')]
+  },
+  {
+    id: 'bfg',
+    title: 'The BFG',
+    author: 'Roald Dahl',
+    author_id: 'dahl',
+    genre: 'ילדים',
+    age_level: '8-12',
+    year_published: 1982,
+    family_books: [copy('c3', 'f2', 'on_loan')]
+  },
+  {
+    id: 'potter',
+    title: 'הארי פוטר ואבן החכמים',
+    author: 'J.K. Rowling',
+    author_id: 'rowling',
+    genre: 'פנטזיה',
+    series: 'Harry Potter',
+    series_number: 1,
+    year_published: 1997,
+    family_books: [copy('c4', 'f1')]
+  }
+]
+
+const records = books.map((book) => toSearchRecord(book, 'f1'))
+const titlesOf = (results) => results.map((record) => record.book.id)
+const countOf = (facet, value) => facet.find((entry) => entry.value === value)?.count
+
+describe('Search facets', () => {
+  it('should detect the language from the title script', () => {
+    expect(detectLanguage({ title: 'מטילדה' })).toBe('he')
+    expect(detectLanguage({ title: 'The BFG' })).toBe('en')
+    expect(detectLanguage({ title: '1984' })).toBe('other')
+  })
+
+  it('should filter by several facets and a year range', () => {
+    const { results } = searchRecords(records, { author: ['dahl'], language: ['he'], yearFrom: 1985 })
+    expect(titlesOf(results)).toEqual(['matilda'])
+  })
+
+  it('should match any of the selected values of a facet', () => {
+    const { results } = searchRecords(records, { genre: ['ילדים', 'פנטזיה'] })
+    expect(results).toHaveLength(3)
+  })
+
+  it('should count each facet over the books matching the other facets', () => {
+    const { facets } = searchRecords(records, { genre: ['פנטזיה'] })
+    // Selecting a genre keeps the other genres' counts
+    expect(countOf(facets.genre, 'ילדים')).toBe(2)
+    expect(countOf(facets.genre, 'פנטזיה')).toBe(1)
+    // Other facets count only the selected genre
+    expect(facets.author).toEqual([{ value: 'rowling', label: 'J.K. Rowling', count: 1 }])
+  })
+
+  it('should skip counting facets when asked to', () => {
+    const { results, facets } = searchRecords(records, { genre: ['פנטזיה'] }, { withFacets: false })
+    expect(results).toHaveLength(1)
+    expect(facets).toBeNull()
+  })
+
+  it('should count availability, owning families and decades per book', () => {
+    const { facets } = searchRecords(records, {})
+    expect(countOf(facets.availability, 'available')).toBe(2)
+    expect(countOf(facets.availability, 'on_loan')).toBe(1)
+    expect(countOf(facets.family, 'f2')).toBe(2)
+    expect(facets.family.find((entry) => entry.value === 'f1').label).toBe('Family f1')
+    expect(facets.decade.map((entry) => entry.value)).toEqual(['1990', '1980'])
+  })
+
+  it('should mark the books the viewer family owns', () => {
+    expect(records.filter((record) => record.ownedByViewer).map((record) => record.book.id)).toEqual(['matilda', 'potter'])
+  })
+
+  it('should sort by search rank for relevance', () => {
+    const ranks = new Map([['bfg', 2.5], ['potter', 1.1]])
+    const { results } = searchRecords(records, {}, { sort: 'relevance', ranks })
+    expect(titlesOf(results)).toEqual(['bfg', 'potter', 'matilda'])
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildSeriesOverview,
+  normalizeSeriesName
+} from '../../backend_shared_src/services/seriesTracker.js'
+
+const copy = (id, familyId, status = 'available', name = `משפחת ${familyId}`) => ({
+  id,
+  family_id: familyId,
+  status,
+  families: { name }
+})
+
+const volume = (id, number, familyBooks = [], extra = {}) => ({
+  id,
+  work_id: `work-${id}`,
+  title: `Volume ${number}`,
+  title_hebrew: null,
+  series: 'הארי פוטר',
+  series_number: number,
+  family_books: familyBooks,
+  ...extra
+})
+
+describe('Series tracker', () => {
+  it('should order volumes and list the missing numbers', () => {
+    const books = [
+      volume('c3', 3, [copy('fb3', 'other')]),
+      volume('c1', 1, [copy('fb1', 'mine')]),
+      volume('c5', 5)
+    ]
+
+    const { volumes, missingNumbers } = buildSeriesOverview(books, { familyId: 'mine' })
+    expect(volumes.map((v) => v.number)).toEqual([1, 3, 5])
+    expect(missingNumbers).toEqual([2, 4])
+    expect(volumes[0].ownedByFamily).toBe(true)
+    expect(volumes[1].holders[0]).toMatchObject({ familyName: 'משפחת other', isViewerFamily: false })
+    expect(volumes[2].totalCopies).toBe(0)
+  })
+
+  it('should group editions of a volume and count reading any edition', () => {
+    const books = [
+      volume('c1', 1, [copy('fb1', 'other')]),
+      volume('c1-he', 1, [copy('fb2', 'other', 'on_loan')], { work_id: 'work-c1' })
+    ]
+
+    const { volumes } = buildSeriesOverview(books, { familyId: 'mine', readWorkIds: new Set(['work-c1']) })
+    expect(volumes).toHaveLength(1)
+    expect(volumes[0].editions).toHaveLength(2)
+    expect(volumes[0].availableCopies).toBe(1)
+    expect(volumes[0].read).toBe(true)
+  })
+
+  it('should suggest the first unread volume with a copy to borrow', () => {
+    const books = [
+      volume('c1', 1, [copy('fb1', 'mine')]),
+      volume('c2', 2, [copy('fb2', 'other', 'on_loan'), copy('fb3', 'third')]),
+      volume('c3', 3, [copy('fb4', 'other')])
+    ]
+
+    const { nextVolume } = buildSeriesOverview(books, { familyId: 'mine' })
+    expect(nextVolume).toMatchObject({ number: 2, status: 'available', catalogId: 'c2' })
+    expect(nextVolume.copy.familyBookId).toBe('fb3')
+  })
+
+  it('should report the next volume as on loan or missing', () => {
+    const onLoan = buildSeriesOverview(
+      [volume('c1', 1, [copy('fb1', 'mine')]), volume('c2', 2, [copy('fb2', 'other', 'on_loan')])],
+      { familyId: 'mine' }
+    )
+    expect(onLoan.nextVolume).toMatchObject({ number: 2, status: 'on_loan', copy: null })
+
+    const missing = buildSeriesOverview(
+      [volume('c1', 1, [copy('fb1', 'mine')]), volume('c3', 3, [copy('fb3', 'other')])],
+      { familyId: 'mine', readCatalogIds: new Set() }
+    )
+    expect(missing.nextVolume).toMatchObject({ number: 2, status: 'missing' })
+  })
+
+  it('should keep volumes without a number apart', () => {
+    const { volumes, unnumbered, nextVolume } = buildSeriesOverview(
+      [volume('c1', 1, [copy('fb1', 'mine')]), volume('cx', null)],
+      { familyId: 'mine' }
+    )
+    expect(volumes).toHaveLength(1)
+    expect(unnumbered).toHaveLength(1)
+    expect(nextVolume).toBeNull()
+  })
+
+  it('should compare series names without case and spacing', () => {
+    expect(normalizeSeriesName('  Harry   Potter ')).toBe(normalizeSeriesName('harry potter'))
+  })
+})
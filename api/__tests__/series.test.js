@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import request from 'supertest'
+import { getSharedTestData } from './setup/testData.js'
+import { resourceManager } from './setup/resourceManager.js'
+
+const appModule = await import('../index.js')
+const app = appModule.default
+
+describe('Series API Endpoints', () => {
+  let testUserId = null
+  let testFamilyId = null
+  const seriesName = `Test Series ${Date.now()}`
+
+  beforeAll(async () => {
+    const sharedData = getSharedTestData()
+    testUserId = sharedData.userId
+    testFamilyId = sharedData.familyId
+
+    // Volumes 1 and 3 - volume 2 is missing
+    for (const number of [1, 3]) {
+      const response = await request(app)
+        .post('/api/books')
+        .set('x-user-id', testUserId)
+        .send({
+          title: `${seriesName} Volume ${number}`,
+          author: 'Series Author',
+          series: seriesName,
+          series_number: number,
+          family_id: testFamilyId,
+        })
+        .expect(201)
+
+      resourceManager.track('books', response.body.book.id)
+    }
+  })
+
+  afterAll(async () => {
+    await resourceManager.cleanup()
+  })
+
+  it('should list the volumes of a series and the missing ones', async () => {
+    const response = await request(app)
+      .get(`/api/series/${encodeURIComponent(seriesName)}`)
+      .set('x-user-id', testUserId)
+      .expect(200)
+
+    const { series } = response.body
+    expect(series.volumes.map((volume) => volume.number)).toEqual([1, 3])
+    expect(series.missingNumbers).toEqual([2])
+    expect(series.volumes.every((volume) => volume.ownedByFamily)).toBe(true)
+    expect(series.nextVolume).toMatchObject({ number: 2, status: 'missing' })
+  })
+
+  it('should include the series in the family\'s series', async () => {
+    const response = await request(app)
+      .get('/api/series')
+      .set('x-user-id', testUserId)
+      .expect(200)
+
+    const summary = response.body.series.find((item) => item.name === seriesName)
+    expect(summary).toBeDefined()
+    expect(summary.ownedVolumes).toBe(2)
+    expect(summary.missingNumbers).toEqual([2])
+  })
+
+  it('should return 404 for an unknown series', async () => {
+    await request(app)
+      .get(`/api/series/${encodeURIComponent(`No Such Series ${Date.now()}`)}`)
+      .expect(404)
+  })
+
+  it('should require authentication for the family\'s series', async () => {
+    await request(app)
+      .get('/api/series')
+      .expect(401)
+  })
+})
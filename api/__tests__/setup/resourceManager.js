@@ -4,6 +4,7 @@ class TestResourceManager {
   constructor() {
     this.resources = {
       books: new Set(),
+      holds: new Set(),
       loans: new Set(),
       reviews: new Set(),
       users: new Set(),
@@ -31,6 +32,18 @@ class TestResourceManager {
     console.log('🧹 Cleaning up test resources...')
     
     // Delete in order of dependency (e.g. loans before books)
+
+    // 0. Hold queue entries
+    if (this.resources.holds.size > 0) {
+      const { error } = await this.supabase
+        .from('book_holds')
+        .delete()
+        .in('id', Array.from(this.resources.holds))
+
+      if (error) console.error('Error cleaning holds:', error)
+      else console.log(`✓ Cleaned ${this.resources.holds.size} holds`)
+      this.resources.holds.clear()
+    }
     
     // 1. Loans
     if (this.resources.loans.size > 0) {
@@ -0,0 +1,101 @@
+/**
+ * Vercel Serverless Function: Expire Hold Claims
+ *
+ * Purpose: Expire hold-queue claims that were not picked up in time and
+ *          reserve the copy for the next waiting family
+ * Trigger: Scheduled via vercel.json cron (every hour)
+ * Method: GET /api/cron/expire-hold-claims
+ *
+ * Authentication: Vercel CRON_SECRET header
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+// Verify cron secret
+function verifyCron(req) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+module.exports = async (req, res) => {
+  const startTime = Date.now();
+
+  // Only accept GET requests from Vercel cron
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Verify cron authentication
+  if (!verifyCron(req)) {
+    console.warn('[expire-hold-claims] Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    console.log('[expire-hold-claims] Checking for expired hold claims...');
+
+    // The API's own hold queue, so the claim window and notification stay the same
+    const { offerCopyToNextHold } = await import('../../backend_shared_src/services/holdQueue.js');
+
+    // Initialize Supabase client
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const now = new Date().toISOString();
+
+    const { data: expiredHolds, error: updateError } = await supabase
+      .from('book_holds')
+      .update({ status: 'expired', updated_at: now })
+      .eq('status', 'claimable')
+      .lt('claim_expires_at', now)
+      .select('id, claim_family_book_id');
+
+    if (updateError) {
+      console.error('[expire-hold-claims] Update error:', updateError);
+      return res.status(500).json({
+        error: 'Update failed',
+        details: updateError.message
+      });
+    }
+
+    // Pass each freed copy down the queue
+    let reassigned = 0;
+    for (const hold of expiredHolds || []) {
+      if (!hold.claim_family_book_id) continue;
+      try {
+        const nextHold = await offerCopyToNextHold(hold.claim_family_book_id);
+        if (nextHold) reassigned++;
+      } catch (error) {
+        console.error(`[expire-hold-claims] Failed to reassign copy ${hold.claim_family_book_id}:`, error.message);
+      }
+    }
+
+    const expired = expiredHolds?.length || 0;
+    const duration = Date.now() - startTime;
+    console.log(`[expire-hold-claims] Complete: ${expired} claims expired, ${reassigned} copies reassigned in ${duration}ms`);
+
+    return res.status(200).json({
+      message: expired > 0 ? 'Hold claim check completed' : 'No expired hold claims found',
+      expired,
+      reassigned,
+      duration_ms: duration
+    });
+
+  } catch (error) {
+    console.error('[expire-hold-claims] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Hold claim check failed',
+      details: error.message,
+      duration_ms: Date.now() - startTime
+    });
+  }
+};
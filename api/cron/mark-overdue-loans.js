@@ -0,0 +1,180 @@
+/**
+ * Vercel Serverless Function: Mark Overdue Loans
+ * 
+ * Purpose: Find active loans past their due date and mark them as overdue,
+ *          and send due-soon / overdue notifications
+ * Trigger: Scheduled via vercel.json cron (every hour)
+ * Method: GET /api/cron/mark-overdue-loans
+ * 
+ * Authentication: Vercel CRON_SECRET header
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+// Verify cron secret
+function verifyCron(req) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+  
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+// Borrowers get a reminder this long before the due date
+const DUE_SOON_HOURS = 48;
+
+const LOAN_SELECT = 'id, family_book_id, borrower_family_id, owner_family_id, due_date, family_books!family_book_id(book_catalog(title, title_hebrew))';
+
+function bookTitle(loan) {
+  const catalog = loan.family_books?.book_catalog;
+  return catalog?.title_hebrew || catalog?.title || 'ספר';
+}
+
+function formatDate(value) {
+  return new Date(value).toLocaleDateString('he-IL', { timeZone: 'Asia/Jerusalem' });
+}
+
+/**
+ * In-app notification for a family through notify_family() (respects user preferences;
+ * the dedupe key keeps hourly runs from notifying twice). Failures are logged, not thrown.
+ */
+async function notifyFamily(supabase, familyId, notification) {
+  const { error } = await supabase.rpc('notify_family', {
+    p_family_id: familyId,
+    p_type: notification.type,
+    p_title: notification.title,
+    p_body: notification.body,
+    p_link: '/loans',
+    p_data: { loan_id: notification.loanId },
+    p_dedupe_key: notification.dedupeKey
+  });
+
+  if (error) {
+    console.error(`[mark-overdue-loans] Could not notify family ${familyId}:`, error.message);
+  }
+}
+
+module.exports = async (req, res) => {
+  const startTime = Date.now();
+  
+  // Only accept GET requests from Vercel cron
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  // Verify cron authentication
+  if (!verifyCron(req)) {
+    console.warn('[mark-overdue-loans] Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    console.log('[mark-overdue-loans] Checking for overdue loans...');
+
+    // Initialize Supabase client
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const now = new Date().toISOString();
+
+    // Flip every active loan past its due date in a single update
+    const { data: overdueLoans, error: updateError } = await supabase
+      .from('loans')
+      .update({ status: 'overdue' })
+      .eq('status', 'active')
+      .not('due_date', 'is', null)
+      .lt('due_date', now)
+      .select(LOAN_SELECT);
+
+    if (updateError) {
+      console.error('[mark-overdue-loans] Update error:', updateError);
+      return res.status(500).json({
+        error: 'Update failed',
+        details: updateError.message
+      });
+    }
+
+    const marked = overdueLoans?.length || 0;
+
+    // Ledger entries for the status change (system action, no actor)
+    if (marked > 0) {
+      const { error: eventsError } = await supabase
+        .from('loan_events')
+        .insert(overdueLoans.map((loan) => ({
+          loan_id: loan.id,
+          family_book_id: loan.family_book_id,
+          event_type: 'overdue',
+          details: { due_date: loan.due_date }
+        })));
+
+      if (eventsError) {
+        console.error('[mark-overdue-loans] Could not record overdue events:', eventsError.message);
+      }
+    }
+
+    for (const loan of overdueLoans || []) {
+      const dedupeKey = `overdue:${loan.id}:${loan.due_date}`;
+      await notifyFamily(supabase, loan.borrower_family_id, {
+        type: 'overdue',
+        title: `"${bookTitle(loan)}" באיחור`,
+        body: `היה צריך להחזיר את הספר עד ${formatDate(loan.due_date)}`,
+        loanId: loan.id,
+        dedupeKey
+      });
+      await notifyFamily(supabase, loan.owner_family_id, {
+        type: 'overdue',
+        title: `"${bookTitle(loan)}" לא הוחזר בזמן`,
+        body: `תאריך ההחזרה היה ${formatDate(loan.due_date)}`,
+        loanId: loan.id,
+        dedupeKey
+      });
+    }
+
+    // Reminders for loans due soon (sent once per due date, so a renewal gets a new reminder)
+    const soon = new Date(Date.now() + DUE_SOON_HOURS * 60 * 60 * 1000).toISOString();
+    const { data: dueSoonLoans, error: dueSoonError } = await supabase
+      .from('loans')
+      .select(LOAN_SELECT)
+      .eq('status', 'active')
+      .gte('due_date', now)
+      .lte('due_date', soon);
+
+    if (dueSoonError) {
+      console.error('[mark-overdue-loans] Due soon query error:', dueSoonError.message);
+    }
+    for (const loan of dueSoonLoans || []) {
+      await notifyFamily(supabase, loan.borrower_family_id, {
+        type: 'due_soon',
+        title: `להחזיר את "${bookTitle(loan)}" עד ${formatDate(loan.due_date)}`,
+        body: 'אפשר לבקש הארכה מדף ההשאלות',
+        loanId: loan.id,
+        dedupeKey: `due_soon:${loan.id}:${loan.due_date}`
+      });
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[mark-overdue-loans] Complete: ${marked} loans marked as overdue, ${dueSoonLoans?.length || 0} due soon in ${duration}ms`);
+
+    return res.status(200).json({
+      message: marked > 0 ? 'Overdue check completed' : 'No overdue loans found',
+      marked,
+      loan_ids: marked > 0 ? overdueLoans.map((loan) => loan.id) : undefined,
+      due_soon: dueSoonLoans?.length || 0,
+      duration_ms: duration
+    });
+
+  } catch (error) {
+    console.error('[mark-overdue-loans] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Overdue check failed',
+      details: error.message,
+      duration_ms: Date.now() - startTime
+    });
+  }
+};
@@ -0,0 +1,108 @@
+/**
+ * Vercel Serverless Function: Reconcile Book Status
+ * 
+ * Purpose: Fix family_books.status where it disagrees with the copy's loans
+ *          (book-status updates in the API are best-effort and can be missed)
+ * Trigger: Scheduled via vercel.json cron (daily)
+ * Method: GET /api/cron/reconcile-book-status
+ * 
+ * Authentication: Vercel CRON_SECRET header
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+// Verify cron secret
+function verifyCron(req) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+  
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+module.exports = async (req, res) => {
+  const startTime = Date.now();
+  
+  // Only accept GET requests from Vercel cron
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  
+  // Verify cron authentication
+  if (!verifyCron(req)) {
+    console.warn('[reconcile-book-status] Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    console.log('[reconcile-book-status] Checking book status against loans...');
+
+    // Initialize Supabase client
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const { data: mismatches, error: selectError } = await supabase
+      .from('book_status_mismatches')
+      .select('family_book_id, current_status, expected_status, ongoing_loans');
+
+    if (selectError) {
+      console.error('[reconcile-book-status] Select error:', selectError);
+      return res.status(500).json({
+        error: 'Select failed',
+        details: selectError.message
+      });
+    }
+
+    const fixed = [];
+    const conflicts = [];
+    for (const mismatch of mismatches || []) {
+      // Two ongoing loans for one copy needs a human - report it, don't guess
+      if (mismatch.ongoing_loans > 1) {
+        conflicts.push(mismatch.family_book_id);
+      }
+      if (mismatch.current_status === mismatch.expected_status) continue;
+
+      const { error: updateError } = await supabase
+        .from('family_books')
+        .update({ status: mismatch.expected_status })
+        .eq('id', mismatch.family_book_id)
+        .eq('status', mismatch.current_status);
+
+      if (updateError) {
+        console.error(`[reconcile-book-status] Failed to fix copy ${mismatch.family_book_id}:`, updateError.message);
+        continue;
+      }
+      console.log(`[reconcile-book-status] Copy ${mismatch.family_book_id}: ${mismatch.current_status} -> ${mismatch.expected_status}`);
+      fixed.push(mismatch.family_book_id);
+    }
+
+    if (conflicts.length > 0) {
+      console.warn(`[reconcile-book-status] Copies with more than one ongoing loan: ${conflicts.join(', ')}`);
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[reconcile-book-status] Complete: ${fixed.length} fixed, ${conflicts.length} conflicts in ${duration}ms`);
+
+    return res.status(200).json({
+      message: fixed.length > 0 || conflicts.length > 0 ? 'Reconciliation completed' : 'All book statuses match their loans',
+      fixed: fixed.length,
+      family_book_ids: fixed.length > 0 ? fixed : undefined,
+      conflicts: conflicts.length > 0 ? conflicts : undefined,
+      duration_ms: duration
+    });
+
+  } catch (error) {
+    console.error('[reconcile-book-status] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Reconciliation failed',
+      details: error.message,
+      duration_ms: Date.now() - startTime
+    });
+  }
+};
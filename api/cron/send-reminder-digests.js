@@ -0,0 +1,160 @@
+/**
+ * Vercel Serverless Function: Send Reminder Digests
+ *
+ * Purpose: Email users a digest of their family's loans that are due soon or overdue
+ *          (both books they borrowed and books they lent), per their frequency and quiet hours
+ * Trigger: Scheduled via vercel.json cron (every hour)
+ * Method: GET /api/cron/send-reminder-digests
+ *
+ * Authentication: Vercel CRON_SECRET header
+ * Delivery: EMAIL_CHANNEL (smtp / file / console) - see backend_shared_src/services/emailChannels.js
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+
+// Verify cron secret
+function verifyCron(req) {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const token = authHeader.substring(7);
+  return token === cronSecret;
+}
+
+const LOAN_SELECT = `
+  id, status, due_date, owner_family_id, borrower_family_id,
+  family_books!family_book_id(book_catalog(title, title_hebrew)),
+  borrower_family:families!borrower_family_id(name),
+  owner_family:families!owner_family_id(name)
+`;
+
+module.exports = async (req, res) => {
+  const startTime = Date.now();
+
+  // Only accept GET requests from Vercel cron
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Verify cron authentication
+  if (!verifyCron(req)) {
+    console.warn('[send-reminder-digests] Unauthorized cron request');
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { buildReminderDigest, isDigestDue } = await import('../../backend_shared_src/services/reminderDigest.js');
+    const { createEmailChannel } = await import('../../backend_shared_src/services/emailChannels.js');
+
+    const channel = createEmailChannel();
+    const now = new Date();
+    console.log(`[send-reminder-digests] Starting (channel: ${channel.name})...`);
+
+    // Initialize Supabase client
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select('id, email, full_name, family_id, digest_frequency, digest_quiet_start, digest_quiet_end, digest_last_sent_at')
+      .neq('digest_frequency', 'off')
+      .not('family_id', 'is', null)
+      .not('email', 'is', null);
+
+    if (usersError) {
+      console.error('[send-reminder-digests] Users query error:', usersError);
+      return res.status(500).json({
+        error: 'Query failed',
+        details: usersError.message
+      });
+    }
+
+    const dueUsers = (users || []).filter((user) => isDigestDue(user, now));
+    if (dueUsers.length === 0) {
+      console.log('[send-reminder-digests] No users due for a digest');
+      return res.status(200).json({
+        message: 'No digests due',
+        sent: 0,
+        duration_ms: Date.now() - startTime
+      });
+    }
+
+    // One query for the ongoing loans of every family involved
+    const familyIds = [...new Set(dueUsers.map((user) => user.family_id))].join(',');
+    const { data: loans, error: loansError } = await supabase
+      .from('loans')
+      .select(LOAN_SELECT)
+      .in('status', ['active', 'overdue'])
+      .not('due_date', 'is', null)
+      .or(`owner_family_id.in.(${familyIds}),borrower_family_id.in.(${familyIds})`);
+
+    if (loansError) {
+      console.error('[send-reminder-digests] Loans query error:', loansError);
+      return res.status(500).json({
+        error: 'Query failed',
+        details: loansError.message
+      });
+    }
+
+    let sent = 0;
+    let skipped = 0;
+    const errors = [];
+
+    for (const user of dueUsers) {
+      const familyLoans = (loans || []).filter(
+        (loan) => loan.owner_family_id === user.family_id || loan.borrower_family_id === user.family_id
+      );
+      const digest = buildReminderDigest({ user, loans: familyLoans, appUrl: process.env.APP_URL, now });
+
+      // Nothing due - check again next run, don't use up the period
+      if (!digest) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const { loanIds, ...message } = digest;
+        await channel.send(message);
+
+        const { error: updateError } = await supabase
+          .from('users')
+          .update({ digest_last_sent_at: now.toISOString() })
+          .eq('id', user.id);
+
+        if (updateError) {
+          console.error(`[send-reminder-digests] Sent but could not record digest for ${user.id}:`, updateError.message);
+        }
+        sent++;
+        console.log(`[send-reminder-digests] Sent digest to ${user.id} (${loanIds.length} loans)`);
+      } catch (err) {
+        console.error(`[send-reminder-digests] Delivery failed for ${user.id}:`, err.message);
+        errors.push(`Delivery failed for ${user.id}`);
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[send-reminder-digests] Complete: ${sent} sent, ${skipped} with nothing due in ${duration}ms`);
+
+    return res.status(200).json({
+      message: 'Digests sent',
+      sent,
+      skipped,
+      errors: errors.length > 0 ? errors : undefined,
+      duration_ms: duration
+    });
+
+  } catch (error) {
+    console.error('[send-reminder-digests] Fatal error:', error);
+    return res.status(500).json({
+      error: 'Digest run failed',
+      details: error.message,
+      duration_ms: Date.now() - startTime
+    });
+  }
+};
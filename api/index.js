@@ -5,17 +5,25 @@ import multer from 'multer';
 import GeminiVisionService from '../backend_shared_src/services/geminiVision.js';
 import OpenAIVisionService from '../backend_shared_src/services/openaiVision.js';
 import HybridVisionService from '../backend_shared_src/services/hybridVision.js';
-import { searchBookDetails, searchBooks } from '../backend_shared_src/services/bookSearch.js';
+import { searchBookDetails, searchBooks, setLookupCache } from '../backend_shared_src/services/bookSearch.js';
+import { createLookupCache, supabaseLookupStore } from '../backend_shared_src/services/lookupCache.js';
+import { supabase } from '../backend_shared_src/db/adapter.js';
 import booksRouter from '../backend_shared_src/routes/books.routes.js';
 import authRouter from '../backend_shared_src/routes/auth.routes.js';
 import familiesRouter from '../backend_shared_src/routes/families.routes.js';
 import usersRouter from '../backend_shared_src/routes/users.routes.js';
 import loansRouter from '../backend_shared_src/routes/loans.routes.js';
+import holdsRouter from '../backend_shared_src/routes/holds.routes.js';
+import calendarRouter from '../backend_shared_src/routes/calendar.routes.js';
+import notificationsRouter from '../backend_shared_src/routes/notifications.routes.js';
 import systemRouter from '../backend_shared_src/routes/system.routes.js';
 import searchRouter from '../backend_shared_src/routes/search.routes.js';
 import reviewsRouter from '../backend_shared_src/routes/reviews.routes.js';
 import recommendationsRouter from '../backend_shared_src/routes/recommendations.routes.js';
 import enrichmentRouter from '../backend_shared_src/routes/enrichment.routes.js';
+import catalogRouter from '../backend_shared_src/routes/catalog.routes.js';
+import authorsRouter from '../backend_shared_src/routes/authors.routes.js';
+import seriesRouter from '../backend_shared_src/routes/series.routes.js';
 import { setAiVisionService } from '../backend_shared_src/controllers/books.controller.js';
 import { extractUserFromToken } from '../backend_shared_src/middleware/auth.middleware.js';
 import { errorHandler } from '../backend_shared_src/middleware/errorHandler.middleware.js';
@@ -85,6 +93,16 @@ try {
   console.error('  Service attempted:', serviceName);
 }
 
+// Cache external book lookups (Simania, Open Library, ...) in book_lookup_cache
+if (process.env.BOOK_LOOKUP_CACHE !== 'off') {
+  const hours = (value) => (parseFloat(value) > 0 ? parseFloat(value) * 60 * 60 * 1000 : undefined);
+  setLookupCache(createLookupCache(supabaseLookupStore(supabase), {
+    ttlMs: hours(process.env.BOOK_LOOKUP_CACHE_TTL_HOURS),
+    notFoundTtlMs: hours(process.env.BOOK_LOOKUP_NOT_FOUND_TTL_HOURS),
+  }));
+  console.log('✓ Book lookup cache enabled');
+}
+
 // Configure multer for image uploads (memory storage)
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -103,6 +121,8 @@ const upload = multer({
 
 // Middleware
 app.use(cors());
+// Imported books may carry long descriptions
+app.use('/api/books/import', express.json({ limit: '2mb' }));
 app.use(express.json());
 
 // Cache control for GET requests
@@ -160,6 +180,15 @@ app.use('/api/users', usersRouter);
 // Mount loans router (handles all /api/loans routes)
 app.use('/api/loans', loansRouter);
 
+// Mount holds router (handles all /api/holds routes)
+app.use('/api/holds', holdsRouter);
+
+// Mount calendar router (handles all /api/calendar routes)
+app.use('/api/calendar', calendarRouter);
+
+// Mount notifications router (handles all /api/notifications routes)
+app.use('/api/notifications', notificationsRouter);
+
 // Mount reviews router
 app.use('/api/reviews', reviewsRouter);
 
@@ -169,10 +198,19 @@ app.use('/api/recommendations', recommendationsRouter);
 // Mount enrichment router
 app.use('/api/enrichment', enrichmentRouter);
 
+// Mount catalog router (handles /api/catalog admin tools)
+app.use('/api/catalog', catalogRouter);
+
+// Mount authors router (handles all /api/authors routes)
+app.use('/api/authors', authorsRouter);
+
+// Mount series router (handles all /api/series routes)
+app.use('/api/series', seriesRouter);
+
 // Mount system router (handles /api/health)
 app.use('/api', systemRouter);
 
-// Mount search router (handles /api/search-books)
+// Mount search router (handles /api/search and /api/search-books)
 app.use('/api', searchRouter);
 
 // ==================== GLOBAL ERROR HANDLER ====================
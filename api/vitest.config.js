@@ -12,6 +12,10 @@ export default defineConfig({
     setupFiles: './__tests__/setup/testData.js',
     env: {
       NODE_TLS_REJECT_UNAUTHORIZED: '0',
+      // Book searches use the local fixture books instead of Simania / Open Library
+      BOOK_PROVIDERS: 'fixture',
+      // ...and don't leave fixture answers in the shared lookup cache
+      BOOK_LOOKUP_CACHE: 'off',
     },
   },
 })
@@ -0,0 +1,26 @@
+/**
+ * Loan status groups shared by controllers
+ */
+
+// Loans where the book is physically with the borrower
+export const ONGOING_LOAN_STATUSES = ['active', 'overdue'];
+
+// Requests that have not been handed over, rejected or cancelled yet
+export const OPEN_REQUEST_STATUSES = ['pending', 'approved'];
+
+// Fallback loan period when the owner family has no default
+export const DEFAULT_LOAN_PERIOD_DAYS = 14;
+
+// Fallback renewal limit when the owner family has no setting
+export const DEFAULT_MAX_LOAN_RENEWALS = 2;
+
+// Values of family_books.condition, also recorded at check-out / check-in
+export const BOOK_CONDITIONS = ['new', 'good', 'fair', 'poor'];
+
+// Kinds of loan_condition_records; damage and loss take the copy out of circulation
+export const CONDITION_RECORD_KINDS = ['checkout', 'checkin', 'damage', 'loss'];
+export const DAMAGE_REPORT_KINDS = ['damage', 'loss'];
+
+// Keys of families.whatsapp_templates (the default text lives in the frontend)
+export const WHATSAPP_TEMPLATE_KEYS = ['borrow_request', 'due_reminder', 'return_coordination', 'return_thanks', 'general'];
+export const WHATSAPP_TEMPLATE_MAX_LENGTH = 1000;
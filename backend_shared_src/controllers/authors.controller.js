@@ -0,0 +1,92 @@
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { isSiteAdmin } from '../middleware/auth.middleware.js';
+
+const isNotFound = (error) =>
+  error.code === 'PGRST116' || error.code === 'P0002' || error.message?.includes('invalid input syntax');
+
+/**
+ * Get an author with the community's books by them and their availability
+ * @route GET /api/authors/:id
+ */
+export const getAuthor = asyncHandler(async (req, res) => {
+  let author;
+  try {
+    author = await db.authors.getById(req.params.id);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+    throw error;
+  }
+
+  const catalogBooks = await db.authors.getBooks(author.id);
+
+  // Only books some family owns; the catalog also remembers books nobody has anymore
+  const books = catalogBooks
+    .filter((book) => (book.family_books || []).length > 0)
+    .map((book) => {
+      const copies = book.family_books;
+      const ownCopy = copies.find((copy) => req.familyId && copy.family_id === req.familyId);
+      const availableCopy = copies.find((copy) => copy.status === 'available');
+
+      return {
+        catalogId: book.id,
+        workId: book.work_id,
+        title: book.title,
+        titleHebrew: book.title_hebrew,
+        series: book.series,
+        seriesNumber: book.series_number,
+        yearPublished: book.year_published,
+        genre: book.genre,
+        ageRange: book.age_level,
+        coverImageUrl: book.cover_image_url,
+        totalCopies: copies.length,
+        availableCopies: copies.filter((copy) => copy.status === 'available').length,
+        ownedByViewer: Boolean(ownCopy),
+        // Copy to open: ours, else one that can be borrowed
+        familyBookId: (ownCopy || availableCopy || copies[0]).id,
+      };
+    });
+
+  res.json({
+    author: {
+      id: author.id,
+      name: author.name,
+      nameHebrew: author.name_hebrew,
+      aliases: (author.author_aliases || []).map((alias) => alias.alias),
+    },
+    books,
+  });
+});
+
+/**
+ * Add a spelling of the author's name; books written with it are linked to the author
+ * @route POST /api/authors/:id/aliases
+ */
+export const addAuthorAlias = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can edit authors' });
+  }
+
+  const alias = typeof req.body.alias === 'string' ? req.body.alias.trim() : '';
+  if (!alias) {
+    return res.status(400).json({ error: 'alias is required' });
+  }
+  if (alias.length > 255) {
+    return res.status(400).json({ error: 'alias must be at most 255 characters' });
+  }
+
+  try {
+    const relinked = await db.authors.addAlias(req.params.id, alias);
+    res.status(201).json({ alias, relinked });
+  } catch (error) {
+    if (isNotFound(error)) {
+      return res.status(404).json({ error: 'Author not found' });
+    }
+    if (error.code === 'P0001') {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+});
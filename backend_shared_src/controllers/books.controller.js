@@ -1,7 +1,22 @@
 import { db, supabase } from '../db/adapter.js';
 import { asyncHandler } from '../middleware/errorHandler.middleware.js';
 import { searchBookDetails } from '../services/bookSearch.js';
+import {
+  decodeImportFile,
+  enrichImportedBook,
+  parseLibraryImport
+} from '../services/libraryImport.js';
+import { buildHighlights } from '../services/hebrewSearch.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  paginateCatalogKeys,
+  sortModeFor,
+  toCatalogKey
+} from '../services/bookPagination.js';
 import { DETECTION_ERROR_CODES, getErrorResponse } from '../constants/detectionErrors.js';
+import { BOOK_CONDITIONS, ONGOING_LOAN_STATUSES } from '../constants/loanStatus.js';
+import { notifyNewReview } from '../services/notifications.js';
 import {
   generateThumbnail,
   uploadImageToStorage,
@@ -15,6 +30,21 @@ const UUID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}
 
 const isValidUUID = (value = '') => UUID_REGEX.test(value);
 
+// Family book ids per query when loading a page of books (keeps the request URL short)
+const PAGE_IDS_CHUNK = 200;
+
+// Books per POST /api/books/bulk-add and POST /api/books/import
+const BULK_ADD_BATCH_SIZE = 50;
+
+// Imported books matched against the catalog per request
+const MATCH_BATCH_SIZE = 100;
+
+// Imported books enriched per request - each one may go out to the metadata providers
+const ENRICH_BATCH_SIZE = 20;
+
+// Fields of a grouped catalog entry that search highlights are returned for
+const HIGHLIGHT_FIELDS = ['title', 'titleHebrew', 'author', 'authorHebrew', 'series'];
+
 const validateRating = (value, { required = true } = {}) => {
   if (value === undefined || value === null) {
     return required ? 'Rating is required' : null;
@@ -100,8 +130,9 @@ function normalizeLoanRecord(loan) {
 
 /**
  * Group books by catalog for response
+ * @param {string[]} order - catalog ids of the page, in list order
  */
-function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerFamilyId, view, sortBy }) {
+function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerFamilyId, view, searchQuery, order }) {
   const catalogMap = new Map();
 
   for (const book of books) {
@@ -115,6 +146,7 @@ function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerF
         titleHebrew: book.title_hebrew,
         author: book.author,
         authorHebrew: book.author_hebrew,
+        authorId: book.author_id || null,
         isbn: book.isbn,
         publisher: book.publisher,
         publishYear: book.publish_year,
@@ -155,6 +187,8 @@ function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerF
       status: book.status,
       condition: book.condition,
       notes: book.notes,
+      addedAt: book.created_at,
+      updatedAt: book.updated_at,
       familyId: book.family_id,
       family: book.families
         ? {
@@ -175,6 +209,9 @@ function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerF
       entry.viewerContext.ownedCopies.push({
         familyBookId: book.id,
         status: book.status,
+        condition: book.condition,
+        notes: book.notes,
+        addedAt: book.created_at,
         loan: loan || null,
       });
     }
@@ -187,31 +224,28 @@ function groupBooksForResponse({ books, loanMap, likesMap, userLikesSet, viewerF
 
   let grouped = Array.from(catalogMap.values());
 
-  // Sort owners within each catalog entry
+  // Sort owners within each catalog entry; a family's copies stay in the order they were added
+  const byAddedAt = (a, b) => new Date(a.addedAt || 0).getTime() - new Date(b.addedAt || 0).getTime();
   for (const entry of grouped) {
     entry.owners.sort((a, b) => {
       if (a.isViewerOwner !== b.isViewerOwner) {
         return a.isViewerOwner ? -1 : 1;
       }
-      return (a.family?.name || '').localeCompare(b.family?.name || '', 'he');
+      return (a.family?.name || '').localeCompare(b.family?.name || '', 'he') || byAddedAt(a, b);
     });
+    entry.viewerContext.ownedCopies.sort(byAddedAt);
   }
 
-  // Sort catalog entries
-  if (sortBy === 'updated') {
-    grouped.sort((a, b) => {
-      const aMax = Math.max(...a.owners.map((o) => new Date(o.updatedAt || 0).getTime()));
-      const bMax = Math.max(...b.owners.map((o) => new Date(o.updatedAt || 0).getTime()));
-      return bMax - aMax;
-    });
-  } else {
-    grouped.sort((a, b) => {
-      const titleA = a.title || a.titleHebrew || '';
-      const titleB = b.title || b.titleHebrew || '';
-      return titleA.localeCompare(titleB, 'he');
-    });
+  if (searchQuery) {
+    for (const entry of grouped) {
+      entry.highlights = buildHighlights(entry, searchQuery, HIGHLIGHT_FIELDS);
+    }
   }
 
+  // Catalog entries in the order of the page
+  const position = new Map(order.map((catalogId, index) => [catalogId, index]));
+  grouped.sort((a, b) => position.get(a.catalogId) - position.get(b.catalogId));
+
   return grouped;
 }
 
@@ -237,6 +271,7 @@ export const getAllBooks = asyncHandler(async (req, res) => {
     q,
     limit,
     offset,
+    cursor,
     sortBy,
     userId: userIdQuery,
   } = req.query;
@@ -263,7 +298,10 @@ export const getAllBooks = asyncHandler(async (req, res) => {
       books: [],
       meta: {
         total: 0,
+        count: 0,
         view,
+        nextCursor: null,
+        hasMore: false,
         message: 'לא נמצאה משפחה משויכת. אנא הצטרף או צור משפחה כדי לראות ספרים.',
       },
     });
@@ -296,10 +334,10 @@ export const getAllBooks = asyncHandler(async (req, res) => {
     filters.familyId = viewerFamilyId;
   } else if (view === 'borrowed') {
     t1 = Date.now();
-    const borrowedLoans = await db.loans.getAll({ borrowerFamilyId: viewerFamilyId, status: 'active' });
+    const borrowedLoans = await db.loans.getAll({ borrowerFamilyId: viewerFamilyId, status: ONGOING_LOAN_STATUSES });
     timings.getBorrowedLoans = Date.now() - t1;
     if (!borrowedLoans.length) {
-      return res.json({ books: [], meta: { total: 0, view } });
+      return res.json({ books: [], meta: { total: 0, view, nextCursor: null, hasMore: false, count: 0 } });
     }
 
     const borrowedIds = borrowedLoans.map((loan) => loan.family_book_id).filter(Boolean);
@@ -316,15 +354,50 @@ export const getAllBooks = asyncHandler(async (req, res) => {
     filters.limit = 100;
   }
 
+  // Page the list of catalog books - a cursor continues after the last book of the previous page
+  const sortMode = sortModeFor(sortBy, Boolean(filters.search?.trim()));
+  let after = null;
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded || decoded.mode !== sortMode) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    after = decoded.key;
+  }
+
+  t1 = Date.now();
+  const pageOptions = { mode: sortMode, after, offset: filters.offset, limit: filters.limit };
+  let page, total, nextCursor;
+  if (sortMode === 'relevance') {
+    const keys = (await db.books.getListSearchResults(filters)).map(toCatalogKey);
+    ({ page, total, nextCursor } = paginateCatalogKeys(keys, pageOptions));
+  } else {
+    const listPage = await db.books.getListPage(filters, pageOptions);
+    page = listPage.rows.map(toCatalogKey);
+    total = listPage.total;
+    nextCursor = listPage.hasMore && page.length > 0 ? encodeCursor(page[page.length - 1], sortMode) : null;
+  }
+  timings.getListPage = Date.now() - t1;
+
+  const pageMeta = { total, view, nextCursor, hasMore: Boolean(nextCursor) };
+  if (page.length === 0) {
+    return res.json({ books: [], meta: { ...pageMeta, count: 0 } });
+  }
+
   t1 = Date.now();
-  const books = await db.books.getAll(filters);
+  const pageIds = page.flatMap((key) => key.familyBookIds);
+  const idChunks = [];
+  for (let i = 0; i < pageIds.length; i += PAGE_IDS_CHUNK) {
+    idChunks.push(pageIds.slice(i, i + PAGE_IDS_CHUNK));
+  }
+  const books = (await Promise.all(idChunks.map((ids) => db.books.getAll({ ids })))).flat();
   timings.getBooksQuery = Date.now() - t1;
 
   t1 = Date.now();
   const missingLoanIds = books.map((book) => book.id).filter((id) => id && !loanMap.has(id));
 
   if (missingLoanIds.length) {
-    const activeLoans = await db.loans.getAll({ bookIds: missingLoanIds, status: 'active' });
+    const activeLoans = await db.loans.getAll({ bookIds: missingLoanIds, status: ONGOING_LOAN_STATUSES });
     activeLoans.forEach((loan) => {
       if (loan.family_book_id) {
         loanMap.set(loan.family_book_id, normalizeLoanRecord(loan));
@@ -343,17 +416,22 @@ export const getAllBooks = asyncHandler(async (req, res) => {
     const likesPromises = [
       // Get counts grouped by book_catalog_id (much faster than fetching all rows)
       supabase.rpc('get_likes_counts', { catalog_ids: catalogIds }),
-      // Check if current user liked each book (only fetch user's likes)
+      // Check if current user liked each book - through any edition of its work
       userId
-        ? supabase
-            .from('likes')
-            .select('book_catalog_id')
-            .in('book_catalog_id', catalogIds)
-            .eq('user_id', userId)
+        ? supabase.rpc('get_user_liked_works', { p_user_id: userId, catalog_ids: catalogIds })
         : Promise.resolve({ data: [] }),
     ];
 
-    const [likesCountResult, userLikesResult] = await Promise.all(likesPromises);
+    let [likesCountResult, userLikesResult] = await Promise.all(likesPromises);
+
+    // Works migration not applied yet - only the user's likes of these editions
+    if (userLikesResult.error && userLikesResult.error.code === '42883') {
+      userLikesResult = await supabase
+        .from('likes')
+        .select('book_catalog_id')
+        .in('book_catalog_id', catalogIds)
+        .eq('user_id', userId);
+    }
 
     // If RPC doesn't exist yet, fall back to old method
     if (likesCountResult.error && likesCountResult.error.code === '42883') {
@@ -391,7 +469,8 @@ export const getAllBooks = asyncHandler(async (req, res) => {
     userLikesSet,
     viewerFamilyId,
     view,
-    sortBy,
+    searchQuery: filters.search,
+    order: page.map((key) => key.catalogId),
   });
   timings.groupBooks = Date.now() - t1;
 
@@ -403,27 +482,32 @@ export const getAllBooks = asyncHandler(async (req, res) => {
   res.json({
     books: grouped,
     meta: {
-      total: grouped.length,
-      view,
+      ...pageMeta,
+      count: grouped.length,
     },
   });
 });
 
 /**
- * Search books in catalog
+ * Search books in catalog - Hebrew-aware and ranked, with the matched ranges of each field
  * @route GET /api/books/search
  */
 export const searchBooks = asyncHandler(async (req, res) => {
   const { q, genre, ageLevel, available } = req.query;
 
-  if (!q) {
+  if (!q || !q.trim()) {
     return res.status(400).json({ error: 'Search query required' });
   }
 
-  const query = supabase.from('book_catalog').select('*');
+  const matches = await db.catalog.search(q, { limit: 50 });
+  if (matches.length === 0) {
+    return res.json({ books: [] });
+  }
 
-  // Full-text search on title and author
-  query.or(`title.ilike.%${q}%,author.ilike.%${q}%`);
+  const query = supabase
+    .from('book_catalog')
+    .select('*')
+    .in('id', matches.map((match) => match.id));
 
   if (genre) {
     query.eq('genre', genre);
@@ -433,13 +517,22 @@ export const searchBooks = asyncHandler(async (req, res) => {
     query.eq('age_level', ageLevel);
   }
 
-  const { data: books, error } = await query.limit(50);
+  const { data, error } = await query;
 
   if (error) {
     console.error('Error searching books:', error);
     return res.status(500).json({ error: 'Failed to search books' });
   }
 
+  // Best match first, as ranked by search_catalog
+  const order = new Map(matches.map((match, index) => [match.id, index]));
+  const books = data
+    .sort((a, b) => order.get(a.id) - order.get(b.id))
+    .map((book) => ({
+      ...book,
+      highlights: buildHighlights(book, q, ['title', 'title_hebrew', 'author', 'author_hebrew', 'series']),
+    }));
+
   // If available filter requested, check for available family_books
   if (available === 'true') {
     const bookIds = books.map((b) => b.id);
@@ -477,19 +570,21 @@ export const getBookById = asyncHandler(async (req, res) => {
     const userId = req.query.user_id;
     
     if (book.book_catalog_id && userId) {
-      // Combine both queries into a single query for better performance
+      // Likes of every edition of the work, in a single query
       const t2 = Date.now();
+      const editionIds = await db.works.getEditionIds(book.book_catalog_id);
       const { data: likesData, error: likesError } = await supabase
         .from('likes')
         .select('id, user_id')
-        .eq('book_catalog_id', book.book_catalog_id);
+        .in('book_catalog_id', editionIds);
       timings.likesQuery = Date.now() - t2;
 
       if (likesError) throw likesError;
 
-      // Calculate stats from the single query result
-      const totalLikes = likesData?.length || 0;
-      const userLiked = likesData?.some(like => like.user_id === userId) || false;
+      // Calculate stats from the single query result (a user who liked two editions counts once)
+      const likers = new Set((likesData || []).map(like => like.user_id));
+      const totalLikes = likers.size;
+      const userLiked = likers.has(userId);
 
       // Add stats to book object
       book.stats = {
@@ -551,6 +646,7 @@ export const getBookFamilies = asyncHandler(async (req, res) => {
       `
       id,
       status,
+      condition,
       notes,
       families:family_id (
         id,
@@ -560,7 +656,8 @@ export const getBookFamilies = asyncHandler(async (req, res) => {
       )
     `
     )
-    .eq('book_catalog_id', catalogId);
+    .eq('book_catalog_id', catalogId)
+    .order('created_at');
 
   if (error) {
     console.error('Error fetching book families:', error);
@@ -574,13 +671,14 @@ export const getBookFamilies = asyncHandler(async (req, res) => {
         .from('loans')
         .select('*')
         .eq('family_book_id', fb.id)
-        .eq('status', 'active')
+        .in('status', ONGOING_LOAN_STATUSES)
         .maybeSingle();
 
       return {
         familyBookId: fb.id,
         family: fb.families,
         status: fb.status,
+        condition: fb.condition,
         isAvailable: fb.status === 'available' && !loans,
         currentLoan: loans || null,
       };
@@ -590,8 +688,132 @@ export const getBookFamilies = asyncHandler(async (req, res) => {
   res.json({ book, families: results });
 });
 
+/**
+ * Get the viewer family's copies of a book, with the ongoing loan of each copy
+ * @route GET /api/books/:id/copies
+ */
+export const getBookCopies = asyncHandler(async (req, res) => {
+  if (!req.familyId) {
+    return res.status(400).json({ error: 'User is not part of a family' });
+  }
+
+  let familyBook;
+  try {
+    familyBook = await db.books.getFamilyBook(req.params.id);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+  if (!familyBook) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  const copies = await db.books.getFamilyCopies(req.familyId, familyBook.book_catalog_id);
+  const loans = copies.length
+    ? await db.loans.getAll({ bookIds: copies.map((copy) => copy.id), status: ONGOING_LOAN_STATUSES })
+    : [];
+  const loanByCopy = new Map(loans.map((loan) => [loan.family_book_id, normalizeLoanRecord(loan)]));
+
+  res.json({
+    copies: copies.map((copy) => ({
+      familyBookId: copy.id,
+      status: copy.status,
+      condition: copy.condition,
+      notes: copy.notes,
+      acquiredDate: copy.acquired_date,
+      addedAt: copy.created_at,
+      loan: loanByCopy.get(copy.id) || null,
+    })),
+  });
+});
+
+/**
+ * Get the editions of a book's work (translations, other publishers) that families in the community own
+ * @route GET /api/books/:id/editions
+ */
+export const getBookEditions = asyncHandler(async (req, res) => {
+  if (!isValidUUID(req.params.id)) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  const catalogId = await resolveCatalogId(req.params.id);
+  const editions = await db.works.getEditions(catalogId);
+  if (editions.length === 0) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  res.json({
+    workId: editions[0].work_id,
+    editions: editions.map((edition) => {
+      const copies = edition.family_books || [];
+      const ownCopy = copies.find((copy) => req.familyId && copy.family_id === req.familyId);
+      const availableCopy = copies.find((copy) => copy.status === 'available');
+
+      return {
+        catalogId: edition.id,
+        title: edition.title,
+        titleHebrew: edition.title_hebrew,
+        author: edition.author,
+        authorHebrew: edition.author_hebrew,
+        isbn: edition.isbn,
+        publisher: edition.publisher,
+        yearPublished: edition.year_published,
+        coverImageUrl: edition.cover_image_url,
+        isCurrent: edition.id === catalogId,
+        totalCopies: copies.length,
+        availableCopies: copies.filter((copy) => copy.status === 'available').length,
+        ownedByViewer: Boolean(ownCopy),
+        // Copy to open for this edition: ours, else one that can be borrowed
+        familyBookId: (ownCopy || availableCopy || copies[0])?.id || null,
+      };
+    }),
+  });
+});
+
+/**
+ * Add another copy of a book to the viewer's family
+ * @route POST /api/books/:id/copies
+ */
+export const addBookCopy = asyncHandler(async (req, res) => {
+  if (!req.familyId) {
+    return res.status(400).json({ error: 'User is not part of a family' });
+  }
+
+  const { condition, notes, acquired_date } = req.body || {};
+  if (condition && !BOOK_CONDITIONS.includes(condition)) {
+    return res.status(400).json({ error: `condition must be one of: ${BOOK_CONDITIONS.join(', ')}` });
+  }
+
+  let familyBook;
+  try {
+    familyBook = await db.books.getFamilyBook(req.params.id);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+  if (!familyBook) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  const book = await db.books.addCopy({
+    family_id: req.familyId,
+    book_catalog_id: familyBook.book_catalog_id,
+    condition: condition || null,
+    notes: notes?.trim() || null,
+    acquired_date: acquired_date || null,
+  });
+
+  res.status(201).json({ book });
+});
+
 /**
  * Create a new book
+ * Adding a book the family already owns returns the existing copy (flagged _alreadyOwned)
+ * unless the body has add_copy: true
  * @route POST /api/books
  */
 export const createBook = asyncHandler(async (req, res) => {
@@ -691,12 +913,15 @@ export const createBookReview = asyncHandler(async (req, res) => {
 
   try {
     const catalogId = await resolveCatalogId(req.params.bookId);
+    const editionIds = await db.works.getEditionIds(catalogId);
 
+    // One review per user per work, whichever edition they read
     const { data: existing } = await supabase
       .from('reviews')
       .select('id')
-      .eq('book_catalog_id', catalogId)
+      .in('book_catalog_id', editionIds)
       .eq('user_id', userId)
+      .limit(1)
       .maybeSingle();
 
     if (existing) {
@@ -710,6 +935,14 @@ export const createBookReview = asyncHandler(async (req, res) => {
       review_text: reviewText,
     });
 
+    // Let the families that own this book know
+    try {
+      const copies = await db.books.getCopiesByCatalogId(catalogId);
+      await notifyNewReview(review, copies, { userId, familyId: req.familyId });
+    } catch (notifyError) {
+      console.error('Note: Could not notify book owners about review:', notifyError.message || notifyError);
+    }
+
     res.status(201).json({ review });
   } catch (error) {
     console.error('Failed to create review:', error);
@@ -1307,40 +1540,11 @@ const detectBooksSynchronous = async (req, res) => {
 */
 
 /**
- * Bulk add books to catalog
- * @route POST /api/books/bulk-add
+ * Add books to a family's library, through the catalog's deduplication
+ * Books the family already owns are skipped; one failing book doesn't stop the others
+ * @returns {Promise<{addedBooks: Array, skippedBooks: Array, errors: Array}>}
  */
-export const bulkAddBooks = asyncHandler(async (req, res) => {
-  const { books } = req.body;
-
-  // Validate input first (before auth check)
-  if (!books) {
-    return res.status(400).json({ error: 'No books provided' });
-  }
-
-  if (!Array.isArray(books) || books.length === 0) {
-    return res.status(400).json({ error: 'No books provided' });
-  }
-
-  const userId = req.userId; // From auth middleware
-
-  // Get user's family ID
-  const { data: userData, error: userError } = await supabase
-    .from('users')
-    .select('family_id')
-    .eq('id', userId)
-    .single();
-
-  if (userError || !userData) {
-    return res.status(401).json({ error: 'User not found' });
-  }
-
-  const familyId = userData.family_id;
-
-  if (books.length > 50) {
-    return res.status(400).json({ error: 'Maximum 50 books per batch' });
-  }
-
+async function addBooksToFamily(books, familyId) {
   // Validate and add each book
   const addedBooks = [];
   const skippedBooks = [];
@@ -1365,6 +1569,7 @@ export const bulkAddBooks = asyncHandler(async (req, res) => {
       const bookData = {
         title: book.title.trim(),
         author: book.author ? book.author.trim() : 'לא ידוע',
+        author_hebrew: book.author_hebrew ? book.author_hebrew.trim() : null,
         family_id: familyId,
         status: 'available',
         genre: book.genre || null,
@@ -1439,6 +1644,46 @@ export const bulkAddBooks = asyncHandler(async (req, res) => {
     }
   }
 
+  return { addedBooks, skippedBooks, errors };
+}
+
+/**
+ * Bulk add books to catalog
+ * @route POST /api/books/bulk-add
+ */
+export const bulkAddBooks = asyncHandler(async (req, res) => {
+  const { books } = req.body;
+
+  // Validate input first (before auth check)
+  if (!books) {
+    return res.status(400).json({ error: 'No books provided' });
+  }
+
+  if (!Array.isArray(books) || books.length === 0) {
+    return res.status(400).json({ error: 'No books provided' });
+  }
+
+  const userId = req.userId; // From auth middleware
+
+  // Get user's family ID
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('family_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !userData) {
+    return res.status(401).json({ error: 'User not found' });
+  }
+
+  const familyId = userData.family_id;
+
+  if (books.length > BULK_ADD_BATCH_SIZE) {
+    return res.status(400).json({ error: `Maximum ${BULK_ADD_BATCH_SIZE} books per batch` });
+  }
+
+  const { addedBooks, skippedBooks, errors } = await addBooksToFamily(books, familyId);
+
   console.log(`[bulkAddBooks] Summary: ${addedBooks.length} added, ${skippedBooks.length} skipped, ${errors.length} failed`);
 
   res.json({
@@ -1452,6 +1697,100 @@ export const bulkAddBooks = asyncHandler(async (req, res) => {
   });
 });
 
+/**
+ * Read a library file (CSV / JSON export, Goodreads export or any CSV) into books, before
+ * importing them; the books are matched against the catalog with POST /api/books/import/match
+ * Multipart: file, and optionally format and mapping (JSON of { field: column })
+ * @route POST /api/books/import/preview
+ */
+export const previewImport = asyncHandler(async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file provided' });
+  }
+
+  let parsed;
+  try {
+    const mapping = req.body.mapping ? JSON.parse(req.body.mapping) : null;
+    parsed = parseLibraryImport(decodeImportFile(req.file.buffer), {
+      format: req.body.format || null,
+      mapping
+    });
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof SyntaxError ? 'Invalid mapping' : error.message });
+  }
+
+  res.json(parsed);
+});
+
+/**
+ * Find the catalog book each imported book would be added as, and whether the family owns it
+ * @route POST /api/books/import/match
+ */
+export const matchImport = asyncHandler(async (req, res) => {
+  const { books } = req.body || {};
+  if (!Array.isArray(books) || books.length === 0) {
+    return res.status(400).json({ error: 'No books provided' });
+  }
+  if (books.length > MATCH_BATCH_SIZE) {
+    return res.status(400).json({ error: `Maximum ${MATCH_BATCH_SIZE} books per request` });
+  }
+  if (!req.familyId) {
+    return res.status(400).json({ error: 'User is not part of a family' });
+  }
+
+  const matches = await db.catalog.matchBooks(books, req.familyId);
+  res.json({ matches });
+});
+
+/**
+ * Fill in what imported books are missing from the book metadata providers
+ * @route POST /api/books/import/enrich
+ */
+export const enrichImport = asyncHandler(async (req, res) => {
+  const { books } = req.body || {};
+  if (!Array.isArray(books) || books.length === 0) {
+    return res.status(400).json({ error: 'No books provided' });
+  }
+  if (books.length > ENRICH_BATCH_SIZE) {
+    return res.status(400).json({ error: `Maximum ${ENRICH_BATCH_SIZE} books per request` });
+  }
+
+  const enriched = await Promise.all(books.map(book => enrichImportedBook(book)));
+  res.json({ books: enriched });
+});
+
+/**
+ * Add a batch of imported books to the family's library - the client sends a file's books
+ * BULK_ADD_BATCH_SIZE at a time, like bulk-add
+ * @route POST /api/books/import
+ */
+export const importBooks = asyncHandler(async (req, res) => {
+  const { books } = req.body || {};
+  if (!Array.isArray(books) || books.length === 0) {
+    return res.status(400).json({ error: 'No books provided' });
+  }
+  if (books.length > BULK_ADD_BATCH_SIZE) {
+    return res.status(400).json({ error: `Maximum ${BULK_ADD_BATCH_SIZE} books per batch` });
+  }
+  if (!req.familyId) {
+    return res.status(400).json({ error: 'User is not part of a family' });
+  }
+
+  const { addedBooks, skippedBooks, errors } = await addBooksToFamily(books, req.familyId);
+
+  console.log(`[importBooks] Summary: ${addedBooks.length} added, ${skippedBooks.length} skipped, ${errors.length} failed`);
+
+  res.json({
+    success: true,
+    added: addedBooks.length,
+    skipped: skippedBooks.length,
+    failed: errors.length,
+    books: addedBooks,
+    skippedBooks,
+    errors
+  });
+});
+
 /**
  * Get all active detection jobs for the current user
  * @route GET /api/books/detect-jobs
@@ -0,0 +1,76 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { ONGOING_LOAN_STATUSES } from '../constants/loanStatus.js';
+import { buildLoanCalendar } from '../services/icalendar.js';
+
+const FEED_STATUSES = [...ONGOING_LOAN_STATUSES, 'returned'];
+
+// Only the subscription path is returned; the client knows its own origin
+const toFeedResponse = (feed) => feed && {
+  path: `/api/calendar/${feed.token}.ics`,
+  created_at: feed.created_at,
+  last_accessed_at: feed.last_accessed_at,
+};
+
+/**
+ * Get the current user's calendar feed (null until one is created)
+ * @route GET /api/calendar/feed
+ */
+export const getCalendarFeed = asyncHandler(async (req, res) => {
+  const feed = await db.calendarFeeds.getByUserId(req.userId);
+  res.json({ feed: toFeedResponse(feed) });
+});
+
+/**
+ * Create the current user's calendar feed, or replace its token (the old URL stops working)
+ * @route POST /api/calendar/feed
+ */
+export const createCalendarFeed = asyncHandler(async (req, res) => {
+  const feed = await db.calendarFeeds.save(req.userId, randomBytes(24).toString('base64url'));
+  res.status(201).json({ feed: toFeedResponse(feed) });
+});
+
+/**
+ * Turn off the current user's calendar feed
+ * @route DELETE /api/calendar/feed
+ */
+export const deleteCalendarFeed = asyncHandler(async (req, res) => {
+  await db.calendarFeeds.delete(req.userId);
+  res.json({ message: 'Calendar feed deleted' });
+});
+
+/**
+ * iCalendar feed of the due and return dates of the user's family loans.
+ * Authenticated by the token in the URL so phone calendars can subscribe without logging in.
+ * @route GET /api/calendar/:token.ics
+ */
+export const getCalendarIcs = asyncHandler(async (req, res) => {
+  const feed = await db.calendarFeeds.getByToken(req.params.token);
+  if (!feed) {
+    return res.status(404).json({ error: 'Calendar feed not found' });
+  }
+
+  const familyId = feed.user?.family_id || null;
+  let loans = [];
+  if (familyId) {
+    const [lent, borrowed] = await Promise.all([
+      db.loans.getAll({ ownerFamilyId: familyId, status: FEED_STATUSES }),
+      db.loans.getAll({ borrowerFamilyId: familyId, status: FEED_STATUSES }),
+    ]);
+    loans = [...lent, ...borrowed];
+  }
+
+  try {
+    await db.calendarFeeds.markAccessed(feed.user_id);
+  } catch (error) {
+    // Log but don't fail - the feed itself is fine
+    console.error('Note: Could not record calendar feed access:', error.message || error);
+  }
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="loans.ics"');
+  // Short private cache so renewals and returns show up on the next refresh
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.send(buildLoanCalendar({ loans, familyId }));
+});
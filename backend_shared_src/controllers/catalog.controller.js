@@ -0,0 +1,154 @@
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { isSiteAdmin } from '../middleware/auth.middleware.js';
+import { findDuplicateCandidates, suggestSurvivor } from '../services/catalogDuplicates.js';
+
+const MAX_CANDIDATES = 200;
+const MAX_METRICS_DAYS = 90;
+
+/**
+ * Find likely duplicate books in the shared catalog
+ * @route GET /api/catalog/duplicates
+ */
+export const getDuplicateCandidates = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can review catalog duplicates' });
+  }
+
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_CANDIDATES);
+  const books = await db.catalog.getAll();
+  const pairs = findDuplicateCandidates(books, { limit });
+
+  const ids = [...new Set(pairs.flatMap(({ a, b }) => [a.id, b.id]))];
+  const copyCounts = await db.catalog.countCopies(ids);
+
+  const candidates = pairs.map(({ a, b, score, reasons }) => ({
+    score,
+    reasons,
+    suggestedSurvivorId: suggestSurvivor(a, b, copyCounts).id,
+    books: [a, b].map((book) => ({ ...book, copyCount: copyCounts.get(book.id) || 0 })),
+  }));
+
+  res.json({ candidates, scanned: books.length });
+});
+
+/**
+ * Merge a duplicate catalog book into the surviving record
+ * Copies, reviews, likes and holds move to the survivor; the duplicate is deleted
+ * @route POST /api/catalog/merge
+ */
+export const mergeCatalogBooks = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can merge catalog books' });
+  }
+
+  const { survivor_id: survivorId, duplicate_id: duplicateId } = req.body;
+  if (!survivorId || !duplicateId) {
+    return res.status(400).json({ error: 'survivor_id and duplicate_id are required' });
+  }
+  if (survivorId === duplicateId) {
+    return res.status(400).json({ error: 'Cannot merge a book into itself' });
+  }
+
+  try {
+    const merged = await db.catalog.merge(survivorId, duplicateId);
+    console.log(`[catalog] Merged ${duplicateId} into ${survivorId}:`, merged);
+    res.json({ merged });
+  } catch (error) {
+    if (error.code === 'P0002' || error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    if (error.code === 'P0001') {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Group a catalog book under another book's work, as another edition of it
+ * (a translation or another publisher - not a duplicate to merge)
+ * @route POST /api/catalog/works/link
+ */
+export const linkEdition = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can group editions' });
+  }
+
+  const { edition_id: editionId, target_id: targetId } = req.body;
+  if (!editionId || !targetId) {
+    return res.status(400).json({ error: 'edition_id and target_id are required' });
+  }
+  if (editionId === targetId) {
+    return res.status(400).json({ error: 'Cannot link a book to itself' });
+  }
+
+  try {
+    const edition = await db.works.linkEdition(editionId, targetId);
+    res.json({ edition });
+  } catch (error) {
+    if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Split a catalog book out of its work into a work of its own
+ * @route POST /api/catalog/works/detach
+ */
+export const detachEdition = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can group editions' });
+  }
+
+  const { edition_id: editionId } = req.body;
+  if (!editionId) {
+    return res.status(400).json({ error: 'edition_id is required' });
+  }
+
+  try {
+    const edition = await db.works.detachEdition(editionId);
+    res.json({ edition });
+  } catch (error) {
+    if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Lookup cache hit rates per day and the number of cached lookups
+ * @route GET /api/catalog/lookup-cache
+ */
+export const getLookupCacheMetrics = asyncHandler(async (req, res) => {
+  if (!isSiteAdmin(req.userId)) {
+    return res.status(403).json({ error: 'Only admins can view lookup cache metrics' });
+  }
+
+  const days = Math.min(Math.max(parseInt(req.query.days, 10) || 7, 1), MAX_METRICS_DAYS);
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const [rows, entries] = await Promise.all([db.lookupCache.getMetrics(since), db.lookupCache.countEntries()]);
+
+  const totals = { hits: 0, negativeHits: 0, misses: 0 };
+  for (const row of rows) {
+    totals.hits += row.hits;
+    totals.negativeHits += row.negative_hits;
+    totals.misses += row.misses;
+  }
+  const lookups = totals.hits + totals.negativeHits + totals.misses;
+
+  res.json({
+    days: rows.map((row) => ({
+      day: row.day,
+      lookupType: row.lookup_type,
+      hits: row.hits,
+      negativeHits: row.negative_hits,
+      misses: row.misses,
+    })),
+    totals: { ...totals, lookups, hitRate: lookups ? (totals.hits + totals.negativeHits) / lookups : null },
+    entries,
+  });
+});
@@ -1,5 +1,6 @@
 import { db } from '../db/adapter.js';
 import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { WHATSAPP_TEMPLATE_KEYS, WHATSAPP_TEMPLATE_MAX_LENGTH } from '../constants/loanStatus.js';
 
 /**
  * Get all families
@@ -78,10 +79,66 @@ export const createFamily = asyncHandler(async (req, res) => {
 });
 
 /**
- * Update a family
+ * Update a family (its admin)
  * @route PUT /api/families/:id
  */
 export const updateFamily = asyncHandler(async (req, res) => {
+  // The settings include the family's lending policy, so only its own admin changes them
+  if (req.familyId !== req.params.id) {
+    return res.status(403).json({ error: 'Only members of this family can change its settings' });
+  }
+  const user = await db.users.getById(req.userId);
+  if (!user?.is_family_admin) {
+    return res.status(403).json({ error: 'Only the family admin can change its settings' });
+  }
+
+  const { default_loan_period_days: loanPeriod } = req.body;
+  if (loanPeriod !== undefined && (!Number.isInteger(loanPeriod) || loanPeriod < 1 || loanPeriod > 365)) {
+    return res.status(400).json({ error: 'default_loan_period_days must be an integer between 1 and 365' });
+  }
+  const { max_loan_renewals: maxRenewals } = req.body;
+  if (maxRenewals !== undefined && (!Number.isInteger(maxRenewals) || maxRenewals < 0 || maxRenewals > 20)) {
+    return res.status(400).json({ error: 'max_loan_renewals must be an integer between 0 and 20' });
+  }
+
+  // Lending policy - null turns a rule off
+  const { max_loans_per_borrower: maxLoans, max_loan_period_days: maxPeriod } = req.body;
+  if (maxLoans !== undefined && maxLoans !== null && (!Number.isInteger(maxLoans) || maxLoans < 1 || maxLoans > 100)) {
+    return res.status(400).json({ error: 'max_loans_per_borrower must be null or an integer between 1 and 100' });
+  }
+  if (maxPeriod !== undefined && maxPeriod !== null && (!Number.isInteger(maxPeriod) || maxPeriod < 1 || maxPeriod > 365)) {
+    return res.status(400).json({ error: 'max_loan_period_days must be null or an integer between 1 and 365' });
+  }
+  const { allowed_borrower_family_ids: allowedFamilies } = req.body;
+  if (allowedFamilies !== undefined && allowedFamilies !== null
+    && (!Array.isArray(allowedFamilies) || allowedFamilies.some((id) => typeof id !== 'string'))) {
+    return res.status(400).json({ error: 'allowed_borrower_family_ids must be null or an array of family ids' });
+  }
+  for (const field of ['children_books_to_families_with_kids', 'has_children']) {
+    if (req.body[field] !== undefined && typeof req.body[field] !== 'boolean') {
+      return res.status(400).json({ error: `${field} must be a boolean` });
+    }
+  }
+
+  // WhatsApp templates - an empty or null template goes back to the default text
+  const { whatsapp_templates: templates } = req.body;
+  if (templates !== undefined) {
+    if (templates === null || typeof templates !== 'object' || Array.isArray(templates)) {
+      return res.status(400).json({ error: 'whatsapp_templates must be an object' });
+    }
+    for (const [key, text] of Object.entries(templates)) {
+      if (!WHATSAPP_TEMPLATE_KEYS.includes(key)) {
+        return res.status(400).json({ error: `Unknown WhatsApp template: ${key}` });
+      }
+      if (text !== null && (typeof text !== 'string' || text.length > WHATSAPP_TEMPLATE_MAX_LENGTH)) {
+        return res.status(400).json({ error: `WhatsApp template ${key} must be text of up to ${WHATSAPP_TEMPLATE_MAX_LENGTH} characters` });
+      }
+    }
+    req.body.whatsapp_templates = Object.fromEntries(
+      Object.entries(templates).filter(([, text]) => text && text.trim())
+    );
+  }
+
   try {
     const family = await db.families.update(req.params.id, req.body);
     if (!family) {
@@ -0,0 +1,213 @@
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import {
+  offerCopyToNextHold,
+  isClaimExpired,
+  withQueuePositions,
+  OPEN_HOLD_STATUSES
+} from '../services/holdQueue.js';
+import { recordLoanEvent } from '../services/loanEvents.js';
+import { notifyLoanRequested } from '../services/notifications.js';
+
+/**
+ * Load a hold, mapping bad ids to null
+ */
+async function findHold(id) {
+  try {
+    return await db.holds.getById(id);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expire a claim that was not picked up in time and pass the copy on
+ */
+async function expireClaim(hold) {
+  const expired = await db.holds.update(hold.id, { status: 'expired' });
+  try {
+    await offerCopyToNextHold(hold.claim_family_book_id);
+  } catch (error) {
+    console.error('Note: Could not offer copy to next hold:', error.message || error);
+  }
+  return expired;
+}
+
+/**
+ * Get hold queue entries for a book or a family
+ * @route GET /api/holds
+ */
+export const getHolds = asyncHandler(async (req, res) => {
+  const { bookCatalogId, familyId } = req.query;
+  if (!bookCatalogId && !familyId) {
+    return res.status(400).json({ error: 'bookCatalogId or familyId is required' });
+  }
+
+  const status = req.query.status
+    ? req.query.status.split(',').map((s) => s.trim()).filter(Boolean)
+    : OPEN_HOLD_STATUSES;
+
+  try {
+    const holds = await db.holds.getAll({ bookCatalogId, familyId, status });
+
+    // A family's holds span several books - positions need each book's full queue
+    let queue = holds;
+    if (!bookCatalogId && holds.length > 0) {
+      const bookCatalogIds = [...new Set(holds.map((hold) => hold.book_catalog_id))];
+      queue = await db.holds.getAll({ bookCatalogIds, status: 'waiting' });
+    }
+
+    res.json({ holds: withQueuePositions(holds, queue) });
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.json({ holds: [] });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Join the hold queue for a catalog book
+ * @route POST /api/holds
+ */
+export const joinHoldQueue = asyncHandler(async (req, res) => {
+  const bookCatalogId = req.body.book_catalog_id;
+  if (!bookCatalogId) {
+    return res.status(400).json({ error: 'book_catalog_id is required' });
+  }
+
+  let copies;
+  try {
+    copies = await db.books.getCopiesByCatalogId(bookCatalogId);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+  if (copies.length === 0) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  if (copies.some((copy) => copy.family_id === req.familyId)) {
+    return res.status(400).json({ error: 'Your family already owns a copy of this book' });
+  }
+
+  const existing = await db.holds.getAll({ bookCatalogId, familyId: req.familyId, status: OPEN_HOLD_STATUSES });
+  if (existing.length > 0) {
+    return res.status(409).json({ error: 'Your family is already in the queue for this book', hold: existing[0] });
+  }
+
+  try {
+    let hold = await db.holds.create({
+      book_catalog_id: bookCatalogId,
+      family_id: req.familyId,
+      requester_user_id: req.userId,
+      status: 'waiting',
+    });
+
+    // A copy may already be back on the shelf - reserve it for whoever is first in line
+    const availableCopies = copies.filter((copy) => copy.status === 'available');
+    for (const copy of availableCopies) {
+      const offered = await offerCopyToNextHold(copy.id);
+      if (offered?.id === hold.id) {
+        hold = offered;
+        break;
+      }
+    }
+
+    const queue = await db.holds.getAll({ bookCatalogId, status: 'waiting' });
+    const [holdWithPosition] = withQueuePositions([hold], queue);
+    res.status(201).json({ hold: holdWithPosition });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Your family is already in the queue for this book' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Leave the hold queue (or give up a claim)
+ * @route DELETE /api/holds/:id
+ */
+export const cancelHold = asyncHandler(async (req, res) => {
+  const hold = await findHold(req.params.id);
+  if (!hold) {
+    return res.status(404).json({ error: 'Hold not found' });
+  }
+
+  if (hold.family_id !== req.familyId) {
+    return res.status(403).json({ error: 'Only the family in the queue can cancel this hold' });
+  }
+
+  if (!OPEN_HOLD_STATUSES.includes(hold.status)) {
+    return res.status(409).json({ error: `Cannot cancel a hold with status '${hold.status}'` });
+  }
+
+  const cancelled = await db.holds.update(hold.id, { status: 'cancelled' });
+
+  // Giving up a claim frees the copy for the next family
+  if (hold.status === 'claimable' && hold.claim_family_book_id) {
+    try {
+      await offerCopyToNextHold(hold.claim_family_book_id);
+    } catch (error) {
+      console.error('Note: Could not offer copy to next hold:', error.message || error);
+    }
+  }
+
+  res.json({ hold: cancelled });
+});
+
+/**
+ * Claim the reserved copy - turns the hold into a loan request for the owner
+ * @route POST /api/holds/:id/claim
+ */
+export const claimHold = asyncHandler(async (req, res) => {
+  const hold = await findHold(req.params.id);
+  if (!hold) {
+    return res.status(404).json({ error: 'Hold not found' });
+  }
+
+  if (hold.family_id !== req.familyId) {
+    return res.status(403).json({ error: 'Only the family in the queue can claim this hold' });
+  }
+
+  if (hold.status !== 'claimable' || !hold.claim_family_book_id) {
+    return res.status(409).json({ error: `Cannot claim a hold with status '${hold.status}'` });
+  }
+
+  if (isClaimExpired(hold)) {
+    await expireClaim(hold);
+    return res.status(409).json({ error: 'The claim window has passed' });
+  }
+
+  const copy = await db.books.getFamilyBook(hold.claim_family_book_id);
+  if (!copy) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  try {
+    const loan = await db.loans.create({
+      family_book_id: copy.id,
+      borrower_family_id: hold.family_id,
+      owner_family_id: copy.family_id,
+      requester_user_id: req.userId,
+      status: 'pending',
+      notes: req.body?.notes || null,
+    });
+    const fulfilled = await db.holds.update(hold.id, { status: 'fulfilled', loan_id: loan.id });
+    await recordLoanEvent(loan, 'requested', { actorUserId: req.userId, details: { hold_id: hold.id } });
+    await notifyLoanRequested(loan);
+
+    res.status(201).json({ hold: fulfilled, loan });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Your family already has an open request for this book' });
+    }
+    throw error;
+  }
+});
@@ -1,5 +1,70 @@
-import { db } from '../db/adapter.js';
+import { randomUUID } from 'crypto';
+import { db, supabase } from '../db/adapter.js';
 import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import {
+  ONGOING_LOAN_STATUSES,
+  OPEN_REQUEST_STATUSES,
+  DEFAULT_LOAN_PERIOD_DAYS,
+  DEFAULT_MAX_LOAN_RENEWALS,
+  BOOK_CONDITIONS,
+  DAMAGE_REPORT_KINDS
+} from '../constants/loanStatus.js';
+import { offerCopyToNextHold } from '../services/holdQueue.js';
+import { checkLendingPolicy } from '../services/lendingPolicy.js';
+import { recordLoanEvent, eventForStatusChange } from '../services/loanEvents.js';
+import { notifyLoanRequested, notifyLoanApproved } from '../services/notifications.js';
+import { uploadLoanPhoto, createLoanPhotoUrls, validateImageFile } from '../services/storageService.js';
+
+/**
+ * Compute a due date from the owner family's default loan period
+ */
+async function computeDueDate(ownerFamilyId, from = new Date()) {
+  let periodDays = DEFAULT_LOAN_PERIOD_DAYS;
+  try {
+    const ownerFamily = await db.families.getById(ownerFamilyId);
+    periodDays = ownerFamily?.default_loan_period_days || DEFAULT_LOAN_PERIOD_DAYS;
+  } catch (error) {
+    console.warn('Could not load owner family loan period:', error.message);
+  }
+  const dueDate = new Date(from);
+  dueDate.setDate(dueDate.getDate() + periodDays);
+  return dueDate.toISOString();
+}
+
+/**
+ * Validate an optional due_date value from the request body
+ */
+function validateDueDate(value) {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return 'due_date must be a valid date';
+  }
+  return null;
+}
+
+/**
+ * An overdue loan whose due date moves into the future is active again
+ */
+function statusAfterDueDateChange(loan, dueDate) {
+  if (loan.status === 'overdue' && new Date(dueDate).getTime() > Date.now()) {
+    return 'active';
+  }
+  return loan.status;
+}
+
+/**
+ * Respond with 403 and the policy violations, if the owner's lending policy forbids the loan
+ * Returns true when a response was sent
+ */
+function rejectPolicyViolations(res, policy) {
+  if (!policy?.violations.length) return false;
+  res.status(403).json({
+    error: policy.violations.map((violation) => violation.message).join('; '),
+    violations: policy.violations,
+  });
+  return true;
+}
 
 /**
  * Get all loans
@@ -10,7 +75,7 @@ export const getAllLoans = asyncHandler(async (req, res) => {
   const loans = await db.loans.getAll({
     borrowerFamilyId,
     ownerFamilyId,
-    status,
+    status: status?.includes(',') ? status.split(',').map((s) => s.trim()).filter(Boolean) : status,
     bookId
   });
   res.json({ loans });
@@ -36,12 +101,33 @@ export const getLoanById = asyncHandler(async (req, res) => {
 });
 
 /**
- * Create a new loan
+ * Check a prospective loan against the owner family's lending policy
+ * @route GET /api/loans/policy-check?family_book_id=&borrower_family_id=&due_date=
+ */
+export const checkLoanPolicy = asyncHandler(async (req, res) => {
+  const { family_book_id: familyBookId, borrower_family_id: borrowerFamilyId, due_date: dueDate } = req.query;
+  if (!familyBookId || !borrowerFamilyId) {
+    return res.status(400).json({ error: 'family_book_id and borrower_family_id are required' });
+  }
+
+  const dueDateError = validateDueDate(dueDate);
+  if (dueDateError) {
+    return res.status(400).json({ error: dueDateError });
+  }
+
+  const policy = await checkLendingPolicy({ familyBookId, borrowerFamilyId, dueDate });
+  if (!policy) {
+    return res.status(404).json({ error: 'Book or family not found' });
+  }
+
+  res.json({ allowed: policy.violations.length === 0, violations: policy.violations });
+});
+
+/**
+ * Lend one of the family's copies (an active loan, without a request)
  * @route POST /api/loans
  */
 export const createLoan = asyncHandler(async (req, res) => {
-  console.log('Creating loan with payload:', req.body);
-
   // Validate required fields
   const bookId = req.body.family_book_id || req.body.book_id;
   if (!bookId || !req.body.borrower_family_id) {
@@ -53,33 +139,76 @@ export const createLoan = asyncHandler(async (req, res) => {
     req.body.family_book_id = req.body.book_id;
   }
 
-  // Always create loans with active status
-  req.body.status = 'active';
-  
-  // Log if client provided a loan ID (for frontend-generated UUIDs)
+  let familyBook;
+  try {
+    familyBook = await db.books.getFamilyBook(req.body.family_book_id);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+  if (!familyBook) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+  if (familyBook.family_id !== req.familyId) {
+    return res.status(403).json({ error: 'Only the owning family can lend this book' });
+  }
+
+  // A retried request with the same client-generated id gets the loan it already created
   if (req.body.id) {
-    console.log('Using client-provided loan ID:', req.body.id);
+    const existing = await findLoan(req.body.id);
+    if (existing) {
+      if (existing.family_book_id !== req.body.family_book_id || existing.borrower_family_id !== req.body.borrower_family_id) {
+        return res.status(409).json({ error: 'Loan id is already used by another loan' });
+      }
+      return res.json({ loan: existing });
+    }
   }
 
-  try {
-    const loan = await db.loans.create(req.body);
-    console.log('Loan created successfully:', loan.id);
+  const dueDateError = validateDueDate(req.body.due_date);
+  if (dueDateError) {
+    return res.status(400).json({ error: dueDateError });
+  }
+  if (!req.body.due_date) {
+    req.body.due_date = await computeDueDate(familyBook.family_id);
+  }
 
-    // Update book status to on_loan
-    console.log('Updating book status for family_book_id:', bookId);
-    try {
-      await db.books.update(bookId, { status: 'on_loan' });
-      console.log('Book status updated to on_loan');
-    } catch (bookUpdateError) {
-      console.error('Error updating book status:', bookUpdateError);
-      // Don't fail the whole operation if book update fails
-      // The loan was created successfully
+  const policy = await checkLendingPolicy({
+    familyBookId: req.body.family_book_id,
+    borrowerFamilyId: req.body.borrower_family_id,
+    dueDate: req.body.due_date,
+  });
+  if (rejectPolicyViolations(res, policy)) return;
+
+  try {
+    // Inserts the loan and marks the copy on_loan in one transaction
+    const { loan: createdLoan, created } = await db.loans.createActive(req.body);
+    const loan = await db.loans.getById(createdLoan.id);
+    if (!created) {
+      // Lost the race against a concurrent retry of the same request
+      return res.json({ loan });
     }
 
+    await recordLoanEvent(loan, 'handed_over', {
+      actorUserId: req.userId || null,
+      details: { due_date: loan.due_date },
+    });
+
     res.status(201).json({ loan });
   } catch (error) {
     console.error('Error creating loan:', error);
-    
+
+    if (error.code === 'P0001') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.code === '23505') {
+      // idx_loans_one_ongoing_per_copy - another loan of this copy was created concurrently
+      return res.status(409).json({ error: 'Book is currently on loan' });
+    }
+    if (error.code === 'P0002') {
+      return res.status(404).json({ error: 'Book not found' });
+    }
     if (error.code === '23503') {
       // Foreign key violation
       return res.status(400).json({ error: 'Invalid family_book_id or borrower_family_id' });
@@ -90,35 +219,831 @@ export const createLoan = asyncHandler(async (req, res) => {
 });
 
 /**
- * Update a loan
+ * Fields of a loan either family may edit with PUT /api/loans/:id
+ */
+const EDITABLE_LOAN_FIELDS = ['notes'];
+
+/**
+ * Update a loan (one of the two families on it): its notes, a return (the owner) or the
+ * cancellation of a request that hasn't been handed over
+ * The due date isn't changed here - it moves through renewal requests, which the owner
+ * approves within the family's max_loan_renewals. Approving, rejecting, handing over and
+ * passing on have their own endpoints.
  * @route PUT /api/loans/:id
  */
 export const updateLoan = asyncHandler(async (req, res) => {
+  if (req.body.due_date !== undefined) {
+    return res.status(400).json({ error: 'due_date is changed through a renewal request' });
+  }
+  const { status, return_date: returnDate, ...updates } = req.body;
+  if (status !== undefined && status !== 'returned' && status !== 'cancelled') {
+    return res.status(400).json({ error: `A loan can't be set to ${status} here` });
+  }
+  const readOnlyField = Object.keys(updates).find((field) => !EDITABLE_LOAN_FIELDS.includes(field));
+  if (readOnlyField) {
+    return res.status(400).json({ error: `${readOnlyField} can't be changed` });
+  }
+
   try {
-    const loan = await db.loans.update(req.params.id, req.body);
+    // Status changes are kept in the history, so load the current values first
+    const previousLoan = await findLoan(req.params.id);
+    if (!previousLoan) {
+      return res.status(400).json({ error: 'Loan not found' });
+    }
+    if (req.familyId !== previousLoan.owner_family_id && req.familyId !== previousLoan.borrower_family_id) {
+      return res.status(403).json({ error: 'Only the families on this loan can update it' });
+    }
+    // The borrower still has the book until the owner confirms it came back
+    if (status === 'returned' && req.familyId !== previousLoan.owner_family_id) {
+      return res.status(403).json({ error: 'Only the owning family can mark a loan returned' });
+    }
+    if (status === 'cancelled' && !OPEN_REQUEST_STATUSES.includes(previousLoan.status)) {
+      return res.status(409).json({ error: `Cannot cancel a loan with status '${previousLoan.status}'` });
+    }
+
+    // Returning changes the loan and the copy together
+    let releasedCopyStatus = null;
+    if (status === 'returned') {
+      const result = await db.loans.markReturned(req.params.id, returnDate);
+      if (result.returned) {
+        releasedCopyStatus = result.copy_status;
+      }
+    } else if (status === 'cancelled') {
+      await db.loans.cancel(req.params.id);
+    }
+    const loan = Object.keys(updates).length > 0
+      ? await db.loans.update(req.params.id, updates)
+      : await db.loans.getById(req.params.id);
     if (!loan) {
       return res.status(400).json({ error: 'Loan not found' });
     }
 
-    // Update book status based on loan status
-    if (loan.family_book_id) {
+    const statusEvent = eventForStatusChange(previousLoan.status, loan.status);
+    if (statusEvent) {
+      await recordLoanEvent(loan, statusEvent, { actorUserId: req.userId || null });
+    }
+
+    // The next family in the hold queue gets a time-limited claim
+    // (a copy reported damaged or lost stays unavailable and isn't offered)
+    if (loan.family_book_id && releasedCopyStatus === 'available') {
       try {
-        if (req.body.status === 'active') {
-          await db.books.update(loan.family_book_id, { status: 'on_loan' });
-        } else if (req.body.status === 'returned') {
-          await db.books.update(loan.family_book_id, { status: 'available' });
-        }
-      } catch (bookError) {
+        await offerCopyToNextHold(loan.family_book_id);
+      } catch (holdError) {
         // Log but don't fail - loan was updated successfully
-        console.error('Note: Could not update book status:', bookError.message || bookError);
+        console.error('Note: Could not offer the copy to the hold queue:', holdError.message || holdError);
       }
     }
 
     res.json({ loan });
   } catch (error) {
-    if (error.code === 'PGRST116' || error.message?.includes('not found')) {
+    if (error.code === 'PGRST116' || error.code === 'P0002' || error.message?.includes('not found')) {
       return res.status(400).json({ error: 'Loan not found' });
     }
+    if (error.code === 'P0001') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Book is currently on loan' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Allowed request transitions and which side of the loan may perform them
+ */
+const REQUEST_TRANSITIONS = {
+  approve: { from: ['pending'], to: 'approved', actor: 'owner', event: 'approved' },
+  reject: { from: ['pending', 'approved'], to: 'rejected', actor: 'owner', event: 'rejected' },
+  handover: { from: ['approved'], to: 'active', actor: 'owner', event: 'handed_over' },
+  cancel: { from: ['pending', 'approved'], to: 'cancelled', actor: 'borrower', event: 'cancelled' },
+};
+
+/**
+ * Request to borrow a specific copy (borrower-initiated)
+ * @route POST /api/loans/requests
+ */
+export const requestLoan = asyncHandler(async (req, res) => {
+  const familyBookId = req.body.family_book_id || req.body.book_id;
+  if (!familyBookId) {
+    return res.status(400).json({ error: 'family_book_id is required' });
+  }
+
+  let familyBook;
+  try {
+    familyBook = await db.books.getFamilyBook(familyBookId);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    throw error;
+  }
+  if (!familyBook) {
+    return res.status(404).json({ error: 'Book not found' });
+  }
+
+  if (familyBook.family_id === req.familyId) {
+    return res.status(400).json({ error: 'Cannot request a book your family owns' });
+  }
+
+  if (familyBook.status === 'unavailable') {
+    return res.status(409).json({ error: 'Book is not available for lending' });
+  }
+
+  const claim = await db.holds.getClaimForCopy(familyBookId);
+  if (claim && claim.family_id !== req.familyId) {
+    return res.status(409).json({ error: 'Book is reserved for the next family in the hold queue' });
+  }
+
+  // The due date is set at hand-over, so only the borrower-related rules apply here
+  const policy = await checkLendingPolicy({ familyBookId, borrowerFamilyId: req.familyId });
+  if (rejectPolicyViolations(res, policy)) return;
+
+  const openRequests = await db.loans.getAll({
+    bookId: familyBookId,
+    borrowerFamilyId: req.familyId,
+    status: OPEN_REQUEST_STATUSES,
+  });
+  if (openRequests.length > 0) {
+    return res.status(409).json({ error: 'Your family already has an open request for this book', loan: openRequests[0] });
+  }
+
+  try {
+    const loan = await db.loans.create({
+      ...(req.body.id && { id: req.body.id }),
+      family_book_id: familyBookId,
+      borrower_family_id: req.familyId,
+      owner_family_id: familyBook.family_id,
+      requester_user_id: req.userId,
+      status: 'pending',
+      notes: req.body.notes || null,
+    });
+    await recordLoanEvent(loan, 'requested', { actorUserId: req.userId });
+    await notifyLoanRequested(loan);
+    res.status(201).json({ loan });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'Your family already has an open request for this book' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Build a handler that moves a loan request along its workflow
+ */
+function createRequestTransitionHandler(action) {
+  const transition = REQUEST_TRANSITIONS[action];
+
+  return asyncHandler(async (req, res) => {
+    let loan;
+    try {
+      loan = await db.loans.getById(req.params.id);
+    } catch (error) {
+      if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
+        return res.status(404).json({ error: 'Loan not found' });
+      }
+      throw error;
+    }
+
+    const actorFamilyId = transition.actor === 'owner' ? loan.owner_family_id : loan.borrower_family_id;
+    if (req.familyId !== actorFamilyId) {
+      return res.status(403).json({
+        error: transition.actor === 'owner'
+          ? 'Only the owning family can perform this action'
+          : 'Only the requesting family can perform this action'
+      });
+    }
+
+    if (!transition.from.includes(loan.status)) {
+      return res.status(409).json({ error: `Cannot ${action} a loan with status '${loan.status}'` });
+    }
+
+    const updates = { status: transition.to };
+    if (action === 'approve') {
+      updates.approved_date = new Date().toISOString();
+    }
+    if (action === 'reject' && req.body?.notes) {
+      updates.notes = req.body.notes;
+    }
+
+    if (action === 'handover') {
+      const activeLoans = await db.loans.getAll({ bookId: loan.family_book_id, status: ONGOING_LOAN_STATUSES });
+      if (activeLoans.length > 0) {
+        return res.status(409).json({ error: 'Book is currently on loan' });
+      }
+
+      const dueDateError = validateDueDate(req.body?.due_date);
+      if (dueDateError) {
+        return res.status(400).json({ error: dueDateError });
+      }
+      updates.due_date = req.body?.due_date || loan.due_date || await computeDueDate(loan.owner_family_id);
+
+      // The due date is only known now, and the policy may have changed since the request
+      const policy = await checkLendingPolicy({
+        familyBookId: loan.family_book_id,
+        borrowerFamilyId: loan.borrower_family_id,
+        dueDate: updates.due_date,
+      });
+      if (rejectPolicyViolations(res, policy)) return;
+    }
+
+    let updatedLoan;
+    try {
+      if (action === 'cancel') {
+        await db.loans.cancel(loan.id);
+        updatedLoan = await db.loans.getById(loan.id);
+      } else if (action === 'handover') {
+        // Activates the loan and marks the copy on_loan in one transaction
+        await db.loans.handOver(loan.id, updates.due_date);
+        updatedLoan = await db.loans.getById(loan.id);
+      } else {
+        updatedLoan = await db.loans.update(loan.id, updates);
+      }
+    } catch (error) {
+      if (error.code === '23505') {
+        // idx_loans_one_ongoing_per_copy - the copy was handed to someone else meanwhile
+        return res.status(409).json({ error: 'Book is currently on loan' });
+      }
+      if (error.code === 'P0001') {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+    await recordLoanEvent(updatedLoan, transition.event, {
+      actorUserId: req.userId,
+      details: updates.due_date ? { due_date: updates.due_date } : null,
+    });
+
+    if (action === 'approve') {
+      await notifyLoanApproved(updatedLoan);
+    }
+
+    res.json({ loan: updatedLoan });
+  });
+}
+
+/**
+ * Approve a pending loan request
+ * @route POST /api/loans/:id/approve
+ */
+export const approveLoanRequest = createRequestTransitionHandler('approve');
+
+/**
+ * Reject a pending or approved loan request
+ * @route POST /api/loans/:id/reject
+ */
+export const rejectLoanRequest = createRequestTransitionHandler('reject');
+
+/**
+ * Hand the book over to the borrower - the loan becomes active
+ * @route POST /api/loans/:id/handover
+ */
+export const handOverLoan = createRequestTransitionHandler('handover');
+
+/**
+ * Withdraw a loan request (borrower)
+ * @route POST /api/loans/:id/cancel
+ */
+export const cancelLoanRequest = createRequestTransitionHandler('cancel');
+
+/**
+ * Load a loan for the renewal handlers, mapping bad ids to 404
+ */
+async function findLoan(id) {
+  try {
+    return await db.loans.getById(id);
+  } catch (error) {
+    if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
+      return null;
+    }
     throw error;
   }
+}
+
+/**
+ * Get the due date history of a loan
+ * @route GET /api/loans/:id/renewals
+ */
+export const getLoanRenewals = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  const renewals = await db.loanRenewals.getByLoanId(loan.id);
+  res.json({
+    renewals,
+    max_renewals: loan.owner_family?.max_loan_renewals ?? DEFAULT_MAX_LOAN_RENEWALS,
+  });
+});
+
+/**
+ * Ask the owner for a later due date (borrower)
+ * @route POST /api/loans/:id/renewals
+ */
+export const requestLoanRenewal = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the borrowing family can request a renewal' });
+  }
+
+  if (!ONGOING_LOAN_STATUSES.includes(loan.status)) {
+    return res.status(409).json({ error: `Cannot renew a loan with status '${loan.status}'` });
+  }
+
+  const { requested_due_date: requestedDueDate, extra_days: extraDays } = req.body;
+  let dueDate = requestedDueDate;
+  if (!dueDate && extraDays !== undefined) {
+    if (!Number.isInteger(extraDays) || extraDays < 1 || extraDays > 365) {
+      return res.status(400).json({ error: 'extra_days must be an integer between 1 and 365' });
+    }
+    const base = loan.due_date && new Date(loan.due_date) > new Date() ? new Date(loan.due_date) : new Date();
+    base.setDate(base.getDate() + extraDays);
+    dueDate = base.toISOString();
+  }
+  if (!dueDate) {
+    return res.status(400).json({ error: 'requested_due_date or extra_days is required' });
+  }
+
+  const dueDateError = validateDueDate(dueDate);
+  if (dueDateError) {
+    return res.status(400).json({ error: dueDateError });
+  }
+  if (loan.due_date && new Date(dueDate) <= new Date(loan.due_date)) {
+    return res.status(400).json({ error: 'requested_due_date must be later than the current due date' });
+  }
+
+  const renewals = loan.renewals || [];
+  if (renewals.some((renewal) => renewal.status === 'pending')) {
+    return res.status(409).json({ error: 'A renewal request is already waiting for the owner' });
+  }
+
+  const maxRenewals = loan.owner_family?.max_loan_renewals ?? DEFAULT_MAX_LOAN_RENEWALS;
+  const approvedCount = renewals.filter((renewal) => renewal.status === 'approved').length;
+  if (approvedCount >= maxRenewals) {
+    return res.status(409).json({ error: `This loan was already renewed ${approvedCount} times (maximum ${maxRenewals})` });
+  }
+
+  try {
+    const renewal = await db.loanRenewals.create({
+      loan_id: loan.id,
+      status: 'pending',
+      previous_due_date: loan.due_date,
+      requested_due_date: new Date(dueDate).toISOString(),
+      requested_by_user_id: req.userId,
+      notes: req.body.notes || null,
+    });
+    await recordLoanEvent(loan, 'renewal_requested', {
+      actorUserId: req.userId,
+      details: { renewal_id: renewal.id, requested_due_date: renewal.requested_due_date },
+    });
+    res.status(201).json({ renewal });
+  } catch (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A renewal request is already waiting for the owner' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Build a handler for the owner's answer to a renewal request
+ */
+function createRenewalDecisionHandler(decision) {
+  return asyncHandler(async (req, res) => {
+    const loan = await findLoan(req.params.id);
+    if (!loan) {
+      return res.status(404).json({ error: 'Loan not found' });
+    }
+
+    let renewal;
+    try {
+      renewal = await db.loanRenewals.getById(req.params.renewalId);
+    } catch (error) {
+      if (!error.message?.includes('invalid input syntax')) throw error;
+    }
+    if (!renewal || renewal.loan_id !== loan.id) {
+      return res.status(404).json({ error: 'Renewal request not found' });
+    }
+
+    if (req.familyId !== loan.owner_family_id) {
+      return res.status(403).json({ error: 'Only the owning family can answer a renewal request' });
+    }
+
+    if (renewal.status !== 'pending') {
+      return res.status(409).json({ error: `Renewal request was already ${renewal.status}` });
+    }
+
+    if (decision === 'approved' && !ONGOING_LOAN_STATUSES.includes(loan.status)) {
+      return res.status(409).json({ error: `Cannot renew a loan with status '${loan.status}'` });
+    }
+
+    const updatedRenewal = await db.loanRenewals.update(renewal.id, {
+      status: decision,
+      decided_by_user_id: req.userId,
+      decided_at: new Date().toISOString(),
+    });
+
+    let updatedLoan = loan;
+    if (decision === 'approved') {
+      updatedLoan = await db.loans.update(loan.id, {
+        due_date: renewal.requested_due_date,
+        status: statusAfterDueDateChange(loan, renewal.requested_due_date),
+      });
+    }
+    await recordLoanEvent(loan, decision === 'approved' ? 'renewed' : 'renewal_declined', {
+      actorUserId: req.userId,
+      details: {
+        renewal_id: renewal.id,
+        previous_due_date: loan.due_date,
+        requested_due_date: renewal.requested_due_date,
+      },
+    });
+
+    res.json({ loan: updatedLoan, renewal: updatedRenewal });
+  });
+}
+
+/**
+ * Accept a renewal request - the loan gets the requested due date
+ * @route POST /api/loans/:id/renewals/:renewalId/approve
+ */
+export const approveLoanRenewal = createRenewalDecisionHandler('approved');
+
+/**
+ * Decline a renewal request - the due date stays as it is
+ * @route POST /api/loans/:id/renewals/:renewalId/decline
+ */
+export const declineLoanRenewal = createRenewalDecisionHandler('declined');
+
+/**
+ * Propose handing the copy straight to the next family (borrower)
+ * Without next_family_id the first waiting family in the book's hold queue is used
+ * @route POST /api/loans/:id/pass-on
+ */
+export const requestPassOn = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the borrowing family can pass the book on' });
+  }
+
+  if (!ONGOING_LOAN_STATUSES.includes(loan.status)) {
+    return res.status(409).json({ error: `Cannot pass on a loan with status '${loan.status}'` });
+  }
+
+  if (loan.pass_on_family_id) {
+    return res.status(409).json({ error: 'A pass-on is already waiting for the owner' });
+  }
+
+  let nextFamilyId = req.body.next_family_id;
+  let holdId = null;
+  if (!nextFamilyId) {
+    const copy = await db.books.getFamilyBook(loan.family_book_id);
+    const waiting = copy
+      ? await db.holds.getAll({ bookCatalogId: copy.book_catalog_id, status: 'waiting' })
+      : [];
+    const nextHold = waiting.find((hold) =>
+      hold.family_id !== loan.owner_family_id && hold.family_id !== loan.borrower_family_id
+    );
+    if (!nextHold) {
+      return res.status(400).json({ error: 'next_family_id is required when nobody is waiting for this book' });
+    }
+    nextFamilyId = nextHold.family_id;
+    holdId = nextHold.id;
+  }
+
+  if (nextFamilyId === loan.borrower_family_id) {
+    return res.status(400).json({ error: 'Cannot pass a book on to your own family' });
+  }
+  if (nextFamilyId === loan.owner_family_id) {
+    return res.status(400).json({ error: 'The book goes back to its owner - mark it as returned instead' });
+  }
+
+  try {
+    const updatedLoan = await db.loans.update(loan.id, {
+      pass_on_family_id: nextFamilyId,
+      pass_on_hold_id: holdId,
+      pass_on_requested_by: req.userId,
+      pass_on_requested_at: new Date().toISOString(),
+    });
+    res.json({ loan: updatedLoan });
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(400).json({ error: 'Invalid next_family_id' });
+    }
+    throw error;
+  }
+});
+
+/**
+ * Approve a pass-on - closes this loan and opens the next one in one transaction (owner)
+ * @route POST /api/loans/:id/pass-on/approve
+ */
+export const approvePassOn = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.owner_family_id) {
+    return res.status(403).json({ error: 'Only the owning family can approve a pass-on' });
+  }
+
+  if (!loan.pass_on_family_id) {
+    return res.status(409).json({ error: 'No pass-on was requested for this loan' });
+  }
+
+  const dueDateError = validateDueDate(req.body?.due_date);
+  if (dueDateError) {
+    return res.status(400).json({ error: dueDateError });
+  }
+  const dueDate = req.body?.due_date || await computeDueDate(loan.owner_family_id);
+
+  // The next family borrows from the owner like any other borrower
+  const policy = await checkLendingPolicy({
+    familyBookId: loan.family_book_id,
+    borrowerFamilyId: loan.pass_on_family_id,
+    dueDate,
+  });
+  if (rejectPolicyViolations(res, policy)) return;
+
+  let nextLoan;
+  try {
+    nextLoan = await db.loans.passOn(loan.id, dueDate);
+  } catch (error) {
+    if (error.code === 'P0001') {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error.code === 'P0002') {
+      return res.status(404).json({ error: 'Loan not found' });
+    }
+    throw error;
+  }
+
+  await recordLoanEvent(loan, 'passed_on', {
+    actorUserId: req.userId,
+    details: { next_loan_id: nextLoan.id, next_family_id: nextLoan.borrower_family_id },
+  });
+  await recordLoanEvent(nextLoan, 'handed_over', {
+    actorUserId: req.userId,
+    details: { previous_loan_id: loan.id, due_date: nextLoan.due_date },
+  });
+
+  const fullLoan = await db.loans.getById(nextLoan.id);
+  res.json({ loan: fullLoan, previous_loan_id: loan.id });
+});
+
+/**
+ * Decline (owner) or withdraw (borrower) a pending pass-on
+ * @route POST /api/loans/:id/pass-on/decline
+ */
+export const declinePassOn = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.owner_family_id && req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the families on this loan can decline a pass-on' });
+  }
+
+  if (!loan.pass_on_family_id || !ONGOING_LOAN_STATUSES.includes(loan.status)) {
+    return res.status(409).json({ error: 'No pass-on is waiting for this loan' });
+  }
+
+  const updatedLoan = await db.loans.update(loan.id, {
+    pass_on_family_id: null,
+    pass_on_hold_id: null,
+    pass_on_requested_by: null,
+    pass_on_requested_at: null,
+  });
+  res.json({ loan: updatedLoan });
+});
+
+/**
+ * Validate and store a condition record with its photos (multipart field "photos")
+ * Returns { error } for invalid input, { record } otherwise
+ */
+async function saveConditionRecord(req, loan, kind, { conditionRequired }) {
+  const condition = req.body.condition || null;
+  if (conditionRequired && !condition) {
+    return { error: 'condition is required' };
+  }
+  if (condition && !BOOK_CONDITIONS.includes(condition)) {
+    return { error: `condition must be one of: ${BOOK_CONDITIONS.join(', ')}` };
+  }
+
+  const files = req.files || [];
+  for (const file of files) {
+    const validation = validateImageFile(file);
+    if (!validation.valid) {
+      return { error: validation.error };
+    }
+  }
+
+  const recordId = randomUUID();
+  const photoPaths = [];
+  for (const [index, file] of files.entries()) {
+    photoPaths.push(await uploadLoanPhoto(supabase, loan.id, recordId, index, file.buffer, file.mimetype));
+  }
+
+  const record = await db.loanConditionRecords.create({
+    id: recordId,
+    loan_id: loan.id,
+    family_book_id: loan.family_book_id,
+    kind,
+    condition,
+    notes: req.body.notes || null,
+    photo_paths: photoPaths,
+    created_by_user_id: req.userId,
+  });
+  return { record };
+}
+
+/**
+ * Get the condition records of a loan, with short-lived photo URLs
+ * @route GET /api/loans/:id/condition
+ */
+export const getLoanConditionRecords = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  // Photos may show a family's home, so only the two families on the loan see them
+  if (req.familyId !== loan.owner_family_id && req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the families on this loan can see its condition records' });
+  }
+
+  const records = await db.loanConditionRecords.getByLoanId(loan.id);
+  const photoUrls = await createLoanPhotoUrls(supabase, records.flatMap((record) => record.photo_paths || []));
+  res.json({
+    records: records.map((record) => ({
+      ...record,
+      photo_urls: (record.photo_paths || []).map((path) => photoUrls[path]).filter(Boolean),
+    })),
+  });
+});
+
+/**
+ * Record the condition of the copy when it is handed over (checkout) or comes back (checkin)
+ * @route POST /api/loans/:id/condition
+ */
+export const recordLoanCondition = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.owner_family_id && req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the families on this loan can record its condition' });
+  }
+
+  const { kind } = req.body;
+  if (!['checkout', 'checkin'].includes(kind)) {
+    return res.status(400).json({ error: "kind must be 'checkout' or 'checkin'" });
+  }
+
+  if (['rejected', 'cancelled'].includes(loan.status)) {
+    return res.status(409).json({ error: `Cannot record condition for a loan with status '${loan.status}'` });
+  }
+
+  // A check-in may carry only notes or photos; the copy's condition is then left as it was
+  const { error, record } = await saveConditionRecord(req, loan, kind, { conditionRequired: kind === 'checkout' });
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  // The copy's current condition follows the latest check-out / check-in
+  if (record.condition) {
+    try {
+      await db.books.update(loan.family_book_id, { condition: record.condition });
+    } catch (bookError) {
+      console.error('Note: Could not update book condition:', bookError.message || bookError);
+    }
+  }
+
+  res.status(201).json({ record });
+});
+
+/**
+ * Report the copy as damaged or lost - it is taken out of circulation (owner)
+ * @route POST /api/loans/:id/damage-report
+ */
+export const reportLoanDamage = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.owner_family_id) {
+    return res.status(403).json({ error: 'Only the owning family can report damage or loss' });
+  }
+
+  const kind = req.body.kind || 'damage';
+  if (!DAMAGE_REPORT_KINDS.includes(kind)) {
+    return res.status(400).json({ error: "kind must be 'damage' or 'loss'" });
+  }
+
+  if (kind === 'damage' && !req.body.notes && !req.files?.length) {
+    return res.status(400).json({ error: 'Describe the damage in notes or attach a photo' });
+  }
+
+  const { error, record } = await saveConditionRecord(req, loan, kind, { conditionRequired: false });
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  const book = await db.books.update(loan.family_book_id, {
+    status: 'unavailable',
+    ...(record.condition && { condition: record.condition }),
+  });
+  await recordLoanEvent(loan, 'damage_reported', {
+    actorUserId: req.userId,
+    details: { kind, condition_record_id: record.id },
+  });
+
+  res.status(201).json({ record, book });
+});
+
+/**
+ * Get the event ledger of a loan (the two families on it), or of every loan of a copy
+ * (?familyBookId=, the owning family)
+ * @route GET /api/loans/events
+ * @route GET /api/loans/:id/events
+ */
+export const getLoanEvents = asyncHandler(async (req, res) => {
+  const loanId = req.params.id;
+  const familyBookId = req.query.familyBookId;
+  if (!loanId && !familyBookId) {
+    return res.status(400).json({ error: 'familyBookId is required' });
+  }
+
+  if (loanId) {
+    const loan = await findLoan(loanId);
+    if (!loan) {
+      return res.status(404).json({ error: 'Loan not found' });
+    }
+    // Disputes and who did what are between the two families
+    if (req.familyId !== loan.owner_family_id && req.familyId !== loan.borrower_family_id) {
+      return res.status(403).json({ error: 'Only the families on this loan can see its history' });
+    }
+  } else {
+    let familyBook;
+    try {
+      familyBook = await db.books.getFamilyBook(familyBookId);
+    } catch (error) {
+      if (error.message?.includes('invalid input syntax')) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+      throw error;
+    }
+    if (!familyBook) {
+      return res.status(404).json({ error: 'Book not found' });
+    }
+    if (familyBook.family_id !== req.familyId) {
+      return res.status(403).json({ error: 'Only the owning family can see the loan history of a copy' });
+    }
+  }
+
+  const events = await db.loanEvents.getAll(loanId ? { loanId } : { familyBookId });
+  res.json({ events });
+});
+
+/**
+ * Flag a loan as disputed (e.g. "we returned it", "it came back damaged") - either family
+ * @route POST /api/loans/:id/dispute
+ */
+export const disputeLoan = asyncHandler(async (req, res) => {
+  const loan = await findLoan(req.params.id);
+  if (!loan) {
+    return res.status(404).json({ error: 'Loan not found' });
+  }
+
+  if (req.familyId !== loan.owner_family_id && req.familyId !== loan.borrower_family_id) {
+    return res.status(403).json({ error: 'Only the families on this loan can dispute it' });
+  }
+
+  const reason = req.body.reason?.trim();
+  if (!reason) {
+    return res.status(400).json({ error: 'reason is required' });
+  }
+
+  const event = await db.loanEvents.create({
+    loan_id: loan.id,
+    family_book_id: loan.family_book_id,
+    event_type: 'disputed',
+    actor_user_id: req.userId,
+    details: { reason, family_id: req.familyId },
+  });
+  res.status(201).json({ event });
 });
@@ -0,0 +1,149 @@
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { NOTIFICATION_TYPES } from '../services/notifications.js';
+import { DIGEST_FREQUENCIES } from '../services/reminderDigest.js';
+
+const MAX_LIMIT = 100;
+
+const toDigestResponse = (user) => ({
+  frequency: user.digest_frequency || 'daily',
+  quiet_hours_start: user.digest_quiet_start ?? null,
+  quiet_hours_end: user.digest_quiet_end ?? null,
+  last_sent_at: user.digest_last_sent_at || null,
+});
+
+const isHour = (value) => Number.isInteger(value) && value >= 0 && value <= 23;
+
+// Every type is on unless the user turned it off
+const withDefaults = (stored) => Object.fromEntries(
+  NOTIFICATION_TYPES.map((type) => [type, stored?.[type] !== false])
+);
+
+/**
+ * Get the current user's notifications, newest first
+ * @route GET /api/notifications
+ */
+export const getNotifications = asyncHandler(async (req, res) => {
+  const unreadOnly = req.query.unread === 'true';
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_LIMIT);
+
+  const [notifications, unreadCount] = await Promise.all([
+    db.notifications.getByUserId(req.userId, { unreadOnly, limit }),
+    db.notifications.countUnread(req.userId),
+  ]);
+  res.json({ notifications, unread_count: unreadCount });
+});
+
+/**
+ * Get the number of unread notifications (navbar badge)
+ * @route GET /api/notifications/unread-count
+ */
+export const getUnreadCount = asyncHandler(async (req, res) => {
+  const count = await db.notifications.countUnread(req.userId);
+  res.json({ count });
+});
+
+/**
+ * Mark one notification as read
+ * @route POST /api/notifications/:id/read
+ */
+export const markNotificationRead = asyncHandler(async (req, res) => {
+  let notification;
+  try {
+    notification = await db.notifications.markRead(req.params.id, req.userId);
+  } catch (error) {
+    if (error.message?.includes('invalid input syntax')) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    throw error;
+  }
+  if (!notification) {
+    return res.status(404).json({ error: 'Notification not found' });
+  }
+  res.json(notification);
+});
+
+/**
+ * Mark all of the current user's notifications as read
+ * @route POST /api/notifications/read-all
+ */
+export const markAllNotificationsRead = asyncHandler(async (req, res) => {
+  const updated = await db.notifications.markAllRead(req.userId);
+  res.json({ updated });
+});
+
+/**
+ * Get the current user's notification preferences (type -> enabled)
+ * @route GET /api/notifications/preferences
+ */
+export const getNotificationPreferences = asyncHandler(async (req, res) => {
+  const user = await db.users.getById(req.userId);
+  res.json({ preferences: withDefaults(user.notification_preferences) });
+});
+
+/**
+ * Turn notification types on or off; types left out of the body keep their setting
+ * @route PUT /api/notifications/preferences
+ */
+export const updateNotificationPreferences = asyncHandler(async (req, res) => {
+  const { preferences } = req.body || {};
+  if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences)) {
+    return res.status(400).json({ error: 'preferences object is required' });
+  }
+
+  for (const [type, enabled] of Object.entries(preferences)) {
+    if (!NOTIFICATION_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Unknown notification type: ${type}` });
+    }
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: `Preference for ${type} must be true or false` });
+    }
+  }
+
+  const user = await db.users.getById(req.userId);
+  const updated = await db.users.update(req.userId, {
+    notification_preferences: { ...(user.notification_preferences || {}), ...preferences },
+  });
+  res.json({ preferences: withDefaults(updated.notification_preferences) });
+});
+
+/**
+ * Get the current user's reminder digest email settings
+ * @route GET /api/notifications/digest
+ */
+export const getDigestSettings = asyncHandler(async (req, res) => {
+  const user = await db.users.getById(req.userId);
+  res.json({ digest: toDigestResponse(user) });
+});
+
+/**
+ * Update the reminder digest frequency and quiet hours (hours in Asia/Jerusalem, null for none)
+ * @route PUT /api/notifications/digest
+ */
+export const updateDigestSettings = asyncHandler(async (req, res) => {
+  const { frequency, quiet_hours_start: quietStart, quiet_hours_end: quietEnd } = req.body || {};
+  const updates = {};
+
+  if (frequency !== undefined) {
+    if (!DIGEST_FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({ error: `frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}` });
+    }
+    updates.digest_frequency = frequency;
+  }
+
+  if (quietStart !== undefined || quietEnd !== undefined) {
+    const cleared = quietStart === null && quietEnd === null;
+    if (!cleared && !(isHour(quietStart) && isHour(quietEnd))) {
+      return res.status(400).json({ error: 'quiet_hours_start and quiet_hours_end must both be hours (0-23), or both null' });
+    }
+    updates.digest_quiet_start = quietStart;
+    updates.digest_quiet_end = quietEnd;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return res.status(400).json({ error: 'No digest settings to update' });
+  }
+
+  const user = await db.users.update(req.userId, updates);
+  res.json({ digest: toDigestResponse(user) });
+});
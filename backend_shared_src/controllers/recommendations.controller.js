@@ -26,7 +26,7 @@ export const getRecommendations = asyncHandler(async (req, res) => {
   if (likedCatalogIds.length > 0) {
     const { data: catalogData } = await supabase
       .from('book_catalog')
-      .select('id, genre, age_range, author')
+      .select('id, work_id, author_id, genre, age_range, author')
       .in('id', likedCatalogIds);
     likedBooks = catalogData || [];
   }
@@ -46,7 +46,7 @@ export const getRecommendations = asyncHandler(async (req, res) => {
   if (reviewedCatalogIds.length > 0) {
     const { data: catalogData } = await supabase
       .from('book_catalog')
-      .select('id, genre, age_range, author')
+      .select('id, work_id, author_id, genre, age_range, author')
       .in('id', reviewedCatalogIds);
     highRatedBooks = catalogData || [];
   }
@@ -80,6 +80,10 @@ export const getRecommendations = asyncHandler(async (req, res) => {
     ...likedCatalogIds,
     ...reviewedCatalogIds
   ]);
+  // Works too - liking the Hebrew edition covers the English one
+  const interactedWorkIds = new Set(
+    [...likedBooks, ...highRatedBooks].map(book => book?.work_id).filter(Boolean)
+  );
 
   // Build recommendation query - use family_books table
   let query = supabase
@@ -88,6 +92,8 @@ export const getRecommendations = asyncHandler(async (req, res) => {
       *,
       book_catalog!book_catalog_id(
         id,
+        work_id,
+        author_id,
         title,
         title_hebrew,
         author,
@@ -115,10 +121,19 @@ export const getRecommendations = asyncHandler(async (req, res) => {
 
   if (recsError) throw recsError;
 
-  // Filter out books user has already interacted with (by catalog ID)
-  let filteredRecs = (recommendations || []).filter(
-    book => !interactedBookCatalogIds.has(book.book_catalog_id)
-  );
+  // Filter out books user has already interacted with (by catalog ID or work),
+  // and recommend each work once even when several editions are around
+  const recommendedWorkIds = new Set();
+  let filteredRecs = (recommendations || []).filter(book => {
+    const workId = book.book_catalog?.work_id;
+    if (interactedBookCatalogIds.has(book.book_catalog_id) || interactedWorkIds.has(workId)) {
+      return false;
+    }
+    if (!workId) return true;
+    if (recommendedWorkIds.has(workId)) return false;
+    recommendedWorkIds.add(workId);
+    return true;
+  });
 
   // Filter by preferred genres if we have any
   if (preferredGenres.size > 0) {
@@ -132,6 +147,14 @@ export const getRecommendations = asyncHandler(async (req, res) => {
     );
   }
 
+  // Authors of liked books; the free-text name is only used for books not linked to an author
+  const likedAuthorIds = new Set(
+    [...likedBooks, ...highRatedBooks].map(book => book?.author_id).filter(Boolean)
+  );
+  const likedAuthors = [...likedBooks, ...highRatedBooks]
+    .map(book => book?.author)
+    .filter(Boolean);
+
   // Calculate match scores and reasons
   const scoredRecs = filteredRecs.map(book => {
     let score = 0;
@@ -149,12 +172,12 @@ export const getRecommendations = asyncHandler(async (req, res) => {
       score += 20;
     }
 
-    // Same author as liked books (0-20 points)
-    const likedAuthors = [...likedBooks, ...highRatedBooks]
-      .map(book => book?.author)
-      .filter(Boolean);
-    
-    if (catalog.author && likedAuthors.includes(catalog.author)) {
+    // Same author as liked books (0-20 points) - by author record, so any spelling matches
+    const sameAuthor = catalog.author_id
+      ? likedAuthorIds.has(catalog.author_id)
+      : Boolean(catalog.author && likedAuthors.includes(catalog.author));
+
+    if (sameAuthor) {
       score += 20;
       reasons.push(`אהבת ספרים של ${catalog.author}`);
     }
@@ -166,6 +189,8 @@ export const getRecommendations = asyncHandler(async (req, res) => {
       id: book.id,
       family_book_id: book.id,
       book_catalog_id: book.book_catalog_id,
+      work_id: catalog.work_id,
+      author_id: catalog.author_id,
       status: book.status,
       families: book.families,
       // Flatten book_catalog fields to top level
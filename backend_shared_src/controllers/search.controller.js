@@ -1,7 +1,56 @@
-import { supabase } from '../db/adapter.js';
-import { searchBooks, searchBookDetails } from '../services/bookSearch.js';
+import { db, supabase } from '../db/adapter.js';
+import { searchBookByIsbn, searchBookDetails, searchBooks } from '../services/bookSearch.js';
+import { getBookProviders } from '../services/bookProviders.js';
+import { normalizeIsbn, isbnVariants } from '../services/isbn.js';
+import { buildHighlights } from '../services/hebrewSearch.js';
+import { FACETS, searchRecords, toSearchRecord } from '../services/searchFacets.js';
 import { asyncHandler } from '../middleware/errorHandler.middleware.js';
 
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+// Most text matches the facets are counted over
+const MAX_TEXT_MATCHES = 500;
+
+/**
+ * Catalog IDs of the books in the user's family
+ */
+async function getUserOwnedBookIds(userId) {
+  const { data: userBooks, error: userBooksError } = await supabase
+    .from('family_books')
+    .select('book_catalog_id, families!inner(users!inner(id))')
+    .eq('families.users.id', userId);
+
+  if (userBooksError || !userBooks) {
+    return new Set();
+  }
+  return new Set(userBooks.map(b => b.book_catalog_id));
+}
+
+/**
+ * Transform a catalog row to match external API format
+ */
+function catalogToSearchResult(book, userOwnedBookIds) {
+  return {
+    title: book.title,
+    author: book.author,
+    series: book.series,
+    series_number: book.series_number,
+    publisher: book.publisher,
+    publish_year: book.year_published,
+    pages: book.pages,
+    description: book.summary,
+    cover_image_url: book.cover_image_url,
+    isbn: book.isbn,
+    genre: book.genre,
+    language: 'he',
+    source: 'catalog',
+    catalogId: book.id,
+    alreadyOwned: userOwnedBookIds.has(book.id),
+    confidence: 'exact',
+    confidenceScore: 100
+  };
+}
+
 /**
  * Search for books across catalog and external sources
  * @route GET /api/search-books
@@ -26,50 +75,31 @@ export const searchBooksGlobal = asyncHandler(async (req, res) => {
   
   console.log(`Book search request: "${searchQuery}" (provider: ${provider})`);
   
-  // First, search our own catalog
-  const { data: catalogResults, error: catalogError } = await supabase
-    .from('book_catalog')
-    .select('*')
-    .or(`title.ilike.%${searchQuery}%,author.ilike.%${searchQuery}%`)
-    .limit(10);
-  
-  if (catalogError) {
+  // First, search our own catalog (ranked, Hebrew-aware - best match first)
+  let catalogResults = [];
+  try {
+    const matches = await db.catalog.search(searchQuery, { limit: 10 });
+    if (matches.length > 0) {
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('*')
+        .in('id', matches.map(match => match.id));
+      if (error) throw error;
+
+      const order = new Map(matches.map((match, index) => [match.id, index]));
+      catalogResults = data.sort((a, b) => order.get(a.id) - order.get(b.id));
+    }
+  } catch (catalogError) {
     console.error('Catalog search error:', catalogError);
   }
   
   // If user ID provided, check which books they already own
   let userOwnedBookIds = new Set();
   if (userId && catalogResults?.length > 0) {
-    const { data: userBooks, error: userBooksError } = await supabase
-      .from('family_books')
-      .select('book_catalog_id, families!inner(users!inner(id))')
-      .eq('families.users.id', userId);
-    
-    if (!userBooksError && userBooks) {
-      userOwnedBookIds = new Set(userBooks.map(b => b.book_catalog_id));
-    }
+    userOwnedBookIds = await getUserOwnedBookIds(userId);
   }
   
-  // Transform catalog results to match external API format
-  const catalogBooks = (catalogResults || []).map(book => ({
-    title: book.title,
-    author: book.author,
-    series: book.series,
-    series_number: book.series_number,
-    publisher: book.publisher,
-    publish_year: book.year_published,
-    pages: book.pages,
-    description: book.summary,
-    cover_image_url: book.cover_image_url,
-    isbn: book.isbn,
-    genre: book.genre,
-    language: 'he',
-    source: 'catalog',
-    catalogId: book.id,
-    alreadyOwned: userOwnedBookIds.has(book.id),
-    confidence: 'exact',
-    confidenceScore: 100
-  }));
+  const catalogBooks = (catalogResults || []).map(book => catalogToSearchResult(book, userOwnedBookIds));
   
   // Search external sources
   let externalResults = [];
@@ -101,3 +131,148 @@ export const searchBooksGlobal = asyncHandler(async (req, res) => {
     results: allResults
   });
 });
+
+/**
+ * Book metadata providers a search can be limited to (?provider=), highest priority first
+ * @route GET /api/search-books/sources
+ */
+export const getSearchSources = asyncHandler(async (req, res) => {
+  res.json({
+    sources: getBookProviders().map(({ name, displayName }) => ({ name, displayName }))
+  });
+});
+
+/**
+ * Look up a single book by ISBN (e.g. a scanned barcode) - catalog first, then external sources
+ * @route GET /api/search-books/isbn/:isbn
+ */
+export const searchByIsbn = asyncHandler(async (req, res) => {
+  const { userId } = req.query;
+  const isbn = normalizeIsbn(req.params.isbn);
+
+  if (!isbn) {
+    return res.status(400).json({ error: 'Invalid ISBN' });
+  }
+
+  // Stored ISBNs may be either form and may contain hyphens, so match on the digits
+  const variants = isbnVariants(isbn);
+  const { data: catalogResults, error: catalogError } = await supabase
+    .from('book_catalog')
+    .select('*')
+    .or(variants.map(variant => `isbn.ilike.${variant.split('').join('%')}`).join(','))
+    .limit(1);
+
+  if (catalogError) {
+    console.error('Catalog ISBN lookup error:', catalogError);
+  }
+
+  if (catalogResults?.length > 0) {
+    const userOwnedBookIds = userId ? await getUserOwnedBookIds(userId) : new Set();
+    return res.json({
+      success: true,
+      isbn,
+      source: 'catalog',
+      result: catalogToSearchResult(catalogResults[0], userOwnedBookIds)
+    });
+  }
+
+  const match = await searchBookByIsbn(variants[0]);
+  if (!match) {
+    return res.status(404).json({ error: 'Book not found', isbn });
+  }
+
+  res.json({
+    success: true,
+    isbn,
+    source: match.source || 'external',
+    result: match
+  });
+});
+
+// Query string value(s) as a list - ?genre=a&genre=b or ?genre=a
+const toList = (value) => (Array.isArray(value) ? value : value ? [value] : []).map(String).filter(Boolean);
+
+const toYear = (value) => {
+  const year = parseInt(value, 10);
+  return Number.isInteger(year) && year > 0 ? year : null;
+};
+
+/**
+ * A search result: the catalog book, its community copies and the copy to open
+ */
+function toAdvancedSearchResult(record, query, viewerFamilyId) {
+  const { book } = record;
+  const copies = [...(book.family_books || [])].sort((a, b) =>
+    new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+  );
+  const openCopy = (record.ownedByViewer && copies.find(copy => copy.family_id === viewerFamilyId))
+    || copies.find(copy => copy.status === 'available')
+    || copies[0];
+
+  return {
+    catalogId: book.id,
+    title: book.title,
+    titleHebrew: book.title_hebrew,
+    author: book.author,
+    authorHebrew: book.author_hebrew,
+    authorId: book.author_id || null,
+    series: book.series,
+    seriesNumber: book.series_number,
+    genre: book.genre,
+    ageRange: book.age_level,
+    yearPublished: book.year_published,
+    language: record.values.language[0],
+    coverImageUrl: book.cover_image_url,
+    totalCopies: copies.length,
+    availableCopies: copies.filter(copy => copy.status === 'available').length,
+    ownedByViewer: record.ownedByViewer,
+    familyBookId: openCopy?.id || null,
+    families: Object.entries(record.labels.family).map(([id, name]) => ({ id, name })),
+    highlights: query
+      ? buildHighlights(book, query, ['title', 'title_hebrew', 'author', 'author_hebrew', 'series'])
+      : {},
+  };
+}
+
+/**
+ * Advanced community search - free text plus facets, with the count of every facet value
+ * @route GET /api/search
+ */
+export const searchCatalogFaceted = asyncHandler(async (req, res) => {
+  const q = (req.query.q || '').toString().trim();
+  const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const sort = ['relevance', 'title', 'year'].includes(req.query.sort)
+    ? req.query.sort
+    : (q ? 'relevance' : 'title');
+
+  const filters = {
+    yearFrom: toYear(req.query.yearFrom),
+    yearTo: toYear(req.query.yearTo),
+  };
+  for (const facet of FACETS) {
+    if (facet !== 'decade') filters[facet] = toList(req.query[facet]);
+  }
+
+  let ranks = new Map();
+  let catalogIds = null;
+  if (q) {
+    const matches = await db.catalog.search(q, { limit: MAX_TEXT_MATCHES });
+    ranks = new Map(matches.map(match => [match.id, match.rank]));
+    catalogIds = matches.map(match => match.id);
+  }
+
+  const books = await db.catalog.getCommunityBooks(catalogIds);
+  const viewerFamilyId = req.familyId || null;
+  const records = books.map(book => toSearchRecord(book, viewerFamilyId));
+  // Facet counts don't change from page to page - only the first page carries them
+  const { results, facets } = searchRecords(records, filters, { sort, ranks, withFacets: offset === 0 });
+
+  const page = results.slice(offset, offset + limit);
+  res.json({
+    results: page.map(record => toAdvancedSearchResult(record, q, viewerFamilyId)),
+    total: results.length,
+    facets,
+    nextOffset: offset + page.length < results.length ? offset + page.length : null,
+  });
+});
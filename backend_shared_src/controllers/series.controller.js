@@ -0,0 +1,86 @@
+import { db } from '../db/adapter.js';
+import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import {
+  buildSeriesOverview,
+  normalizeSeriesName,
+  READ_LOAN_STATUSES
+} from '../services/seriesTracker.js';
+
+const MAX_SERIES = 30;
+
+const emptyReading = () => ({ catalogIds: new Set(), workIds: new Set() });
+
+/**
+ * Get every known volume of a series - what the family owns and has read,
+ * who in the community has each volume, and which volumes are missing
+ * @route GET /api/series/:name
+ */
+export const getSeries = asyncHandler(async (req, res) => {
+  const name = req.params.name.trim();
+  if (!name) {
+    return res.status(400).json({ error: 'Series name is required' });
+  }
+
+  const [books, reading] = await Promise.all([
+    db.series.getBooks(name),
+    req.familyId ? db.series.getFamilyReading(req.familyId, req.userId, READ_LOAN_STATUSES) : emptyReading(),
+  ]);
+
+  if (books.length === 0) {
+    return res.status(404).json({ error: 'Series not found' });
+  }
+
+  const overview = buildSeriesOverview(books, {
+    familyId: req.familyId,
+    readCatalogIds: reading.catalogIds,
+    readWorkIds: reading.workIds,
+  });
+
+  res.json({
+    series: {
+      name: books[0].series.trim(),
+      ...overview,
+    },
+  });
+});
+
+/**
+ * "Complete my series" - the series the family has started, with the next volume to borrow in each
+ * @route GET /api/series
+ */
+export const getMySeries = asyncHandler(async (req, res) => {
+  const reading = await db.series.getFamilyReading(req.familyId, req.userId, READ_LOAN_STATUSES);
+  const names = await db.series.getStartedSeriesNames(req.familyId, [...reading.catalogIds]);
+  const books = await db.series.getBooksOfSeries(names);
+
+  // The same series may be typed with different case or spacing
+  const booksBySeries = new Map();
+  for (const book of books) {
+    const key = normalizeSeriesName(book.series);
+    if (!booksBySeries.has(key)) booksBySeries.set(key, []);
+    booksBySeries.get(key).push(book);
+  }
+
+  const series = [...booksBySeries.values()]
+    .map((seriesBooks) => {
+      const { volumes, missingNumbers, nextVolume } = buildSeriesOverview(seriesBooks, {
+        familyId: req.familyId,
+        readCatalogIds: reading.catalogIds,
+        readWorkIds: reading.workIds,
+      });
+      return {
+        name: seriesBooks[0].series.trim(),
+        knownVolumes: volumes.length,
+        lastVolume: volumes.length ? volumes[volumes.length - 1].number : null,
+        ownedVolumes: volumes.filter((volume) => volume.ownedByFamily).length,
+        readVolumes: volumes.filter((volume) => volume.read || volume.ownedByFamily).length,
+        missingNumbers,
+        nextVolume,
+      };
+    })
+    // Series with something left to read first, then by name
+    .sort((a, b) => Number(!a.nextVolume) - Number(!b.nextVolume) || a.name.localeCompare(b.name, 'he'))
+    .slice(0, MAX_SERIES);
+
+  res.json({ series });
+});
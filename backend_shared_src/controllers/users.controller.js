@@ -1,5 +1,6 @@
 import { db } from '../db/adapter.js';
 import { asyncHandler } from '../middleware/errorHandler.middleware.js';
+import { isSiteAdmin } from '../middleware/auth.middleware.js';
 
 /**
  * Get all users
@@ -25,7 +26,8 @@ export const getUserById = asyncHandler(async (req, res) => {
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
-    res.json({ user });
+    // The app shows the shared catalog tools to site admins only
+    res.json({ user: { ...user, is_site_admin: isSiteAdmin(user.id) } });
   } catch (error) {
     if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
       return res.status(404).json({ error: 'User not found' });
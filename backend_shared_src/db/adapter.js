@@ -51,6 +51,142 @@ export const supabaseAuth = supabaseAnonKey
     })
   : null
 
+// Most catalog matches a search looks at (search_catalog returns them best first)
+const SEARCH_LIMIT = 200
+
+// Catalog id of a family_books id; anything else is taken to be a catalog id already
+const toCatalogId = async (bookId) => {
+  const { data } = await supabase
+    .from('family_books')
+    .select('book_catalog_id')
+    .eq('id', bookId)
+    .maybeSingle()
+  return data?.book_catalog_id || bookId
+}
+
+// All editions of a catalog book's work (migration 039), including the book itself
+const getWorkEditionIds = async (catalogId) => {
+  const { data: book, error } = await supabase
+    .from('book_catalog')
+    .select('work_id')
+    .eq('id', catalogId)
+    .maybeSingle()
+  if (error || !book?.work_id) return [catalogId]
+
+  const { data: editions, error: editionsError } = await supabase
+    .from('book_catalog')
+    .select('id')
+    .eq('work_id', book.work_id)
+  if (editionsError) throw editionsError
+  return editions?.length ? editions.map(edition => edition.id) : [catalogId]
+}
+
+// Link a catalog book to its author record (migration 040); a failure here shouldn't fail saving the book
+const linkAuthorQuietly = async (catalogId) => {
+  const { error } = await supabase.rpc('link_catalog_author', { p_book_catalog_id: catalogId })
+  if (error) {
+    console.error('Note: Could not link book to author:', error.message || error)
+  }
+}
+
+// books_view filters shared by db.books.getAll and db.books.getListPage
+const applyBookFilters = (query, filters) => {
+  if (filters.familyId) {
+    query = query.eq('family_id', filters.familyId)
+  }
+
+  if (filters.ids?.length) {
+    query = query.in('id', filters.ids)
+  }
+
+  if (filters.status) {
+    if (Array.isArray(filters.status)) {
+      query = query.in('status', filters.status)
+    } else if (filters.status !== 'all') {
+      query = query.eq('status', filters.status)
+    }
+  }
+
+  if (filters.title) {
+    query = query.ilike('title', `%${filters.title}%`)
+  }
+
+  if (filters.author) {
+    query = query.ilike('author', `%${filters.author}%`)
+  }
+
+  if (filters.genre && filters.genre !== 'all') {
+    query = query.eq('genre', filters.genre)
+  }
+
+  if (filters.ageRange && filters.ageRange !== 'all') {
+    query = query.eq('age_range', filters.ageRange)
+  }
+
+  if (filters.series) {
+    query = query.ilike('series', `%${filters.series}%`)
+  }
+
+  return query
+}
+
+// The same filters on book_catalog through its copies (select family_books!inner) - one row per
+// catalog book, with only its matching copies embedded
+const applyCatalogBookFilters = (query, filters) => {
+  if (filters.familyId) {
+    query = query.eq('family_books.family_id', filters.familyId)
+  }
+
+  if (filters.ids?.length) {
+    query = query.in('family_books.id', filters.ids)
+  }
+
+  if (filters.status) {
+    if (Array.isArray(filters.status)) {
+      query = query.in('family_books.status', filters.status)
+    } else if (filters.status !== 'all') {
+      query = query.eq('family_books.status', filters.status)
+    }
+  }
+
+  if (filters.title) {
+    query = query.ilike('title', `%${filters.title}%`)
+  }
+
+  if (filters.author) {
+    query = query.ilike('author', `%${filters.author}%`)
+  }
+
+  if (filters.genre && filters.genre !== 'all') {
+    query = query.eq('genre', filters.genre)
+  }
+
+  if (filters.ageRange && filters.ageRange !== 'all') {
+    query = query.eq('age_level', filters.ageRange)
+  }
+
+  if (filters.series) {
+    query = query.ilike('series', `%${filters.series}%`)
+  }
+
+  return query
+}
+
+// A value inside an or() filter - quoted, since titles and timestamps contain , . : ( )
+const filterValue = (value) => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+
+// Rows per request when a list page reads more than one batch (PostgREST returns at most 1000)
+const LIST_BATCH_SIZE = 1000
+
+// Search rank per catalog id of the books matching filters.search (best first);
+// null when not searching, an empty Map when nothing matched
+const getSearchRanks = async (filters) => {
+  const term = filters.search?.trim()
+  if (!term) return null
+  const matches = await db.catalog.search(term, { familyId: filters.familyId, limit: SEARCH_LIMIT })
+  return new Map(matches.map(match => [match.id, match.rank]))
+}
+
 // Database adapter following the pattern from copilot-instructions.md
 export const db = {
   // Generic query method
@@ -173,6 +309,9 @@ export const db = {
       
       const { data, error } = await query
       if (error) throw error
+      if (searchRanks) {
+        return data.map(book => ({ ...book, search_rank: searchRanks.get(book.book_catalog_id) ?? 0 }))
+      }
       return data
     },
 
@@ -229,68 +368,157 @@ export const db = {
   // Books operations
   books: {
     getAll: async (filters = {}) => {
-      let query = supabase
-        .from('books_view')
-        .select('*, families(name, phone, whatsapp, email)')
-
-      if (filters.familyId) {
-        query = query.eq('family_id', filters.familyId)
-      }
-
-      if (filters.ids?.length) {
-        query = query.in('id', filters.ids)
-      }
+      const searchRanks = await getSearchRanks(filters)
+      if (searchRanks?.size === 0) return []
 
-      if (filters.status) {
-        if (Array.isArray(filters.status)) {
-          query = query.in('status', filters.status)
-        } else if (filters.status !== 'all') {
-          query = query.eq('status', filters.status)
-        }
+      let query = applyBookFilters(
+        supabase.from('books_view').select('*, families(name, phone, whatsapp, email)'),
+        filters
+      )
+      if (searchRanks) {
+        query = query.in('book_catalog_id', [...searchRanks.keys()])
       }
 
-      if (filters.title) {
-        query = query.ilike('title', `%${filters.title}%`)
+      if (filters.orderBy) {
+        query = query.order(filters.orderBy, { ascending: filters.orderDir !== 'desc' })
+      } else {
+        query = query.order('title')
       }
 
-      if (filters.author) {
-        query = query.ilike('author', `%${filters.author}%`)
+      const from = typeof filters.offset === 'number' ? filters.offset : 0
+      // Search results are paged by rank, below
+      if (typeof filters.limit === 'number' && !searchRanks) {
+        query = query.range(from, from + filters.limit - 1)
       }
 
-      if (filters.genre && filters.genre !== 'all') {
-        query = query.eq('genre', filters.genre)
+      const { data, error } = await query
+      if (error) throw error
+      if (searchRanks) {
+        const ranked = data
+          .map(book => ({ ...book, search_rank: searchRanks.get(book.book_catalog_id) ?? 0 }))
+          .sort((a, b) => b.search_rank - a.search_rank)
+        return typeof filters.limit === 'number' ? ranked.slice(from, from + filters.limit) : ranked
       }
+      return data
+    },
 
-      if (filters.ageRange && filters.ageRange !== 'all') {
-        query = query.eq('age_range', filters.ageRange)
+    // One page of the grouped list (GET /api/books): catalog books with their matching copies
+    // ({ id, title, family_books: [{ id, updated_at }] }), same filters as getAll.
+    // mode 'title' - by title; 'updated' - by each book's most recently updated copy, newest first.
+    // The page starts after the `after` key (bookPagination decodeCursor) or at offset, and the
+    // database only reads up to it - no limit reads the whole list.
+    getListPage: async (filters = {}, { mode, after = null, offset = 0, limit = null }) => {
+      const searchRanks = await getSearchRanks(filters)
+      if (searchRanks?.size === 0) return { rows: [], total: 0, hasMore: false }
+      const catalogIds = searchRanks ? [...searchRanks.keys()] : null
+
+      const catalogQuery = (columns, options) => {
+        let query = applyCatalogBookFilters(supabase.from('book_catalog').select(columns, options), filters)
+        if (catalogIds) query = query.in('id', catalogIds)
+        return query
       }
 
-      if (filters.series) {
-        query = query.ilike('series', `%${filters.series}%`)
-      }
+      const countPromise = catalogQuery('id, family_books!inner(id)', { count: 'exact', head: true })
+      // One more than the page, to know whether there is a next one
+      const start = after ? 0 : (offset || 0)
+      const wanted = typeof limit === 'number' ? start + limit + 1 : Infinity
+      let rows
+
+      if (mode === 'title') {
+        // Title is a catalog column, so the catalog rows are the list itself
+        rows = []
+        let last = after ? { title: after.title, id: after.catalogId } : null
+        while (rows.length < wanted) {
+          const batchSize = Math.min(wanted - rows.length, LIST_BATCH_SIZE)
+          let query = catalogQuery('id, title, family_books!inner(id, updated_at)')
+          if (last) {
+            query = query.or(`title.gt.${filterValue(last.title)},and(title.eq.${filterValue(last.title)},id.gt.${last.id})`)
+          }
+          const { data, error } = await query.order('title').order('id').limit(batchSize)
+          if (error) throw error
+          rows.push(...data)
+          if (data.length < batchSize) break
+          last = data[data.length - 1]
+        }
+      } else {
+        // Copies newest first; a book takes the place of its first copy in that order
+        const listedIds = []
+        const seen = new Set()
+        let last = after ? { updated_at: after.updatedAt, book_catalog_id: after.catalogId, id: null } : null
+        while (listedIds.length < wanted) {
+          const batchSize = Math.min(LIST_BATCH_SIZE, Math.max(100, (wanted - listedIds.length) * 2))
+          let query = applyBookFilters(supabase.from('books_view').select('id, book_catalog_id, updated_at'), filters)
+          if (catalogIds) query = query.in('book_catalog_id', catalogIds)
+          if (last) {
+            const at = filterValue(last.updated_at)
+            query = query.or([
+              `updated_at.lt.${at}`,
+              `and(updated_at.eq.${at},book_catalog_id.gt.${last.book_catalog_id})`,
+              ...(last.id ? [`and(updated_at.eq.${at},book_catalog_id.eq.${last.book_catalog_id},id.gt.${last.id})`] : [])
+            ].join(','))
+          }
+          const { data, error } = await query
+            .order('updated_at', { ascending: false })
+            .order('book_catalog_id')
+            .order('id')
+            .limit(batchSize)
+          if (error) throw error
+
+          let fresh = [...new Set(data.map(row => row.book_catalog_id).filter(id => id && !seen.has(id)))]
+          fresh.forEach(id => seen.add(id))
+          if (after && fresh.length) {
+            // Books with a newer copy were listed before the cursor
+            const { data: listed, error: listedError } = await applyBookFilters(
+              supabase.from('books_view').select('book_catalog_id'),
+              filters
+            )
+              .in('book_catalog_id', fresh)
+              .or(`updated_at.gt.${filterValue(after.updatedAt)},and(updated_at.eq.${filterValue(after.updatedAt)},book_catalog_id.lte.${after.catalogId})`)
+            if (listedError) throw listedError
+            const listedSet = new Set(listed.map(row => row.book_catalog_id))
+            fresh = fresh.filter(id => !listedSet.has(id))
+          }
+          listedIds.push(...fresh)
+          if (data.length < batchSize) break
+          last = data[data.length - 1]
+        }
 
-      if (filters.search) {
-        const term = filters.search.trim()
-        if (term) {
-          query = query.or(`title.ilike.%${term}%,author.ilike.%${term}%,series.ilike.%${term}%`)
+        // Every matching copy of the books on the page
+        const pageIds = listedIds.slice(0, wanted)
+        rows = []
+        for (let i = 0; i < pageIds.length; i += 200) {
+          const { data, error } = await catalogQuery('id, title, family_books!inner(id, updated_at)')
+            .in('id', pageIds.slice(i, i + 200))
+          if (error) throw error
+          rows.push(...data)
         }
+        const position = new Map(pageIds.map((id, index) => [id, index]))
+        rows.sort((a, b) => position.get(a.id) - position.get(b.id))
       }
 
-      if (filters.orderBy) {
-        query = query.order(filters.orderBy, { ascending: filters.orderDir !== 'desc' })
-      } else {
-        query = query.order('title')
-      }
+      const { count, error: countError } = await countPromise
+      if (countError) throw countError
 
-      if (typeof filters.limit === 'number') {
-        const from = typeof filters.offset === 'number' ? filters.offset : 0
-        const to = from + filters.limit - 1
-        query = query.range(from, to)
+      const end = typeof limit === 'number' ? start + limit : rows.length
+      return {
+        rows: rows.slice(start, end),
+        total: count ?? 0,
+        hasMore: rows.length > end
       }
+    },
 
-      const { data, error } = await query
+    // Every catalog book matching filters.search (at most SEARCH_LIMIT), with its rank and matching
+    // copies - relevance order is only known here, so GET /api/books pages these in memory
+    getListSearchResults: async (filters = {}) => {
+      const searchRanks = await getSearchRanks(filters)
+      if (!searchRanks?.size) return []
+
+      const { data, error } = await applyCatalogBookFilters(
+        supabase.from('book_catalog').select('id, title, family_books!inner(id, updated_at)'),
+        filters
+      ).in('id', [...searchRanks.keys()])
       if (error) throw error
-      return data
+      return data.map(row => ({ ...row, search_rank: searchRanks.get(row.id) ?? 0 }))
     },
 
     getById: async (id) => {
@@ -362,21 +590,28 @@ export const db = {
 
         if (catalogError) throw catalogError
         catalogId = newCatalogEntry.id
+
+        await linkAuthorQuietly(catalogId)
       }
 
-      // 3. Check if family already has this book
+      // 3. Check if family already has this book (it may own several copies)
       const { data: existingFamilyBook, error: checkError } = await supabase
         .from('family_books')
         .select('id')
         .eq('family_id', book.family_id)
         .eq('book_catalog_id', catalogId)
+        .order('created_at')
+        .limit(1)
         .maybeSingle()
 
       if (checkError) throw checkError
 
+      // add_copy: the family knowingly adds another copy of a book it owns
+      const addCopy = existingFamilyBook !== null && book.add_copy === true
+
       let familyBookData
 
-      if (existingFamilyBook) {
+      if (existingFamilyBook && !addCopy) {
         // Family already has this book - return existing entry
         const { data: existing, error: existingError } = await supabase
           .from('family_books')
@@ -420,7 +655,7 @@ export const db = {
       return {
         ...fullBook,
         _merged: existingBookId !== null,
-        _alreadyOwned: existingFamilyBook !== null
+        _alreadyOwned: existingFamilyBook !== null && !addCopy
       }
     },
 
@@ -486,6 +721,10 @@ export const db = {
           .eq('id', familyBook.book_catalog_id)
 
         if (catalogError) throw catalogError
+
+        if ('author' in catalogFields || 'author_hebrew' in catalogFields) {
+          await linkAuthorQuietly(familyBook.book_catalog_id)
+        }
       }
 
       // Update family_books if there are family-specific fields
@@ -524,14 +763,74 @@ export const db = {
       return data
     },
 
+    // Ownership record for a single copy (no catalog join)
+    getFamilyBook: async (id) => {
+      const { data, error } = await supabase
+        .from('family_books')
+        .select('id, family_id, book_catalog_id, status, condition, book_catalog(title, title_hebrew, age_level)')
+        .eq('id', id)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+
+    // A family's copies of a catalog book, oldest first
+    getFamilyCopies: async (familyId, catalogId) => {
+      const { data, error } = await supabase
+        .from('family_books')
+        .select('id, family_id, book_catalog_id, status, condition, notes, acquired_date, created_at')
+        .eq('family_id', familyId)
+        .eq('book_catalog_id', catalogId)
+        .order('created_at')
+      if (error) throw error
+      return data || []
+    },
+
+    addCopy: async ({ family_id, book_catalog_id, condition, notes, acquired_date }) => {
+      const { data: copy, error } = await supabase
+        .from('family_books')
+        .insert({
+          family_id,
+          book_catalog_id,
+          status: 'available',
+          condition,
+          notes,
+          acquired_date
+        })
+        .select('id')
+        .single()
+      if (error) throw error
+
+      const { data, error: viewError } = await supabase
+        .from('books_view')
+        .select('*')
+        .eq('id', copy.id)
+        .single()
+      if (viewError) throw viewError
+      return data
+    },
+
+    getCopiesByCatalogId: async (catalogId) => {
+      const { data, error } = await supabase
+        .from('family_books')
+        .select('id, family_id, book_catalog_id, status, book_catalog(title, title_hebrew)')
+        .eq('book_catalog_id', catalogId)
+      if (error) throw error
+      return data || []
+    },
+
     search: async (searchTerm) => {
+      const matches = await db.catalog.search(searchTerm, { limit: SEARCH_LIMIT })
+      if (matches.length === 0) return []
+
       const { data, error } = await supabase
         .from('books_view')
         .select('*, families(name, phone, whatsapp)')
-        .or(`title.ilike.%${searchTerm}%,author.ilike.%${searchTerm}%,description.ilike.%${searchTerm}%`)
-        .order('title')
+        .in('book_catalog_id', matches.map(match => match.id))
       if (error) throw error
-      return data
+
+      const order = new Map(matches.map((match, index) => [match.id, index]))
+      return data.sort((a, b) => order.get(a.book_catalog_id) - order.get(b.book_catalog_id))
     }
   },
 
@@ -547,12 +846,15 @@ export const db = {
             book_catalog(title, title_hebrew, author, cover_image_url)
           ),
           borrower_family:families!borrower_family_id(name, phone, whatsapp),
-          owner_family:families!owner_family_id(name, phone, whatsapp)
+          owner_family:families!owner_family_id(name, phone, whatsapp, max_loan_renewals),
+          pass_on_family:families!pass_on_family_id(name),
+          renewals:loan_renewals(id, status, previous_due_date, requested_due_date, notes, created_at, decided_at)
         `)
 
       if (filters.borrowerFamilyId) query = query.eq('borrower_family_id', filters.borrowerFamilyId)
       if (filters.ownerFamilyId) query = query.eq('owner_family_id', filters.ownerFamilyId)
-      if (filters.status) query = query.eq('status', filters.status)
+      if (Array.isArray(filters.status)) query = query.in('status', filters.status)
+      else if (filters.status) query = query.eq('status', filters.status)
       if (filters.bookIds?.length) query = query.in('family_book_id', filters.bookIds)
       if (filters.bookId) query = query.eq('family_book_id', filters.bookId)
 
@@ -575,8 +877,10 @@ export const db = {
             book_catalog(title, title_hebrew, author, cover_image_url)
           ),
           borrower_family:families!borrower_family_id(name, phone, whatsapp),
-          owner_family:families!owner_family_id(name, phone, whatsapp),
-          requester:users(full_name, email, phone)
+          owner_family:families!owner_family_id(name, phone, whatsapp, max_loan_renewals),
+          pass_on_family:families!pass_on_family_id(name),
+          requester:users!requester_user_id(full_name, email, phone),
+          renewals:loan_renewals(id, status, previous_due_date, requested_due_date, notes, created_at, decided_at)
         `)
         .eq('id', id)
         .single()
@@ -631,6 +935,66 @@ export const db = {
       return data
     },
 
+    // Books a borrowing family currently holds from an owner family (lending policy limit)
+    countOngoing: async (ownerFamilyId, borrowerFamilyId) => {
+      const { count, error } = await supabase
+        .from('loans')
+        .select('id', { count: 'exact', head: true })
+        .eq('owner_family_id', ownerFamilyId)
+        .eq('borrower_family_id', borrowerFamilyId)
+        .in('status', ['active', 'overdue'])
+      if (error) throw error
+      return count || 0
+    },
+
+    // Insert an active loan and mark the copy on_loan (single transaction).
+    // Replaying a client-generated id returns the existing loan: { loan, created: false }
+    createActive: async (loan) => {
+      const { data, error } = await supabase
+        .rpc('create_loan', {
+          p_id: loan.id || null,
+          p_family_book_id: loan.family_book_id,
+          p_borrower_family_id: loan.borrower_family_id,
+          p_requester_user_id: loan.requester_user_id || null,
+          p_due_date: loan.due_date || null,
+          p_notes: loan.notes || null
+        })
+      if (error) throw error
+      return data
+    },
+
+    // Make a requested loan active and mark the copy on_loan (single transaction)
+    handOver: async (id, dueDate) => {
+      const { data, error } = await supabase
+        .rpc('handover_loan', { p_loan_id: id, p_due_date: dueDate || null })
+      if (error) throw error
+      return data
+    },
+
+    // Close an ongoing loan and release the copy (single transaction): { loan, copy_status, returned }
+    markReturned: async (id, returnDate) => {
+      const { data, error } = await supabase
+        .rpc('return_loan', { p_loan_id: id, p_return_date: returnDate || null })
+      if (error) throw error
+      return data
+    },
+
+    // Cancel a pending or approved request: { loan, cancelled }
+    cancel: async (id) => {
+      const { data, error } = await supabase
+        .rpc('cancel_loan', { p_loan_id: id })
+      if (error) throw error
+      return data
+    },
+
+    // Close a loan and open the next one for its pass_on_family_id (single transaction)
+    passOn: async (id, dueDate) => {
+      const { data, error } = await supabase
+        .rpc('pass_on_loan', { p_loan_id: id, p_due_date: dueDate })
+      if (error) throw error
+      return data
+    },
+
     delete: async (id) => {
       const { error } = await supabase
         .from('loans')
@@ -640,192 +1004,443 @@ export const db = {
     }
   },
 
-  // Reviews operations
-  reviews: {
-    getByBookId: async (bookId) => {
-      const t1 = Date.now();
-      
-      // First, try treating it as a catalog_id directly (most common case)
-      const { data: directResults, error: directError } = await supabase
-        .from('reviews')
-        .select('*, users(full_name)')
-        .eq('book_catalog_id', bookId)
-        .order('created_at', { ascending: false });
-      
-      // If we got results, return them
-      if (!directError && directResults && directResults.length > 0) {
-        const duration = Date.now() - t1;
-        if (duration > 500) {
-          console.warn(`⚠️  DB reviews.getByBookId SLOW: ${duration}ms (direct catalog, ${directResults.length} reviews)`);
-        }
-        return directResults;
-      }
-      
-      // Otherwise, look up via family_books
-      const { data: familyBook, error: fbError } = await supabase
-        .from('family_books')
-        .select('book_catalog_id')
-        .eq('id', bookId)
-        .maybeSingle();
-      
-      if (fbError || !familyBook) {
-        const duration = Date.now() - t1;
-        if (duration > 500) {
-          console.warn(`⚠️  DB reviews.getByBookId SLOW: ${duration}ms (not found)`);
-        }
-        // Return empty array instead of throwing - book has no reviews
-        return directResults || [];
-      }
-      
-      // Query reviews using catalog_id from family_book
-      const { data, error } = await supabase
-        .from('reviews')
-        .select('*, users(full_name)')
-        .eq('book_catalog_id', familyBook.book_catalog_id)
-        .order('created_at', { ascending: false });
-      
-      const duration = Date.now() - t1;
-      if (duration > 500) {
-        console.warn(`⚠️  DB reviews.getByBookId SLOW: ${duration}ms (via family_book, ${data?.length || 0} reviews)`);
-      }
-      
-      if (error) throw error;
-      return data || [];
+  // Hold queue (waitlist) operations
+  holds: {
+    getAll: async (filters = {}) => {
+      let query = supabase
+        .from('book_holds')
+        .select(`
+          *,
+          family:families!family_id(name, phone, whatsapp),
+          book_catalog(title, title_hebrew, author, cover_image_url)
+        `)
+
+      if (filters.bookCatalogId) query = query.eq('book_catalog_id', filters.bookCatalogId)
+      if (filters.bookCatalogIds?.length) query = query.in('book_catalog_id', filters.bookCatalogIds)
+      if (filters.familyId) query = query.eq('family_id', filters.familyId)
+      if (Array.isArray(filters.status)) query = query.in('status', filters.status)
+      else if (filters.status) query = query.eq('status', filters.status)
+
+      query = query.order('created_at', { ascending: true })
+
+      const { data, error } = await query
+      if (error) throw error
+      return data || []
     },
 
-    create: async (review) => {
-      // If book_id is provided, convert it to book_catalog_id
-      let catalogId = review.book_catalog_id || review.book_id
+    getById: async (id) => {
+      const { data, error } = await supabase
+        .from('book_holds')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
 
-      if (!review.book_catalog_id && review.book_id) {
-        const { data: familyBook, error: fbError } = await supabase
-          .from('family_books')
-          .select('book_catalog_id')
-          .eq('id', review.book_id)
-          .single()
+    // Oldest waiting family for a book, skipping the family that owns the returned copy
+    getNextWaiting: async (bookCatalogId, excludeFamilyId) => {
+      let query = supabase
+        .from('book_holds')
+        .select('*')
+        .eq('book_catalog_id', bookCatalogId)
+        .eq('status', 'waiting')
+      if (excludeFamilyId) query = query.neq('family_id', excludeFamilyId)
 
-        if (fbError) {
-          // Assume it's already a catalog ID
-          catalogId = review.book_id
-        } else {
-          catalogId = familyBook.book_catalog_id
-        }
-      }
+      const { data, error } = await query
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
 
+    getClaimForCopy: async (familyBookId) => {
       const { data, error } = await supabase
-        .from('reviews')
-        .insert({
-          book_catalog_id: catalogId,
-          user_id: review.user_id,
-          rating: review.rating,
-          review_text: review.review_text
-        })
-        .select()
-        .single()
+        .from('book_holds')
+        .select('*')
+        .eq('claim_family_book_id', familyBookId)
+        .eq('status', 'claimable')
+        .maybeSingle()
       if (error) throw error
       return data
     },
 
-    update: async (id, updates) => {
+    create: async (hold) => {
       const { data, error } = await supabase
-        .from('reviews')
-        .update(updates)
-        .eq('id', id)
+        .from('book_holds')
+        .insert(hold)
         .select()
         .single()
       if (error) throw error
       return data
     },
 
-    delete: async (id) => {
+    update: async (id, updates) => {
       const { data, error } = await supabase
-        .from('reviews')
-        .delete()
+        .from('book_holds')
+        .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', id)
         .select()
+        .single()
       if (error) throw error
-      if (!data || data.length === 0) {
-        throw new Error('Review not found')
-      }
+      return data
+    }
+  },
+
+  // Loan renewal (due date change) history
+  loanRenewals: {
+    getByLoanId: async (loanId) => {
+      const { data, error } = await supabase
+        .from('loan_renewals')
+        .select('*')
+        .eq('loan_id', loanId)
+        .order('created_at', { ascending: false })
+      if (error) throw error
+      return data || []
+    },
+
+    getById: async (id) => {
+      const { data, error } = await supabase
+        .from('loan_renewals')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+
+    create: async (renewal) => {
+      const { data, error } = await supabase
+        .from('loan_renewals')
+        .insert(renewal)
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    update: async (id, updates) => {
+      const { data, error } = await supabase
+        .from('loan_renewals')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Append-only loan event ledger
+  loanEvents: {
+    getAll: async (filters = {}) => {
+      let query = supabase
+        .from('loan_events')
+        .select(`
+          *,
+          actor:users!actor_user_id(full_name),
+          loan:loans!loan_id(
+            borrower_family:families!borrower_family_id(name)
+          )
+        `)
+      if (filters.loanId) query = query.eq('loan_id', filters.loanId)
+      if (filters.familyBookId) query = query.eq('family_book_id', filters.familyBookId)
+      query = query.order('created_at', { ascending: true })
+      const { data, error } = await query
+      if (error) throw error
+      return data || []
+    },
+
+    create: async (event) => {
+      const { data, error } = await supabase
+        .from('loan_events')
+        .insert(event)
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Condition of a copy at check-out / check-in, damage and loss reports
+  loanConditionRecords: {
+    getByLoanId: async (loanId) => {
+      const { data, error } = await supabase
+        .from('loan_condition_records')
+        .select('*, created_by:users!created_by_user_id(full_name)')
+        .eq('loan_id', loanId)
+        .order('created_at', { ascending: true })
+      if (error) throw error
+      return data || []
+    },
+
+    create: async (record) => {
+      const { data, error } = await supabase
+        .from('loan_condition_records')
+        .insert(record)
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Per-user secret tokens for the loan calendar (.ics) feed
+  calendarFeeds: {
+    getByUserId: async (userId) => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+
+    getByToken: async (token) => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('*, user:users!user_id(id, family_id)')
+        .eq('token', token)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+
+    // Create the user's feed, or replace its token
+    save: async (userId, token) => {
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .upsert({ user_id: userId, token, created_at: new Date().toISOString(), last_accessed_at: null })
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    markAccessed: async (userId) => {
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq('user_id', userId)
+      if (error) throw error
+    },
+
+    delete: async (userId) => {
+      const { error } = await supabase
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', userId)
+      if (error) throw error
+    }
+  },
+
+  // In-app notifications (one row per user)
+  notifications: {
+    getByUserId: async (userId, { unreadOnly = false, limit = 50 } = {}) => {
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+      if (unreadOnly) query = query.is('read_at', null)
+      query = query.order('created_at', { ascending: false }).limit(limit)
+      const { data, error } = await query
+      if (error) throw error
+      return data || []
+    },
+
+    countUnread: async (userId) => {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+      if (error) throw error
+      return count || 0
+    },
+
+    // Returns null when the notification doesn't belong to the user
+    markRead: async (id, userId) => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+
+    markAllRead: async (userId) => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .select('id')
+      if (error) throw error
+      return data?.length || 0
+    },
+
+    // Fan out to the family's members, respecting their preferences; returns how many were created
+    notifyFamily: async (familyId, notification) => {
+      const { data, error } = await supabase
+        .rpc('notify_family', {
+          p_family_id: familyId,
+          p_type: notification.type,
+          p_title: notification.title,
+          p_body: notification.body || null,
+          p_link: notification.link || null,
+          p_data: notification.data || null,
+          p_dedupe_key: notification.dedupeKey || null,
+          p_exclude_user_id: notification.excludeUserId || null
+        })
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Reviews operations
+  reviews: {
+    // Reviews of every edition of the book's work
+    getByBookId: async (bookId) => {
+      const t1 = Date.now();
+
+      const catalogId = await toCatalogId(bookId);
+      const editionIds = await getWorkEditionIds(catalogId);
+
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*, users(full_name)')
+        .in('book_catalog_id', editionIds)
+        .order('created_at', { ascending: false });
+
+      const duration = Date.now() - t1;
+      if (duration > 500) {
+        console.warn(`⚠️  DB reviews.getByBookId SLOW: ${duration}ms (${editionIds.length} editions, ${data?.length || 0} reviews)`);
+      }
+
+      // Bad ids just mean no reviews
+      if (error) {
+        if (error.message?.includes('invalid input syntax')) return [];
+        throw error;
+      }
+      return data || [];
+    },
+
+    create: async (review) => {
+      // If book_id is provided, convert it to book_catalog_id
+      let catalogId = review.book_catalog_id || review.book_id
+
+      if (!review.book_catalog_id && review.book_id) {
+        const { data: familyBook, error: fbError } = await supabase
+          .from('family_books')
+          .select('book_catalog_id')
+          .eq('id', review.book_id)
+          .single()
+
+        if (fbError) {
+          // Assume it's already a catalog ID
+          catalogId = review.book_id
+        } else {
+          catalogId = familyBook.book_catalog_id
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('reviews')
+        .insert({
+          book_catalog_id: catalogId,
+          user_id: review.user_id,
+          rating: review.rating,
+          review_text: review.review_text
+        })
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    update: async (id, updates) => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    delete: async (id) => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .delete()
+        .eq('id', id)
+        .select()
+      if (error) throw error
+      if (!data || data.length === 0) {
+        throw new Error('Review not found')
+      }
       return data
     }
   },
 
   // Likes operations
   likes: {
+    // Likes of every edition of the book's work
     getByBookId: async (bookId) => {
       // Validate bookId
       if (!bookId || bookId === 'undefined') {
         return [];
       }
 
-      // bookId here is the family_books ID, get the catalog ID
-      const { data: familyBook, error: fbError } = await supabase
-        .from('family_books')
-        .select('book_catalog_id')
-        .eq('id', bookId)
-        .single()
-
-      if (fbError) {
-        // If not a valid family_book ID, try as catalog ID
-        const { data, error } = await supabase
-          .from('likes')
-          .select('*, users(full_name)')
-          .eq('book_catalog_id', bookId)
-        
-        if (error) {
-          console.error('Error fetching likes:', error);
-          return [];
-        }
-        return data || [];
-      }
+      // bookId is a family_books ID or a catalog ID
+      const catalogId = await toCatalogId(bookId)
+      const editionIds = await getWorkEditionIds(catalogId)
 
       const { data, error } = await supabase
         .from('likes')
         .select('*, users(full_name)')
-        .eq('book_catalog_id', familyBook.book_catalog_id)
-      
+        .in('book_catalog_id', editionIds)
+
       if (error) {
         console.error('Error fetching likes:', error);
         return [];
       }
-      return data || [];
+
+      // A user who liked two editions counts once
+      const seen = new Set()
+      return (data || []).filter(like => !seen.has(like.user_id) && seen.add(like.user_id))
     },
 
     toggle: async (bookId, userId) => {
-      // Get the book_catalog_id
-      const { data: familyBook, error: fbError } = await supabase
-        .from('family_books')
-        .select('book_catalog_id')
-        .eq('id', bookId)
-        .single()
-
-      let catalogId = bookId
-      if (!fbError) {
-        catalogId = familyBook.book_catalog_id
-      }
+      const catalogId = await toCatalogId(bookId)
+      const editionIds = await getWorkEditionIds(catalogId)
 
-      // Check if like exists
-      const { data: existing } = await supabase
+      // Check if the user liked any edition of the work
+      const { data: existing, error: existingError } = await supabase
         .from('likes')
         .select('id')
-        .eq('book_catalog_id', catalogId)
+        .in('book_catalog_id', editionIds)
         .eq('user_id', userId)
-        .single()
+      if (existingError) throw existingError
 
       let liked;
-      if (existing) {
-        // Unlike
+      if (existing && existing.length > 0) {
+        // Unlike (every edition)
         const { error } = await supabase
           .from('likes')
           .delete()
-          .eq('book_catalog_id', catalogId)
+          .in('book_catalog_id', editionIds)
           .eq('user_id', userId)
         if (error) throw error
         liked = false;
       } else {
         // Like
-        const { data, error } = await supabase
+        const { error } = await supabase
           .from('likes')
           .insert({ book_catalog_id: catalogId, user_id: userId })
           .select()
@@ -835,14 +1450,357 @@ export const db = {
       }
 
       // Get total count after toggle
-      const { count, error: countError } = await supabase
+      const { data: likes, error: countError } = await supabase
         .from('likes')
-        .select('id', { count: 'exact', head: true })
-        .eq('book_catalog_id', catalogId);
+        .select('user_id')
+        .in('book_catalog_id', editionIds);
 
       if (countError) throw countError;
 
-      return { liked, count: count || 0 };
+      return { liked, count: new Set((likes || []).map(like => like.user_id)).size };
+    }
+  },
+
+  // Works and their editions (migration 039)
+  works: {
+    getEditionIds: getWorkEditionIds,
+
+    // Editions of the book's work with the copies families own of each
+    getEditions: async (catalogId) => {
+      const editionIds = await getWorkEditionIds(catalogId)
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id, title, title_hebrew, author, author_hebrew, isbn, publisher, year_published, cover_image_url, family_books(id, family_id, status)')
+        .in('id', editionIds)
+        .order('year_published', { ascending: true, nullsFirst: false })
+      if (error) throw error
+      return data || []
+    },
+
+    // Move an edition to another book's work; its old work is dropped if left empty
+    linkEdition: async (editionId, targetCatalogId) => {
+      const { data: target, error: targetError } = await supabase
+        .from('book_catalog')
+        .select('work_id')
+        .eq('id', targetCatalogId)
+        .single()
+      if (targetError) throw targetError
+
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .update({ work_id: target.work_id, updated_at: new Date().toISOString() })
+        .eq('id', editionId)
+        .select('id, work_id')
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    // Split an edition back out into a work of its own
+    detachEdition: async (editionId) => {
+      const { data: edition, error: editionError } = await supabase
+        .from('book_catalog')
+        .select('title, title_hebrew, author, author_hebrew, series, series_number')
+        .eq('id', editionId)
+        .single()
+      if (editionError) throw editionError
+
+      const { data: work, error: workError } = await supabase
+        .from('book_works')
+        .insert(edition)
+        .select('id')
+        .single()
+      if (workError) throw workError
+
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .update({ work_id: work.id, updated_at: new Date().toISOString() })
+        .eq('id', editionId)
+        .select('id, work_id')
+        .single()
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Authors and their spellings (migration 040)
+  authors: {
+    getById: async (id) => {
+      const { data, error } = await supabase
+        .from('authors')
+        .select('id, name, name_hebrew, created_at, author_aliases(alias)')
+        .eq('id', id)
+        .single()
+      if (error) throw error
+      return data
+    },
+
+    // Catalog books by the author with the copies families own of each
+    getBooks: async (authorId) => {
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id, title, title_hebrew, series, series_number, year_published, genre, age_level, cover_image_url, family_books(id, family_id, status)')
+        .eq('author_id', authorId)
+        .order('series', { ascending: true, nullsFirst: false })
+        .order('series_number', { ascending: true, nullsFirst: false })
+        .order('title')
+      if (error) throw error
+      return data || []
+    },
+
+    // Adds the spelling and relinks the books written with it; returns the number of books relinked
+    addAlias: async (authorId, alias) => {
+      const { data, error } = await supabase
+        .rpc('add_author_alias', { p_author_id: authorId, p_alias: alias })
+      if (error) throw error
+      return data
+    }
+  },
+
+  // Series volumes (book_catalog.series / series_number)
+  series: {
+    // Catalog books of the series (name matched without case) with who owns each
+    getBooks: async (name) => {
+      const pattern = name.replace(/[\\%_]/g, '\\$&')
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id, title, title_hebrew, author, series, series_number, cover_image_url, family_books(id, family_id, status, families(name))')
+        .ilike('series', pattern)
+      if (error) throw error
+      return data || []
+    },
+
+    // Catalog books of several series, by exact name
+    getBooksOfSeries: async (names) => {
+      if (names.length === 0) return []
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id, title, title_hebrew, author, series, series_number, cover_image_url, family_books(id, family_id, status, families(name))')
+        .in('series', names)
+      if (error) throw error
+      return data || []
+    },
+
+    // What the family has read: books it borrowed (and their works), books the user reviewed
+    getFamilyReading: async (familyId, userId, loanStatuses) => {
+      const [loansResult, reviewsResult] = await Promise.all([
+        supabase
+          .from('loans')
+          .select('family_books!family_book_id(book_catalog_id)')
+          .eq('borrower_family_id', familyId)
+          .in('status', loanStatuses),
+        userId
+          ? supabase.from('reviews').select('book_catalog_id').eq('user_id', userId)
+          : Promise.resolve({ data: [] })
+      ])
+      if (loansResult.error) throw loansResult.error
+      if (reviewsResult.error) throw reviewsResult.error
+
+      const catalogIds = [...new Set([
+        ...(loansResult.data || []).map(loan => loan.family_books?.book_catalog_id),
+        ...(reviewsResult.data || []).map(review => review.book_catalog_id)
+      ].filter(Boolean))]
+      if (catalogIds.length === 0) return { catalogIds: new Set(), workIds: new Set() }
+
+      const { data: books, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id')
+        .in('id', catalogIds)
+      if (error) throw error
+
+      return {
+        catalogIds: new Set(catalogIds),
+        workIds: new Set((books || []).map(book => book.work_id).filter(Boolean))
+      }
+    },
+
+    // Series names of books the family owns or has read
+    getStartedSeriesNames: async (familyId, readCatalogIds) => {
+      const [ownedResult, readResult] = await Promise.all([
+        supabase
+          .from('family_books')
+          .select('book_catalog!inner(series)')
+          .eq('family_id', familyId)
+          .not('book_catalog.series', 'is', null),
+        readCatalogIds.length
+          ? supabase.from('book_catalog').select('series').in('id', readCatalogIds).not('series', 'is', null)
+          : Promise.resolve({ data: [] })
+      ])
+      if (ownedResult.error) throw ownedResult.error
+      if (readResult.error) throw readResult.error
+
+      return [...new Set([
+        ...(ownedResult.data || []).map(row => row.book_catalog?.series),
+        ...(readResult.data || []).map(row => row.series)
+      ].filter(name => name && name.trim()))]
+    }
+  },
+
+  // Catalog maintenance (duplicate detection and merging)
+  catalog: {
+    // Ranked, Hebrew-aware search (migration 041): [{ id, rank }], best match first
+    search: async (term, { familyId = null, limit = 50 } = {}) => {
+      const { data, error } = await supabase
+        .rpc('search_catalog', { p_query: term, p_family_id: familyId, p_limit: limit })
+
+      if (error && error.code === '42883') {
+        // Search migration not applied yet - plain substring match
+        const pattern = `%${term.replace(/[%_,()]/g, ' ').trim()}%`
+        let query = supabase
+          .from('book_catalog')
+          .select(familyId ? 'id, family_books!inner(family_id)' : 'id')
+          .or(['title', 'title_hebrew', 'author', 'author_hebrew', 'series'].map(column => `${column}.ilike.${pattern}`).join(','))
+          .order('title')
+          .limit(limit)
+        if (familyId) query = query.eq('family_books.family_id', familyId)
+        const fallback = await query
+        if (fallback.error) throw fallback.error
+        return (fallback.data || []).map(row => ({ id: row.id, rank: 0 }))
+      }
+      if (error) throw error
+      return (data || []).map(row => ({ id: row.book_catalog_id, rank: row.rank }))
+    },
+
+    // Catalog books with at least one copy in the community, with their copies (advanced search);
+    // catalogIds limits it to those books
+    getCommunityBooks: async (catalogIds = null) => {
+      if (catalogIds && catalogIds.length === 0) return []
+
+      // All of them a page at a time, or the given ids 200 at a time to keep the request URL short
+      const pageSize = 1000
+      const idBatchSize = 200
+      const books = []
+      const fetchRange = async (ids, from) => {
+        let query = supabase
+          .from('book_catalog')
+          .select('id, work_id, title, title_hebrew, author, author_hebrew, author_id, publisher, year_published, genre, age_level, cover_image_url, series, series_number, family_books!inner(id, family_id, status, created_at, families(name))')
+          .order('id')
+          .range(from, from + pageSize - 1)
+        if (ids) query = query.in('id', ids)
+
+        const { data, error } = await query
+        if (error) throw error
+        return data || []
+      }
+
+      if (catalogIds) {
+        for (let i = 0; i < catalogIds.length; i += idBatchSize) {
+          books.push(...await fetchRange(catalogIds.slice(i, i + idBatchSize), 0))
+        }
+        return books
+      }
+      for (let from = 0; ; from += pageSize) {
+        const data = await fetchRange(null, from)
+        books.push(...data)
+        if (data.length < pageSize) return books
+      }
+    },
+
+    getAll: async () => {
+      const { data, error } = await supabase
+        .from('book_catalog')
+        .select('id, work_id, title, title_hebrew, author, author_hebrew, isbn, publisher, year_published, genre, age_level, pages, summary, cover_image_url, series, series_number, created_at')
+      if (error) throw error
+      return data || []
+    },
+
+    // family_books count per catalog id
+    countCopies: async (catalogIds) => {
+      const counts = new Map(catalogIds.map(id => [id, 0]))
+      if (catalogIds.length === 0) return counts
+
+      const { data, error } = await supabase
+        .from('family_books')
+        .select('book_catalog_id')
+        .in('book_catalog_id', catalogIds)
+      if (error) throw error
+      for (const row of data || []) {
+        counts.set(row.book_catalog_id, (counts.get(row.book_catalog_id) || 0) + 1)
+      }
+      return counts
+    },
+
+    // Moves copies, reviews, likes and holds to the survivor and deletes the duplicate (migration 038)
+    merge: async (survivorId, duplicateId) => {
+      const { data, error } = await supabase
+        .rpc('merge_catalog_books', { p_survivor_id: survivorId, p_duplicate_id: duplicateId })
+      if (error) throw error
+      return data
+    },
+
+    // The catalog book each book would be added as - find_book_in_catalog(), as books.create does -
+    // and whether the family owns it: [{ id, title, author, series, series_number, cover_image_url, owned } | null]
+    matchBooks: async (books, familyId) => {
+      const batchSize = 25
+      const ids = []
+      for (let i = 0; i < books.length; i += batchSize) {
+        ids.push(...await Promise.all(books.slice(i, i + batchSize).map(async (book) => {
+          if (!book.title) return null
+          const { data, error } = await supabase
+            .rpc('find_book_in_catalog', {
+              p_title: book.title,
+              p_author: book.author || '',
+              p_isbn: book.isbn || null,
+              p_series: book.series || null,
+              p_series_number: book.series_number || null
+            })
+          if (error) throw error
+          return data || null
+        })))
+      }
+
+      // Looked up 200 ids at a time to keep the request URL short
+      const catalogIds = [...new Set(ids.filter(Boolean))]
+      const catalog = new Map()
+      const owned = new Set()
+      for (let i = 0; i < catalogIds.length; i += 200) {
+        const batch = catalogIds.slice(i, i + 200)
+        const [catalogResult, ownedResult] = await Promise.all([
+          supabase
+            .from('book_catalog')
+            .select('id, title, author, series, series_number, cover_image_url')
+            .in('id', batch),
+          supabase
+            .from('family_books')
+            .select('book_catalog_id')
+            .eq('family_id', familyId)
+            .in('book_catalog_id', batch)
+        ])
+        if (catalogResult.error) throw catalogResult.error
+        if (ownedResult.error) throw ownedResult.error
+        for (const row of catalogResult.data || []) catalog.set(row.id, row)
+        for (const row of ownedResult.data || []) owned.add(row.book_catalog_id)
+      }
+
+      return ids.map(id => (catalog.has(id) ? { ...catalog.get(id), owned: owned.has(id) } : null))
+    }
+  },
+
+  // External metadata lookup cache (migration 042) - services/lookupCache.js reads and writes it
+  lookupCache: {
+    getMetrics: async (sinceDay) => {
+      const { data, error } = await supabase
+        .from('book_lookup_metrics')
+        .select('day, lookup_type, hits, negative_hits, misses')
+        .gte('day', sinceDay)
+        .order('day', { ascending: false })
+      if (error) throw error
+      return data || []
+    },
+
+    // Unexpired entries: { found, notFound }
+    countEntries: async () => {
+      const count = async (found) => {
+        const { count, error } = await supabase
+          .from('book_lookup_cache')
+          .select('cache_key', { count: 'exact', head: true })
+          .eq('found', found)
+          .gt('expires_at', new Date().toISOString())
+        if (error) throw error
+        return count || 0
+      }
+      const [found, notFound] = await Promise.all([count(true), count(false)])
+      return { found, notFound }
     }
   }
 }
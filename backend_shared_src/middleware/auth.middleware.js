@@ -105,3 +105,12 @@ export function requireFamily(req, res, next) {
   }
   next();
 }
+
+/**
+ * Whether a user may change the shared catalog (merging books, grouping editions, author aliases)
+ * Site admins are listed in SITE_ADMIN_USER_IDS; users can edit their own row, so it isn't a users column
+ */
+export function isSiteAdmin(userId) {
+  const adminIds = (process.env.SITE_ADMIN_USER_IDS || '').split(',').map((id) => id.trim()).filter(Boolean);
+  return Boolean(userId) && adminIds.includes(userId);
+}
@@ -0,0 +1,16 @@
+import express from 'express';
+import * as authorsController from '../controllers/authors.controller.js';
+import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// Public routes
+router.get('/:id', authorsController.getAuthor);
+
+// Protected routes (admins)
+router.post('/:id/aliases', requireAuth, authorsController.addAuthorAlias);
+
+export default router;
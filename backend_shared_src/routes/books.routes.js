@@ -5,6 +5,9 @@ import {
   searchBooks,
   getBookById,
   getBookFamilies,
+  getBookCopies,
+  getBookEditions,
+  addBookCopy,
   createBook,
   updateBook,
   deleteBook,
@@ -17,6 +20,10 @@ import {
   getUserDetectionJobs,
   deleteDetectionJob,
   bulkAddBooks,
+  previewImport,
+  matchImport,
+  enrichImport,
+  importBooks,
 } from '../controllers/books.controller.js';
 import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
 
@@ -41,6 +48,20 @@ const upload = multer({
   },
 });
 
+// Library files for import (CSV / JSON)
+const importUpload = multer({
+  storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (!/\.(csv|json|txt)$/i.test(file.originalname)) {
+      return cb(new Error('Only CSV or JSON files are allowed'), false);
+    }
+    cb(null, true);
+  },
+});
+
 // Core book routes
 router.get('/', getAllBooks);
 router.get('/search', searchBooks);
@@ -72,8 +93,28 @@ router.post('/detect-from-image',
 );
 router.post('/bulk-add', requireAuth, bulkAddBooks);
 
+// Library import (CSV / JSON / Goodreads) - MUST BE BEFORE /:id
+router.post('/import/preview',
+  requireAuth,
+  (req, res, next) => {
+    importUpload.single('file')(req, res, (err) => {
+      if (err) {
+        return res.status(400).json({ error: err.message });
+      }
+      next();
+    });
+  },
+  previewImport
+);
+router.post('/import/match', requireAuth, matchImport);
+router.post('/import/enrich', requireAuth, enrichImport);
+router.post('/import', requireAuth, importBooks);
+
 router.get('/:id', getBookById);
 router.get('/:id/families', getBookFamilies);
+router.get('/:id/copies', requireAuth, getBookCopies);
+router.get('/:id/editions', getBookEditions);
+router.post('/:id/copies', requireAuth, addBookCopy);
 router.post('/', requireAuth, createBook);
 router.put('/:id', requireAuth, updateBook);
 router.delete('/:id', requireAuth, deleteBook);
@@ -0,0 +1,18 @@
+import express from 'express';
+import * as calendarController from '../controllers/calendar.controller.js';
+import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// Protected routes (the user's own feed token)
+router.get('/feed', requireAuth, calendarController.getCalendarFeed);
+router.post('/feed', requireAuth, calendarController.createCalendarFeed);
+router.delete('/feed', requireAuth, calendarController.deleteCalendarFeed);
+
+// Public route - the feed token in the URL is the credential
+router.get('/:token.ics', calendarController.getCalendarIcs);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import * as catalogController from '../controllers/catalog.controller.js';
+import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// Admin catalog maintenance
+router.get('/duplicates', requireAuth, catalogController.getDuplicateCandidates);
+router.post('/merge', requireAuth, catalogController.mergeCatalogBooks);
+router.post('/works/link', requireAuth, catalogController.linkEdition);
+router.post('/works/detach', requireAuth, catalogController.detachEdition);
+router.get('/lookup-cache', requireAuth, catalogController.getLookupCacheMetrics);
+
+export default router;
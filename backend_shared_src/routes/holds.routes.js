@@ -0,0 +1,18 @@
+import express from 'express';
+import * as holdsController from '../controllers/holds.controller.js';
+import { extractUserFromToken, requireAuth, requireFamily } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// Public routes
+router.get('/', holdsController.getHolds);
+
+// Protected routes (hold queue per catalog book)
+router.post('/', requireAuth, requireFamily, holdsController.joinHoldQueue);
+router.delete('/:id', requireAuth, requireFamily, holdsController.cancelHold);
+router.post('/:id/claim', requireAuth, requireFamily, holdsController.claimHold);
+
+export default router;
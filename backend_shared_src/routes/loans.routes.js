@@ -1,18 +1,67 @@
 import express from 'express';
+import multer from 'multer';
 import * as loansController from '../controllers/loans.controller.js';
-import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
+import { extractUserFromToken, requireAuth, requireFamily } from '../middleware/auth.middleware.js';
 
 const router = express.Router();
 
 // Apply token extraction to all routes
 router.use(extractUserFromToken);
 
+// Condition photos are kept in memory and uploaded to storage by the controller
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per photo
+    files: 4,
+  },
+});
+
+const uploadPhotos = (req, res, next) => {
+  upload.array('photos', 4)(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({ error: err.message });
+    }
+    next();
+  });
+};
+
 // Public routes
 router.get('/', loansController.getAllLoans);
+router.get('/policy-check', loansController.checkLoanPolicy);
+// Not public - registered here to come before /:id
+router.get('/events', requireAuth, requireFamily, loansController.getLoanEvents);
 router.get('/:id', loansController.getLoanById);
 
 // Protected routes
-router.post('/', requireAuth, loansController.createLoan);
+router.post('/', requireAuth, requireFamily, loansController.createLoan);
 router.put('/:id', requireAuth, loansController.updateLoan);
 
+// Loan request workflow (borrower requests, owner approves and hands over)
+router.post('/requests', requireAuth, requireFamily, loansController.requestLoan);
+router.post('/:id/approve', requireAuth, requireFamily, loansController.approveLoanRequest);
+router.post('/:id/reject', requireAuth, requireFamily, loansController.rejectLoanRequest);
+router.post('/:id/handover', requireAuth, requireFamily, loansController.handOverLoan);
+router.post('/:id/cancel', requireAuth, requireFamily, loansController.cancelLoanRequest);
+
+// Renewals (borrower asks for a later due date, owner approves or declines)
+router.get('/:id/renewals', loansController.getLoanRenewals);
+router.post('/:id/renewals', requireAuth, requireFamily, loansController.requestLoanRenewal);
+router.post('/:id/renewals/:renewalId/approve', requireAuth, requireFamily, loansController.approveLoanRenewal);
+router.post('/:id/renewals/:renewalId/decline', requireAuth, requireFamily, loansController.declineLoanRenewal);
+
+// Pass-on (borrower hands the copy straight to the next family, owner approves)
+router.post('/:id/pass-on', requireAuth, requireFamily, loansController.requestPassOn);
+router.post('/:id/pass-on/approve', requireAuth, requireFamily, loansController.approvePassOn);
+router.post('/:id/pass-on/decline', requireAuth, requireFamily, loansController.declinePassOn);
+
+// Condition at check-out / check-in, damage and loss reports (multipart, optional "photos")
+router.get('/:id/condition', requireAuth, requireFamily, loansController.getLoanConditionRecords);
+router.post('/:id/condition', requireAuth, requireFamily, uploadPhotos, loansController.recordLoanCondition);
+router.post('/:id/damage-report', requireAuth, requireFamily, uploadPhotos, loansController.reportLoanDamage);
+
+// Event ledger (append-only history) and disputes
+router.get('/:id/events', requireAuth, requireFamily, loansController.getLoanEvents);
+router.post('/:id/dispute', requireAuth, requireFamily, loansController.disputeLoan);
+
 export default router;
@@ -0,0 +1,20 @@
+import express from 'express';
+import * as notificationsController from '../controllers/notifications.controller.js';
+import { extractUserFromToken, requireAuth } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// Protected routes (the user's own notifications)
+router.get('/', requireAuth, notificationsController.getNotifications);
+router.get('/unread-count', requireAuth, notificationsController.getUnreadCount);
+router.post('/read-all', requireAuth, notificationsController.markAllNotificationsRead);
+router.get('/preferences', requireAuth, notificationsController.getNotificationPreferences);
+router.put('/preferences', requireAuth, notificationsController.updateNotificationPreferences);
+router.get('/digest', requireAuth, notificationsController.getDigestSettings);
+router.put('/digest', requireAuth, notificationsController.updateDigestSettings);
+router.post('/:id/read', requireAuth, notificationsController.markNotificationRead);
+
+export default router;
@@ -7,7 +7,16 @@ const router = express.Router();
 // Apply token extraction (optional auth)
 router.use(extractUserFromToken);
 
+// Advanced community search with facet counts
+router.get('/search', searchController.searchCatalogFaceted);
+
 // Global book search (catalog + external sources)
 router.get('/search-books', searchController.searchBooksGlobal);
 
+// Configured book metadata providers
+router.get('/search-books/sources', searchController.getSearchSources);
+
+// Single book by ISBN / scanned barcode (catalog first, then external sources)
+router.get('/search-books/isbn/:isbn', searchController.searchByIsbn);
+
 export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import * as seriesController from '../controllers/series.controller.js';
+import { extractUserFromToken, requireAuth, requireFamily } from '../middleware/auth.middleware.js';
+
+const router = express.Router();
+
+// Apply token extraction to all routes
+router.use(extractUserFromToken);
+
+// "Complete my series" for the viewer's family
+router.get('/', requireAuth, requireFamily, seriesController.getMySeries);
+
+// Series page (family-specific marks when signed in)
+router.get('/:name', seriesController.getSeries);
+
+export default router;
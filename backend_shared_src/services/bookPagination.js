@@ -0,0 +1,103 @@
+/**
+ * Book List Pagination
+ * Cursors for GET /api/books. The list is one entry per catalog book (a book with several copies
+ * is one entry), so pages are cut from the grouped, sorted list rather than from family_books rows.
+ * A cursor is the sort key of the last entry returned: the next page starts right after it,
+ * even when books were added or removed in between. db.books.getListPage reads from the cursor
+ * on; search results, ordered by relevance, are few enough to be paged here.
+ */
+
+/**
+ * Order of the list: search results by relevance unless another order was asked for
+ * @returns {'relevance'|'updated'|'title'}
+ */
+export function sortModeFor(sortBy, isSearch = false) {
+  if (sortBy === 'updated') return 'updated';
+  return isSearch ? 'relevance' : 'title';
+}
+
+/**
+ * Sort key of a catalog book row from db.books.getListPage / getListSearchResults
+ * @param {Object} row - { id, title, family_books: [{ id, updated_at }], search_rank? }
+ * @returns {{catalogId: string, title: string, updatedAt: string, rank: number, familyBookIds: string[]}}
+ */
+export function toCatalogKey(row) {
+  const copies = row.family_books || [];
+  return {
+    catalogId: row.id,
+    title: row.title || '',
+    // Most recently updated copy - kept as the database wrote it, so a cursor matches it exactly
+    updatedAt: copies.reduce((latest, copy) => (copy.updated_at && copy.updated_at > latest ? copy.updated_at : latest), ''),
+    rank: row.search_rank || 0,
+    familyBookIds: copies.map((copy) => copy.id),
+  };
+}
+
+const SORT_VALUE = {
+  relevance: (key) => key.rank,
+  updated: (key) => key.updatedAt,
+  title: (key) => key.title,
+};
+
+/**
+ * Compare two catalog keys in list order; ties broken by catalog id so the order is total
+ */
+export function compareKeys(a, b, mode) {
+  let diff = 0;
+  if (mode === 'relevance') diff = b.rank - a.rank;
+  else if (mode === 'updated') diff = a.updatedAt > b.updatedAt ? -1 : a.updatedAt < b.updatedAt ? 1 : 0;
+  else diff = a.title.localeCompare(b.title, 'he');
+  if (diff) return diff;
+  return a.catalogId < b.catalogId ? -1 : a.catalogId > b.catalogId ? 1 : 0;
+}
+
+export const encodeCursor = (key, mode) =>
+  Buffer.from(JSON.stringify({ m: mode, v: SORT_VALUE[mode](key), id: key.catalogId })).toString('base64url');
+
+/**
+ * @returns {{mode: string, key: Object}|null} null when the cursor is malformed
+ */
+export function decodeCursor(cursor) {
+  try {
+    const { m: mode, v: value, id } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (!SORT_VALUE[mode] || typeof id !== 'string') return null;
+    if (mode === 'relevance' ? typeof value !== 'number' : typeof value !== 'string') return null;
+
+    const key = { catalogId: id, title: '', updatedAt: '', rank: 0 };
+    if (mode === 'title') key.title = value;
+    else if (mode === 'updated') key.updatedAt = value;
+    else key.rank = value;
+    return { mode, key };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort the catalog keys and cut one page
+ * @param {Array<Object>} keys - toCatalogKey() results
+ * @param {Object} options
+ * @param {string} options.mode - sortModeFor() result
+ * @param {Object} [options.after] - decodeCursor().key; the page starts after it
+ * @param {number} [options.offset] - used when there's no cursor
+ * @param {number} [options.limit] - no limit returns everything from the start
+ * @returns {{page: Array<Object>, total: number, nextCursor: string|null}}
+ */
+export function paginateCatalogKeys(keys, { mode, after = null, offset = 0, limit = null }) {
+  const sorted = [...keys].sort((a, b) => compareKeys(a, b, mode));
+
+  let start = Math.max(offset || 0, 0);
+  if (after) {
+    start = sorted.findIndex((key) => compareKeys(key, after, mode) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const end = limit ? start + limit : sorted.length;
+  const page = sorted.slice(start, end);
+
+  return {
+    page,
+    total: sorted.length,
+    nextCursor: end < sorted.length && page.length > 0 ? encodeCursor(page[page.length - 1], mode) : null,
+  };
+}
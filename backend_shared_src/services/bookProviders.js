@@ -0,0 +1,447 @@
+/**
+ * Book Metadata Providers
+ * External sources of book details for search and bulk-upload enrichment. A provider is
+ * { name, displayName, timeoutMs, search(query, { maxResults, signal }) } where search resolves
+ * to an array of results (see searchSimania for the fields) and stops when signal aborts.
+ *
+ * Built-in providers:
+ * - simania: Simania - Hebrew books
+ * - openlibrary: Open Library - mostly English books
+ * - google: Google Books
+ * - fixture: books from a local JSON file (BOOK_PROVIDER_FIXTURES) - for development and tests, no network
+ *
+ * BOOK_PROVIDERS lists the providers to use in priority order (default: simania,openlibrary), each
+ * optionally with its timeout in ms: "simania:3000,openlibrary". BOOK_PROVIDER_TIMEOUT_MS sets the
+ * timeout of the ones without. More providers can be added with registerBookProvider().
+ */
+
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+const SIMANIA_API = 'https://simania.co.il/api/search';
+const GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1/volumes';
+const OPEN_LIBRARY_API = 'https://openlibrary.org/search.json';
+const OPEN_LIBRARY_COVERS = 'https://covers.openlibrary.org/b/id';
+const OPEN_LIBRARY_FIELDS = 'title,author_name,publisher,first_publish_year,number_of_pages_median,isbn,cover_i,subject,language';
+// Open Library uses MARC language codes
+const OPEN_LIBRARY_LANGUAGES = { heb: 'he', eng: 'en', ara: 'ar', rus: 'ru', fre: 'fr', ger: 'de', spa: 'es' };
+
+const DEFAULT_PROVIDERS = 'simania,openlibrary';
+const DEFAULT_FIXTURES = fileURLToPath(new URL('./fixtures/bookProviderFixtures.json', import.meta.url));
+
+/**
+ * Search Simania API
+ */
+async function searchSimania(query, { maxResults = 10, signal } = {}) {
+  try {
+    const url = `${SIMANIA_API}?query=${encodeURIComponent(query)}&page=1`;
+    const response = await fetch(url, { signal });
+    
+    if (!response.ok) {
+      console.warn(`Simania API error: ${response.status}`);
+      return [];
+    }
+    
+    const data = await response.json();
+    
+    if (!data.success || !data.data?.books || data.data.books.length === 0) {
+      return [];
+    }
+    
+    // Map Simania results to our format
+    const results = data.data.books.slice(0, maxResults).map(book => {
+      let coverImageUrl = null;
+      
+      // Handle different cover image URL formats from Simania
+      if (book.COVER) {
+        coverImageUrl = book.COVER;
+      } else if (book.imageLink) {
+        const imagePath = book.imageLink;
+        
+        // Check if it's a loadJpg.php URL and extract the direct image path
+        if (imagePath.includes('loadJpg.php')) {
+          try {
+            // Extract imageName parameter from URL like: /bookimages/loadJpg.php?imageName=covers0/1239.jpg
+            const match = imagePath.match(/[?&]imageName=([^&]+)/);
+            if (match && match[1]) {
+              // Convert to direct image URL
+              coverImageUrl = `https://simania.co.il/bookimages/${match[1]}`;
+            } else {
+              // Fallback: use the URL as-is
+              coverImageUrl = `https://simania.co.il${imagePath}`;
+            }
+          } catch (e) {
+            console.warn('Failed to parse loadJpg.php URL:', imagePath);
+            coverImageUrl = `https://simania.co.il${imagePath}`;
+          }
+        } else {
+          // Direct image URL
+          coverImageUrl = `https://simania.co.il${imagePath}`;
+        }
+      }
+      
+      return {
+        title: book.NAME || '',
+        author: book.AUTHOR || '',
+        publisher: book.PUBLISHER || null,
+        publish_year: book.YEAR || book.bookYear || null,
+        pages: book.PAGES || null,
+        description: book.DESCRIPTION || null,
+        cover_image_url: coverImageUrl,
+        isbn: book.ISBN || null,
+        genre: book.CATEGORY || null,
+        series: book.SERIES || null,
+        series_number: book.seriesNumber ? parseSeriesNumber(book.seriesNumber) : null,
+        language: 'he', // Simania is Hebrew
+        source: 'Simania',
+        confidence: 85 // High confidence for direct matches
+      };
+    });
+    
+    return results;
+    
+  } catch (error) {
+    console.error('Simania search error:', error);
+    return [];
+  }
+}
+
+/**
+ * Search Google Books API
+ */
+async function searchGoogleBooks(query, { maxResults = 10, signal } = {}) {
+  try {
+    const url = `${GOOGLE_BOOKS_API}?q=${encodeURIComponent(query)}&maxResults=${maxResults}&langRestrict=he,en`;
+    const response = await fetch(url, { signal });
+    
+    if (!response.ok) {
+      console.warn(`Google Books API error: ${response.status}`);
+      return [];
+    }
+    
+    const data = await response.json();
+    
+    if (!data.items || data.items.length === 0) {
+      return [];
+    }
+    
+    // Map Google Books results to our format
+    const results = data.items.map(item => {
+      const volumeInfo = item.volumeInfo;
+      const { series, seriesNumber } = extractSeriesInfo(volumeInfo);
+      
+      return {
+        title: volumeInfo.title || '',
+        author: volumeInfo.authors?.[0] || '',
+        publisher: volumeInfo.publisher || null,
+        publish_year: volumeInfo.publishedDate ? parseInt(volumeInfo.publishedDate.substring(0, 4)) : null,
+        pages: volumeInfo.pageCount || null,
+        description: volumeInfo.description || null,
+        cover_image_url: volumeInfo.imageLinks?.thumbnail || volumeInfo.imageLinks?.smallThumbnail || null,
+        isbn: volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier || 
+              volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier || 
+              null,
+        genre: mapCategories(volumeInfo.categories),
+        language: volumeInfo.language || null,
+        series,
+        series_number: seriesNumber,
+        source: 'Google Books',
+        confidence: 75
+      };
+    });
+    
+    return results;
+    
+  } catch (error) {
+    console.error('Google Books search error:', error);
+    return [];
+  }
+}
+
+/**
+ * Search Open Library
+ */
+async function searchOpenLibrary(query, { maxResults = 10, signal } = {}) {
+  try {
+    const url = `${OPEN_LIBRARY_API}?q=${encodeURIComponent(query)}&limit=${maxResults}&fields=${OPEN_LIBRARY_FIELDS}`;
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      console.warn(`Open Library API error: ${response.status}`);
+      return [];
+    }
+
+    const data = await response.json();
+    return (data.docs || []).slice(0, maxResults).map(toOpenLibraryResult);
+
+  } catch (error) {
+    console.error('Open Library search error:', error);
+    return [];
+  }
+}
+
+/**
+ * Map an Open Library search document to our format
+ */
+export function toOpenLibraryResult(doc) {
+  const isbns = doc.isbn || [];
+  const languages = doc.language || [];
+
+  return {
+    title: doc.title || '',
+    author: doc.author_name?.[0] || '',
+    publisher: doc.publisher?.[0] || null,
+    publish_year: doc.first_publish_year || null,
+    pages: doc.number_of_pages_median || null,
+    description: null,
+    cover_image_url: doc.cover_i ? `${OPEN_LIBRARY_COVERS}/${doc.cover_i}-M.jpg` : null,
+    isbn: isbns.find(isbn => isbn.length === 13) || isbns[0] || null,
+    genre: mapCategories(doc.subject),
+    series: null,
+    series_number: null,
+    language: languages.map(code => OPEN_LIBRARY_LANGUAGES[code]).find(Boolean) || null,
+    source: 'Open Library',
+    confidence: 70
+  };
+}
+
+const fixtureFiles = new Map();
+
+// Lower case, no punctuation - "Harry Potter" matches "harry-potter!" and ISBNs match with or without hyphens
+const toSearchText = (value) => String(value || '')
+  .toLowerCase()
+  .replace(/(\d)-(?=\d)/g, '$1')
+  .replace(/['"`\u05F3\u05F4]/g, '')
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+function loadFixtures(file) {
+  if (!fixtureFiles.has(file)) {
+    fixtureFiles.set(file, readFile(file, 'utf8').then(JSON.parse).catch((error) => {
+      fixtureFiles.delete(file);
+      throw error;
+    }));
+  }
+  return fixtureFiles.get(file);
+}
+
+function createFixtureProvider(env) {
+  const file = env.BOOK_PROVIDER_FIXTURES || DEFAULT_FIXTURES;
+
+  return {
+    name: 'fixture',
+    displayName: 'ספרים לדוגמה',
+    timeoutMs: 1000,
+    // Every word of the query appears in the title, author or ISBN
+    async search(query, { maxResults = 10 } = {}) {
+      const words = toSearchText(query).split(' ').filter(Boolean);
+      if (words.length === 0) return [];
+
+      const books = await loadFixtures(file);
+      return books
+        .filter(book => {
+          const text = toSearchText(`${book.title} ${book.author} ${book.isbn || ''}`);
+          return words.every(word => text.includes(word));
+        })
+        .slice(0, maxResults)
+        .map(book => ({
+          publisher: null,
+          publish_year: null,
+          pages: null,
+          description: null,
+          cover_image_url: null,
+          isbn: null,
+          genre: null,
+          series: null,
+          series_number: null,
+          language: null,
+          confidence: 90,
+          ...book,
+          source: book.source || 'Fixture'
+        }));
+    }
+  };
+}
+
+const providerFactories = new Map([
+  ['simania', () => ({ name: 'simania', displayName: 'סימניה', timeoutMs: 5000, search: searchSimania })],
+  ['openlibrary', () => ({ name: 'openlibrary', displayName: 'Open Library', timeoutMs: 6000, search: searchOpenLibrary })],
+  ['google', () => ({ name: 'google', displayName: 'Google Books', timeoutMs: 5000, search: searchGoogleBooks })],
+  ['fixture', createFixtureProvider],
+]);
+
+/**
+ * Add (or replace) a provider type
+ * @param {string} name - Name used in BOOK_PROVIDERS
+ * @param {Function} factory - (env) => { name, displayName, timeoutMs, search(query, { maxResults, signal }) }
+ */
+export function registerBookProvider(name, factory) {
+  providerFactories.set(name, factory);
+}
+
+export const isKnownBookProvider = (name) => providerFactories.has(name);
+
+/**
+ * The configured providers, highest priority first
+ * @param {Object} [env] - Environment to read settings from (defaults to process.env)
+ * @returns {Array<{name: string, displayName: string, priority: number, timeoutMs: number, search: Function}>}
+ */
+export function getBookProviders(env = process.env) {
+  const defaultTimeout = parseInt(env.BOOK_PROVIDER_TIMEOUT_MS, 10);
+
+  return (env.BOOK_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const [name, timeout] = entry.split(':');
+      const factory = providerFactories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown book provider: ${name}`);
+      }
+      const provider = factory(env);
+      return {
+        ...provider,
+        priority: index,
+        timeoutMs: parseInt(timeout, 10) || defaultTimeout || provider.timeoutMs
+      };
+    });
+}
+
+/**
+ * Search one provider, giving up after its timeout
+ * @returns {Promise<Array>} Its results - empty when it failed or timed out
+ */
+export async function searchProvider(provider, query, maxResults = 10) {
+  const controller = new AbortController();
+  let timer;
+  const timedOut = new Promise(resolve => {
+    timer = setTimeout(() => {
+      console.warn(`  ${provider.displayName} timed out after ${provider.timeoutMs}ms`);
+      controller.abort();
+      resolve([]);
+    }, provider.timeoutMs);
+  });
+
+  try {
+    const results = await Promise.race([
+      provider.search(query, { maxResults, signal: controller.signal }),
+      timedOut
+    ]);
+    return (results || []).map(result => ({ ...result, source: result.source || provider.displayName }));
+  } catch (error) {
+    console.error(`${provider.displayName} search error:`, error);
+    return [];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Map Google Books categories to our genres
+ */
+function mapCategories(categories) {
+  if (!categories || categories.length === 0) return null;
+
+  const categoryMap = {
+    'fiction': 'בדיה',
+    'juvenile fiction': 'בדיה לילדים',
+    'young adult fiction': 'בדיה לנוער',
+    'fantasy': 'פנטזיה',
+    'science fiction': 'מדע בדיוני',
+    'mystery': 'מתח ומסתורין',
+    'thriller': 'מתח ומסתורין',
+    'romance': 'רומנטיקה',
+    'biography': 'ביוגרפיה',
+    'history': 'היסטוריה',
+    'science': 'מדע',
+    'self-help': 'עזרה עצמית',
+    'cooking': 'בישול',
+    'religion': 'דת',
+    'poetry': 'שירה',
+    'drama': 'דרמה',
+    'comics': 'קומיקס'
+  };
+
+  const category = categories[0].toLowerCase();
+  
+  for (const [key, value] of Object.entries(categoryMap)) {
+    if (category.includes(key)) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+function extractSeriesInfo(volumeInfo) {
+  if (!volumeInfo) {
+    return { series: null, seriesNumber: null };
+  }
+
+  const seriesInfo = volumeInfo.seriesInfo || volumeInfo.seriesinfo;
+  const result = { series: null, seriesNumber: null };
+
+  if (seriesInfo) {
+    result.series = seriesInfo.bookDisplaySeriesTitle
+      || seriesInfo.series
+      || seriesInfo.seriesTitle
+      || null;
+
+    if (!result.series && Array.isArray(seriesInfo.volumeSeries) && seriesInfo.volumeSeries.length > 0) {
+      result.series = seriesInfo.volumeSeries[0].series || null;
+      result.seriesNumber = parseSeriesNumber(seriesInfo.volumeSeries[0].volumeSeriesNumber);
+    }
+
+    if (seriesInfo.volumeSeriesNumber && result.seriesNumber == null) {
+      result.seriesNumber = parseSeriesNumber(seriesInfo.volumeSeriesNumber);
+    }
+  }
+
+  // Try parsing common subtitle format: "Book 3 of The Series"
+  if (!result.series && volumeInfo.subtitle) {
+    const subtitle = volumeInfo.subtitle;
+    const match = subtitle.match(/Book\s+(\d+)\s+of\s+(.+)/i);
+    if (match) {
+      result.seriesNumber = parseSeriesNumber(match[1]);
+      result.series = match[2].trim();
+    }
+  }
+
+  // Look for patterns like "Series Name #4" in title
+  if (!result.series) {
+    const titlePattern = volumeInfo.title?.match(/(.+?)\s+[\-–]\s+Book\s+(\d+)/i)
+      || volumeInfo.title?.match(/(.+?)\s+#(\d+)/)
+      || volumeInfo.title?.match(/(.+?)\s+,?\s*חלק\s+(\d+)/);
+    if (titlePattern) {
+      result.series = titlePattern[1].trim();
+      result.seriesNumber = result.seriesNumber ?? parseSeriesNumber(titlePattern[2]);
+    }
+  }
+
+  // Check description for "Book X of Y"
+  if (!result.series && volumeInfo.description) {
+    const descriptionMatch = volumeInfo.description.match(/Book\s+(\d+)\s+of\s+([^\.\n]+)/i);
+    if (descriptionMatch) {
+      result.seriesNumber = parseSeriesNumber(descriptionMatch[1]);
+      result.series = descriptionMatch[2].trim();
+    }
+  }
+
+  return result;
+}
+
+function parseSeriesNumber(value) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  const match = String(value).match(/\d+/);
+  if (match) {
+    const num = Number(match[0]);
+    return Number.isFinite(num) ? num : null;
+  }
+  return null;
+}
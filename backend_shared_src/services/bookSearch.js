@@ -1,65 +1,62 @@
 /**
  * Book Search Service
  * 
- * Multi-provider book search supporting Simania and Google Books
+ * Searches the book metadata providers (bookProviders.js) and merges their results.
+ * Answers are kept in the lookup cache (lookupCache.js) when one is set.
  */
 
-const SIMANIA_API = 'https://simania.co.il/api/search';
-const GOOGLE_BOOKS_API = 'https://www.googleapis.com/books/v1/volumes';
-
-// Search provider configuration
-const PROVIDERS = {
-  simania: {
-    enabled: true,
-    name: 'Simania',
-    search: searchSimania
-  },
-  google: {
-    enabled: false, // Disabled for now, keep for future use
-    name: 'Google Books',
-    search: searchGoogleBooks
-  }
-};
+import { getBookProviders, isKnownBookProvider, searchProvider } from './bookProviders.js';
+import { normalizeIsbn, toIsbn13 } from './isbn.js';
+
+let lookupCache = null;
+
+/**
+ * Set the cache for external lookups (createLookupCache()) - null looks everything up again
+ */
+export function setLookupCache(cache) {
+  lookupCache = cache;
+}
+
+const cachedLookup = (type, params, lookup) =>
+  lookupCache ? lookupCache.cached(type, params, lookup) : lookup();
 
 /**
  * Search for books using query string
  * @param {string} query - Search query (title, author, ISBN, etc.)
  * @param {Object} options - Search options
+ * @param {string} [options.provider] - 'auto' for every configured provider, or one provider's name
  * @returns {Promise<Array>} Array of book results
  */
 export async function searchBooks(query, options = {}) {
   const { provider = 'auto', maxResults = 10 } = options;
-  
+  return cachedLookup('search', { query, provider, maxResults }, () => searchProviders(query, provider, maxResults));
+}
+
+async function searchProviders(query, provider, maxResults) {
   try {
     console.log(`Searching books: "${query}" (provider: ${provider})`);
+    const providers = getBookProviders();
     
-    // Auto mode: try enabled providers in order
+    // Auto mode: ask every configured provider at once and merge, higher priority first
     if (provider === 'auto') {
-      for (const [key, config] of Object.entries(PROVIDERS)) {
-        if (config.enabled) {
-          console.log(`  Trying provider: ${config.name}`);
-          const results = await config.search(query, maxResults);
-          if (results && results.length > 0) {
-            console.log(`  ✓ Found ${results.length} results from ${config.name}`);
-            return results;
-          }
-        }
-      }
-      console.log('  No results found from any provider');
-      return [];
+      const resultLists = await Promise.all(
+        providers.map(config => searchProvider(config, query, maxResults))
+      );
+      resultLists.forEach((results, index) => {
+        console.log(`  ${providers[index].displayName}: ${results.length} results`);
+      });
+      return mergeProviderResults(resultLists).slice(0, maxResults);
     }
     
     // Specific provider requested
-    const config = PROVIDERS[provider];
+    const config = providers.find(candidate => candidate.name === provider);
     if (!config) {
-      throw new Error(`Unknown provider: ${provider}`);
-    }
-    
-    if (!config.enabled) {
-      throw new Error(`Provider ${provider} is disabled`);
+      throw new Error(isKnownBookProvider(provider)
+        ? `Provider ${provider} is disabled`
+        : `Unknown provider: ${provider}`);
     }
     
-    return await config.search(query, maxResults);
+    return await searchProvider(config, query, maxResults);
     
   } catch (error) {
     console.error('Book search error:', error);
@@ -67,168 +64,99 @@ export async function searchBooks(query, options = {}) {
   }
 }
 
+// Keys a result is recognized by across providers: its ISBN and its title + author
+function resultKeys(result) {
+  const keys = [];
+  const isbn = normalizeIsbn(result.isbn);
+  if (isbn) keys.push(`isbn:${toIsbn13(isbn)}`);
+  if (result.title) keys.push(`title:${normalizeString(result.title)}|${normalizeString(result.author || '')}`);
+  return keys;
+}
+
+const isEmpty = (value) => value === null || value === undefined || value === '';
+
 /**
- * Search for book details by title and author (legacy API for bulk upload)
- * @param {string} title - Book title
- * @param {string} author - Book author (optional)
- * @returns {Promise<Object|null>} Book details or null if not found
+ * Merge the results of several providers into one list
+ * The same book found by two providers becomes one result: the higher-priority provider's,
+ * with the fields it lacks filled in from the other. `sources` lists every provider that found it.
+ * @param {Array<Array<Object>>} resultLists - Results per provider, highest priority first
+ * @returns {Array<Object>}
  */
-export async function searchBookDetails(title, author = '') {
-  try {
-    console.log(`Searching for book details: "${title}" by "${author}"`);
-    
-    // 1. Try searching with Title + Author
-    let query = author ? `${title} ${author}` : title;
-    let results = await searchBooks(query, { maxResults: 5 });
-    
-    // 2. If no results and we have an author, try searching by Title only
-    if ((!results || results.length === 0) && author) {
-      console.log(`No results for "${title} ${author}", retrying with title only: "${title}"`);
-      query = title;
-      results = await searchBooks(query, { maxResults: 5 });
-    }
-    
-    if (!results || results.length === 0) {
-      return null;
+export function mergeProviderResults(resultLists) {
+  const merged = [];
+  const byKey = new Map();
+
+  for (const results of resultLists) {
+    for (const result of results) {
+      const keys = resultKeys(result);
+      let entry = keys.map(key => byKey.get(key)).find(Boolean);
+
+      if (entry) {
+        for (const [field, value] of Object.entries(result)) {
+          if (isEmpty(entry[field]) && !isEmpty(value)) entry[field] = value;
+        }
+        if (!entry.sources.includes(result.source)) entry.sources.push(result.source);
+      } else {
+        entry = { ...result, sources: [result.source] };
+        merged.push(entry);
+      }
+      keys.forEach(key => byKey.set(key, entry));
     }
-    
-    // Find best match
-    const bestMatch = findBestMatch(results, title, author);
-    return bestMatch;
-    
-  } catch (error) {
-    console.error('Book details search error:', error);
-    return null;
   }
+
+  return merged;
 }
 
 /**
- * Search Simania API
+ * Search for book details by title and author (legacy API for bulk upload)
+ * @param {string} title - Book title
+ * @param {string} author - Book author (optional)
+ * @returns {Promise<Object|null>} Book details or null if not found
  */
-async function searchSimania(query, maxResults = 10) {
+export async function searchBookDetails(title, author = '') {
   try {
-    const url = `${SIMANIA_API}?query=${encodeURIComponent(query)}&page=1`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      console.warn(`Simania API error: ${response.status}`);
-      return [];
-    }
-    
-    const data = await response.json();
-    
-    if (!data.success || !data.data?.books || data.data.books.length === 0) {
-      return [];
-    }
-    
-    // Map Simania results to our format
-    const results = data.data.books.slice(0, maxResults).map(book => {
-      let coverImageUrl = null;
+    return await cachedLookup('details', { title, author }, async () => {
+      console.log(`Searching for book details: "${title}" by "${author}"`);
       
-      // Handle different cover image URL formats from Simania
-      if (book.COVER) {
-        coverImageUrl = book.COVER;
-      } else if (book.imageLink) {
-        const imagePath = book.imageLink;
-        
-        // Check if it's a loadJpg.php URL and extract the direct image path
-        if (imagePath.includes('loadJpg.php')) {
-          try {
-            // Extract imageName parameter from URL like: /bookimages/loadJpg.php?imageName=covers0/1239.jpg
-            const match = imagePath.match(/[?&]imageName=([^&]+)/);
-            if (match && match[1]) {
-              // Convert to direct image URL
-              coverImageUrl = `https://simania.co.il/bookimages/${match[1]}`;
-            } else {
-              // Fallback: use the URL as-is
-              coverImageUrl = `https://simania.co.il${imagePath}`;
-            }
-          } catch (e) {
-            console.warn('Failed to parse loadJpg.php URL:', imagePath);
-            coverImageUrl = `https://simania.co.il${imagePath}`;
-          }
-        } else {
-          // Direct image URL
-          coverImageUrl = `https://simania.co.il${imagePath}`;
-        }
+      // 1. Try searching with Title + Author
+      let query = author ? `${title} ${author}` : title;
+      let results = await searchProviders(query, 'auto', 5);
+      
+      // 2. If no results and we have an author, try searching by Title only
+      if ((!results || results.length === 0) && author) {
+        console.log(`No results for "${title} ${author}", retrying with title only: "${title}"`);
+        query = title;
+        results = await searchProviders(query, 'auto', 5);
+      }
+      
+      if (!results || results.length === 0) {
+        return null;
       }
       
-      return {
-        title: book.NAME || '',
-        author: book.AUTHOR || '',
-        publisher: book.PUBLISHER || null,
-        publish_year: book.YEAR || book.bookYear || null,
-        pages: book.PAGES || null,
-        description: book.DESCRIPTION || null,
-        cover_image_url: coverImageUrl,
-        isbn: book.ISBN || null,
-        genre: book.CATEGORY || null,
-        series: book.SERIES || null,
-        series_number: book.seriesNumber ? parseSeriesNumber(book.seriesNumber) : null,
-        language: 'he', // Simania is Hebrew
-        source: 'Simania',
-        confidence: 85 // High confidence for direct matches
-      };
+      // Find best match
+      return findBestMatch(results, title, author);
     });
     
-    return results;
-    
   } catch (error) {
-    console.error('Simania search error:', error);
-    return [];
+    console.error('Book details search error:', error);
+    return null;
   }
 }
 
 /**
- * Search Google Books API (kept for future use)
+ * Look up a book by ISBN in the external providers
+ * Providers search ISBNs as free text, so only a result with the same ISBN counts
+ * @param {string} isbn - Normalized ISBN-13
+ * @returns {Promise<Object|null>} The book, or null when it wasn't found
  */
-async function searchGoogleBooks(query, maxResults = 10) {
-  try {
-    const url = `${GOOGLE_BOOKS_API}?q=${encodeURIComponent(query)}&maxResults=${maxResults}&langRestrict=he,en`;
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      console.warn(`Google Books API error: ${response.status}`);
-      return [];
-    }
-    
-    const data = await response.json();
-    
-    if (!data.items || data.items.length === 0) {
-      return [];
-    }
-    
-    // Map Google Books results to our format
-    const results = data.items.map(item => {
-      const volumeInfo = item.volumeInfo;
-      const { series, seriesNumber } = extractSeriesInfo(volumeInfo);
-      
-      return {
-        title: volumeInfo.title || '',
-        author: volumeInfo.authors?.[0] || '',
-        publisher: volumeInfo.publisher || null,
-        publish_year: volumeInfo.publishedDate ? parseInt(volumeInfo.publishedDate.substring(0, 4)) : null,
-        pages: volumeInfo.pageCount || null,
-        description: volumeInfo.description || null,
-        cover_image_url: volumeInfo.imageLinks?.thumbnail || volumeInfo.imageLinks?.smallThumbnail || null,
-        isbn: volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier || 
-              volumeInfo.industryIdentifiers?.find(id => id.type === 'ISBN_10')?.identifier || 
-              null,
-        genre: mapCategories(volumeInfo.categories),
-        language: volumeInfo.language || null,
-        series,
-        series_number: seriesNumber,
-        source: 'Google Books',
-        confidence: 75
-      };
-    });
-    
-    return results;
-    
-  } catch (error) {
-    console.error('Google Books search error:', error);
-    return [];
-  }
+export async function searchBookByIsbn(isbn) {
+  return cachedLookup('isbn', { isbn }, async () => {
+    const results = await searchProviders(isbn, 'auto', 5);
+    return results.find(book => {
+      const resultIsbn = normalizeIsbn(book.isbn);
+      return resultIsbn && toIsbn13(resultIsbn) === isbn;
+    }) || null;
+  });
 }
 
 /**
@@ -288,7 +216,7 @@ function findBestMatch(results, searchTitle, searchAuthor) {
 /**
  * Normalize string for comparison
  */
-function normalizeString(str) {
+export function normalizeString(str) {
   return str
     .toLowerCase()
     // Remove Hebrew niqqud (vowel points) - Unicode range U+0591 to U+05C7
@@ -301,7 +229,7 @@ function normalizeString(str) {
 /**
  * Calculate string similarity (0-1)
  */
-function calculateSimilarity(str1, str2) {
+export function calculateSimilarity(str1, str2) {
   const longer = str1.length > str2.length ? str1 : str2;
   const shorter = str1.length > str2.length ? str2 : str1;
 
@@ -317,7 +245,7 @@ function calculateSimilarity(str1, str2) {
  * @param {string} author2 - Second author name
  * @returns {number} - Similarity score (0-1)
  */
-function calculateAuthorSimilarity(author1, author2) {
+export function calculateAuthorSimilarity(author1, author2) {
   if (!author1 || !author2) return 0;
   
   const normalized1 = normalizeString(author1);
@@ -372,7 +300,7 @@ function calculateAuthorSimilarity(author1, author2) {
 /**
  * Calculate Levenshtein distance
  */
-function levenshteinDistance(str1, str2) {
+export function levenshteinDistance(str1, str2) {
   const matrix = [];
 
   for (let i = 0; i <= str2.length; i++) {
@@ -399,112 +327,3 @@ function levenshteinDistance(str1, str2) {
 
   return matrix[str2.length][str1.length];
 }
-
-/**
- * Map Google Books categories to our genres
- */
-function mapCategories(categories) {
-  if (!categories || categories.length === 0) return null;
-
-  const categoryMap = {
-    'fiction': 'בדיה',
-    'juvenile fiction': 'בדיה לילדים',
-    'young adult fiction': 'בדיה לנוער',
-    'fantasy': 'פנטזיה',
-    'science fiction': 'מדע בדיוני',
-    'mystery': 'מתח ומסתורין',
-    'thriller': 'מתח ומסתורין',
-    'romance': 'רומנטיקה',
-    'biography': 'ביוגרפיה',
-    'history': 'היסטוריה',
-    'science': 'מדע',
-    'self-help': 'עזרה עצמית',
-    'cooking': 'בישול',
-    'religion': 'דת',
-    'poetry': 'שירה',
-    'drama': 'דרמה',
-    'comics': 'קומיקס'
-  };
-
-  const category = categories[0].toLowerCase();
-  
-  for (const [key, value] of Object.entries(categoryMap)) {
-    if (category.includes(key)) {
-      return value;
-    }
-  }
-
-  return null;
-}
-
-function extractSeriesInfo(volumeInfo) {
-  if (!volumeInfo) {
-    return { series: null, seriesNumber: null };
-  }
-
-  const seriesInfo = volumeInfo.seriesInfo || volumeInfo.seriesinfo;
-  const result = { series: null, seriesNumber: null };
-
-  if (seriesInfo) {
-    result.series = seriesInfo.bookDisplaySeriesTitle
-      || seriesInfo.series
-      || seriesInfo.seriesTitle
-      || null;
-
-    if (!result.series && Array.isArray(seriesInfo.volumeSeries) && seriesInfo.volumeSeries.length > 0) {
-      result.series = seriesInfo.volumeSeries[0].series || null;
-      result.seriesNumber = parseSeriesNumber(seriesInfo.volumeSeries[0].volumeSeriesNumber);
-    }
-
-    if (seriesInfo.volumeSeriesNumber && result.seriesNumber == null) {
-      result.seriesNumber = parseSeriesNumber(seriesInfo.volumeSeriesNumber);
-    }
-  }
-
-  // Try parsing common subtitle format: "Book 3 of The Series"
-  if (!result.series && volumeInfo.subtitle) {
-    const subtitle = volumeInfo.subtitle;
-    const match = subtitle.match(/Book\s+(\d+)\s+of\s+(.+)/i);
-    if (match) {
-      result.seriesNumber = parseSeriesNumber(match[1]);
-      result.series = match[2].trim();
-    }
-  }
-
-  // Look for patterns like "Series Name #4" in title
-  if (!result.series) {
-    const titlePattern = volumeInfo.title?.match(/(.+?)\s+[\-–]\s+Book\s+(\d+)/i)
-      || volumeInfo.title?.match(/(.+?)\s+#(\d+)/)
-      || volumeInfo.title?.match(/(.+?)\s+,?\s*חלק\s+(\d+)/);
-    if (titlePattern) {
-      result.series = titlePattern[1].trim();
-      result.seriesNumber = result.seriesNumber ?? parseSeriesNumber(titlePattern[2]);
-    }
-  }
-
-  // Check description for "Book X of Y"
-  if (!result.series && volumeInfo.description) {
-    const descriptionMatch = volumeInfo.description.match(/Book\s+(\d+)\s+of\s+([^\.\n]+)/i);
-    if (descriptionMatch) {
-      result.seriesNumber = parseSeriesNumber(descriptionMatch[1]);
-      result.series = descriptionMatch[2].trim();
-    }
-  }
-
-  return result;
-}
-
-function parseSeriesNumber(value) {
-  if (value === null || value === undefined) {
-    return null;
-  }
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return value;
-  }
-  const match = String(value).match(/\d+/);
-  if (match) {
-    const num = Number(match[0]);
-    return Number.isFinite(num) ? num : null;
-  }
-  return null;
-}
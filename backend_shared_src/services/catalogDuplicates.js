@@ -0,0 +1,153 @@
+/**
+ * Catalog Duplicates Service
+ * Finds book_catalog records that are probably the same book (Hebrew vs English title,
+ * one record missing the ISBN, series_number set on only one of them), using the
+ * title/author similarity scoring of the book search.
+ */
+
+import { calculateAuthorSimilarity, calculateSimilarity, normalizeString } from './bookSearch.js';
+import { normalizeIsbn, toIsbn13 } from './isbn.js';
+
+export const TITLE_SIMILARITY_THRESHOLD = 0.85;
+export const AUTHOR_SIMILARITY_THRESHOLD = 0.7;
+
+const titlesOf = (book) =>
+  [...new Set([book.title, book.title_hebrew].filter(Boolean).map(normalizeString).filter(Boolean))];
+
+const authorsOf = (book) => [book.author, book.author_hebrew].filter((author) => author && author.trim());
+
+const isbn13Of = (book) => {
+  const isbn = normalizeIsbn(book.isbn);
+  return isbn ? toIsbn13(isbn) : null;
+};
+
+const isHebrew = (text) => /[\u0590-\u05FF]/.test(text);
+
+// Best score over the value combinations; pass sameScript to skip comparing
+// a Hebrew spelling with an English one (null when no combination is comparable)
+function bestSimilarity(valuesA, valuesB, similarity, { sameScript = false } = {}) {
+  let best = null;
+  for (const a of valuesA) {
+    for (const b of valuesB) {
+      if (sameScript && isHebrew(a) !== isHebrew(b)) continue;
+      best = Math.max(best ?? 0, similarity(a, b));
+    }
+  }
+  return best;
+}
+
+/**
+ * Compare two catalog records
+ * @returns {{score: number, reasons: string[]}|null} - null when they aren't duplicate candidates
+ */
+export function compareCatalogBooks(a, b) {
+  // Already grouped as editions of one work by an admin
+  if (a.work_id && a.work_id === b.work_id) {
+    return null;
+  }
+
+  // Different volumes of a series are different books, however similar the titles
+  if (a.series_number != null && b.series_number != null && Number(a.series_number) !== Number(b.series_number)) {
+    return null;
+  }
+
+  const isbnA = isbn13Of(a);
+  const isbnB = isbn13Of(b);
+  if (isbnA && isbnB && isbnA !== isbnB) {
+    return null;
+  }
+
+  const reasons = [];
+  const titleScore = bestSimilarity(titlesOf(a), titlesOf(b), calculateSimilarity) ?? 0;
+  // Author names in different scripts can't be compared, so they neither confirm nor rule out a match
+  const authorScore = bestSimilarity(authorsOf(a), authorsOf(b), calculateAuthorSimilarity, { sameScript: true });
+  const hasAuthors = authorScore !== null;
+
+  let score;
+  if (isbnA && isbnA === isbnB) {
+    reasons.push('same_isbn');
+    score = 1;
+  } else {
+    if (titleScore < TITLE_SIMILARITY_THRESHOLD) return null;
+    if (hasAuthors && authorScore < AUTHOR_SIMILARITY_THRESHOLD) return null;
+    score = hasAuthors ? (titleScore + authorScore) / 2 : titleScore * 0.9;
+  }
+
+  if (titleScore >= TITLE_SIMILARITY_THRESHOLD) reasons.push('similar_title');
+  if (authorScore !== null && authorScore >= AUTHOR_SIMILARITY_THRESHOLD) reasons.push('similar_author');
+  if (!!isbnA !== !!isbnB) reasons.push('missing_isbn');
+  if ((a.series_number == null) !== (b.series_number == null)) reasons.push('missing_series_number');
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Find candidate duplicate pairs in a list of catalog records
+ * Only records sharing a blocking key (ISBN or the first word of a title) are compared,
+ * so a large catalog isn't compared pair by pair.
+ * @param {Array<Object>} books - book_catalog rows
+ * @param {Object} [options]
+ * @param {number} [options.limit=50] - Max pairs, best scores first
+ * @returns {Array<{a: Object, b: Object, score: number, reasons: string[]}>}
+ */
+export function findDuplicateCandidates(books, { limit = 50 } = {}) {
+  const blocks = new Map();
+  const addToBlock = (key, book) => {
+    if (!blocks.has(key)) blocks.set(key, []);
+    blocks.get(key).push(book);
+  };
+
+  for (const book of books) {
+    const keys = new Set();
+    const isbn = isbn13Of(book);
+    if (isbn) keys.add(`isbn:${isbn}`);
+    for (const title of titlesOf(book)) {
+      const firstWord = title.split(' ').find((word) => word.length > 1);
+      if (firstWord) keys.add(`title:${firstWord}`);
+    }
+    keys.forEach((key) => addToBlock(key, book));
+  }
+
+  const pairs = new Map();
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a.id}:${b.id}`;
+        if (pairs.has(pairKey)) continue;
+
+        const match = compareCatalogBooks(a, b);
+        pairs.set(pairKey, match && { a, b, ...match });
+      }
+    }
+  }
+
+  return [...pairs.values()]
+    .filter(Boolean)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, limit);
+}
+
+const FILLABLE_FIELDS = [
+  'title_hebrew', 'author', 'author_hebrew', 'isbn', 'publisher', 'year_published',
+  'genre', 'age_level', 'pages', 'summary', 'cover_image_url', 'series', 'series_number',
+];
+
+const filledFields = (book) => FILLABLE_FIELDS.filter((field) => book[field] != null && book[field] !== '').length;
+
+/**
+ * Which record of a pair should survive a merge: the one more families own,
+ * then the more complete one, then the older one
+ * @param {Object} a
+ * @param {Object} b
+ * @param {Map<string, number>} copyCounts - family_books count by catalog id
+ */
+export function suggestSurvivor(a, b, copyCounts = new Map()) {
+  const copiesDiff = (copyCounts.get(a.id) || 0) - (copyCounts.get(b.id) || 0);
+  if (copiesDiff !== 0) return copiesDiff > 0 ? a : b;
+
+  const fieldsDiff = filledFields(a) - filledFields(b);
+  if (fieldsDiff !== 0) return fieldsDiff > 0 ? a : b;
+
+  return new Date(a.created_at || 0) <= new Date(b.created_at || 0) ? a : b;
+}
@@ -0,0 +1,99 @@
+/**
+ * Email Channels
+ * Pluggable delivery for outgoing email (reminder digests). A channel is an object with
+ * a name and send({ to, subject, text, html }) that resolves once the message is handed off.
+ *
+ * Built-in channels:
+ * - smtp: sends through nodemailer (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * - file: writes each message as JSON into EMAIL_OUTBOX_DIR - for development and tests
+ * - console: logs each message - the default when SMTP isn't configured
+ *
+ * EMAIL_CHANNEL picks one explicitly; more can be added with registerEmailChannel().
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const DEFAULT_FROM = 'ספריה קהילתית <no-reply@family-library.local>';
+
+function createSmtpChannel(env) {
+  if (!env.SMTP_HOST) {
+    throw new Error('SMTP_HOST is required for the smtp email channel');
+  }
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+  let transporter = null;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      // Loaded on first use so the other channels work without nodemailer installed
+      if (!transporter) {
+        const nodemailer = (await import('nodemailer')).default;
+        const port = parseInt(env.SMTP_PORT, 10) || 587;
+        transporter = nodemailer.createTransport({
+          host: env.SMTP_HOST,
+          port,
+          secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+          auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+        });
+      }
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+function createFileChannel(env) {
+  const dir = env.EMAIL_OUTBOX_DIR || path.join(tmpdir(), 'family-library-outbox');
+  const from = env.EMAIL_FROM || DEFAULT_FROM;
+  let sequence = 0;
+
+  return {
+    name: 'file',
+    dir,
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      sequence += 1;
+      const file = path.join(dir, `${Date.now()}-${sequence}.json`);
+      await writeFile(file, JSON.stringify({ from, ...message }, null, 2), 'utf8');
+    },
+  };
+}
+
+function createConsoleChannel() {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+const channelFactories = new Map([
+  ['smtp', createSmtpChannel],
+  ['file', createFileChannel],
+  ['console', createConsoleChannel],
+]);
+
+/**
+ * Add (or replace) a channel type
+ * @param {string} name - Value of EMAIL_CHANNEL that selects it
+ * @param {Function} factory - (env) => { name, send(message) }
+ */
+export function registerEmailChannel(name, factory) {
+  channelFactories.set(name, factory);
+}
+
+/**
+ * Create the configured email channel
+ * @param {Object} [env] - Environment to read settings from (defaults to process.env)
+ * @returns {{ name: string, send: Function }}
+ */
+export function createEmailChannel(env = process.env) {
+  const name = env.EMAIL_CHANNEL || (env.SMTP_HOST ? 'smtp' : 'console');
+  const factory = channelFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown email channel: ${name}`);
+  }
+  return factory(env);
+}
@@ -0,0 +1,142 @@
+/**
+ * Hebrew Search Service
+ * Normalizes text the way normalize_hebrew_search() does in the database (migration 041)
+ * and finds the matched ranges of a query in a result's fields, for highlighting.
+ */
+
+import { calculateSimilarity } from './bookSearch.js';
+
+const FINAL_LETTERS = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+const NIQQUD = /[֑-ׇ]/;
+const MAQAF = '־';
+// Dropped rather than spaced, so צה"ל, צה״ל and צהל match each other
+const QUOTES = /['"`׳״]/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Below this, a query word with no exact occurrence doesn't highlight a similar word
+const FUZZY_WORD_SIMILARITY = 0.7;
+
+/**
+ * Search form of one character: '' to drop it, ' ' for a separator
+ */
+function normalizeChar(char) {
+  if (char === MAQAF) return ' ';
+  if (NIQQUD.test(char) || QUOTES.test(char)) return '';
+  const lower = char.toLowerCase();
+  if (FINAL_LETTERS[lower]) return FINAL_LETTERS[lower];
+  if (WORD_CHAR.test(lower)) return lower.length === 1 ? lower : char;
+  return ' ';
+}
+
+/**
+ * Normalize a text, keeping the index in the original text of every normalized character
+ * @returns {{normalized: string, offsets: number[]}}
+ */
+function normalizeWithOffsets(text) {
+  let normalized = '';
+  const offsets = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = normalizeChar(text[i]);
+    if (!char) continue;
+    if (char === ' ' && (normalized === '' || normalized.endsWith(' '))) continue;
+    normalized += char;
+    offsets.push(i);
+  }
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    offsets.pop();
+  }
+  return { normalized, offsets };
+}
+
+/**
+ * Search form of a text - same result as normalize_hebrew_search() in SQL
+ */
+export const normalizeHebrew = (text) => normalizeWithOffsets(text || '').normalized;
+
+function occurrences(haystack, needle) {
+  const found = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    found.push([index, index + needle.length]);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return found;
+}
+
+function mergeRanges(ranges) {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+/**
+ * Ranges of a text matched by a search query: the whole query, otherwise each of its words,
+ * and for a word with no exact occurrence the most similar word of the text (a typo)
+ * @param {string} text - Text as displayed
+ * @param {string} query - Search query as typed
+ * @returns {Array<[number, number]>} [start, end) indexes in the original text, sorted and merged
+ */
+export function findMatchRanges(text, query) {
+  if (!text || !query) return [];
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const normalizedQuery = normalizeHebrew(query);
+  if (!normalized || !normalizedQuery) return [];
+
+  let ranges = occurrences(normalized, normalizedQuery);
+
+  if (ranges.length === 0) {
+    const words = [];
+    const wordPattern = /\S+/g;
+    let match;
+    while ((match = wordPattern.exec(normalized))) {
+      words.push([match.index, match.index + match[0].length, match[0]]);
+    }
+
+    for (const queryWord of normalizedQuery.split(' ')) {
+      const exact = occurrences(normalized, queryWord);
+      if (exact.length > 0) {
+        ranges.push(...exact);
+        continue;
+      }
+      if (queryWord.length < 3) continue;
+
+      let best = null;
+      for (const [start, end, word] of words) {
+        const score = calculateSimilarity(word, queryWord);
+        if (score >= FUZZY_WORD_SIMILARITY && (!best || score > best.score)) {
+          best = { score, range: [start, end] };
+        }
+      }
+      if (best) ranges.push(best.range);
+    }
+  }
+
+  // Back to indexes in the original text; the end covers the niqqud after the last letter
+  return mergeRanges(ranges.map(([start, end]) => {
+    let originalEnd = offsets[end - 1] + 1;
+    while (originalEnd < text.length && NIQQUD.test(text[originalEnd])) originalEnd++;
+    return [offsets[start], originalEnd];
+  }));
+}
+
+/**
+ * Matched ranges per field of a search result, for the fields that matched
+ * @param {Object} record - Search result
+ * @param {string} query - Search query as typed
+ * @param {string[]} fields - Fields to highlight
+ * @returns {Object<string, Array<[number, number]>>}
+ */
+export function buildHighlights(record, query, fields) {
+  const highlights = {};
+  for (const field of fields) {
+    const ranges = findMatchRanges(record[field], query);
+    if (ranges.length > 0) highlights[field] = ranges;
+  }
+  return highlights;
+}
@@ -0,0 +1,85 @@
+/**
+ * Hold Queue Service
+ * FIFO waitlist per catalog book. When a copy comes back, the oldest waiting
+ * family gets a time-limited claim on it.
+ */
+
+import { db } from '../db/adapter.js';
+import { notifyHoldClaimable } from './notifications.js';
+
+// How long a family has to claim a reserved copy
+export const HOLD_CLAIM_HOURS = 48;
+
+// Holds still in the queue (not fulfilled, expired or cancelled)
+export const OPEN_HOLD_STATUSES = ['waiting', 'claimable'];
+
+/**
+ * Reserve a returned copy for the next family in line
+ * @param {string} familyBookId - The copy that became available
+ * @returns {Promise<Object|null>} - The hold that got the claim, or null when nobody is waiting
+ */
+export async function offerCopyToNextHold(familyBookId) {
+  const copy = await db.books.getFamilyBook(familyBookId);
+  if (!copy || copy.status !== 'available') return null;
+
+  // Copy is already reserved for someone
+  const existingClaim = await db.holds.getClaimForCopy(familyBookId);
+  if (existingClaim) return existingClaim;
+
+  const nextHold = await db.holds.getNextWaiting(copy.book_catalog_id, copy.family_id);
+  if (!nextHold) return null;
+
+  const claimExpiresAt = new Date(Date.now() + HOLD_CLAIM_HOURS * 60 * 60 * 1000).toISOString();
+  const hold = await db.holds.update(nextHold.id, {
+    status: 'claimable',
+    claim_family_book_id: familyBookId,
+    claim_expires_at: claimExpiresAt,
+  });
+
+  console.log(`[holdQueue] Copy ${familyBookId} reserved for family ${hold.family_id} until ${claimExpiresAt}`);
+  await notifyHoldClaimable(hold, copy);
+  return hold;
+}
+
+/**
+ * Whether a claim window has passed
+ * @param {Object} hold - A book_holds row
+ * @returns {boolean}
+ */
+export function isClaimExpired(hold) {
+  return hold.status === 'claimable'
+    && !!hold.claim_expires_at
+    && new Date(hold.claim_expires_at).getTime() < Date.now();
+}
+
+/**
+ * Add 1-based queue positions to waiting holds
+ * @param {Array} holds - Holds ordered by created_at
+ * @param {Array} [queue] - Full waiting queue(s) to count positions against (defaults to holds)
+ * @returns {Array} - Holds with `position` (null unless waiting) and `queue_length`
+ */
+export function withQueuePositions(holds, queue = holds) {
+  const waitingByBook = new Map();
+  for (const hold of queue) {
+    if (hold.status !== 'waiting') continue;
+    const list = waitingByBook.get(hold.book_catalog_id) || [];
+    list.push(hold.id);
+    waitingByBook.set(hold.book_catalog_id, list);
+  }
+
+  return holds.map((hold) => {
+    const waiting = waitingByBook.get(hold.book_catalog_id) || [];
+    const index = waiting.indexOf(hold.id);
+    return {
+      ...hold,
+      position: index === -1 ? null : index + 1,
+      queue_length: waiting.length,
+    };
+  });
+}
+
+export default {
+  offerCopyToNextHold,
+  isClaimExpired,
+  withQueuePositions,
+};
@@ -0,0 +1,169 @@
+/**
+ * iCalendar Service
+ * Builds the .ics feed (RFC 5545) of a family's loan due and return dates.
+ * Ongoing loans appear on their due date and returned loans on their return date,
+ * so a renewal moves the event and a return replaces it.
+ */
+
+const PRODID = '-//Family Library//Loan Calendar//HE';
+
+// Returned loans older than this are left out of the feed
+export const RETURNED_HISTORY_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are shown as all-day events in the community's time zone
+const dayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'Asia/Jerusalem',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma, newline)
+ */
+export function escapeText(value) {
+  return String(value ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space.
+ * Splits on characters, so multi-byte (Hebrew) characters are never cut in half.
+ */
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// 20261018
+function formatDay(date) {
+  return dayFormatter.format(date).replace(/-/g, '');
+}
+
+// The day after a formatDay() value (all-day events end exclusively)
+function nextDay(day) {
+  const date = new Date(Date.UTC(+day.slice(0, 4), +day.slice(4, 6) - 1, +day.slice(6, 8) + 1));
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// 20261018T093000Z
+function formatTimestamp(date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function bookTitle(loan) {
+  const catalog = loan.family_books?.book_catalog || {};
+  return catalog.title_hebrew || catalog.title || 'ספר';
+}
+
+/**
+ * The calendar event for one loan, or null when it has no date to show
+ */
+function buildLoanEvent(loan, familyId, now) {
+  const lent = loan.owner_family_id === familyId;
+  const otherFamily = (lent ? loan.borrower_family?.name : loan.owner_family?.name) || 'משפחה';
+  const title = bookTitle(loan);
+  const ongoing = loan.status === 'active' || loan.status === 'overdue';
+
+  let date;
+  let summary;
+  let description;
+  if (ongoing) {
+    if (!loan.due_date) return null;
+    date = new Date(loan.due_date);
+    const overdue = loan.status === 'overdue' ? 'באיחור: ' : '';
+    summary = lent
+      ? `${overdue}${otherFamily} מחזירים את "${title}"`
+      : `${overdue}להחזיר את "${title}" ל${otherFamily}`;
+    description = lent ? `השאלתם ל${otherFamily}` : `שאלתם מ${otherFamily}`;
+  } else if (loan.status === 'returned') {
+    if (!loan.return_date) return null;
+    date = new Date(loan.return_date);
+    summary = `"${title}" הוחזר`;
+    description = lent ? `הוחזר על ידי ${otherFamily}` : `הוחזר ל${otherFamily}`;
+  } else {
+    return null;
+  }
+
+  const lines = [
+    'BEGIN:VEVENT',
+    // Same UID for the life of the loan, so calendars move the event on renewal / return
+    `UID:loan-${loan.id}@family-library`,
+    `DTSTAMP:${formatTimestamp(now)}`,
+    `DTSTART;VALUE=DATE:${formatDay(date)}`,
+    `DTEND;VALUE=DATE:${nextDay(formatDay(date))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT',
+  ];
+  if (loan.updated_at) {
+    lines.push(`LAST-MODIFIED:${formatTimestamp(new Date(loan.updated_at))}`);
+  }
+  // Remind the borrowing family the day before
+  if (ongoing && !lent) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'TRIGGER:-P1D',
+      `DESCRIPTION:${escapeText(summary)}`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build the calendar for a family's loans (lent and borrowed)
+ * @param {Object} params
+ * @param {Array} params.loans - Loans with family_books.book_catalog and both families embedded
+ * @param {string|null} params.familyId - The subscribing user's family
+ * @param {string} [params.calendarName] - Name shown in the calendar app
+ * @param {Date} [params.now]
+ * @returns {string} - The .ics document (CRLF line endings)
+ */
+export function buildLoanCalendar({ loans, familyId, calendarName = 'השאלות ספרים', now = new Date() }) {
+  const historyStart = now.getTime() - RETURNED_HISTORY_DAYS * DAY_MS;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Jerusalem',
+    // Hint for subscribing apps to refresh often enough to pick up renewals and returns
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const loan of loans) {
+    if (loan.status === 'returned' && new Date(loan.return_date).getTime() < historyStart) continue;
+    const event = buildLoanEvent(loan, familyId, now);
+    if (event) lines.push(...event);
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,59 @@
+/**
+ * ISBN helpers
+ * Normalizes scanned or typed ISBNs (EAN-13 barcodes on books start with 978/979)
+ * and converts between ISBN-10 and ISBN-13 so either form matches the catalog.
+ */
+
+function isbn13CheckDigit(first12) {
+  const sum = [...first12].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+function isbn10CheckDigit(first9) {
+  const sum = [...first9].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+/**
+ * Strip spaces / hyphens and validate
+ * @param {string} value
+ * @returns {string|null} - 10 or 13 character ISBN, or null when it isn't a valid ISBN
+ */
+export function normalizeIsbn(value) {
+  const isbn = String(value ?? '').replace(/[\s-]/g, '').toUpperCase();
+
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12] ? isbn : null;
+  }
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    return isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9] ? isbn : null;
+  }
+  return null;
+}
+
+/**
+ * ISBN-13 for a normalized ISBN
+ */
+export function toIsbn13(isbn) {
+  if (isbn.length === 13) return isbn;
+  const first12 = `978${isbn.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * ISBN-10 for a normalized ISBN, or null for 979 ISBNs (they have no ISBN-10)
+ */
+export function toIsbn10(isbn) {
+  if (isbn.length === 10) return isbn;
+  if (!isbn.startsWith('978')) return null;
+  const first9 = isbn.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * Both forms of an ISBN, for matching stored values
+ */
+export function isbnVariants(isbn) {
+  return [toIsbn13(isbn), toIsbn10(isbn)].filter(Boolean);
+}
@@ -0,0 +1,104 @@
+/**
+ * Lending Policy Service
+ * Rules an owning family sets for lending its books (families.max_loans_per_borrower,
+ * max_loan_period_days, allowed_borrower_family_ids, children_books_to_families_with_kids).
+ * A NULL / false column means the rule is off.
+ */
+
+import { db } from '../db/adapter.js';
+
+// book_catalog.age_level values that count as children's books
+const CHILDREN_AGE_LEVELS = ['0-3', '4-6', '7-9', '10-12'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a prospective loan against the owner family's policy
+ * @param {Object} params
+ * @param {Object} params.ownerFamily - Owner family row (policy columns)
+ * @param {Object} params.borrowerFamily - Borrower family row (has_children)
+ * @param {string|null} params.ageLevel - book_catalog.age_level of the copy
+ * @param {string|null} params.dueDate - Requested due date, when known
+ * @param {number} params.ongoingLoans - Books the borrower already holds from the owner
+ * @returns {Array<{code: string, message: string, limit?: number, current?: number}>} - Violations, empty when allowed
+ */
+export function evaluateLendingPolicy({ ownerFamily, borrowerFamily, ageLevel, dueDate, ongoingLoans }) {
+  const violations = [];
+
+  const allowed = ownerFamily.allowed_borrower_family_ids;
+  if (Array.isArray(allowed) && !allowed.includes(borrowerFamily.id)) {
+    violations.push({
+      code: 'borrower_not_allowed',
+      message: 'This family only lends to the families on its list',
+    });
+  }
+
+  const maxLoans = ownerFamily.max_loans_per_borrower;
+  if (maxLoans && ongoingLoans >= maxLoans) {
+    violations.push({
+      code: 'max_loans_per_borrower',
+      message: `The borrowing family already has ${ongoingLoans} of this family's books (maximum ${maxLoans})`,
+      limit: maxLoans,
+      current: ongoingLoans,
+    });
+  }
+
+  const maxDays = ownerFamily.max_loan_period_days;
+  if (maxDays && dueDate) {
+    const days = Math.ceil((new Date(dueDate).getTime() - Date.now()) / DAY_MS);
+    if (days > maxDays) {
+      violations.push({
+        code: 'max_loan_period',
+        message: `Loan period of ${days} days exceeds this family's maximum of ${maxDays} days`,
+        limit: maxDays,
+        current: days,
+      });
+    }
+  }
+
+  if (ownerFamily.children_books_to_families_with_kids && CHILDREN_AGE_LEVELS.includes(ageLevel) && !borrowerFamily.has_children) {
+    violations.push({
+      code: 'children_books_need_kids',
+      message: "This family lends children's books only to families with kids",
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Load everything the policy needs for a copy and a borrower, then evaluate it
+ * @param {Object} params
+ * @param {string} params.familyBookId - The copy to lend
+ * @param {string} params.borrowerFamilyId - The family that would borrow it
+ * @param {string|null} [params.dueDate] - Requested due date, when known
+ * @returns {Promise<{violations: Array}|null>} - null when the copy or a family does not exist
+ */
+export async function checkLendingPolicy({ familyBookId, borrowerFamilyId, dueDate = null }) {
+  let copy, ownerFamily, borrowerFamily, ongoingLoans;
+  try {
+    copy = await db.books.getFamilyBook(familyBookId);
+    if (!copy) return null;
+
+    [ownerFamily, borrowerFamily, ongoingLoans] = await Promise.all([
+      db.families.getById(copy.family_id),
+      db.families.getById(borrowerFamilyId),
+      db.loans.countOngoing(copy.family_id, borrowerFamilyId),
+    ]);
+  } catch (error) {
+    if (error.code === 'PGRST116' || error.message?.includes('invalid input syntax')) {
+      return null;
+    }
+    throw error;
+  }
+
+  return {
+    violations: evaluateLendingPolicy({
+      ownerFamily,
+      borrowerFamily,
+      ageLevel: copy.book_catalog?.age_level || null,
+      dueDate,
+      ongoingLoans,
+    }),
+  };
+}
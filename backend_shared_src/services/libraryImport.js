@@ -0,0 +1,294 @@
+/**
+ * Library Import
+ * Reads a library file into books for POST /api/books/import: the CSV and JSON exports of
+ * My Books, a Goodreads export, or any CSV with a column for each book field.
+ * Each format comes down to a mapping from book fields to the file's columns (JSON keys are
+ * columns too), so a generic CSV is just a mapping the user chose.
+ */
+
+import { normalizeIsbn, toIsbn13 } from './isbn.js';
+import { searchBookByIsbn, searchBookDetails } from './bookSearch.js';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export const IMPORT_FORMATS = ['shelf-csv', 'json', 'goodreads', 'csv'];
+
+// Book fields a column can be mapped to, with the column names they're recognized by
+export const IMPORT_FIELDS = {
+  title: ['title', 'name', 'book', 'book title', 'שם', 'שם הספר', 'כותרת', 'ספר'],
+  author: ['author', 'authors', 'writer', 'מחבר', 'מחברת', 'סופר', 'סופרת'],
+  isbn: ['isbn', 'isbn13', 'isbn 13', 'isbn10', 'isbn 10', 'מסת ב', 'מסתב', 'ברקוד'],
+  series: ['series', 'סדרה'],
+  series_number: ['series number', 'series #', 'number in series', 'volume', 'מספר בסדרה', 'כרך'],
+  genre: ['genre', 'category', 'זאנר', 'ז אנר', 'סוגה', 'קטגוריה'],
+  age_range: ['age range', 'age', 'ages', 'age level', 'גיל', 'גילאים', 'טווח גילאים'],
+  publisher: ['publisher', 'הוצאה', 'הוצאה לאור', 'מו ל', 'מול'],
+  publish_year: ['year', 'publish year', 'year published', 'published', 'original publication year', 'שנה', 'שנת הוצאה'],
+  pages: ['pages', 'number of pages', 'page count', 'עמודים', 'מספר עמודים'],
+  cover_image_url: ['cover', 'cover image', 'cover url', 'cover image url', 'image', 'כריכה', 'תמונה'],
+  description: ['description', 'summary', 'תקציר', 'תיאור']
+};
+
+// Columns of MyBooks' CSV export (exportToCSV)
+const SHELF_CSV_COLUMNS = ['Title', 'Author', 'Series', 'Series Number', 'Genre', 'Age Range', 'Status', 'Copies', 'Owner'];
+
+const GOODREADS_MAPPING = {
+  title: 'Title',
+  author: 'Author',
+  isbn: 'ISBN13',
+  publisher: 'Publisher',
+  publish_year: 'Original Publication Year',
+  pages: 'Number of Pages'
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, line breaks inside quotes)
+ * The delimiter - comma, semicolon or tab - is taken from the header line
+ * @returns {Array<Array<string>>} Rows of fields, blank lines skipped
+ */
+export function parseCsv(text) {
+  const source = String(text ?? '').replace(/^﻿/, '');
+  const headerLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Text of an uploaded file - UTF-8, or Windows-1255 for Hebrew CSVs saved by Excel
+ * @param {Buffer|Uint8Array} buffer
+ */
+export function decodeImportFile(buffer) {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1255').decode(buffer);
+  }
+}
+
+// "seriesNumber", "series_number" and "Series Number" are the same column
+const normalizeColumn = (name) => String(name ?? '')
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}#]+/gu, ' ')
+  .trim();
+
+/**
+ * Guess which column holds each book field
+ * @param {Array<string>} headers
+ * @returns {Object} { field: column } for the fields that were recognized
+ */
+export function suggestMapping(headers) {
+  const mapping = {};
+  const taken = new Set();
+  for (const [field, names] of Object.entries(IMPORT_FIELDS)) {
+    const column = headers.find(header => !taken.has(header) && names.includes(normalizeColumn(header)));
+    if (column) {
+      mapping[field] = column;
+      taken.add(column);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Read the file into a table
+ * @returns {{format: string, headers: Array<string>, records: Array<Object>}} records are { column: value }
+ */
+function readTable(content) {
+  const text = String(content ?? '').replace(/^﻿/, '').trim();
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    let data;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('Invalid JSON file');
+    }
+    const items = Array.isArray(data) ? data : data.books;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON file must contain a list of books');
+    }
+    const records = items.filter(item => item && typeof item === 'object' && !Array.isArray(item));
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return { format: 'json', headers, records };
+  }
+
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map(header => header.trim());
+  const records = rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])));
+
+  let format = 'csv';
+  if (headers.includes('Book Id') && headers.includes('Exclusive Shelf')) {
+    format = 'goodreads';
+  } else if (SHELF_CSV_COLUMNS.every(column => headers.includes(column))) {
+    format = 'shelf-csv';
+  }
+  return { format, headers, records };
+}
+
+// Spreadsheet exports (Goodreads among them) wrap ISBNs in ="..." so they stay text
+const cleanValue = (value) => {
+  if (value === null || value === undefined) return '';
+  return String(value).trim().replace(/^="(.*)"$/, '$1').trim();
+};
+
+const toPositiveInt = (value) => {
+  const number = parseInt(cleanValue(value), 10);
+  return number > 0 ? number : null;
+};
+
+const toYear = (value) => {
+  const year = toPositiveInt(value);
+  return year && year >= 1000 && year <= 2100 ? year : null;
+};
+
+/**
+ * A book from one row, and what's wrong with it
+ * @returns {{book: Object, issues: Array<string>}}
+ */
+function toImportedBook(record, mapping, format) {
+  const value = (field) => (mapping[field] ? cleanValue(record[mapping[field]]) : '');
+  const issues = [];
+
+  const book = {
+    title: value('title'),
+    author: value('author') || null,
+    isbn: null,
+    series: value('series') || null,
+    series_number: toPositiveInt(value('series_number')),
+    genre: value('genre') || null,
+    age_range: value('age_range') || null,
+    publisher: value('publisher') || null,
+    publish_year: toYear(value('publish_year')),
+    pages: toPositiveInt(value('pages')),
+    cover_image_url: /^https?:\/\//.test(value('cover_image_url')) ? value('cover_image_url') : null,
+    description: value('description') || null
+  };
+
+  let rawIsbn = value('isbn');
+  if (format === 'goodreads') {
+    rawIsbn = rawIsbn || cleanValue(record.ISBN);
+    book.publish_year = book.publish_year || toYear(record['Year Published']);
+
+    // "Title (Series, #2)"
+    const series = book.title.match(/^(.*\S)\s*\(([^()]+?),?\s*#(\d+)[^()]*\)$/);
+    if (series && !book.series) {
+      book.title = series[1];
+      book.series = series[2].trim();
+      book.series_number = parseInt(series[3], 10);
+    }
+
+    // Books the user wants to read, not books they have
+    if (cleanValue(record['Exclusive Shelf']) === 'to-read') issues.push('to_read');
+  }
+
+  if (rawIsbn) {
+    const isbn = normalizeIsbn(rawIsbn);
+    if (isbn) book.isbn = toIsbn13(isbn);
+    else issues.push('invalid_isbn');
+  }
+  if (!book.title) issues.push('missing_title');
+
+  return { book, issues };
+}
+
+/**
+ * Read a library file into books
+ * @param {string} content - File contents
+ * @param {Object} [options]
+ * @param {string} [options.format] - One of IMPORT_FORMATS; detected from the file when omitted
+ * @param {Object} [options.mapping] - { field: column }; the format's own mapping when omitted
+ * @returns {{format: string, headers: Array<string>, mapping: Object, rows: Array<{row: number, book: Object, issues: Array<string>}>}}
+ */
+export function parseLibraryImport(content, { format = null, mapping = null } = {}) {
+  if (format && !IMPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown import format: ${format}`);
+  }
+
+  const table = readTable(content);
+  if (table.records.length === 0) {
+    throw new Error('No books found in file');
+  }
+  if (table.records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Too many books in file (maximum ${MAX_IMPORT_ROWS})`);
+  }
+
+  const detectedFormat = format || table.format;
+  let columns = mapping;
+  if (!columns) {
+    columns = detectedFormat === 'goodreads' ? GOODREADS_MAPPING : suggestMapping(table.headers);
+  }
+  columns = Object.fromEntries(Object.entries(columns)
+    .filter(([field, column]) => IMPORT_FIELDS[field] && table.headers.includes(column)));
+
+  return {
+    format: detectedFormat,
+    headers: table.headers,
+    mapping: columns,
+    rows: table.records.map((record, index) => ({
+      row: index + 1,
+      ...toImportedBook(record, columns, detectedFormat)
+    }))
+  };
+}
+
+const isEmpty = (value) => value === null || value === undefined || value === '';
+
+/**
+ * Fill in what an imported book is missing from the book metadata providers
+ * Looked up by ISBN when it has one, otherwise by title and author; the file's values are kept
+ * @returns {Promise<{book: Object, source: string|null}>} source is the provider that was used
+ */
+export async function enrichImportedBook(book) {
+  let found = book.isbn ? await searchBookByIsbn(book.isbn) : null;
+  if (!found && book.title) {
+    found = await searchBookDetails(book.title, book.author || '');
+  }
+  if (!found) return { book, source: null };
+
+  const enriched = { ...book };
+  for (const field of Object.keys(IMPORT_FIELDS)) {
+    if (isEmpty(enriched[field]) && !isEmpty(found[field])) enriched[field] = found[field];
+  }
+  return { book: enriched, source: found.source || null };
+}
@@ -0,0 +1,55 @@
+/**
+ * Loan Events Service
+ * Append-only ledger of what happened to a loan and who did it (loan_events table).
+ */
+
+import { db } from '../db/adapter.js';
+
+// Loan status changes that have their own event type
+const STATUS_EVENTS = {
+  approved: 'approved',
+  rejected: 'rejected',
+  cancelled: 'cancelled',
+  overdue: 'overdue',
+  returned: 'returned',
+};
+
+/**
+ * Append an event to a loan's ledger
+ * Recording never fails the request that triggered it; a missing event is logged instead
+ * @param {Object} loan - Loan row (id, family_book_id)
+ * @param {string} eventType - One of the loan_events.event_type values
+ * @param {Object} [options]
+ * @param {string|null} [options.actorUserId] - User who performed the action (null for system jobs)
+ * @param {Object|null} [options.details] - Event specific data
+ * @returns {Promise<Object|null>} - The stored event, or null when it could not be written
+ */
+export async function recordLoanEvent(loan, eventType, { actorUserId = null, details = null } = {}) {
+  try {
+    return await db.loanEvents.create({
+      loan_id: loan.id,
+      family_book_id: loan.family_book_id || null,
+      event_type: eventType,
+      actor_user_id: actorUserId,
+      details,
+    });
+  } catch (error) {
+    console.error(`[loanEvents] Could not record '${eventType}' for loan ${loan.id}:`, error.message || error);
+    return null;
+  }
+}
+
+/**
+ * Event type for a direct status change (PUT /api/loans/:id), if it has one
+ * @param {string} previousStatus - Status before the update
+ * @param {string} status - Status after the update
+ * @returns {string|null}
+ */
+export function eventForStatusChange(previousStatus, status) {
+  if (!status || status === previousStatus) return null;
+  if (status === 'active') {
+    // An overdue loan becoming active again is covered by its due date change
+    return ['pending', 'approved'].includes(previousStatus) ? 'handed_over' : null;
+  }
+  return STATUS_EVENTS[status] || null;
+}
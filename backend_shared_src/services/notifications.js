@@ -0,0 +1,112 @@
+/**
+ * Notifications Service
+ * In-app notifications (notifications table). A notification is addressed to a family and
+ * fanned out to its members by notify_family(), which skips users who turned the type off
+ * in users.notification_preferences.
+ */
+
+import { db } from '../db/adapter.js';
+
+// Also listed in the notifications.type CHECK constraint
+export const NOTIFICATION_TYPES = [
+  'loan_request',
+  'loan_approved',
+  'due_soon',
+  'overdue',
+  'new_review',
+  'hold_claimable',
+];
+
+const bookTitle = (bookCatalog) => bookCatalog?.title_hebrew || bookCatalog?.title || 'ספר';
+
+const formatDate = (value) => new Date(value).toLocaleDateString('he-IL', { timeZone: 'Asia/Jerusalem' });
+
+/**
+ * Notify the members of a family
+ * Notifying never fails the request that triggered it; a failure is logged instead
+ * @param {string} familyId - Family to notify
+ * @param {Object} notification
+ * @param {string} notification.type - One of NOTIFICATION_TYPES
+ * @param {string} notification.title
+ * @param {string} [notification.body]
+ * @param {string} [notification.link] - In-app path to open, e.g. /loans
+ * @param {Object} [notification.data]
+ * @param {string} [notification.dedupeKey] - Skip users who already got a notification with this key
+ * @param {string} [notification.excludeUserId] - Don't notify the user who caused it
+ * @returns {Promise<number>} - Number of notifications created
+ */
+export async function notifyFamily(familyId, notification) {
+  if (!familyId) return 0;
+  try {
+    return await db.notifications.notifyFamily(familyId, notification);
+  } catch (error) {
+    console.error(`[notifications] Could not send '${notification.type}' to family ${familyId}:`, error.message || error);
+    return 0;
+  }
+}
+
+/**
+ * Tell the owning family about a new loan request
+ * @param {Object} loan - Loan with family_books.book_catalog and borrower_family embedded
+ */
+export function notifyLoanRequested(loan) {
+  return notifyFamily(loan.owner_family_id, {
+    type: 'loan_request',
+    title: `בקשת השאלה: "${bookTitle(loan.family_books?.book_catalog)}"`,
+    body: `${loan.borrower_family?.name || 'משפחה'} מבקשים לשאול את הספר`,
+    link: '/loans',
+    data: { loan_id: loan.id, family_book_id: loan.family_book_id },
+  });
+}
+
+/**
+ * Tell the requesting family their request was approved
+ * @param {Object} loan - Loan with family_books.book_catalog and owner_family embedded
+ */
+export function notifyLoanApproved(loan) {
+  return notifyFamily(loan.borrower_family_id, {
+    type: 'loan_approved',
+    title: `הבקשה לשאול את "${bookTitle(loan.family_books?.book_catalog)}" אושרה`,
+    body: `${loan.owner_family?.name || 'המשפחה'} אישרו - תאמו איתם את האיסוף`,
+    link: '/loans',
+    data: { loan_id: loan.id, family_book_id: loan.family_book_id },
+  });
+}
+
+/**
+ * Tell a family in the hold queue that a copy is reserved for them
+ * @param {Object} hold - Hold with family_id, claim_family_book_id, claim_expires_at
+ * @param {Object} copy - The reserved copy with book_catalog embedded
+ */
+export function notifyHoldClaimable(hold, copy) {
+  return notifyFamily(hold.family_id, {
+    type: 'hold_claimable',
+    title: `"${bookTitle(copy.book_catalog)}" שמור עבורכם`,
+    body: `אפשר לבקש את הספר עד ${formatDate(hold.claim_expires_at)}`,
+    link: `/books/${copy.id}`,
+    data: { hold_id: hold.id, family_book_id: copy.id },
+    dedupeKey: `hold_claimable:${hold.id}:${copy.id}`,
+  });
+}
+
+/**
+ * Tell the families that own a book about a new review of it
+ * @param {Object} review - The new review (rating, review_text)
+ * @param {Array} copies - Copies of the reviewed catalog book with book_catalog embedded
+ * @param {Object} reviewer - { userId, familyId }
+ */
+export async function notifyNewReview(review, copies, reviewer) {
+  const notified = new Set();
+  for (const copy of copies) {
+    if (copy.family_id === reviewer.familyId || notified.has(copy.family_id)) continue;
+    notified.add(copy.family_id);
+    await notifyFamily(copy.family_id, {
+      type: 'new_review',
+      title: `ביקורת חדשה על "${bookTitle(copy.book_catalog)}"`,
+      body: review.rating ? `דירוג ${review.rating}/5` : undefined,
+      link: `/books/${copy.id}`,
+      data: { review_id: review.id, family_book_id: copy.id },
+      excludeUserId: reviewer.userId,
+    });
+  }
+}
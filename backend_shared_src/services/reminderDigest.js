@@ -0,0 +1,141 @@
+/**
+ * Reminder Digest Service
+ * Builds the email digest of a family's loans that are due soon or overdue, and decides
+ * when a user is due for one (frequency, send hour and quiet hours in Asia/Jerusalem).
+ * Delivery is up to the caller - see emailChannels.js.
+ */
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'];
+
+// Loans due within this many days are included
+export const DIGEST_DUE_SOON_DAYS = 3;
+
+// Digests go out from this local hour on, unless it falls in the user's quiet hours
+export const DIGEST_SEND_HOUR = 8;
+
+const TIME_ZONE = 'Asia/Jerusalem';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hourFormatter = new Intl.DateTimeFormat('en-GB', { timeZone: TIME_ZONE, hour: '2-digit', hourCycle: 'h23' });
+const localDateFormatter = new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' });
+const displayDateFormatter = new Intl.DateTimeFormat('he-IL', { timeZone: TIME_ZONE, day: 'numeric', month: 'numeric' });
+
+function localHour(date) {
+  return parseInt(hourFormatter.format(date), 10);
+}
+
+// Calendar days between two instants, counted in local dates
+function localDaysBetween(from, to) {
+  const [fy, fm, fd] = localDateFormatter.format(from).split('-').map(Number);
+  const [ty, tm, td] = localDateFormatter.format(to).split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+/**
+ * Whether an hour falls in the quiet window [start, end), which may wrap past midnight.
+ * No window (either end missing, or start === end) means never quiet.
+ */
+export function isInQuietHours(hour, start, end) {
+  if (start == null || end == null || start === end) return false;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Whether a user should get a digest in this run
+ * @param {Object} user - With digest_frequency, digest_quiet_start/end and digest_last_sent_at
+ * @param {Date} [now]
+ */
+export function isDigestDue(user, now = new Date()) {
+  const frequency = user.digest_frequency || 'daily';
+  if (frequency === 'off') return false;
+
+  const hour = localHour(now);
+  if (hour < DIGEST_SEND_HOUR || isInQuietHours(hour, user.digest_quiet_start, user.digest_quiet_end)) {
+    return false;
+  }
+
+  if (!user.digest_last_sent_at) return true;
+  const daysSinceLast = localDaysBetween(new Date(user.digest_last_sent_at), now);
+  return daysSinceLast >= (frequency === 'weekly' ? 7 : 1);
+}
+
+function escapeHtml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function bookTitle(loan) {
+  const catalog = loan.family_books?.book_catalog;
+  return catalog?.title_hebrew || catalog?.title || 'ספר';
+}
+
+function describeLoan(loan, lent) {
+  const family = (lent ? loan.borrower_family?.name : loan.owner_family?.name) || 'משפחה';
+  const where = lent ? `אצל ${family}` : `ל${family}`;
+  const due = `עד ${displayDateFormatter.format(new Date(loan.due_date))}`;
+  return `"${bookTitle(loan)}" ${where} - ${due}${loan.overdue ? ' (באיחור)' : ''}`;
+}
+
+/**
+ * Build a user's digest
+ * @param {Object} params
+ * @param {Object} params.user - Recipient (email, full_name, family_id)
+ * @param {Array} params.loans - The family's ongoing loans (lent and borrowed) with
+ *                               family_books.book_catalog and both families embedded
+ * @param {string} [params.appUrl] - Base URL for links, e.g. https://library.example.com
+ * @param {Date} [params.now]
+ * @returns {{ to, subject, text, html, loanIds }|null} - null when nothing is due soon or overdue
+ */
+export function buildReminderDigest({ user, loans, appUrl = '', now = new Date() }) {
+  const dueSoonBefore = now.getTime() + DIGEST_DUE_SOON_DAYS * DAY_MS;
+  const relevant = loans
+    .filter((loan) => loan.due_date && new Date(loan.due_date).getTime() <= dueSoonBefore)
+    .map((loan) => ({
+      ...loan,
+      overdue: loan.status === 'overdue' || new Date(loan.due_date).getTime() < now.getTime(),
+    }))
+    .sort((a, b) => new Date(a.due_date) - new Date(b.due_date));
+
+  const borrowed = relevant.filter((loan) => loan.borrower_family_id === user.family_id);
+  const lent = relevant.filter((loan) => loan.owner_family_id === user.family_id);
+  if (borrowed.length === 0 && lent.length === 0) return null;
+
+  const overdueCount = relevant.filter((loan) => loan.overdue).length;
+  const subject = overdueCount > 0
+    ? `תזכורת השאלות: ${overdueCount} ספרים באיחור`
+    : `תזכורת השאלות: ${relevant.length} ספרים להחזרה בקרוב`;
+
+  const sections = [
+    { heading: 'ספרים שצריך להחזיר', items: borrowed.map((loan) => describeLoan(loan, false)) },
+    { heading: 'ספרים שהשאלתם', items: lent.map((loan) => describeLoan(loan, true)) },
+  ].filter((section) => section.items.length > 0);
+
+  const greeting = `שלום ${user.full_name || ''}`.trim() + ',';
+  const links = appUrl
+    ? { loans: `${appUrl}/loans`, profile: `${appUrl}/profile` }
+    : null;
+
+  const text = [
+    greeting,
+    '',
+    ...sections.flatMap((section) => [`${section.heading}:`, ...section.items.map((item) => `• ${item}`), '']),
+    ...(links ? [`לכל ההשאלות: ${links.loans}`, `לשינוי תדירות התזכורות: ${links.profile}`] : []),
+  ].join('\n');
+
+  const html = [
+    '<div dir="rtl" style="font-family: Arial, sans-serif">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...sections.map((section) =>
+      `<h3>${escapeHtml(section.heading)}</h3><ul>${section.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    ),
+    ...(links
+      ? [`<p><a href="${escapeHtml(links.loans)}">לכל ההשאלות</a> · <a href="${escapeHtml(links.profile)}">לשינוי תדירות התזכורות</a></p>`]
+      : []),
+    '</div>',
+  ].join('\n');
+
+  return { to: user.email, subject, text, html, loanIds: relevant.map((loan) => loan.id) };
+}
@@ -0,0 +1,140 @@
+/**
+ * Search Facets Service
+ * Filters community catalog books by facets (genre, age range, series, author, language,
+ * availability, owning family, publish year) and counts the values of every facet.
+ *
+ * Each facet is counted over the books matching all the *other* facets' filters, so picking
+ * a genre still shows how many books the other genres have.
+ */
+
+import { normalizeSeriesName } from './seriesTracker.js';
+
+export const FACETS = ['genre', 'ageRange', 'series', 'author', 'language', 'availability', 'family', 'decade'];
+
+const HEBREW_LETTERS = /[א-ת]/;
+const LATIN_LETTERS = /[a-z]/i;
+
+/**
+ * The catalog doesn't store a language - a title in Hebrew script is a Hebrew book
+ */
+export function detectLanguage(book) {
+  const title = book.title || book.title_hebrew || '';
+  if (HEBREW_LETTERS.test(title)) return 'he';
+  if (LATIN_LETTERS.test(title)) return 'en';
+  return 'other';
+}
+
+/**
+ * Flatten a catalog row with its community copies into what the facets look at
+ * @param {Object} book - book_catalog row with family_books(id, family_id, status, families(name))
+ * @param {string|null} viewerFamilyId
+ */
+export function toSearchRecord(book, viewerFamilyId = null) {
+  const copies = book.family_books || [];
+  const author = book.author_hebrew || book.author || null;
+  const year = Number(book.year_published) || null;
+
+  return {
+    book,
+    values: {
+      genre: book.genre ? [book.genre] : [],
+      ageRange: book.age_level ? [book.age_level] : [],
+      series: book.series?.trim() ? [normalizeSeriesName(book.series)] : [],
+      // Linked author (migration 040) so both spellings count as one author
+      author: author ? [book.author_id || author] : [],
+      language: [detectLanguage(book)],
+      availability: [copies.some((copy) => copy.status === 'available') ? 'available' : 'on_loan'],
+      family: [...new Set(copies.map((copy) => copy.family_id))],
+      decade: year ? [String(Math.floor(year / 10) * 10)] : [],
+    },
+    labels: {
+      series: book.series?.trim() || null,
+      author,
+      family: Object.fromEntries(copies.map((copy) => [copy.family_id, copy.families?.name || null])),
+    },
+    year,
+    ownedByViewer: Boolean(viewerFamilyId) && copies.some((copy) => copy.family_id === viewerFamilyId),
+  };
+}
+
+function matchesFacet(record, facet, selected) {
+  if (!selected?.length) return true;
+  return record.values[facet].some((value) => selected.includes(value));
+}
+
+function matchesYears(record, { yearFrom, yearTo }) {
+  if (!yearFrom && !yearTo) return true;
+  if (!record.year) return false;
+  return (!yearFrom || record.year >= yearFrom) && (!yearTo || record.year <= yearTo);
+}
+
+/**
+ * Whether a record passes the filters, ignoring one facet (the one being counted)
+ */
+function matchesFilters(record, filters, exceptFacet = null) {
+  for (const facet of FACETS) {
+    if (facet === exceptFacet || facet === 'decade') continue;
+    if (!matchesFacet(record, facet, filters[facet])) return false;
+  }
+  // The year range is the decade facet's filter
+  return exceptFacet === 'decade' || matchesYears(record, filters);
+}
+
+function labelFor(facet, value, record) {
+  if (facet === 'series' || facet === 'author') return record.labels[facet];
+  if (facet === 'family') return record.labels.family[value] || null;
+  return null;
+}
+
+/**
+ * Value counts of every facet
+ * @returns {Object<string, Array<{value: string, label: string|null, count: number}>>}
+ */
+export function countFacets(records, filters) {
+  const facets = {};
+  for (const facet of FACETS) {
+    const counts = new Map();
+    for (const record of records) {
+      if (!matchesFilters(record, filters, facet)) continue;
+      for (const value of record.values[facet]) {
+        const entry = counts.get(value) || { value, label: labelFor(facet, value, record), count: 0 };
+        entry.count++;
+        counts.set(value, entry);
+      }
+    }
+    facets[facet] = [...counts.values()].sort((a, b) =>
+      facet === 'decade'
+        ? Number(b.value) - Number(a.value)
+        : b.count - a.count || String(a.label || a.value).localeCompare(String(b.label || b.value), 'he')
+    );
+  }
+  return facets;
+}
+
+const SORTS = {
+  relevance: (a, b, ranks) => (ranks.get(b.book.id) || 0) - (ranks.get(a.book.id) || 0),
+  year: (a, b) => (b.year || 0) - (a.year || 0),
+  title: () => 0,
+};
+
+/**
+ * Filter, sort and count facets
+ * @param {Array<Object>} records - toSearchRecord() results
+ * @param {Object} filters - facet name -> selected values, plus yearFrom / yearTo
+ * @param {Object} [options]
+ * @param {string} [options.sort] - 'relevance' | 'title' | 'year'
+ * @param {Map<string, number>} [options.ranks] - search rank per catalog id (text search)
+ * @param {boolean} [options.withFacets] - false skips counting (facets is null), e.g. for later pages
+ * @returns {{results: Array<Object>, facets: Object|null}}
+ */
+export function searchRecords(records, filters, { sort = 'title', ranks = new Map(), withFacets = true } = {}) {
+  const byTitle = (a, b) =>
+    (a.book.title_hebrew || a.book.title || '').localeCompare(b.book.title_hebrew || b.book.title || '', 'he');
+  const compare = SORTS[sort] || SORTS.title;
+
+  const results = records
+    .filter((record) => matchesFilters(record, filters))
+    .sort((a, b) => compare(a, b, ranks) || byTitle(a, b));
+
+  return { results, facets: withFacets ? countFacets(records, filters) : null };
+}
@@ -0,0 +1,116 @@
+/**
+ * Series Tracker Service
+ * Builds the volume list of a series from catalog books (book_catalog.series / series_number),
+ * marks what the viewer's family owns and has read, finds missing volumes and the next
+ * volume to borrow.
+ */
+
+// Volumes a family has read: books it borrowed and handed back or still has
+export const READ_LOAN_STATUSES = ['active', 'overdue', 'returned'];
+
+/**
+ * Series names are free text - compare them without case and extra spaces
+ */
+export const normalizeSeriesName = (name) => (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+function toEdition(book) {
+  return {
+    catalogId: book.id,
+    workId: book.work_id || null,
+    title: book.title,
+    titleHebrew: book.title_hebrew,
+    author: book.author,
+    coverImageUrl: book.cover_image_url,
+  };
+}
+
+function toHolders(book, familyId) {
+  return (book.family_books || []).map((copy) => ({
+    familyBookId: copy.id,
+    catalogId: book.id,
+    familyId: copy.family_id,
+    familyName: copy.families?.name || null,
+    status: copy.status,
+    isViewerFamily: Boolean(familyId) && copy.family_id === familyId,
+  }));
+}
+
+/**
+ * Group a series' catalog books into volumes
+ * @param {Array<Object>} books - book_catalog rows of one series, with family_books(id, family_id, status, families(name))
+ * @param {Object} [viewer]
+ * @param {string} [viewer.familyId]
+ * @param {Set<string>} [viewer.readCatalogIds] - catalog books the family borrowed or the user reviewed
+ * @param {Set<string>} [viewer.readWorkIds] - their works, so reading any edition counts
+ * @returns {{volumes: Array<Object>, unnumbered: Array<Object>, missingNumbers: number[], nextVolume: Object|null}}
+ */
+export function buildSeriesOverview(books, { familyId = null, readCatalogIds = new Set(), readWorkIds = new Set() } = {}) {
+  const byNumber = new Map();
+  const unnumbered = [];
+
+  for (const book of books) {
+    const number = Number(book.series_number);
+    const isNumbered = Number.isInteger(number) && number > 0;
+
+    let volume = isNumbered ? byNumber.get(number) : null;
+    if (!volume) {
+      volume = { number: isNumbered ? number : null, editions: [], holders: [], read: false };
+      if (isNumbered) byNumber.set(number, volume);
+      else unnumbered.push(volume);
+    }
+
+    volume.editions.push(toEdition(book));
+    volume.holders.push(...toHolders(book, familyId));
+    if (readCatalogIds.has(book.id) || (book.work_id && readWorkIds.has(book.work_id))) {
+      volume.read = true;
+    }
+  }
+
+  const summarize = (volume) => ({
+    ...volume,
+    ownedByFamily: volume.holders.some((holder) => holder.isViewerFamily),
+    totalCopies: volume.holders.length,
+    availableCopies: volume.holders.filter((holder) => holder.status === 'available').length,
+  });
+
+  const volumes = [...byNumber.values()].sort((a, b) => a.number - b.number).map(summarize);
+  const lastNumber = volumes.length ? volumes[volumes.length - 1].number : 0;
+  const missingNumbers = [];
+  for (let number = 1; number < lastNumber; number++) {
+    if (!byNumber.has(number)) missingNumbers.push(number);
+  }
+
+  return {
+    volumes,
+    unnumbered: unnumbered.map(summarize),
+    missingNumbers,
+    nextVolume: pickNextVolume(volumes, missingNumbers),
+  };
+}
+
+/**
+ * The first volume the family neither owns nor has read, and whether it can be borrowed now
+ * @returns {{number: number, status: 'available'|'on_loan'|'missing', title: string|null, catalogId: string|null, copy: Object|null}|null}
+ */
+export function pickNextVolume(volumes, missingNumbers = []) {
+  const candidates = [
+    ...volumes.filter((volume) => !volume.read && !volume.ownedByFamily),
+    ...missingNumbers.map((number) => ({ number, missing: true })),
+  ].sort((a, b) => a.number - b.number);
+
+  const next = candidates[0];
+  if (!next) return null;
+  if (next.missing) {
+    // No family in the community has this volume
+    return { number: next.number, status: 'missing', title: null, catalogId: null, copy: null };
+  }
+
+  const copy = next.holders.find((holder) => !holder.isViewerFamily && holder.status === 'available') || null;
+  return {
+    number: next.number,
+    status: copy ? 'available' : 'on_loan',
+    title: next.editions[0].titleHebrew || next.editions[0].title,
+    catalogId: next.editions[0].catalogId,
+    copy,
+  };
+}
@@ -1,7 +1,7 @@
 /**
  * Image Storage Utility Module
  * Handles image uploads, thumbnail generation, signed URL creation, and cleanup
- * for the detection job system
+ * for the detection job system and loan condition photos
  */
 
 import sharp from 'sharp';
@@ -272,6 +272,70 @@ export async function getUserStorageQuota(supabase, userId, quotaMB = 1000) {
   };
 }
 
+/**
+ * Private bucket for photos taken at loan check-out / check-in and damage reports
+ */
+export const LOAN_PHOTOS_BUCKET = 'loan-condition-photos';
+
+/**
+ * Upload a loan condition photo to Supabase Storage
+ * @param {Object} supabase - Supabase client
+ * @param {string} loanId - Loan ID
+ * @param {string} recordId - Condition record ID
+ * @param {number} index - Position of the photo within the record
+ * @param {Buffer} imageBuffer - Image file buffer
+ * @param {string} mimeType - MIME type
+ * @returns {Promise<string>} - Storage path
+ */
+export async function uploadLoanPhoto(supabase, loanId, recordId, index, imageBuffer, mimeType) {
+  const ext = getFileExtension(mimeType);
+  const storagePath = `${loanId}/${recordId}/${index + 1}.${ext}`;
+
+  const { error } = await supabase
+    .storage
+    .from(LOAN_PHOTOS_BUCKET)
+    .upload(storagePath, imageBuffer, {
+      cacheControl: '86400',
+      contentType: mimeType,
+      upsert: false
+    });
+
+  if (error) {
+    throw new Error(`Upload failed: ${error.message}`);
+  }
+
+  return storagePath;
+}
+
+/**
+ * Create signed URLs for loan condition photos (valid for 1 hour)
+ * @param {Object} supabase - Supabase client
+ * @param {string[]} storagePaths - Paths in the loan photos bucket
+ * @returns {Promise<Object<string, string>>} - Signed URL per path; missing paths are left out
+ */
+export async function createLoanPhotoUrls(supabase, storagePaths) {
+  if (!storagePaths?.length) return {};
+
+  try {
+    const { data, error } = await supabase
+      .storage
+      .from(LOAN_PHOTOS_BUCKET)
+      .createSignedUrls(storagePaths, 60 * 60);
+
+    if (error) {
+      console.error('Failed to create loan photo URLs:', error.message);
+      return {};
+    }
+
+    return Object.fromEntries(
+      (data || []).filter((item) => item.signedUrl).map((item) => [item.path, item.signedUrl])
+    );
+  } catch (error) {
+    console.error('Loan photo URL creation failed:', error.message);
+    return {};
+  }
+}
+
 export default {
   generateThumbnail,
   getFileExtension,
@@ -280,5 +344,7 @@ export default {
   refreshSignedUrl,
   validateImageFile,
   calculateUserStorageUsage,
-  getUserStorageQuota
+  getUserStorageQuota,
+  uploadLoanPhoto,
+  createLoanPhotoUrls
 };
@@ -0,0 +1,28 @@
+-- Migration: Borrower-initiated loan requests
+-- Purpose: Let borrowers request a specific family_books copy and let owners approve or reject it
+-- Date: 2026-10-18
+--
+-- Flow: pending -> approved -> active (hand-off) -> returned
+--       pending/approved -> rejected (by owner) or cancelled (by borrower)
+
+-- Allow borrowers to withdraw their own requests
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS loans_status_check;
+ALTER TABLE loans ADD CONSTRAINT loans_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'active', 'returned'));
+
+-- A family can only have one open request per copy
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loans_open_request_per_family
+ON loans(family_book_id, borrower_family_id)
+WHERE status IN ('pending', 'approved');
+
+-- Owner inbox: pending/approved requests for a family's books
+-- Used in: loans.controller.js getAllLoans with ownerFamilyId + status filters
+CREATE INDEX IF NOT EXISTS idx_loans_owner_open_requests
+ON loans(owner_family_id, request_date DESC)
+WHERE status IN ('pending', 'approved');
+
+-- Requests change only through the API (service role): borrowers withdraw them with
+-- POST /api/loans/:id/cancel. A client-side UPDATE policy would let them change any column.
+DROP POLICY IF EXISTS "Borrowers can cancel own requests" ON loans;
+
+COMMENT ON INDEX idx_loans_open_request_per_family IS 'Prevents duplicate open loan requests from the same family for the same copy';
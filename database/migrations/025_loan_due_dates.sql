@@ -0,0 +1,29 @@
+-- Migration: Loan due dates and overdue status
+-- Purpose: Per-family default loan period and an 'overdue' loan status maintained by a cron job
+-- Date: 2026-10-18
+
+-- Default loan period (in days) used when the owner does not pick one
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS default_loan_period_days INTEGER DEFAULT 14
+  CHECK (default_loan_period_days BETWEEN 1 AND 365);
+
+-- Active loans past their due date are flagged as overdue by api/cron/mark-overdue-loans.js
+ALTER TABLE loans DROP CONSTRAINT IF EXISTS loans_status_check;
+ALTER TABLE loans ADD CONSTRAINT loans_status_check
+  CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'active', 'overdue', 'returned'));
+
+-- Backfill due dates for loans that are already out
+UPDATE loans l
+SET due_date = COALESCE(l.approved_date, l.request_date) + make_interval(days => COALESCE(f.default_loan_period_days, 14))
+FROM families f
+WHERE f.id = l.owner_family_id
+  AND l.status = 'active'
+  AND l.due_date IS NULL;
+
+-- Index for the overdue scan (WHERE status = 'active' AND due_date < NOW())
+-- Used in: api/cron/mark-overdue-loans.js
+CREATE INDEX IF NOT EXISTS idx_loans_active_due_date
+ON loans(due_date)
+WHERE status = 'active' AND due_date IS NOT NULL;
+
+COMMENT ON COLUMN families.default_loan_period_days IS 'Default number of days a book is lent for when the owner does not choose a due date';
@@ -0,0 +1,49 @@
+-- Migration: Loan renewal / extension requests
+-- Purpose: Borrowers ask for a later due date, owners accept or decline; every due_date change is kept as history
+-- Date: 2026-10-18
+--
+-- A loan's due date only moves through these requests (PUT /api/loans/:id doesn't change it);
+-- approved ones count towards families.max_loan_renewals
+
+-- Maximum number of approved renewals per loan, set by the owning family
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS max_loan_renewals INTEGER DEFAULT 2
+  CHECK (max_loan_renewals BETWEEN 0 AND 20);
+
+CREATE TABLE IF NOT EXISTS loan_renewals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined')),
+  previous_due_date TIMESTAMPTZ,
+  requested_due_date TIMESTAMPTZ NOT NULL,
+  requested_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  decided_at TIMESTAMPTZ
+);
+
+-- History per loan, newest first
+-- Used in: db.loanRenewals.getByLoanId and the loans select embedding
+CREATE INDEX IF NOT EXISTS idx_loan_renewals_loan_created
+ON loan_renewals(loan_id, created_at DESC);
+
+-- Only one renewal request may wait for the owner at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_renewals_one_pending
+ON loan_renewals(loan_id)
+WHERE status = 'pending';
+
+-- Enable RLS
+ALTER TABLE loan_renewals ENABLE ROW LEVEL SECURITY;
+
+-- Both families on the loan can see its renewal history
+DROP POLICY IF EXISTS "Loan families can view renewals" ON loan_renewals;
+CREATE POLICY "Loan families can view renewals" ON loan_renewals FOR SELECT
+    USING (loan_id IN (
+        SELECT id FROM loans
+        WHERE borrower_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+           OR owner_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+    ));
+
+COMMENT ON TABLE loan_renewals IS 'Append-only history of loan due date changes (borrower renewal requests and the owner''s decisions)';
+COMMENT ON COLUMN families.max_loan_renewals IS 'How many times a borrower may extend a single loan of this family''s books';
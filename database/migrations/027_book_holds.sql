@@ -0,0 +1,71 @@
+-- Migration: Hold queue for books that are on loan
+-- Purpose: FIFO waitlist per catalog book (across all owning families) with a time-limited claim on return
+-- Date: 2026-10-18
+--
+-- Flow: waiting -> claimable (a copy was returned and is reserved) -> fulfilled (claim became a loan request)
+--       claimable -> expired (claim window passed, copy offered to the next family)
+--       waiting/claimable -> cancelled (family left the queue)
+
+CREATE TABLE IF NOT EXISTS book_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_catalog_id UUID NOT NULL REFERENCES book_catalog(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  requester_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'claimable', 'fulfilled', 'expired', 'cancelled')),
+  claim_family_book_id UUID REFERENCES family_books(id) ON DELETE SET NULL,
+  claim_expires_at TIMESTAMPTZ,
+  loan_id UUID REFERENCES loans(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A family can only stand in the queue for a book once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_holds_open_per_family
+ON book_holds(book_catalog_id, family_id)
+WHERE status IN ('waiting', 'claimable');
+
+-- Queue order per catalog book (FIFO by created_at)
+-- Used in: services/holdQueue.js when a copy is returned
+CREATE INDEX IF NOT EXISTS idx_book_holds_queue
+ON book_holds(book_catalog_id, created_at)
+WHERE status = 'waiting';
+
+-- Expiry scan for claims that were not picked up
+-- Used in: api/cron/expire-hold-claims.js
+CREATE INDEX IF NOT EXISTS idx_book_holds_claim_expiry
+ON book_holds(claim_expires_at)
+WHERE status = 'claimable';
+
+-- Enable RLS
+ALTER TABLE book_holds ENABLE ROW LEVEL SECURITY;
+
+-- Queue positions are visible to everyone in the community
+DROP POLICY IF EXISTS "Anyone can view holds" ON book_holds;
+CREATE POLICY "Anyone can view holds" ON book_holds FOR SELECT
+    USING (true);
+
+-- Families can join and leave the queue themselves; claims, fulfilment and expiry are only
+-- changed by the API (service role), so there is no UPDATE policy. A new hold waits at the back
+-- of the queue and can't carry a claim.
+DROP POLICY IF EXISTS "Families can manage own holds" ON book_holds;
+DROP POLICY IF EXISTS "Families can join the queue" ON book_holds;
+CREATE POLICY "Families can join the queue" ON book_holds FOR INSERT
+    WITH CHECK (
+        family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+        AND status = 'waiting'
+        AND claim_family_book_id IS NULL
+        AND claim_expires_at IS NULL
+        AND loan_id IS NULL
+        AND created_at >= NOW() - INTERVAL '1 minute'
+    );
+
+DROP POLICY IF EXISTS "Families can leave the queue" ON book_holds;
+CREATE POLICY "Families can leave the queue" ON book_holds FOR DELETE
+    USING (
+        family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+        AND status = 'waiting'
+    );
+
+COMMENT ON TABLE book_holds IS 'FIFO hold queue per catalog book; the oldest waiting family gets a time-limited claim when a copy is returned';
+COMMENT ON COLUMN book_holds.claim_family_book_id IS 'Copy reserved for this family while status = claimable';
@@ -0,0 +1,101 @@
+-- Migration: Direct hand-off of a loaned book to the next borrower
+-- Purpose: Let a borrowing family pass a copy straight to the next family, with owner approval
+-- Date: 2026-10-18
+--
+-- Flow: borrower proposes (pass_on_family_id set) -> owner approves -> pass_on_loan() closes the
+--       current loan and opens the next one in a single transaction; previous_loan_id links the chain
+
+-- Chain of custody: each passed-on loan points at the loan it came from
+ALTER TABLE loans
+ADD COLUMN IF NOT EXISTS previous_loan_id UUID REFERENCES loans(id) ON DELETE SET NULL;
+
+-- Pending pass-on proposal (cleared on decline, kept on approve as a record)
+ALTER TABLE loans
+ADD COLUMN IF NOT EXISTS pass_on_family_id UUID REFERENCES families(id) ON DELETE SET NULL;
+
+ALTER TABLE loans
+ADD COLUMN IF NOT EXISTS pass_on_hold_id UUID REFERENCES book_holds(id) ON DELETE SET NULL;
+
+ALTER TABLE loans
+ADD COLUMN IF NOT EXISTS pass_on_requested_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE loans
+ADD COLUMN IF NOT EXISTS pass_on_requested_at TIMESTAMPTZ;
+
+-- Owner inbox: ongoing loans waiting for a pass-on decision
+CREATE INDEX IF NOT EXISTS idx_loans_pending_pass_on
+ON loans(owner_family_id)
+WHERE pass_on_family_id IS NOT NULL AND status IN ('active', 'overdue');
+
+CREATE INDEX IF NOT EXISTS idx_loans_previous_loan
+ON loans(previous_loan_id)
+WHERE previous_loan_id IS NOT NULL;
+
+-- Close the current loan and open the next one atomically
+-- Used in: db.loans.passOn (POST /api/loans/:id/pass-on/approve)
+CREATE OR REPLACE FUNCTION pass_on_loan(
+  p_loan_id UUID,
+  p_due_date TIMESTAMPTZ
+)
+RETURNS loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan loans%ROWTYPE;
+  v_next loans%ROWTYPE;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_loan.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Cannot pass on a loan with status %', v_loan.status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF v_loan.pass_on_family_id IS NULL THEN
+    RAISE EXCEPTION 'No pass-on was requested for this loan' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE loans
+  SET status = 'returned',
+      return_date = NOW(),
+      updated_at = NOW()
+  WHERE id = v_loan.id;
+
+  -- The next family's own open request for this copy is superseded by the hand-off
+  UPDATE loans
+  SET status = 'cancelled',
+      updated_at = NOW()
+  WHERE family_book_id = v_loan.family_book_id
+    AND borrower_family_id = v_loan.pass_on_family_id
+    AND status IN ('pending', 'approved');
+
+  INSERT INTO loans (
+    family_book_id, borrower_family_id, owner_family_id, requester_user_id,
+    status, request_date, approved_date, due_date, previous_loan_id
+  )
+  VALUES (
+    v_loan.family_book_id, v_loan.pass_on_family_id, v_loan.owner_family_id, v_loan.pass_on_requested_by,
+    'active', NOW(), NOW(), p_due_date, v_loan.id
+  )
+  RETURNING * INTO v_next;
+
+  IF v_loan.pass_on_hold_id IS NOT NULL THEN
+    UPDATE book_holds
+    SET status = 'fulfilled',
+        loan_id = v_next.id,
+        updated_at = NOW()
+    WHERE id = v_loan.pass_on_hold_id
+      AND status IN ('waiting', 'claimable');
+  END IF;
+
+  RETURN v_next;
+END;
+$$;
+
+COMMENT ON COLUMN loans.previous_loan_id IS 'Loan this one was passed on from (chain of custody)';
+COMMENT ON COLUMN loans.pass_on_family_id IS 'Family the borrower wants to hand the copy to; waits for owner approval';
+COMMENT ON FUNCTION pass_on_loan IS 'Closes a loan and opens the next one for pass_on_family_id in one transaction';
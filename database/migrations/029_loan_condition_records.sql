@@ -0,0 +1,56 @@
+-- Migration: Book condition at check-out / check-in and damage or loss reports
+-- Purpose: Record the state of a copy every time it changes hands, with optional notes and photos
+-- Date: 2026-10-18
+--
+-- kind = 'checkout': condition when the owner hands the copy over (POST /api/loans)
+-- kind = 'checkin':  condition when the copy comes back (mark as returned)
+-- kind = 'damage' / 'loss': owner report; the copy is set to family_books.status = 'unavailable'
+--
+-- Photos live in the private "loan-condition-photos" storage bucket under <loan_id>/<record_id>/
+
+CREATE TABLE IF NOT EXISTS loan_condition_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  family_book_id UUID REFERENCES family_books(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('checkout', 'checkin', 'damage', 'loss')),
+  condition VARCHAR(50) CHECK (condition IN ('new', 'good', 'fair', 'poor')),
+  notes TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}',
+  created_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Records per loan in the order they were taken
+-- Used in: db.loanConditionRecords.getByLoanId
+CREATE INDEX IF NOT EXISTS idx_loan_condition_records_loan_created
+ON loan_condition_records(loan_id, created_at);
+
+-- Condition history of a copy across all of its loans
+CREATE INDEX IF NOT EXISTS idx_loan_condition_records_family_book
+ON loan_condition_records(family_book_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE loan_condition_records ENABLE ROW LEVEL SECURITY;
+
+-- Both families on the loan can see its condition records
+DROP POLICY IF EXISTS "Loan families can view condition records" ON loan_condition_records;
+CREATE POLICY "Loan families can view condition records" ON loan_condition_records FOR SELECT
+    USING (loan_id IN (
+        SELECT id FROM loans
+        WHERE borrower_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+           OR owner_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+    ));
+
+-- Document the photo bucket (create it as PRIVATE via the Supabase Dashboard, see 022)
+INSERT INTO bucket_configuration (bucket_id, bucket_name, is_public, description, notes)
+VALUES (
+  'loan-condition-photos',
+  'loan-condition-photos',
+  false,
+  'Photos of a book''s condition at check-out, check-in and damage reports',
+  'Accessed by the API with the service role; clients get short-lived signed URLs.'
+)
+ON CONFLICT (bucket_id) DO NOTHING;
+
+COMMENT ON TABLE loan_condition_records IS 'Condition of a copy when a loan starts and ends, plus damage/loss reports';
+COMMENT ON COLUMN loan_condition_records.photo_paths IS 'Object paths in the loan-condition-photos storage bucket';
@@ -0,0 +1,33 @@
+-- Migration: Per-family lending policies
+-- Purpose: Rules a family sets for lending its books, enforced by the API when a loan is created
+-- Date: 2026-10-18
+--
+-- NULL / FALSE means "no restriction" for every policy column, so existing families keep lending as before
+
+-- Most books one borrowing family may hold from this family at once
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS max_loans_per_borrower INTEGER
+  CHECK (max_loans_per_borrower BETWEEN 1 AND 100);
+
+-- Longest loan period this family agrees to (due dates beyond it are rejected)
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS max_loan_period_days INTEGER
+  CHECK (max_loan_period_days BETWEEN 1 AND 365);
+
+-- Only lend to these families (NULL = any family)
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS allowed_borrower_family_ids UUID[];
+
+-- Children's books (by book_catalog.age_level) only go to families with kids
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS children_books_to_families_with_kids BOOLEAN DEFAULT FALSE;
+
+-- Self-declared by the family, used by the policy above
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS has_children BOOLEAN DEFAULT FALSE;
+
+COMMENT ON COLUMN families.max_loans_per_borrower IS 'Lending policy: max ongoing loans per borrowing family (NULL = unlimited)';
+COMMENT ON COLUMN families.max_loan_period_days IS 'Lending policy: longest allowed loan period in days (NULL = unlimited)';
+COMMENT ON COLUMN families.allowed_borrower_family_ids IS 'Lending policy: families this family lends to (NULL = everyone)';
+COMMENT ON COLUMN families.children_books_to_families_with_kids IS 'Lending policy: children''s books only to families with has_children';
+COMMENT ON COLUMN families.has_children IS 'Whether the family has children at home';
@@ -0,0 +1,78 @@
+-- Migration: Loan event ledger
+-- Purpose: Append-only history of everything that happens to a loan, plus a book status consistency view
+-- Date: 2026-10-18
+--
+-- Events are written by the API (services/loanEvents.js) and the overdue cron; rows are never updated.
+-- Rows go away only together with their loan (ON DELETE CASCADE).
+
+CREATE TABLE IF NOT EXISTS loan_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loan_id UUID NOT NULL REFERENCES loans(id) ON DELETE CASCADE,
+  family_book_id UUID REFERENCES family_books(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'requested', 'approved', 'rejected', 'cancelled', 'handed_over',
+    'renewal_requested', 'renewed', 'renewal_declined', 'due_date_changed',
+    'overdue', 'returned', 'passed_on', 'damage_reported', 'disputed'
+  )),
+  actor_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Timeline per loan and per copy, oldest first
+-- Used in: db.loanEvents.getAll
+CREATE INDEX IF NOT EXISTS idx_loan_events_loan_created
+ON loan_events(loan_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_loan_events_family_book_created
+ON loan_events(family_book_id, created_at);
+
+-- Append-only: reject updates (deletes only happen through the loan cascade)
+CREATE OR REPLACE FUNCTION prevent_loan_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'loan_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loan_events_append_only ON loan_events;
+CREATE TRIGGER loan_events_append_only
+BEFORE UPDATE ON loan_events
+FOR EACH ROW EXECUTE FUNCTION prevent_loan_event_update();
+
+-- Enable RLS
+ALTER TABLE loan_events ENABLE ROW LEVEL SECURITY;
+
+-- Both families on the loan can read its events
+DROP POLICY IF EXISTS "Loan families can view events" ON loan_events;
+CREATE POLICY "Loan families can view events" ON loan_events FOR SELECT
+    USING (loan_id IN (
+        SELECT id FROM loans
+        WHERE borrower_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+           OR owner_family_id IN (SELECT family_id FROM users WHERE id = auth.uid())
+    ));
+
+-- Copies whose family_books.status disagrees with their loans
+-- Used in: api/cron/reconcile-book-status.js
+-- 'unavailable' copies (damaged / lost / withdrawn) are left alone
+CREATE OR REPLACE VIEW book_status_mismatches AS
+SELECT
+  fb.id AS family_book_id,
+  fb.family_id,
+  fb.status AS current_status,
+  CASE WHEN COUNT(l.id) > 0 THEN 'on_loan' ELSE 'available' END AS expected_status,
+  COUNT(l.id) AS ongoing_loans
+FROM family_books fb
+LEFT JOIN loans l
+  ON l.family_book_id = fb.id
+ AND l.status IN ('active', 'overdue')
+WHERE fb.status IN ('available', 'on_loan')
+GROUP BY fb.id, fb.family_id, fb.status
+HAVING fb.status <> CASE WHEN COUNT(l.id) > 0 THEN 'on_loan' ELSE 'available' END
+    OR COUNT(l.id) > 1;
+
+COMMENT ON TABLE loan_events IS 'Append-only ledger of loan events (requests, hand-overs, renewals, returns, disputes)';
+COMMENT ON COLUMN loan_events.details IS 'Event specific data, e.g. previous/new due date, dispute reason, next loan id';
+COMMENT ON VIEW book_status_mismatches IS 'Copies whose status does not match their ongoing loans, or that have more than one';
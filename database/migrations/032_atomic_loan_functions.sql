@@ -0,0 +1,174 @@
+-- Migration: Atomic loan creation, return and cancellation
+-- Purpose: Write the loan and family_books.status in one transaction so they can't diverge
+-- Date: 2026-10-18
+--
+-- The API used to insert/update the loan and then update the copy in a second call; a failure in
+-- between left the copy on_loan with no loan (or available while lent). These functions lock the
+-- copy row, so two concurrent hand-overs of the same copy are serialized.
+--
+-- Before running: copies with more than one ongoing loan (reported by api/cron/reconcile-book-status)
+-- must be resolved, otherwise idx_loans_one_ongoing_per_copy can't be created.
+
+-- At most one ongoing loan per copy
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loans_one_ongoing_per_copy
+ON loans(family_book_id)
+WHERE status IN ('active', 'overdue');
+
+-- Create an active loan and mark the copy on_loan
+-- Used in: db.loans.createActive (POST /api/loans)
+-- p_id is the client-generated loan id; calling again with the same id returns the existing loan
+-- with created = false instead of failing, so the client can safely retry
+CREATE OR REPLACE FUNCTION create_loan(
+  p_id UUID,
+  p_family_book_id UUID,
+  p_borrower_family_id UUID,
+  p_owner_family_id UUID,
+  p_requester_user_id UUID,
+  p_due_date TIMESTAMPTZ,
+  p_notes TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_copy family_books%ROWTYPE;
+  v_loan loans%ROWTYPE;
+BEGIN
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_loan FROM loans WHERE id = p_id;
+    IF FOUND THEN
+      IF v_loan.family_book_id <> p_family_book_id OR v_loan.borrower_family_id <> p_borrower_family_id THEN
+        RAISE EXCEPTION 'Loan id is already used by another loan' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'created', false);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_copy FROM family_books WHERE id = p_family_book_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_copy.status = 'unavailable' THEN
+    RAISE EXCEPTION 'Book is not available for lending' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM loans
+    WHERE family_book_id = p_family_book_id
+      AND status IN ('active', 'overdue')
+  ) THEN
+    RAISE EXCEPTION 'Book is currently on loan' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO loans (
+    id, family_book_id, borrower_family_id, owner_family_id, requester_user_id,
+    status, request_date, approved_date, due_date, notes
+  )
+  VALUES (
+    COALESCE(p_id, gen_random_uuid()), p_family_book_id, p_borrower_family_id, p_owner_family_id, p_requester_user_id,
+    'active', NOW(), NOW(), p_due_date, p_notes
+  )
+  RETURNING * INTO v_loan;
+
+  UPDATE family_books
+  SET status = 'on_loan',
+      updated_at = NOW()
+  WHERE id = p_family_book_id;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'created', true);
+END;
+$$;
+
+-- Close an ongoing loan and put the copy back on the shelf
+-- Used in: db.loans.markReturned (PUT /api/loans/:id with status 'returned')
+-- A copy reported damaged or lost (status 'unavailable') stays unavailable.
+-- Returning an already returned loan is a no-op (returned = false).
+CREATE OR REPLACE FUNCTION return_loan(
+  p_loan_id UUID,
+  p_return_date TIMESTAMPTZ
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan loans%ROWTYPE;
+  v_copy_status TEXT;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_loan.status = 'returned' THEN
+    SELECT status INTO v_copy_status FROM family_books WHERE id = v_loan.family_book_id;
+    RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'copy_status', v_copy_status, 'returned', false);
+  END IF;
+
+  IF v_loan.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Cannot return a loan with status %', v_loan.status USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE loans
+  SET status = 'returned',
+      return_date = COALESCE(p_return_date, NOW()),
+      updated_at = NOW()
+  WHERE id = v_loan.id
+  RETURNING * INTO v_loan;
+
+  UPDATE family_books
+  SET status = CASE WHEN status = 'unavailable' THEN status ELSE 'available' END,
+      updated_at = NOW()
+  WHERE id = v_loan.family_book_id
+  RETURNING status INTO v_copy_status;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'copy_status', v_copy_status, 'returned', true);
+END;
+$$;
+
+-- Cancel a loan request (pending or approved - the copy hasn't been handed over yet)
+-- Used in: db.loans.cancel (POST /api/loans/:id/cancel, PUT /api/loans/:id with status 'cancelled')
+-- An active or overdue loan is closed by the owner's return instead, so a borrower can't
+-- release a copy they still have.
+CREATE OR REPLACE FUNCTION cancel_loan(
+  p_loan_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_loan loans%ROWTYPE;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_loan.status = 'cancelled' THEN
+    RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'cancelled', false);
+  END IF;
+
+  IF v_loan.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Cannot cancel a loan with status %', v_loan.status USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE loans
+  SET status = 'cancelled',
+      updated_at = NOW()
+  WHERE id = v_loan.id
+  RETURNING * INTO v_loan;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'cancelled', true);
+END;
+$$;
+
+COMMENT ON INDEX idx_loans_one_ongoing_per_copy IS 'A copy can be on at most one active or overdue loan';
+COMMENT ON FUNCTION create_loan IS 'Creates an active loan and marks the copy on_loan in one transaction; idempotent per loan id';
+COMMENT ON FUNCTION return_loan IS 'Returns a loan and makes the copy available in one transaction';
+COMMENT ON FUNCTION cancel_loan IS 'Cancels a pending or approved loan request';
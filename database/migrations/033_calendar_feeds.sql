@@ -0,0 +1,25 @@
+-- Migration: Calendar feed tokens
+-- Purpose: Per-user secret token for the loan due date iCalendar (.ics) feed
+-- Date: 2026-10-18
+--
+-- Phone calendars subscribe to /api/calendar/<token>.ics without logging in, so the token is the
+-- only credential. Replacing it (POST /api/calendar/feed) stops the old subscription URL.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ
+);
+
+-- Enable RLS
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users can see and manage only their own token (the feed itself is served by the API)
+DROP POLICY IF EXISTS "Users can manage own calendar feed" ON calendar_feed_tokens;
+CREATE POLICY "Users can manage own calendar feed" ON calendar_feed_tokens FOR ALL
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+COMMENT ON TABLE calendar_feed_tokens IS 'Secret token per user for subscribing to the loan calendar feed';
+COMMENT ON COLUMN calendar_feed_tokens.last_accessed_at IS 'Last time a calendar app fetched the feed';
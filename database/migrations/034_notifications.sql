@@ -0,0 +1,88 @@
+-- Migration: In-app notifications
+-- Purpose: Notification center for loan requests, approvals, due dates, reviews and hold claims
+-- Date: 2026-10-18
+--
+-- Notifications are created per user by notify_family(), which fans a notification out to the
+-- members of a family whose users.notification_preferences allow that type.
+-- Preferences: { "<type>": false } turns a type off; a missing key means on.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'loan_request', 'loan_approved', 'due_soon', 'overdue', 'new_review', 'hold_claimable'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB,
+  -- Set by scheduled notifications so a re-run doesn't notify twice (e.g. due_soon:<loan>:<due date>)
+  dedupe_key TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Notification list per user, newest first
+-- Used in: db.notifications.getByUserId
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON notifications(user_id, created_at DESC);
+
+-- Unread badge count in the navbar
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+ON notifications(user_id)
+WHERE read_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_user_dedupe
+ON notifications(user_id, dedupe_key)
+WHERE dedupe_key IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users read and mark their own notifications (they are created by the API and cron jobs)
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications" ON notifications FOR SELECT
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;
+CREATE POLICY "Users can update own notifications" ON notifications FOR UPDATE
+    USING (user_id = auth.uid());
+
+-- Notify every member of a family who hasn't turned the type off
+-- Used in: services/notifications.js, api/cron/mark-overdue-loans.js, api/cron/expire-hold-claims.js
+CREATE OR REPLACE FUNCTION notify_family(
+  p_family_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT DEFAULT NULL,
+  p_link TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT NULL,
+  p_dedupe_key TEXT DEFAULT NULL,
+  p_exclude_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, link, data, dedupe_key)
+  SELECT u.id, p_type, p_title, p_body, p_link, p_data, p_dedupe_key
+  FROM users u
+  WHERE u.family_id = p_family_id
+    AND (p_exclude_user_id IS NULL OR u.id <> p_exclude_user_id)
+    AND COALESCE((u.notification_preferences ->> p_type)::BOOLEAN, TRUE)
+  ON CONFLICT (user_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+COMMENT ON TABLE notifications IS 'In-app notifications per user';
+COMMENT ON COLUMN users.notification_preferences IS 'Notification types the user turned off, e.g. {"new_review": false}';
+COMMENT ON FUNCTION notify_family IS 'Creates a notification for each family member whose preferences allow the type; returns how many';
@@ -0,0 +1,33 @@
+-- Migration: Due date reminder digests
+-- Purpose: Per-user email digest settings (frequency and quiet hours) for the reminder digest cron
+-- Date: 2026-10-18
+--
+-- api/cron/send-reminder-digests.js runs hourly and emails each user a digest of their
+-- family's loans that are due soon or overdue. Quiet hours are whole hours in Asia/Jerusalem
+-- and may wrap past midnight (e.g. 22 -> 7).
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_frequency TEXT NOT NULL DEFAULT 'daily'
+  CHECK (digest_frequency IN ('off', 'daily', 'weekly'));
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_quiet_start SMALLINT
+  CHECK (digest_quiet_start BETWEEN 0 AND 23);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_quiet_end SMALLINT
+  CHECK (digest_quiet_end BETWEEN 0 AND 23);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS digest_last_sent_at TIMESTAMPTZ;
+
+-- Users the digest cron considers each hour
+-- Used in: api/cron/send-reminder-digests.js
+CREATE INDEX IF NOT EXISTS idx_users_digest_frequency
+ON users(digest_frequency)
+WHERE digest_frequency <> 'off';
+
+COMMENT ON COLUMN users.digest_frequency IS 'Reminder digest email: off, daily or weekly';
+COMMENT ON COLUMN users.digest_quiet_start IS 'Start hour (Asia/Jerusalem) of the window when no digest is sent';
+COMMENT ON COLUMN users.digest_quiet_end IS 'End hour (Asia/Jerusalem, exclusive) of the quiet window';
+COMMENT ON COLUMN users.digest_last_sent_at IS 'When the last reminder digest was delivered';
@@ -0,0 +1,12 @@
+-- Migration: WhatsApp message templates
+-- Purpose: Family-customized text for the pre-filled WhatsApp messages sent from loan screens
+-- Date: 2026-10-18
+--
+-- Only the templates a family admin changed are stored; the app falls back to its built-in
+-- Hebrew text for the rest. Keys: borrow_request, due_reminder, return_coordination,
+-- return_thanks, general. Placeholders: {book}, {family}, {my_family}, {due_date}.
+
+ALTER TABLE families
+ADD COLUMN IF NOT EXISTS whatsapp_templates JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN families.whatsapp_templates IS 'Custom WhatsApp message templates by key, e.g. {"due_reminder": "..."}; missing keys use the default text';
@@ -0,0 +1,17 @@
+-- Migration: Multiple copies of a book per family
+-- Purpose: Let a family own more than one copy of the same catalog book
+-- Date: 2026-10-18
+--
+-- Every family_books row is already a physical copy with its own status, condition, notes
+-- and loans - only the unique constraint kept a family to a single copy. Adding the same
+-- book again without asking for a copy still returns the existing copy (the app flags it
+-- as already owned), so bulk imports stay idempotent.
+
+ALTER TABLE family_books
+DROP CONSTRAINT IF EXISTS family_books_family_id_book_catalog_id_key;
+
+-- Keeps the (family_id, book_catalog_id) lookups indexed now that the unique index is gone
+CREATE INDEX IF NOT EXISTS idx_family_books_family_catalog
+ON family_books(family_id, book_catalog_id);
+
+COMMENT ON TABLE family_books IS 'Physical copies of catalog books owned by families - a family may own several copies of the same book';
@@ -0,0 +1,114 @@
+-- Migration: Merge duplicate catalog books
+-- Purpose: Fold a duplicate book_catalog record into the surviving record in one transaction
+-- Date: 2026-10-18
+--
+-- book_catalog collects near-duplicates (Hebrew vs English title, missing ISBN, series_number
+-- variants - see migrations 008 and 010). The admin duplicate tool (POST /api/catalog/merge)
+-- picks the survivor; this function moves everything that points at the duplicate to it:
+--   family_books - all copies move (a family may own several copies since migration 037)
+--   likes        - a user who liked both keeps a single like
+--   reviews      - a user who reviewed both keeps their newer review
+--   book_holds   - a family queued for both keeps its earlier open hold; the other is cancelled
+-- Empty survivor fields are then filled from the duplicate, and the duplicate is deleted.
+
+CREATE OR REPLACE FUNCTION merge_catalog_books(
+  p_survivor_id UUID,
+  p_duplicate_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_duplicate book_catalog%ROWTYPE;
+  v_copies INTEGER;
+  v_likes INTEGER;
+  v_reviews INTEGER;
+  v_holds INTEGER;
+BEGIN
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'Cannot merge a book into itself' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Lock both records so two admins can't merge them crosswise at the same time
+  PERFORM 1 FROM book_catalog WHERE id IN (p_survivor_id, p_duplicate_id) ORDER BY id FOR UPDATE;
+
+  IF NOT EXISTS (SELECT 1 FROM book_catalog WHERE id = p_survivor_id) THEN
+    RAISE EXCEPTION 'Book not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_duplicate FROM book_catalog WHERE id = p_duplicate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE family_books
+  SET book_catalog_id = p_survivor_id, updated_at = NOW()
+  WHERE book_catalog_id = p_duplicate_id;
+  GET DIAGNOSTICS v_copies = ROW_COUNT;
+
+  DELETE FROM likes d
+  USING likes s
+  WHERE d.book_catalog_id = p_duplicate_id
+    AND s.book_catalog_id = p_survivor_id
+    AND s.user_id = d.user_id;
+  UPDATE likes SET book_catalog_id = p_survivor_id WHERE book_catalog_id = p_duplicate_id;
+  GET DIAGNOSTICS v_likes = ROW_COUNT;
+
+  DELETE FROM reviews d
+  USING reviews s
+  WHERE d.book_catalog_id = p_duplicate_id
+    AND s.book_catalog_id = p_survivor_id
+    AND s.user_id = d.user_id
+    AND COALESCE(s.updated_at, s.created_at) >= COALESCE(d.updated_at, d.created_at);
+  DELETE FROM reviews s
+  USING reviews d
+  WHERE s.book_catalog_id = p_survivor_id
+    AND d.book_catalog_id = p_duplicate_id
+    AND d.user_id = s.user_id;
+  UPDATE reviews SET book_catalog_id = p_survivor_id WHERE book_catalog_id = p_duplicate_id;
+  GET DIAGNOSTICS v_reviews = ROW_COUNT;
+
+  UPDATE book_holds d
+  SET status = 'cancelled', updated_at = NOW()
+  FROM book_holds s
+  WHERE d.book_catalog_id = p_duplicate_id
+    AND s.book_catalog_id = p_survivor_id
+    AND s.family_id = d.family_id
+    AND d.status IN ('waiting', 'claimable')
+    AND s.status IN ('waiting', 'claimable');
+  UPDATE book_holds SET book_catalog_id = p_survivor_id, updated_at = NOW() WHERE book_catalog_id = p_duplicate_id;
+  GET DIAGNOSTICS v_holds = ROW_COUNT;
+
+  -- Delete first: isbn is unique, so the survivor can only take the duplicate's ISBN afterwards
+  DELETE FROM book_catalog WHERE id = p_duplicate_id;
+
+  UPDATE book_catalog
+  SET title_hebrew = COALESCE(NULLIF(title_hebrew, ''), v_duplicate.title_hebrew),
+      author = COALESCE(NULLIF(author, ''), v_duplicate.author),
+      author_hebrew = COALESCE(NULLIF(author_hebrew, ''), v_duplicate.author_hebrew),
+      isbn = COALESCE(NULLIF(isbn, ''), v_duplicate.isbn),
+      publisher = COALESCE(NULLIF(publisher, ''), v_duplicate.publisher),
+      year_published = COALESCE(year_published, v_duplicate.year_published),
+      genre = COALESCE(NULLIF(genre, ''), v_duplicate.genre),
+      age_level = COALESCE(NULLIF(age_level, ''), v_duplicate.age_level),
+      pages = COALESCE(pages, v_duplicate.pages),
+      summary = COALESCE(NULLIF(summary, ''), v_duplicate.summary),
+      cover_image_url = COALESCE(NULLIF(cover_image_url, ''), v_duplicate.cover_image_url),
+      series = COALESCE(NULLIF(series, ''), v_duplicate.series),
+      series_number = COALESCE(series_number, v_duplicate.series_number),
+      updated_at = NOW()
+  WHERE id = p_survivor_id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', p_survivor_id,
+    'duplicate_id', p_duplicate_id,
+    'copies', v_copies,
+    'likes', v_likes,
+    'reviews', v_reviews,
+    'holds', v_holds
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION merge_catalog_books IS 'Merge a duplicate book_catalog record into the survivor: moves family_books, likes, reviews and holds, fills empty fields, deletes the duplicate';
@@ -0,0 +1,135 @@
+-- Migration: Works vs. editions
+-- Purpose: Group book_catalog records (editions - a specific ISBN, translation or publisher) under an abstract work
+-- Date: 2026-10-18
+--
+-- A book_catalog row is one edition. Editions of the same book (the Hebrew translation and the
+-- English original, reprints by another publisher) share a book_works row, and likes, reviews and
+-- recommendations roll up to the work instead of being split between editions.
+--
+-- Every edition always has a work: existing rows get one work each, new rows get one on insert,
+-- and admins group editions under one work (POST /api/catalog/works/link). A work left without
+-- editions (after linking or merging) is deleted.
+
+CREATE TABLE IF NOT EXISTS book_works (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(500) NOT NULL,
+  title_hebrew VARCHAR(500),
+  author VARCHAR(255),
+  author_hebrew VARCHAR(255),
+  series VARCHAR(255),
+  series_number INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE book_catalog
+ADD COLUMN IF NOT EXISTS work_id UUID REFERENCES book_works(id) ON DELETE SET NULL;
+
+-- Editions of a work
+-- Used in: db.works.getEditions, get_likes_counts
+CREATE INDEX IF NOT EXISTS idx_book_catalog_work_id ON book_catalog(work_id);
+
+-- Backfill: each existing record is its own work until an admin links editions
+DO $$
+DECLARE
+  v_book RECORD;
+  v_work_id UUID;
+BEGIN
+  FOR v_book IN SELECT * FROM book_catalog WHERE work_id IS NULL LOOP
+    INSERT INTO book_works (title, title_hebrew, author, author_hebrew, series, series_number, created_at)
+    VALUES (v_book.title, v_book.title_hebrew, v_book.author, v_book.author_hebrew,
+            v_book.series, v_book.series_number, v_book.created_at)
+    RETURNING id INTO v_work_id;
+
+    UPDATE book_catalog SET work_id = v_work_id WHERE id = v_book.id;
+  END LOOP;
+END;
+$$;
+
+-- New catalog records start as their own work
+CREATE OR REPLACE FUNCTION create_work_for_catalog_book()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.work_id IS NULL THEN
+    INSERT INTO book_works (title, title_hebrew, author, author_hebrew, series, series_number)
+    VALUES (NEW.title, NEW.title_hebrew, NEW.author, NEW.author_hebrew, NEW.series, NEW.series_number)
+    RETURNING id INTO NEW.work_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_book_catalog_create_work ON book_catalog;
+CREATE TRIGGER trg_book_catalog_create_work
+  BEFORE INSERT ON book_catalog
+  FOR EACH ROW EXECUTE FUNCTION create_work_for_catalog_book();
+
+-- Drop works whose last edition moved to another work or was merged away
+CREATE OR REPLACE FUNCTION delete_empty_book_work()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.work_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM book_catalog WHERE work_id = OLD.work_id) THEN
+    DELETE FROM book_works WHERE id = OLD.work_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_book_catalog_delete_empty_work ON book_catalog;
+CREATE TRIGGER trg_book_catalog_delete_empty_work
+  AFTER UPDATE OF work_id OR DELETE ON book_catalog
+  FOR EACH ROW EXECUTE FUNCTION delete_empty_book_work();
+
+-- Like counts roll up to the work: each requested edition gets the number of users
+-- who liked any edition of its work (a user who liked two editions counts once)
+CREATE OR REPLACE FUNCTION get_likes_counts(catalog_ids uuid[])
+RETURNS TABLE (
+  book_catalog_id uuid,
+  like_count bigint
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    requested.id AS book_catalog_id,
+    COUNT(DISTINCT l.user_id)::bigint AS like_count
+  FROM book_catalog requested
+  JOIN book_catalog edition ON edition.work_id = requested.work_id
+  JOIN likes l ON l.book_catalog_id = edition.id
+  WHERE requested.id = ANY(catalog_ids)
+  GROUP BY requested.id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Which of the requested editions the user liked, through any edition of the same work
+CREATE OR REPLACE FUNCTION get_user_liked_works(p_user_id uuid, catalog_ids uuid[])
+RETURNS TABLE (
+  book_catalog_id uuid
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT requested.id
+  FROM book_catalog requested
+  JOIN book_catalog edition ON edition.work_id = requested.work_id
+  JOIN likes l ON l.book_catalog_id = edition.id
+  WHERE requested.id = ANY(catalog_ids)
+    AND l.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Enable RLS
+ALTER TABLE book_works ENABLE ROW LEVEL SECURITY;
+
+-- The catalog is shared by the whole community
+DROP POLICY IF EXISTS "Anyone can view works" ON book_works;
+CREATE POLICY "Anyone can view works" ON book_works FOR SELECT
+    USING (true);
+
+COMMENT ON TABLE book_works IS 'Abstract work (the book itself); book_catalog rows are its editions - translations, reprints, other ISBNs';
+COMMENT ON COLUMN book_catalog.work_id IS 'The work this edition belongs to; likes, reviews and recommendations roll up to it';
+COMMENT ON FUNCTION get_likes_counts IS 'Like count per requested catalog book, counting distinct users across all editions of its work';
+COMMENT ON FUNCTION get_user_liked_works IS 'Requested catalog books whose work the user liked through any edition';
@@ -0,0 +1,216 @@
+-- Migration: Authors with Hebrew/English aliases
+-- Purpose: Link catalog books to author records so one person's books aren't split by spelling
+-- Date: 2026-10-18
+--
+-- book_catalog.author / author_hebrew stay as typed; book_catalog.author_id points at the author.
+-- Every spelling seen for an author (either script) is an alias, matched after normalization
+-- (case, punctuation such as "J.K." or geresh, extra spaces), so the next book with any known
+-- spelling links to the same author. Admins add aliases to join spellings that don't match
+-- (e.g. "רולינג" to J.K. Rowling) - POST /api/authors/:id/aliases.
+
+CREATE TABLE IF NOT EXISTS authors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  name_hebrew VARCHAR(255),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS author_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  author_id UUID NOT NULL REFERENCES authors(id) ON DELETE CASCADE,
+  alias VARCHAR(255) NOT NULL,
+  normalized_alias VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Aliases of an author (author page)
+CREATE INDEX IF NOT EXISTS idx_author_aliases_author_id ON author_aliases(author_id);
+
+ALTER TABLE book_catalog
+ADD COLUMN IF NOT EXISTS author_id UUID REFERENCES authors(id) ON DELETE SET NULL;
+
+-- Books by an author (author page, recommendations)
+CREATE INDEX IF NOT EXISTS idx_book_catalog_author_id ON book_catalog(author_id);
+
+-- Lowercase, drop punctuation, collapse whitespace; NULL for empty names
+-- and for the "unknown author" placeholder bulk add uses
+CREATE OR REPLACE FUNCTION normalize_author_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN normalized IN ('', 'לא ידוע', 'unknown') THEN NULL ELSE normalized END
+  FROM (
+    SELECT trim(regexp_replace(
+      regexp_replace(lower(COALESCE(p_name, '')), '[^[:alnum:][:space:]]', '', 'g'),
+      '\s+', ' ', 'g'
+    )) AS normalized
+  ) n;
+$$;
+
+-- Link a catalog book to its author by its author / author_hebrew spellings,
+-- creating the author on first sight; returns the author id (NULL when the book has no author)
+CREATE OR REPLACE FUNCTION link_catalog_author(p_book_catalog_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_book book_catalog%ROWTYPE;
+  v_names TEXT[];
+  v_name TEXT;
+  v_author_id UUID;
+  v_hebrew_name TEXT;
+BEGIN
+  SELECT * INTO v_book FROM book_catalog WHERE id = p_book_catalog_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT array_agg(DISTINCT normalize_author_name(spelling))
+  INTO v_names
+  FROM unnest(ARRAY[v_book.author, v_book.author_hebrew]) AS spelling
+  WHERE normalize_author_name(spelling) IS NOT NULL;
+
+  IF v_names IS NULL THEN
+    UPDATE book_catalog SET author_id = NULL WHERE id = p_book_catalog_id AND author_id IS NOT NULL;
+    RETURN NULL;
+  END IF;
+
+  -- Bulk add links books in parallel; don't create the same new author twice
+  FOREACH v_name IN ARRAY v_names LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('author_alias:' || v_name));
+  END LOOP;
+
+  SELECT author_id INTO v_author_id
+  FROM author_aliases
+  WHERE normalized_alias = ANY(v_names)
+  ORDER BY created_at
+  LIMIT 1;
+
+  v_hebrew_name := CASE
+    WHEN v_book.author_hebrew ~ '[א-ת]' THEN trim(v_book.author_hebrew)
+    WHEN v_book.author ~ '[א-ת]' THEN trim(v_book.author)
+  END;
+
+  IF v_author_id IS NULL THEN
+    INSERT INTO authors (name, name_hebrew)
+    VALUES (COALESCE(NULLIF(trim(v_book.author), ''), trim(v_book.author_hebrew)), v_hebrew_name)
+    RETURNING id INTO v_author_id;
+  ELSIF v_hebrew_name IS NOT NULL THEN
+    UPDATE authors SET name_hebrew = v_hebrew_name, updated_at = NOW()
+    WHERE id = v_author_id AND name_hebrew IS NULL;
+  END IF;
+
+  -- Both spellings become aliases, so the next book in either script links here
+  INSERT INTO author_aliases (author_id, alias, normalized_alias)
+  SELECT DISTINCT ON (normalize_author_name(spelling)) v_author_id, trim(spelling), normalize_author_name(spelling)
+  FROM unnest(ARRAY[v_book.author, v_book.author_hebrew]) AS spelling
+  WHERE normalize_author_name(spelling) IS NOT NULL
+  ON CONFLICT (normalized_alias) DO NOTHING;
+
+  UPDATE book_catalog SET author_id = v_author_id
+  WHERE id = p_book_catalog_id AND author_id IS DISTINCT FROM v_author_id;
+
+  RETURN v_author_id;
+END;
+$$;
+
+-- Add a spelling to an author (moving it from another author if needed) and relink the books
+-- written with it; an author left with no aliases and no books is deleted. Returns books relinked.
+CREATE OR REPLACE FUNCTION add_author_alias(p_author_id UUID, p_alias TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_normalized TEXT := normalize_author_name(p_alias);
+  v_previous_author_id UUID;
+  v_books INTEGER;
+BEGIN
+  IF v_normalized IS NULL THEN
+    RAISE EXCEPTION 'Alias is empty' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM authors WHERE id = p_author_id) THEN
+    RAISE EXCEPTION 'Author not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('author_alias:' || v_normalized));
+
+  SELECT author_id INTO v_previous_author_id FROM author_aliases WHERE normalized_alias = v_normalized;
+
+  INSERT INTO author_aliases (author_id, alias, normalized_alias)
+  VALUES (p_author_id, trim(p_alias), v_normalized)
+  ON CONFLICT (normalized_alias) DO UPDATE SET author_id = EXCLUDED.author_id, alias = EXCLUDED.alias;
+
+  UPDATE book_catalog SET author_id = p_author_id, updated_at = NOW()
+  WHERE (normalize_author_name(author) = v_normalized OR normalize_author_name(author_hebrew) = v_normalized)
+    AND author_id IS DISTINCT FROM p_author_id;
+  GET DIAGNOSTICS v_books = ROW_COUNT;
+
+  IF v_previous_author_id IS NOT NULL AND v_previous_author_id <> p_author_id THEN
+    DELETE FROM authors a
+    WHERE a.id = v_previous_author_id
+      AND NOT EXISTS (SELECT 1 FROM author_aliases WHERE author_id = a.id)
+      AND NOT EXISTS (SELECT 1 FROM book_catalog WHERE author_id = a.id);
+  END IF;
+
+  RETURN v_books;
+END;
+$$;
+
+-- Backfill: link every existing catalog book
+DO $$
+BEGIN
+  PERFORM link_catalog_author(id) FROM book_catalog WHERE author_id IS NULL ORDER BY created_at;
+END;
+$$;
+
+-- Expose author_id to the app (columns appended to the view from migration 001)
+CREATE OR REPLACE VIEW books_view AS
+SELECT
+    fb.id,
+    fb.family_id,
+    bc.title,
+    bc.title_hebrew,
+    bc.author,
+    bc.author_hebrew,
+    bc.isbn,
+    bc.publisher,
+    bc.year_published as publish_year,
+    bc.genre,
+    bc.age_level as age_range,
+    bc.pages,
+    bc.summary as description,
+    bc.cover_image_url,
+    bc.series,
+    bc.series_number,
+    fb.status,
+    fb.condition,
+    fb.notes,
+    fb.created_at,
+    fb.updated_at,
+    bc.id as book_catalog_id,
+    bc.author_id
+FROM family_books fb
+JOIN book_catalog bc ON fb.book_catalog_id = bc.id;
+
+-- Enable RLS
+ALTER TABLE authors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE author_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Authors are part of the shared catalog
+DROP POLICY IF EXISTS "Anyone can view authors" ON authors;
+CREATE POLICY "Anyone can view authors" ON authors FOR SELECT
+    USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view author aliases" ON author_aliases;
+CREATE POLICY "Anyone can view author aliases" ON author_aliases FOR SELECT
+    USING (true);
+
+COMMENT ON TABLE authors IS 'Author of catalog books; spellings in both scripts are author_aliases';
+COMMENT ON TABLE author_aliases IS 'Known spellings of an author, unique after normalize_author_name()';
+COMMENT ON COLUMN book_catalog.author_id IS 'Linked author (link_catalog_author); author / author_hebrew keep the spelling as typed';
+COMMENT ON FUNCTION link_catalog_author IS 'Link a catalog book to its author by author / author_hebrew, creating the author and aliases on first sight';
+COMMENT ON FUNCTION add_author_alias IS 'Add a spelling to an author and relink the books written with it';
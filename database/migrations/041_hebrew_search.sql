@@ -0,0 +1,89 @@
+-- Migration: Hebrew-aware catalog search
+-- Purpose: Search the catalog by a normalized, trigram-indexed text of titles, authors and series
+-- Date: 2026-10-18
+--
+-- Searching with ilike '%q%' on title / author misses niqqud, final letters (ך/כ, ם/מ, ן/נ, ף/פ, ץ/צ),
+-- gershayim vs. quotes (צה"ל / צה״ל) and the Hebrew title / author columns. book_catalog.search_text
+-- holds every searchable field after normalize_hebrew_search(), and search_catalog() ranks exact and
+-- prefix title matches first, then substring matches, then trigram (typo tolerant) matches.
+--
+-- services/hebrewSearch.js normalizes the same way to highlight the matches in results.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lowercase, drop niqqud and cantillation, final letters to regular form, drop geresh / gershayim /
+-- quotes (so abbreviations match either way), other punctuation to spaces, collapse whitespace
+CREATE OR REPLACE FUNCTION normalize_hebrew_search(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      translate(
+        regexp_replace(replace(lower(COALESCE(p_text, '')), '־', ' '), '[֑-ׇ]', '', 'g'),
+        'ךםןףץ׳״''"`',
+        'כמנפצ'
+      ),
+      '[^[:alnum:][:space:]]', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+ALTER TABLE book_catalog
+ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (
+  normalize_hebrew_search(
+    COALESCE(title, '') || ' ' || COALESCE(title_hebrew, '') || ' ' ||
+    COALESCE(author, '') || ' ' || COALESCE(author_hebrew, '') || ' ' ||
+    COALESCE(series, '')
+  )
+) STORED;
+
+-- Substring (LIKE '%q%') and word similarity (<%) lookups
+-- Used in: search_catalog
+CREATE INDEX IF NOT EXISTS idx_book_catalog_search_text
+ON book_catalog USING GIN (search_text gin_trgm_ops);
+
+-- Ranked catalog search; p_family_id limits results to books the family owns
+CREATE OR REPLACE FUNCTION search_catalog(p_query TEXT, p_family_id UUID DEFAULT NULL, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  book_catalog_id UUID,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+-- A typo in a short word drops word similarity well below the 0.6 default
+SET pg_trgm.word_similarity_threshold = 0.5
+AS $$
+DECLARE
+  v_query TEXT := normalize_hebrew_search(p_query);
+BEGIN
+  IF v_query = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    bc.id AS book_catalog_id,
+    (CASE
+      WHEN v_query IN (normalize_hebrew_search(bc.title), normalize_hebrew_search(bc.title_hebrew)) THEN 3
+      WHEN normalize_hebrew_search(bc.title) LIKE v_query || '%'
+        OR normalize_hebrew_search(bc.title_hebrew) LIKE v_query || '%' THEN 2
+      WHEN bc.search_text LIKE '%' || v_query || '%' THEN 1
+      ELSE 0
+    END + word_similarity(v_query, bc.search_text))::REAL AS rank
+  FROM book_catalog bc
+  WHERE (bc.search_text LIKE '%' || v_query || '%' OR v_query <% bc.search_text)
+    AND (
+      p_family_id IS NULL
+      OR EXISTS (SELECT 1 FROM family_books fb WHERE fb.book_catalog_id = bc.id AND fb.family_id = p_family_id)
+    )
+  ORDER BY rank DESC, bc.title
+  LIMIT p_limit;
+END;
+$$;
+
+COMMENT ON FUNCTION normalize_hebrew_search IS 'Search form of a text: no niqqud, regular final letters, no quotes or geresh, lowercase';
+COMMENT ON COLUMN book_catalog.search_text IS 'Normalized title, Hebrew title, author, Hebrew author and series (normalize_hebrew_search) for search_catalog';
+COMMENT ON FUNCTION search_catalog IS 'Catalog books matching a query, ranked: exact title, title prefix, substring, then typo-tolerant trigram matches';
@@ -0,0 +1,80 @@
+-- Migration: Book lookup cache
+-- Purpose: Cache external book metadata lookups (Simania, Open Library, ...) for the API and the edge functions
+-- Date: 2026-10-18
+--
+-- Bulk detection, "refresh book" and the add-book search all look books up by title / author / ISBN,
+-- often the same one again seconds later. book_lookup_cache keeps each answer, including "nothing found"
+-- (for a shorter time), keyed by the normalized lookup - see services/lookupCache.js for the keys.
+-- get_book_lookup() returns an unexpired entry and counts the hit or miss in book_lookup_metrics.
+
+CREATE TABLE IF NOT EXISTS book_lookup_cache (
+    cache_key TEXT PRIMARY KEY,
+    lookup_type TEXT NOT NULL CHECK (lookup_type IN ('details', 'search', 'isbn')),
+    result JSONB,
+    found BOOLEAN NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_lookup_cache_expires_at ON book_lookup_cache(expires_at);
+
+-- Hits / misses per day and lookup type
+CREATE TABLE IF NOT EXISTS book_lookup_metrics (
+    day DATE NOT NULL DEFAULT CURRENT_DATE,
+    lookup_type TEXT NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    negative_hits INTEGER NOT NULL DEFAULT 0,
+    misses INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (day, lookup_type)
+);
+
+-- The unexpired entry for a key (no row on a miss); counts the outcome
+CREATE OR REPLACE FUNCTION get_book_lookup(
+  p_cache_key TEXT,
+  p_lookup_type TEXT
+)
+RETURNS TABLE (result JSONB, found BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_entry book_lookup_cache%ROWTYPE;
+  v_hit BOOLEAN;
+BEGIN
+  UPDATE book_lookup_cache c
+  SET hit_count = c.hit_count + 1,
+      last_hit_at = NOW()
+  WHERE c.cache_key = p_cache_key
+    AND c.expires_at > NOW()
+  RETURNING c.* INTO v_entry;
+  v_hit := FOUND;
+
+  INSERT INTO book_lookup_metrics AS m (day, lookup_type, hits, negative_hits, misses)
+  VALUES (
+    CURRENT_DATE,
+    p_lookup_type,
+    CASE WHEN v_hit AND v_entry.found THEN 1 ELSE 0 END,
+    CASE WHEN v_hit AND NOT v_entry.found THEN 1 ELSE 0 END,
+    CASE WHEN v_hit THEN 0 ELSE 1 END
+  )
+  ON CONFLICT (day, lookup_type) DO UPDATE
+  SET hits = m.hits + EXCLUDED.hits,
+      negative_hits = m.negative_hits + EXCLUDED.negative_hits,
+      misses = m.misses + EXCLUDED.misses;
+
+  IF v_hit THEN
+    RETURN QUERY SELECT v_entry.result, v_entry.found;
+  END IF;
+END;
+$$;
+
+-- Only the service role reads and writes the cache
+ALTER TABLE book_lookup_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE book_lookup_metrics ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE book_lookup_cache IS 'External book metadata lookups by normalized title/author, query or ISBN; found = false caches "nothing found"';
+COMMENT ON TABLE book_lookup_metrics IS 'Lookup cache hits, "nothing found" hits and misses per day and lookup type';
+COMMENT ON FUNCTION get_book_lookup IS 'Unexpired cache entry for a key (no row on a miss); counts the hit or miss in book_lookup_metrics';
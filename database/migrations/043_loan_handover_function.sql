@@ -0,0 +1,155 @@
+-- Migration: Atomic loan hand-over and locked-down loan functions
+-- Purpose: Hand a requested copy over in one transaction, and keep the loan functions to the API
+-- Date: 2026-10-18
+--
+-- Handing over an approved request updated the loan and then the copy in a second call, the same
+-- divergence 032 fixed for creating and returning loans. handover_loan() does both under the copy's
+-- row lock.
+--
+-- The loan functions are SECURITY DEFINER, so anyone allowed to call them bypasses RLS. They are
+-- only called by the API with the service role key: execute is revoked from everyone else and the
+-- search_path is pinned. create_loan() no longer takes the owner family from the caller - it is the
+-- family that owns the copy.
+
+-- Replaced below without p_owner_family_id
+DROP FUNCTION IF EXISTS create_loan(UUID, UUID, UUID, UUID, UUID, TIMESTAMPTZ, TEXT);
+
+-- Create an active loan and mark the copy on_loan
+-- Used in: db.loans.createActive (POST /api/loans)
+-- p_id is the client-generated loan id; calling again with the same id returns the existing loan
+-- with created = false instead of failing, so the client can safely retry
+CREATE OR REPLACE FUNCTION create_loan(
+  p_id UUID,
+  p_family_book_id UUID,
+  p_borrower_family_id UUID,
+  p_requester_user_id UUID,
+  p_due_date TIMESTAMPTZ,
+  p_notes TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_copy family_books%ROWTYPE;
+  v_loan loans%ROWTYPE;
+BEGIN
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO v_loan FROM loans WHERE id = p_id;
+    IF FOUND THEN
+      IF v_loan.family_book_id <> p_family_book_id OR v_loan.borrower_family_id <> p_borrower_family_id THEN
+        RAISE EXCEPTION 'Loan id is already used by another loan' USING ERRCODE = 'P0001';
+      END IF;
+      RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'created', false);
+    END IF;
+  END IF;
+
+  SELECT * INTO v_copy FROM family_books WHERE id = p_family_book_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Book not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_copy.status = 'unavailable' THEN
+    RAISE EXCEPTION 'Book is not available for lending' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM loans
+    WHERE family_book_id = p_family_book_id
+      AND status IN ('active', 'overdue')
+  ) THEN
+    RAISE EXCEPTION 'Book is currently on loan' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO loans (
+    id, family_book_id, borrower_family_id, owner_family_id, requester_user_id,
+    status, request_date, approved_date, due_date, notes
+  )
+  VALUES (
+    COALESCE(p_id, gen_random_uuid()), p_family_book_id, p_borrower_family_id, v_copy.family_id, p_requester_user_id,
+    'active', NOW(), NOW(), p_due_date, p_notes
+  )
+  RETURNING * INTO v_loan;
+
+  UPDATE family_books
+  SET status = 'on_loan',
+      updated_at = NOW()
+  WHERE id = p_family_book_id;
+
+  RETURN jsonb_build_object('loan', to_jsonb(v_loan), 'created', true);
+END;
+$$;
+
+-- Hand a requested copy to the borrower: the loan becomes active and the copy on_loan
+-- Used in: db.loans.handOver (POST /api/loans/:id/handover, PUT /api/loans/:id with status 'active')
+CREATE OR REPLACE FUNCTION handover_loan(
+  p_loan_id UUID,
+  p_due_date TIMESTAMPTZ
+)
+RETURNS loans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan loans%ROWTYPE;
+  v_copy family_books%ROWTYPE;
+BEGIN
+  SELECT * INTO v_loan FROM loans WHERE id = p_loan_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loan not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_loan.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Cannot hand over a loan with status %', v_loan.status USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_copy FROM family_books WHERE id = v_loan.family_book_id FOR UPDATE;
+
+  IF v_copy.status = 'unavailable' THEN
+    RAISE EXCEPTION 'Book is not available for lending' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM loans
+    WHERE family_book_id = v_loan.family_book_id
+      AND status IN ('active', 'overdue')
+  ) THEN
+    RAISE EXCEPTION 'Book is currently on loan' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE loans
+  SET status = 'active',
+      approved_date = COALESCE(approved_date, NOW()),
+      due_date = COALESCE(p_due_date, due_date),
+      updated_at = NOW()
+  WHERE id = v_loan.id
+  RETURNING * INTO v_loan;
+
+  UPDATE family_books
+  SET status = 'on_loan',
+      updated_at = NOW()
+  WHERE id = v_loan.family_book_id;
+
+  RETURN v_loan;
+END;
+$$;
+
+ALTER FUNCTION return_loan(UUID, TIMESTAMPTZ) SET search_path = public;
+ALTER FUNCTION cancel_loan(UUID) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_loan(UUID, UUID, UUID, UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION handover_loan(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION return_loan(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_loan(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_loan(UUID, UUID, UUID, UUID, TIMESTAMPTZ, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION handover_loan(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION return_loan(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION cancel_loan(UUID) TO service_role;
+
+COMMENT ON FUNCTION create_loan IS 'Creates an active loan and marks the copy on_loan in one transaction; idempotent per loan id';
+COMMENT ON FUNCTION handover_loan IS 'Makes a requested loan active and marks the copy on_loan in one transaction';
@@ -0,0 +1,26 @@
+-- Migration: Keep the SECURITY DEFINER functions to the API
+-- Purpose: Stop signed-in users from calling catalog, pass-on and notification functions directly
+-- Date: 2026-10-18
+--
+-- These functions run as their owner and bypass RLS, and by default anyone with the anon key could
+-- call them through PostgREST - e.g. merge any two catalog books or notify any family. The API
+-- calls them with the service role key and checks permissions first, so execute is revoked from
+-- everyone else. The search_path is pinned so a caller can't shadow the tables they use.
+
+ALTER FUNCTION merge_catalog_books(UUID, UUID) SET search_path = public;
+ALTER FUNCTION pass_on_loan(UUID, TIMESTAMPTZ) SET search_path = public;
+ALTER FUNCTION notify_family(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, UUID) SET search_path = public;
+ALTER FUNCTION link_catalog_author(UUID) SET search_path = public;
+ALTER FUNCTION add_author_alias(UUID, TEXT) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_catalog_books(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION pass_on_loan(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_family(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION link_catalog_author(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION add_author_alias(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION merge_catalog_books(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION pass_on_loan(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION notify_family(UUID, TEXT, TEXT, TEXT, TEXT, JSONB, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION link_catalog_author(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION add_author_alias(UUID, TEXT) TO service_role;
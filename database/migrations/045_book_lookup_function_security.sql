@@ -0,0 +1,11 @@
+-- Migration: Keep get_book_lookup() to the service role
+-- Purpose: The lookup cache is only read through the API and the edge functions
+-- Date: 2026-10-18
+--
+-- get_book_lookup() is SECURITY DEFINER, so it reads book_lookup_cache past its RLS and writes
+-- book_lookup_metrics. Like the tables, it is left to the service role, with a pinned search_path.
+
+ALTER FUNCTION get_book_lookup(TEXT, TEXT) SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_book_lookup(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_book_lookup(TEXT, TEXT) TO service_role;
@@ -0,0 +1,20 @@
+-- Migration: Indexes for paging the books list from a cursor
+-- Purpose: Let GET /api/books read a page starting at its cursor instead of every matching copy
+-- Date: 2026-10-18
+--
+-- db.books.getListPage continues after the last book of the previous page with
+-- WHERE (sort value, id) > (cursor) ORDER BY ... LIMIT, which only stays cheap when an index
+-- has the same order.
+
+-- Sorted by title: catalog books by (title, id)
+-- Used in: db.books.getListPage with mode 'title'
+CREATE INDEX IF NOT EXISTS idx_book_catalog_title_id
+ON book_catalog(title, id);
+
+-- Sorted by update: copies newest first, ties by catalog book and copy
+-- Used in: db.books.getListPage with mode 'updated'
+CREATE INDEX IF NOT EXISTS idx_family_books_updated_catalog
+ON family_books(updated_at DESC, book_catalog_id, id);
+
+COMMENT ON INDEX idx_book_catalog_title_id IS 'Keyset paging of the books list by title';
+COMMENT ON INDEX idx_family_books_updated_catalog IS 'Keyset paging of the books list by last update';
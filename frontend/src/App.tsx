@@ -25,6 +25,11 @@ import EditBook from './pages/EditBook'
 import LoansDashboard from './pages/LoansDashboard'
 import Recommendations from './pages/Recommendations'
 import SearchBooks from './pages/SearchBooks'
+import Notifications from './pages/Notifications'
+import CatalogDuplicates from './pages/CatalogDuplicates'
+import AuthorPage from './pages/AuthorPage'
+import SeriesPage from './pages/SeriesPage'
+import MySeries from './pages/MySeries'
 
 // Create RTL cache
 const cacheRtl = createCache({
@@ -70,11 +75,16 @@ function AppContent() {
             <Route path="/books/:id" element={user ? <BookDetails /> : <Navigate to="/login" />} />
             <Route path="/books/:id/edit" element={user ? <EditBook /> : <Navigate to="/login" />} />
             <Route path="/search" element={user ? <SearchBooks /> : <Navigate to="/login" />} />
+            <Route path="/authors/:id" element={user ? <AuthorPage /> : <Navigate to="/login" />} />
+            <Route path="/series" element={user ? <MySeries /> : <Navigate to="/login" />} />
+            <Route path="/series/:name" element={user ? <SeriesPage /> : <Navigate to="/login" />} />
             <Route path="/loans" element={user ? <LoansDashboard /> : <Navigate to="/login" />} />
             <Route path="/recommendations" element={user ? <Recommendations /> : <Navigate to="/login" />} />
             <Route path="/family" element={user ? <FamilyDashboard /> : <Navigate to="/login" />} />
             <Route path="/family/members" element={user ? <FamilyMembers /> : <Navigate to="/login" />} />
+            <Route path="/catalog/duplicates" element={user ? <CatalogDuplicates /> : <Navigate to="/login" />} />
             <Route path="/profile" element={user ? <Profile /> : <Navigate to="/login" />} />
+            <Route path="/notifications" element={user ? <Notifications /> : <Navigate to="/login" />} />
           </Routes>
         </Box>
       </Box>
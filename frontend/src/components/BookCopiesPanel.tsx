@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useBookCopies } from '../hooks/useBooks';
+import { useAddBookCopy } from '../hooks/useBookMutations';
+import { BOOK_CONDITION_LABELS } from './LoanConditionFields';
+import type { BookCondition, BookCopy } from '../types';
+
+interface BookCopiesPanelProps {
+  // The copy being viewed (any family_books id of the book)
+  bookId: string;
+}
+
+const copyStatus = (copy: BookCopy) => {
+  if (copy.loan) {
+    const dueDate = copy.loan.dueDate ? ` עד ${new Date(copy.loan.dueDate).toLocaleDateString('he-IL')}` : '';
+    return { label: `מושאל ל${copy.loan.borrowerFamily?.name || 'משפחה אחרת'}${dueDate}`, color: 'warning' as const };
+  }
+  if (copy.status === 'available') return { label: 'זמין', color: 'success' as const };
+  return { label: 'לא זמין', color: 'default' as const };
+};
+
+/**
+ * The family's copies of a book - condition, notes and loan state per copy,
+ * and adding another copy
+ */
+export default function BookCopiesPanel({ bookId }: BookCopiesPanelProps) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useBookCopies(bookId);
+  const [adding, setAdding] = useState(false);
+  const [condition, setCondition] = useState<BookCondition | ''>('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const addCopy = useAddBookCopy({
+    onMutate: () => setError(''),
+    onError: (err) => setError(err.message || 'שגיאה בהוספת העותק'),
+  });
+
+  const handleAdd = () => {
+    addCopy.mutate(
+      { bookId, condition: condition || null, notes: notes.trim() || null },
+      {
+        onSuccess: () => {
+          setAdding(false);
+          setCondition('');
+          setNotes('');
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return <CircularProgress size={24} />;
+  }
+
+  const copies = data?.copies || [];
+
+  return (
+    <Box data-testid="book-copies">
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <List dense disablePadding>
+        {copies.map((copy, index) => {
+          const status = copyStatus(copy);
+          const isCurrent = copy.familyBookId === bookId;
+          return (
+            <ListItem
+              key={copy.familyBookId}
+              divider={index < copies.length - 1}
+              secondaryAction={
+                isCurrent ? (
+                  <Chip label="העותק המוצג" size="small" variant="outlined" />
+                ) : (
+                  <Button size="small" onClick={() => navigate(`/books/${copy.familyBookId}`)}>
+                    הצג
+                  </Button>
+                )
+              }
+            >
+              <ListItemText
+                primary={
+                  <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                    <Typography variant="body2" fontWeight={600}>
+                      עותק {index + 1}
+                    </Typography>
+                    <Chip label={status.label} color={status.color} size="small" />
+                    {copy.condition && (
+                      <Typography variant="body2" color="text.secondary">
+                        מצב: {BOOK_CONDITION_LABELS[copy.condition]}
+                      </Typography>
+                    )}
+                  </Box>
+                }
+                secondary={copy.notes || undefined}
+              />
+            </ListItem>
+          );
+        })}
+      </List>
+
+      {adding ? (
+        <Box sx={{ display: 'flex', gap: 2, mt: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel id="copy-condition-label">מצב העותק</InputLabel>
+            <Select
+              labelId="copy-condition-label"
+              label="מצב העותק"
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as BookCondition | '')}
+            >
+              <MenuItem value="">לא צוין</MenuItem>
+              {(Object.keys(BOOK_CONDITION_LABELS) as BookCondition[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {BOOK_CONDITION_LABELS[value]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            label="הערות"
+            placeholder="למשל: העותק של נועה"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            sx={{ flexGrow: 1 }}
+          />
+          <Button variant="contained" onClick={handleAdd} disabled={addCopy.isPending}>
+            {addCopy.isPending ? <CircularProgress size={20} /> : 'הוסף'}
+          </Button>
+          <Button onClick={() => setAdding(false)} disabled={addCopy.isPending}>
+            ביטול
+          </Button>
+        </Box>
+      ) : (
+        <Button startIcon={<AddIcon />} onClick={() => setAdding(true)} sx={{ mt: 1 }}>
+          הוסף עותק נוסף
+        </Button>
+      )}
+    </Box>
+  );
+}
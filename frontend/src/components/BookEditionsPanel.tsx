@@ -0,0 +1,69 @@
+import { Box, Button, Chip, List, ListItem, ListItemText, Typography } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import type { BookEdition } from '../types';
+
+interface BookEditionsPanelProps {
+  editions: BookEdition[];
+}
+
+const editionDetails = (edition: BookEdition) =>
+  [edition.publisher, edition.yearPublished, edition.isbn && `ISBN ${edition.isbn}`].filter(Boolean).join(' · ');
+
+/**
+ * Other editions of the same work in the community - translations, reprints by other publishers
+ */
+export default function BookEditionsPanel({ editions }: BookEditionsPanelProps) {
+  const navigate = useNavigate();
+
+  return (
+    <List dense disablePadding data-testid="book-editions">
+      {editions.map((edition, index) => (
+        <ListItem
+          key={edition.catalogId}
+          divider={index < editions.length - 1}
+          secondaryAction={
+            edition.isCurrent ? (
+              <Chip label="המהדורה המוצגת" size="small" variant="outlined" />
+            ) : (
+              edition.familyBookId && (
+                <Button size="small" onClick={() => navigate(`/books/${edition.familyBookId}`)}>
+                  הצג
+                </Button>
+              )
+            )
+          }
+        >
+          <ListItemText
+            primary={
+              <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                <Typography variant="body2" fontWeight={600}>
+                  {edition.titleHebrew || edition.title}
+                </Typography>
+                {edition.titleHebrew && edition.title !== edition.titleHebrew && (
+                  <Typography variant="body2" color="text.secondary" dir="auto">
+                    {edition.title}
+                  </Typography>
+                )}
+                {edition.ownedByViewer && <Chip label="שלנו" size="small" color="primary" />}
+                {edition.totalCopies > 0 ? (
+                  <Chip
+                    label={
+                      edition.availableCopies > 0
+                        ? `${edition.availableCopies} מתוך ${edition.totalCopies} זמינים`
+                        : 'כל העותקים מושאלים'
+                    }
+                    color={edition.availableCopies > 0 ? 'success' : 'warning'}
+                    size="small"
+                  />
+                ) : (
+                  <Chip label="אין עותקים בקהילה" size="small" />
+                )}
+              </Box>
+            }
+            secondary={editionDetails(edition) || undefined}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+}
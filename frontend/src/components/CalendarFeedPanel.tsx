@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Paper, TextField, Typography } from '@mui/material';
+import { ContentCopy as ContentCopyIcon, Event as EventIcon } from '@mui/icons-material';
+import { useCalendarFeed, useCreateCalendarFeed, useDeleteCalendarFeed } from '../hooks/useCalendarFeed';
+
+/**
+ * Subscribe link for the loan due date calendar (.ics), so due and return dates
+ * show up in the family's phone calendar and stay updated
+ */
+export default function CalendarFeedPanel() {
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = useCalendarFeed();
+  const onError = (err: Error) => setError(err.message || 'שגיאה בעדכון קישור היומן');
+  const createFeed = useCreateCalendarFeed({ onMutate: () => setError(''), onError });
+  const deleteFeed = useDeleteCalendarFeed({ onMutate: () => setError(''), onError });
+
+  const feed = data?.feed;
+  const httpsUrl = feed ? `${window.location.origin}${feed.path}` : '';
+  const webcalUrl = httpsUrl.replace(/^https?:/, 'webcal:');
+  const pending = createFeed.isPending || deleteFeed.isPending;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(httpsUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('לא ניתן להעתיק - סמנו את הקישור והעתיקו ידנית');
+    }
+  };
+
+  const handleReplace = () => {
+    if (window.confirm('יומנים שכבר נרשמו לקישור הנוכחי יפסיקו להתעדכן. ליצור קישור חדש?')) {
+      createFeed.mutate();
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 3 }} data-testid="calendar-feed">
+      <Typography variant="subtitle1" gutterBottom>
+        הוספה ליומן בטלפון
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        תאריכי ההחזרה של הספרים שהשאלתם ושאלתם יופיעו ביומן ויתעדכנו כשהשאלה מוארכת או מוחזרת
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ my: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <CircularProgress size={20} />
+      ) : feed ? (
+        <Box>
+          <TextField
+            fullWidth
+            size="small"
+            value={httpsUrl}
+            slotProps={{ input: { readOnly: true } }}
+            onFocus={(e) => e.target.select()}
+            sx={{ my: 1, direction: 'ltr' }}
+          />
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+            <Button variant="contained" size="small" startIcon={<EventIcon />} href={webcalUrl}>
+              הוסף ליומן
+            </Button>
+            <Button size="small" startIcon={<ContentCopyIcon />} onClick={handleCopy}>
+              {copied ? 'הועתק' : 'העתק קישור'}
+            </Button>
+            <Button size="small" onClick={handleReplace} disabled={pending}>
+              צור קישור חדש
+            </Button>
+            <Button size="small" color="error" onClick={() => deleteFeed.mutate()} disabled={pending}>
+              בטל
+            </Button>
+          </Box>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            הקישור אישי - כל מי שמחזיק בו יכול לראות את ההשאלות של המשפחה
+          </Typography>
+        </Box>
+      ) : (
+        <Button variant="outlined" size="small" startIcon={<EventIcon />} onClick={() => createFeed.mutate()} disabled={pending}>
+          צור קישור ליומן
+        </Button>
+      )}
+    </Paper>
+  );
+}
@@ -22,6 +22,7 @@ import { useNavigate } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
 import { useUser } from '../hooks/useUser'
 import LikeButton from './LikeButton'
+import HighlightedText from './HighlightedText'
 import type { CatalogBook, BookLoanSummary } from '../types'
 
 interface CatalogBookCardProps {
@@ -57,7 +58,10 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
   
   const primaryFamilyBookId = useMemo(() => getPrimaryFamilyBookId(book), [book])
   const viewerLoan = book.viewerContext.borrowedLoan
-  const viewerOwnedCopy = book.viewerContext.ownedCopies[0]
+  const ownedCopies = book.viewerContext.ownedCopies
+  const loanedCopies = ownedCopies.filter((copy) => copy.loan)
+  // The copy to lend next - the first one on the shelf
+  const lendableCopy = ownedCopies.find((copy) => !copy.loan && copy.status === 'available')
 
   const handleNavigate = () => {
     if (primaryFamilyBookId) {
@@ -65,10 +69,10 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
     }
   }
 
-  const handleMarkReturned = () => {
-    if (!viewerOwnedCopy?.loan || !onMarkReturned) return
-    console.log('[CatalogBookCard.handleMarkReturned] Loan ID:', viewerOwnedCopy.loan.id, 'Full loan:', viewerOwnedCopy.loan);
-    onMarkReturned({ book, loan: viewerOwnedCopy.loan })
+  const handleMarkReturned = (loan: BookLoanSummary) => {
+    if (!onMarkReturned) return
+    console.log('[CatalogBookCard.handleMarkReturned] Loan ID:', loan.id, 'Full loan:', loan);
+    onMarkReturned({ book, loan })
   }
 
   // const handleLoanSuccess = (loan?: any) => {
@@ -79,9 +83,9 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
   // }
 
   const handleCreateLoan = () => {
-    if (onCreateLoan) {
+    if (onCreateLoan && lendableCopy) {
       onCreateLoan({
-        id: primaryFamilyBookId, // Use family_book_id, not catalog book id
+        id: lendableCopy.familyBookId, // Use family_book_id, not catalog book id
         title: book.titleHebrew || book.title || '',
         author: book.authorHebrew || book.author || ''
       })
@@ -125,11 +129,17 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
               minHeight: '2.5em',
             }}
           >
-            {book.title || book.titleHebrew || 'ספר ללא שם'}
+            {book.title ? (
+              <HighlightedText text={book.title} ranges={book.highlights?.title} />
+            ) : book.titleHebrew ? (
+              <HighlightedText text={book.titleHebrew} ranges={book.highlights?.titleHebrew} />
+            ) : (
+              'ספר ללא שם'
+            )}
           </Typography>
           {book.author && (
             <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-              {book.author}
+              <HighlightedText text={book.author} ranges={book.highlights?.author} />
             </Typography>
           )}
           <Stack direction="row" spacing={0.5} flexWrap="wrap" sx={{ gap: 0.5, mb: 1 }}>
@@ -143,38 +153,42 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
           <Stack direction="row" spacing={0.5} flexWrap="wrap" sx={{ gap: 0.5 }}>
             <Chip label={`${book.stats.availableCopies}/${book.stats.totalCopies}`} size="small" color={book.stats.availableCopies > 0 ? 'success' : 'default'} />
             {book.viewerContext.owns && (
-              <Chip label="שלי" size="small" color="primary" />
+              <Chip label={ownedCopies.length > 1 ? `שלי × ${ownedCopies.length}` : 'שלי'} size="small" color="primary" />
             )}
             {viewerLoan && (
               <Chip label="שאלתי" size="small" color="info" />
             )}
+            {!book.viewerContext.owns && !viewerLoan && book.stats.totalCopies > 0 && book.stats.availableCopies === 0 && (
+              <Chip label="רשימת המתנה" size="small" color="warning" variant="outlined" />
+            )}
           </Stack>
         </CardContent>
       </CardActionArea>
 
       <CardContent sx={{ pt: 0, pb: 1, flexGrow: 1, display: 'flex', flexDirection: 'column', justifyContent: 'flex-end' }}>
-        {book.viewerContext.owns && viewerOwnedCopy && (
-          <Box sx={{ mb: 1 }}>
-            {viewerOwnedCopy.loan ? (
-              <Stack spacing={0.5}>
+        {book.viewerContext.owns && ownedCopies.length > 0 && (
+          <Stack spacing={0.5} sx={{ mb: 1 }}>
+            {loanedCopies.map((copy) => copy.loan && (
+              <Stack key={copy.familyBookId} spacing={0.5}>
                 <Typography variant="caption" color="warning.main" fontWeight={600}>
                   <bdi>
-                    מושאל ל: {viewerOwnedCopy.loan.borrowerFamily?.name || 'טוען...'}
-                    {viewerOwnedCopy.loan.dueDate && ` (עד ${formatDate(viewerOwnedCopy.loan.dueDate)})`}
+                    מושאל ל: {copy.loan.borrowerFamily?.name || 'טוען...'}
+                    {copy.loan.dueDate && ` (עד ${formatDate(copy.loan.dueDate)})`}
                   </bdi>
                 </Typography>
                 <Button
                   variant="outlined"
                   color="primary"
                   startIcon={<ReturnIcon />}
-                  onClick={handleMarkReturned}
+                  onClick={() => handleMarkReturned(copy.loan!)}
                   fullWidth
                   size="small"
                 >
                   סמן כהוחזר
                 </Button>
               </Stack>
-            ) : (
+            ))}
+            {lendableCopy && (
               <Button
                 variant="contained"
                 color="success"
@@ -185,10 +199,10 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
                 fullWidth
                 size="small"
               >
-                השאל ספר
+                {loanedCopies.length > 0 ? 'השאל עותק נוסף' : 'השאל ספר'}
               </Button>
             )}
-          </Box>
+          </Stack>
         )}
 
         {viewerLoan && (
@@ -316,21 +330,17 @@ function CatalogBookCard({ book, onMarkReturned, onLoanSuccess: _onLoanSuccess,
 export default React.memo(CatalogBookCard, (prevProps, nextProps) => {
   // Only re-render if book data or callbacks actually changed
   
-  // Check loan status changes
-  const prevOwnedCopy = prevProps.book.viewerContext.ownedCopies[0];
-  const nextOwnedCopy = nextProps.book.viewerContext.ownedCopies[0];
-  const prevHasLoan = !!prevOwnedCopy?.loan;
-  const nextHasLoan = !!nextOwnedCopy?.loan;
-  const prevLoanId = prevOwnedCopy?.loan?.id;
-  const nextLoanId = nextOwnedCopy?.loan?.id;
+  // Check loan status changes on any of the viewer's copies
+  const copiesKey = (book: CatalogBook) =>
+    book.viewerContext.ownedCopies.map((copy) => `${copy.familyBookId}:${copy.loan?.id ?? ''}`).join(',');
   
   return (
     prevProps.book.catalogId === nextProps.book.catalogId &&
     prevProps.book.stats.totalLikes === nextProps.book.stats.totalLikes &&
     prevProps.book.stats.userLiked === nextProps.book.stats.userLiked &&
     prevProps.book.stats.availableCopies === nextProps.book.stats.availableCopies &&
-    prevHasLoan === nextHasLoan &&
-    prevLoanId === nextLoanId &&
+    JSON.stringify(prevProps.book.highlights) === JSON.stringify(nextProps.book.highlights) &&
+    copiesKey(prevProps.book) === copiesKey(nextProps.book) &&
     prevProps.onMarkReturned === nextProps.onMarkReturned &&
     prevProps.onLoanSuccess === nextProps.onLoanSuccess &&
     prevProps.onCreateLoan === nextProps.onCreateLoan
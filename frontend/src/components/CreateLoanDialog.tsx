@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -16,7 +16,11 @@ import {
   Typography
 } from '@mui/material';
 import { useFamilies } from '../hooks/useFamilies';
-import { useCreateLoan } from '../hooks/useLoanMutations';
+import { useLendingPolicyCheck } from '../hooks/useLoans';
+import { useCreateLoan, useRecordLoanCondition } from '../hooks/useLoanMutations';
+import { addDays, DEFAULT_LOAN_PERIOD_DAYS } from '../utils/loanDates';
+import LoanConditionFields, { EMPTY_CONDITION, type ConditionFormValue } from './LoanConditionFields';
+import type { LendingPolicyViolation } from '../types';
 
 interface CreateLoanDialogProps {
   open: boolean;
@@ -31,6 +35,22 @@ interface CreateLoanDialogProps {
   onSuccess: (loan?: any) => void;
 }
 
+// Hebrew explanation of a lending policy rule the loan would break
+const describeViolation = (violation: LendingPolicyViolation) => {
+  switch (violation.code) {
+    case 'borrower_not_allowed':
+      return 'המשפחה שלכם משאילה רק למשפחות מהרשימה שהוגדרה';
+    case 'max_loans_per_borrower':
+      return `למשפחה זו כבר ${violation.current} ספרים שלכם (מקסימום ${violation.limit})`;
+    case 'max_loan_period':
+      return `תקופת ההשאלה המרבית היא ${violation.limit} ימים`;
+    case 'children_books_need_kids':
+      return 'ספרי ילדים מושאלים רק למשפחות עם ילדים';
+    default:
+      return violation.message;
+  }
+};
+
 export default function CreateLoanDialog({
   open,
   onClose,
@@ -42,9 +62,33 @@ export default function CreateLoanDialog({
   const [selectedFamilyId, setSelectedFamilyId] = useState('');
   const [notes, setNotes] = useState('');
   const [error, setError] = useState('');
+  const [loanPeriodDays, setLoanPeriodDays] = useState<number | ''>(DEFAULT_LOAN_PERIOD_DAYS);
+  const [checkout, setCheckout] = useState<ConditionFormValue>(EMPTY_CONDITION);
 
   // Use cached families data with stale-while-revalidate
   const { data: familiesData, isLoading: loadingFamilies } = useFamilies();
+
+  // Owner family's default loan period
+  const defaultLoanPeriod = useMemo(() => {
+    const ownerFamily = familiesData?.find((f) => String(f.id) === userFamilyId);
+    return ownerFamily?.default_loan_period_days || DEFAULT_LOAN_PERIOD_DAYS;
+  }, [familiesData, userFamilyId]);
+
+  useEffect(() => {
+    if (open) {
+      setLoanPeriodDays(defaultLoanPeriod);
+    }
+  }, [open, defaultLoanPeriod]);
+
+  // Memoized so the policy check isn't re-run on every render
+  const dueDate = useMemo(() => (loanPeriodDays ? addDays(loanPeriodDays) : null), [loanPeriodDays]);
+
+  const { data: policyCheck } = useLendingPolicyCheck(
+    open ? book.id : undefined,
+    selectedFamilyId || undefined,
+    dueDate
+  );
+  const violations = policyCheck?.violations || [];
   
   // Filter out current user's family
   const families = useMemo(() => {
@@ -61,9 +105,26 @@ export default function CreateLoanDialog({
     return new Set(Object.keys(nameCounts).filter(name => nameCounts[name] > 1));
   }, [familiesData]);
 
+  const recordCondition = useRecordLoanCondition();
+
+  // One loan id per dialog session: resubmitting after a network error can't create a second loan
+  const loanIdRef = useRef<string | null>(null);
+
   // Use mutation hook for creating loan
   const createLoan = useCreateLoan({
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
+      // Condition is recorded once the loan exists; a failure here doesn't undo the loan
+      try {
+        await recordCondition.mutateAsync({
+          loanId: data.loan.id,
+          kind: 'checkout',
+          condition: checkout.condition || 'good',
+          notes: notes || undefined,
+          photos: checkout.photos,
+        });
+      } catch (err) {
+        console.error('[CreateLoanDialog] Could not record checkout condition:', err);
+      }
       onSuccess(data);
       handleClose();
     },
@@ -78,9 +139,15 @@ export default function CreateLoanDialog({
       return;
     }
 
+    if (!loanPeriodDays || loanPeriodDays < 1 || loanPeriodDays > 365) {
+      setError('תקופת ההשאלה חייבת להיות בין 1 ל-365 ימים');
+      return;
+    }
+
     setError('');
-    // Generate UUID once, before mutation starts
-    const loanId = crypto.randomUUID();
+    // Generate UUID once, before mutation starts, and reuse it if the user retries
+    loanIdRef.current ??= crypto.randomUUID();
+    const loanId = loanIdRef.current;
     console.log('[CreateLoanDialog] Generated loan ID:', loanId, 'for family_book_id:', book.id);
     
     createLoan.mutate({
@@ -89,6 +156,7 @@ export default function CreateLoanDialog({
       borrower_family_id: selectedFamilyId,
       owner_family_id: userFamilyId,
       requester_user_id: userId,
+      due_date: dueDate || undefined,
       notes: notes || null,
     });
   };
@@ -97,6 +165,9 @@ export default function CreateLoanDialog({
     setSelectedFamilyId('');
     setNotes('');
     setError('');
+    setLoanPeriodDays(defaultLoanPeriod);
+    setCheckout(EMPTY_CONDITION);
+    loanIdRef.current = null;
     onClose();
   };
 
@@ -136,6 +207,22 @@ export default function CreateLoanDialog({
             </Select>
           </FormControl>
 
+          <TextField
+            fullWidth
+            type="number"
+            label="תקופת השאלה (ימים)"
+            value={loanPeriodDays}
+            onChange={(e) => setLoanPeriodDays(e.target.value === '' ? '' : Number(e.target.value))}
+            disabled={createLoan.isPending}
+            inputProps={{ min: 1, max: 365 }}
+            helperText={
+              dueDate
+                ? `להחזרה עד ${new Date(dueDate).toLocaleDateString('he-IL')}`
+                : `ברירת המחדל של המשפחה: ${defaultLoanPeriod} ימים`
+            }
+            sx={{ mb: 3 }}
+          />
+
           <TextField
             fullWidth
             label="הערות (אופציונלי)"
@@ -144,7 +231,26 @@ export default function CreateLoanDialog({
             value={notes}
             onChange={(e) => setNotes(e.target.value)}
             disabled={createLoan.isPending}
-            placeholder="הערות על מצב הספר, תאריך החזרה מצופה וכו'"
+            placeholder="הערות על מצב הספר וכו'"
+            sx={{ mb: 3 }}
+          />
+
+          {violations.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }} data-testid="lending-policy-violations">
+              ההשאלה אינה תואמת את מדיניות ההשאלה של המשפחה:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {violations.map((violation) => (
+                  <li key={violation.code}>{describeViolation(violation)}</li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          <LoanConditionFields
+            value={checkout}
+            onChange={setCheckout}
+            disabled={createLoan.isPending || recordCondition.isPending}
+            showNotes={false}
           />
 
           {error && (
@@ -161,8 +267,8 @@ export default function CreateLoanDialog({
         <Button
           onClick={handleSubmit}
           variant="contained"
-          disabled={createLoan.isPending || !selectedFamilyId}
-          startIcon={createLoan.isPending ? <CircularProgress size={20} /> : null}
+          disabled={createLoan.isPending || recordCondition.isPending || !selectedFamilyId || violations.length > 0}
+          startIcon={createLoan.isPending || recordCondition.isPending ? <CircularProgress size={20} /> : null}
         >
           השאל
         </Button>
@@ -41,7 +41,7 @@ export interface DetectedBook {
   expanded?: boolean;
   series?: string;
   series_number?: number;
-  source?: 'ai' | 'manual';
+  source?: 'ai' | 'manual' | 'barcode';
   alreadyOwned?: boolean;
   jobId?: string;
 }
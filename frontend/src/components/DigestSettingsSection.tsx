@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { useDigestSettings, useUpdateDigestSettings } from '../hooks/useNotifications';
+import type { DigestFrequency } from '../types';
+
+const FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'לא לשלוח',
+  daily: 'פעם ביום',
+  weekly: 'פעם בשבוע',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// Suggested window when quiet hours are turned on
+const DEFAULT_QUIET_START = 21;
+const DEFAULT_QUIET_END = 8;
+
+/**
+ * Reminder digest email settings - how often to get the email of books due soon
+ * or overdue, and hours when it shouldn't arrive
+ */
+export default function DigestSettingsSection() {
+  const [error, setError] = useState('');
+  const { data, isLoading } = useDigestSettings();
+  const updateDigest = useUpdateDigestSettings({
+    onMutate: () => setError(''),
+    onError: (err) => setError(err.message || 'שגיאה בשמירת הגדרות התזכורות'),
+  });
+
+  const digest = data?.digest;
+  const hasQuietHours = digest?.quiet_hours_start != null && digest?.quiet_hours_end != null;
+
+  if (isLoading || !digest) {
+    return <CircularProgress size={20} />;
+  }
+
+  return (
+    <Box data-testid="digest-settings">
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        מייל מרוכז עם הספרים שצריך להחזיר בימים הקרובים או שמועד ההחזרה שלהם עבר - גם ספרים ששאלתם וגם ספרים שהשאלתם
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      <FormControl fullWidth sx={{ mb: 2 }}>
+        <InputLabel id="digest-frequency-label">תדירות</InputLabel>
+        <Select
+          labelId="digest-frequency-label"
+          label="תדירות"
+          value={digest.frequency}
+          disabled={updateDigest.isPending}
+          onChange={(e) => updateDigest.mutate({ frequency: e.target.value as DigestFrequency })}
+        >
+          {(Object.keys(FREQUENCY_LABELS) as DigestFrequency[]).map((frequency) => (
+            <MenuItem key={frequency} value={frequency}>
+              {FREQUENCY_LABELS[frequency]}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {digest.frequency !== 'off' && (
+        <>
+          <FormControlLabel
+            label="שעות שקטות"
+            control={
+              <Switch
+                checked={hasQuietHours}
+                disabled={updateDigest.isPending}
+                onChange={(e) =>
+                  updateDigest.mutate(
+                    e.target.checked
+                      ? { quiet_hours_start: DEFAULT_QUIET_START, quiet_hours_end: DEFAULT_QUIET_END }
+                      : { quiet_hours_start: null, quiet_hours_end: null }
+                  )
+                }
+              />
+            }
+          />
+
+          {hasQuietHours && (
+            <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel id="quiet-start-label">משעה</InputLabel>
+                <Select
+                  labelId="quiet-start-label"
+                  label="משעה"
+                  value={digest.quiet_hours_start ?? ''}
+                  disabled={updateDigest.isPending}
+                  onChange={(e) =>
+                    updateDigest.mutate({
+                      quiet_hours_start: Number(e.target.value),
+                      quiet_hours_end: digest.quiet_hours_end,
+                    })
+                  }
+                >
+                  {HOURS.map((hour) => (
+                    <MenuItem key={hour} value={hour}>{formatHour(hour)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth size="small">
+                <InputLabel id="quiet-end-label">עד שעה</InputLabel>
+                <Select
+                  labelId="quiet-end-label"
+                  label="עד שעה"
+                  value={digest.quiet_hours_end ?? ''}
+                  disabled={updateDigest.isPending}
+                  onChange={(e) =>
+                    updateDigest.mutate({
+                      quiet_hours_start: digest.quiet_hours_start,
+                      quiet_hours_end: Number(e.target.value),
+                    })
+                  }
+                >
+                  {HOURS.map((hour) => (
+                    <MenuItem key={hour} value={hour}>{formatHour(hour)}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
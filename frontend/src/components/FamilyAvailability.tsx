@@ -9,12 +9,14 @@ import {
   IconButton,
   CircularProgress,
   Alert,
+  Button,
 } from '@mui/material';
-import {
-  Phone as PhoneIcon,
-  WhatsApp as WhatsAppIcon,
-} from '@mui/icons-material';
+import { Phone as PhoneIcon } from '@mui/icons-material';
 import { apiCall } from '../utils/apiCall';
+import { useRequestLoan } from '../hooks/useLoanMutations';
+import WhatsAppMessageButton from './WhatsAppMessageButton';
+import { BOOK_CONDITION_LABELS } from './LoanConditionFields';
+import type { BookCondition } from '../types';
 
 interface Family {
   id: string;
@@ -27,18 +29,27 @@ interface FamilyAvailability {
   familyBookId: string;
   family: Family;
   status: string;
+  condition?: BookCondition | null;
   isAvailable: boolean;
   currentLoan: any | null;
 }
 
 interface FamilyAvailabilityProps {
   bookId: string;
+  viewerFamilyId?: string | null;
+  // Used in the pre-filled WhatsApp message
+  bookTitle?: string;
 }
 
-export default function FamilyAvailability({ bookId }: FamilyAvailabilityProps) {
+export default function FamilyAvailability({ bookId, viewerFamilyId, bookTitle = '' }: FamilyAvailabilityProps) {
   const [families, setFamilies] = useState<FamilyAvailability[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [requestedCopies, setRequestedCopies] = useState<Set<string>>(new Set());
+
+  const requestLoan = useRequestLoan({
+    onError: (err) => setError(err.message || 'שגיאה בשליחת הבקשה'),
+  });
 
   useEffect(() => {
     fetchFamilies();
@@ -58,12 +69,8 @@ export default function FamilyAvailability({ bookId }: FamilyAvailabilityProps)
     }
   };
 
-  const handleContactClick = (phone: string, isWhatsApp: boolean) => {
-    if (isWhatsApp) {
-      window.open(`https://wa.me/${phone.replace(/[^0-9]/g, '')}`, '_blank');
-    } else {
-      window.location.href = `tel:${phone}`;
-    }
+  const handleCallClick = (phone: string) => {
+    window.location.href = `tel:${phone}`;
   };
 
   if (loading) {
@@ -105,20 +112,38 @@ export default function FamilyAvailability({ bookId }: FamilyAvailabilityProps)
               <ListItem
                 key={item.familyBookId}
                 secondaryAction={
-                  <Box>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    {viewerFamilyId && item.family.id !== viewerFamilyId && (
+                      <Button
+                        size="small"
+                        variant={requestedCopies.has(item.familyBookId) ? 'text' : 'outlined'}
+                        disabled={requestLoan.isPending || requestedCopies.has(item.familyBookId)}
+                        onClick={() =>
+                          requestLoan.mutate(
+                            { family_book_id: item.familyBookId },
+                            {
+                              onSuccess: () => {
+                                setRequestedCopies((prev) => new Set(prev).add(item.familyBookId));
+                              },
+                            }
+                          )
+                        }
+                      >
+                        {requestedCopies.has(item.familyBookId) ? 'הבקשה נשלחה' : 'בקש לשאול'}
+                      </Button>
+                    )}
                     {item.family.whatsapp && (
-                      <IconButton
+                      <WhatsAppMessageButton
                         edge="end"
-                        onClick={() => handleContactClick(item.family.whatsapp, true)}
-                        title="שלח הודעה בוואטסאפ"
-                      >
-                        <WhatsAppIcon sx={{ fontSize: 20 }} />
-                      </IconButton>
+                        phone={item.family.whatsapp}
+                        templates={['borrow_request']}
+                        values={{ book: bookTitle, family: item.family.name }}
+                      />
                     )}
                     {item.family.phone && (
                       <IconButton
                         edge="end"
-                        onClick={() => handleContactClick(item.family.phone, false)}
+                        onClick={() => handleCallClick(item.family.phone)}
                         title="התקשר"
                       >
                         <PhoneIcon />
@@ -130,12 +155,19 @@ export default function FamilyAvailability({ bookId }: FamilyAvailabilityProps)
                 <ListItemText
                   primary={item.family.name}
                   secondary={
-                    <Chip
-                      label="זמין"
-                      color="success"
-                      size="small"
-                      sx={{ mt: 0.5 }}
-                    />
+                    <>
+                      <Chip
+                        label="זמין"
+                        color="success"
+                        size="small"
+                        sx={{ mt: 0.5 }}
+                      />
+                      {item.condition && (
+                        <Typography component="span" variant="caption" color="text.secondary" sx={{ mx: 1 }}>
+                          מצב: {BOOK_CONDITION_LABELS[item.condition]}
+                        </Typography>
+                      )}
+                    </>
                   }
                 />
               </ListItem>
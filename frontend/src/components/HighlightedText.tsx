@@ -0,0 +1,43 @@
+import { Fragment } from 'react';
+import { Box } from '@mui/material';
+
+interface HighlightedTextProps {
+  text: string;
+  // [start, end) ranges matched by the search, sorted and not overlapping
+  ranges?: Array<[number, number]>;
+}
+
+/**
+ * Text with the parts that matched a search marked
+ */
+export default function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (!ranges?.length) return <>{text}</>;
+
+  const parts: Array<{ text: string; match: boolean }> = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start < position || end > text.length) continue;
+    if (start > position) parts.push({ text: text.slice(position, start), match: false });
+    parts.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false });
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <Box
+            key={index}
+            component="mark"
+            sx={{ bgcolor: 'warning.light', color: 'inherit', borderRadius: 0.5 }}
+          >
+            {part.text}
+          </Box>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { useHoldQueue, useJoinHoldQueue, useCancelHold, useClaimHold } from '../hooks/useHolds';
+
+interface HoldQueuePanelProps {
+  bookCatalogId: string;
+  viewerFamilyId?: string | null;
+  // Owners see the queue length but cannot join
+  isOwner?: boolean;
+}
+
+const formatDateTime = (dateString?: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleString('he-IL', {
+    day: 'numeric',
+    month: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Hold queue (waitlist) for a catalog book across all owning families
+ */
+export default function HoldQueuePanel({ bookCatalogId, viewerFamilyId, isOwner = false }: HoldQueuePanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [claimed, setClaimed] = useState(false);
+
+  const { data, isLoading } = useHoldQueue(bookCatalogId);
+  const joinQueue = useJoinHoldQueue({
+    onError: (err) => setError(err.message || 'שגיאה בהצטרפות לרשימת ההמתנה'),
+  });
+  const cancelHold = useCancelHold({
+    onError: (err) => setError(err.message || 'שגיאה ביציאה מרשימת ההמתנה'),
+  });
+  const claimHold = useClaimHold({
+    onError: (err) => setError(err.message || 'שגיאה במימוש השמירה'),
+  });
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  const holds = data?.holds || [];
+  const waitingCount = holds.filter((hold) => hold.status === 'waiting').length;
+  const viewerHold = viewerFamilyId ? holds.find((hold) => hold.family_id === viewerFamilyId) : undefined;
+  const clearError = () => setError(null);
+  const busy = joinQueue.isPending || cancelHold.isPending || claimHold.isPending;
+
+  return (
+    <Box data-testid="hold-queue">
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {claimed && (
+        <Alert severity="success" sx={{ mb: 2 }}>
+          הבקשה נשלחה למשפחה המשאילה - ניתן לעקוב אחריה בדף ההשאלות
+        </Alert>
+      )}
+
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        {waitingCount > 0 ? `${waitingCount} משפחות ממתינות לספר` : 'אין משפחות ממתינות לספר'}
+      </Typography>
+
+      {viewerHold?.status === 'claimable' && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mt: 1 }}>
+          <Chip
+            label={`עותק שמור עבורכם עד ${formatDateTime(viewerHold.claim_expires_at)}`}
+            color="success"
+            size="small"
+          />
+          <Button
+            variant="contained"
+            size="small"
+            disabled={busy}
+            onClick={() =>
+              claimHold.mutate(viewerHold.id, {
+                onSuccess: () => {
+                  setError(null);
+                  setClaimed(true);
+                },
+              })
+            }
+          >
+            בקש את הספר
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            disabled={busy}
+            onClick={() => cancelHold.mutate(viewerHold.id, { onSuccess: clearError })}
+          >
+            וותר
+          </Button>
+        </Box>
+      )}
+
+      {viewerHold?.status === 'waiting' && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mt: 1 }}>
+          <Chip
+            label={`מקומכם בתור: ${viewerHold.position} מתוך ${viewerHold.queue_length}`}
+            color="info"
+            size="small"
+            data-testid="hold-queue-position"
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            disabled={busy}
+            onClick={() => cancelHold.mutate(viewerHold.id, { onSuccess: clearError })}
+          >
+            צא מהתור
+          </Button>
+        </Box>
+      )}
+
+      {!viewerHold && !isOwner && viewerFamilyId && (
+        <Button
+          variant="outlined"
+          size="small"
+          disabled={busy}
+          onClick={() => joinQueue.mutate(bookCatalogId, { onSuccess: clearError })}
+          sx={{ mt: 1 }}
+        >
+          הצטרפו לרשימת ההמתנה
+        </Button>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,163 @@
+import { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  InputAdornment,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  QrCodeScanner as ScanIcon,
+  Search as SearchIcon,
+} from '@mui/icons-material';
+import { cleanIsbn, decodeIsbnFromImage } from '../utils/barcode';
+import { lookupIsbn, type BookSearchResult } from '../utils/bookSearch';
+
+interface IsbnScannerProps {
+  onBookFound: (book: BookSearchResult) => void;
+  // Called with the ISBN when the barcode was read but no source knows the book
+  onNotFound?: (isbn: string) => void;
+  // Keep scanning book after book, skipping ISBNs already scanned in this session
+  continuous?: boolean;
+  userId?: string;
+  disabled?: boolean;
+}
+
+type ScanMessage = { severity: 'success' | 'info' | 'warning' | 'error'; text: string };
+
+/**
+ * Scan a book's barcode with the device camera (or type its ISBN) and look it up -
+ * shared catalog first, then the external search providers
+ */
+export default function IsbnScanner({ onBookFound, onNotFound, continuous = false, userId, disabled = false }: IsbnScannerProps) {
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<'decoding' | 'lookup' | null>(null);
+  const [manualIsbn, setManualIsbn] = useState('');
+  const [message, setMessage] = useState<ScanMessage | null>(null);
+  const [scannedIsbns, setScannedIsbns] = useState<string[]>([]);
+
+  const handleIsbn = async (isbn: string) => {
+    if (continuous && scannedIsbns.includes(isbn)) {
+      setMessage({ severity: 'warning', text: `הספר עם ה-ISBN ${isbn} כבר נסרק` });
+      return;
+    }
+
+    setBusy('lookup');
+    try {
+      const book = await lookupIsbn(isbn, userId);
+      setScannedIsbns((prev) => [...prev, isbn]);
+      if (book) {
+        onBookFound(book);
+        setMessage({
+          severity: book.alreadyOwned ? 'info' : 'success',
+          text: book.alreadyOwned ? `"${book.title}" כבר נמצא בספרייה שלכם` : `נמצא: "${book.title}"`,
+        });
+      } else {
+        onNotFound?.(isbn);
+        setMessage({ severity: 'info', text: `לא מצאנו ספר עם ה-ISBN ${isbn}. אפשר למלא את הפרטים ידנית.` });
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same photo (or another from the same camera session) triggers onChange again
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setBusy('decoding');
+    let isbn: string | null = null;
+    try {
+      isbn = await decodeIsbnFromImage(file);
+    } catch (err) {
+      console.error('Barcode decode failed:', err);
+    }
+
+    if (!isbn) {
+      setBusy(null);
+      setMessage({ severity: 'error', text: 'לא זוהה ברקוד של ספר בתמונה. נסו לצלם מקרוב ובתאורה טובה, או הקלידו את ה-ISBN.' });
+      return;
+    }
+    await handleIsbn(isbn);
+  };
+
+  const handleManualSubmit = async () => {
+    const isbn = cleanIsbn(manualIsbn);
+    if (!isbn) {
+      setMessage({ severity: 'error', text: 'ISBN צריך להכיל 10 או 13 ספרות' });
+      return;
+    }
+    setManualIsbn('');
+    setMessage(null);
+    await handleIsbn(isbn);
+  };
+
+  const isDisabled = disabled || busy !== null;
+
+  return (
+    <Box data-testid="isbn-scanner">
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+        <Button
+          variant="contained"
+          startIcon={busy ? <CircularProgress size={18} color="inherit" /> : <ScanIcon />}
+          onClick={() => cameraInputRef.current?.click()}
+          disabled={isDisabled}
+        >
+          {busy === 'decoding'
+            ? 'קורא ברקוד...'
+            : busy === 'lookup'
+              ? 'מחפש ספר...'
+              : continuous && scannedIsbns.length > 0 ? 'סרוק את הספר הבא' : 'סרוק ברקוד'}
+        </Button>
+
+        <TextField
+          size="small"
+          placeholder="או הקלידו ISBN"
+          value={manualIsbn}
+          onChange={(e) => setManualIsbn(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleManualSubmit();
+          }}
+          disabled={isDisabled}
+          inputProps={{ dir: 'ltr', inputMode: 'numeric' }}
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                <IconButton size="small" onClick={handleManualSubmit} disabled={isDisabled || !manualIsbn.trim()}>
+                  <SearchIcon />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+
+        {continuous && scannedIsbns.length > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            נסרקו {scannedIsbns.length} ספרים
+          </Typography>
+        )}
+      </Box>
+
+      {message && (
+        <Alert severity={message.severity} sx={{ mt: 2 }} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+    </Box>
+  );
+}
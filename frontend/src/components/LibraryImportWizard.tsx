@@ -0,0 +1,477 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  FormControl,
+  Grid,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { AutoFixHigh as EnrichIcon, UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useEnrichImportedBooks, useImportBooks, useImportPreview } from '../hooks/useLibraryImport';
+import type {
+  LibraryImportField,
+  LibraryImportFormat,
+  LibraryImportIssue,
+  LibraryImportPreview,
+  LibraryImportResult,
+  LibraryImportRow,
+} from '../types';
+
+const STEPS = ['בחירת קובץ', 'מיפוי עמודות', 'תצוגה מקדימה', 'ייבוא'];
+
+const FORMAT_LABELS: Record<LibraryImportFormat, string> = {
+  'shelf-csv': 'CSV שיוצא מהספרייה שלי',
+  json: 'JSON',
+  goodreads: 'ייצוא מ-Goodreads',
+  csv: 'CSV כללי',
+};
+
+const FIELD_LABELS: Record<LibraryImportField, string> = {
+  title: 'שם הספר',
+  author: 'מחבר',
+  isbn: 'ISBN',
+  series: 'סדרה',
+  series_number: 'מספר בסדרה',
+  genre: "ז'אנר",
+  age_range: 'טווח גילאים',
+  publisher: 'הוצאה לאור',
+  publish_year: 'שנת הוצאה',
+  pages: 'מספר עמודים',
+  cover_image_url: 'תמונת כריכה (קישור)',
+  description: 'תיאור',
+};
+
+const ISSUE_LABELS: Record<LibraryImportIssue, string> = {
+  missing_title: 'חסר שם',
+  invalid_isbn: 'ISBN לא תקין',
+  to_read: 'מדף "רוצה לקרוא"',
+};
+
+const ROWS_PER_PAGE = 50;
+
+interface ImportRow extends LibraryImportRow {
+  selected: boolean;
+  /** Provider the missing fields came from, once enriched */
+  enrichedFrom?: string | null;
+}
+
+type Mapping = LibraryImportPreview['mapping'];
+
+// Books the family owns, books without a title and Goodreads "to-read" books start unselected
+const toImportRows = (rows: LibraryImportRow[]): ImportRow[] =>
+  rows.map((row) => ({
+    ...row,
+    selected: !row.match?.owned && !row.issues.includes('missing_title') && !row.issues.includes('to_read'),
+  }));
+
+/**
+ * Import a library file - the CSV / JSON exports of My Books, a Goodreads export or any CSV -
+ * through column mapping, a preview against the catalog and optional enrichment from the providers
+ */
+export default function LibraryImportWizard() {
+  const navigate = useNavigate();
+  const [activeStep, setActiveStep] = useState(0);
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<LibraryImportFormat | 'auto'>('auto');
+  const [preview, setPreview] = useState<LibraryImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [page, setPage] = useState(0);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<LibraryImportResult | null>(null);
+
+  const previewMutation = useImportPreview();
+  const enrichMutation = useEnrichImportedBooks();
+  const importMutation = useImportBooks();
+
+  const selectedRows = useMemo(() => rows.filter((row) => row.selected), [rows]);
+  // Matched books are added as the catalog book, so only new ones are worth enriching
+  const enrichableRows = useMemo(
+    () => selectedRows.filter((row) => !row.match && row.enrichedFrom === undefined),
+    [selectedRows]
+  );
+  const error = previewMutation.error || enrichMutation.error || importMutation.error;
+
+  const reset = () => {
+    setActiveStep(0);
+    setFile(null);
+    setFormat('auto');
+    setPreview(null);
+    setMapping({});
+    setRows([]);
+    setPage(0);
+    setProgress(null);
+    setResult(null);
+    previewMutation.reset();
+    enrichMutation.reset();
+    importMutation.reset();
+  };
+
+  const handleReadFile = async () => {
+    if (!file) return;
+    let data: LibraryImportPreview;
+    try {
+      data = await previewMutation.mutateAsync({
+        file,
+        format: format === 'auto' ? undefined : format,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } catch {
+      return; // Shown from the mutation's error
+    } finally {
+      setProgress(null);
+    }
+    setPreview(data);
+    setMapping(data.mapping);
+    setRows(toImportRows(data.rows));
+    setPage(0);
+    // Our own exports and Goodreads map themselves; a generic CSV needs the user's mapping
+    setActiveStep(data.format === 'csv' || !data.mapping.title ? 1 : 2);
+  };
+
+  const handleApplyMapping = async () => {
+    if (!file || !preview) return;
+    let data: LibraryImportPreview;
+    try {
+      data = await previewMutation.mutateAsync({
+        file,
+        format: preview.format,
+        mapping,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+    } catch {
+      return;
+    } finally {
+      setProgress(null);
+    }
+    setPreview(data);
+    setRows(toImportRows(data.rows));
+    setPage(0);
+    setActiveStep(2);
+  };
+
+  const toggleRow = (row: number) => {
+    setRows((prev) => prev.map((entry) => (entry.row === row ? { ...entry, selected: !entry.selected } : entry)));
+  };
+
+  const setAllSelected = (selected: boolean) => {
+    setRows((prev) =>
+      prev.map((entry) => ({ ...entry, selected: selected && !entry.issues.includes('missing_title') }))
+    );
+  };
+
+  const handleEnrich = async () => {
+    const targets = enrichableRows;
+    setProgress({ done: 0, total: targets.length });
+    try {
+      const enriched = await enrichMutation.mutateAsync({
+        books: targets.map((row) => row.book),
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      const byRow = new Map(targets.map((row, index) => [row.row, enriched[index]]));
+      setRows((prev) =>
+        prev.map((entry) => {
+          const found = byRow.get(entry.row);
+          return found ? { ...entry, book: found.book, enrichedFrom: found.source } : entry;
+        })
+      );
+    } catch {
+      // Shown from the mutation's error; the books are imported as they are
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    setActiveStep(3);
+    setProgress({ done: 0, total: selectedRows.length });
+    try {
+      const data = await importMutation.mutateAsync({
+        books: selectedRows.map((row) => row.book),
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      setResult(data);
+    } catch {
+      setActiveStep(2);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const statusChip = (row: ImportRow) => {
+    if (row.match?.owned) return <Chip size="small" label="כבר בספרייה" />;
+    if (row.match) return <Chip size="small" color="info" label="קיים בקטלוג" />;
+    return <Chip size="small" color="success" variant="outlined" label="ספר חדש" />;
+  };
+
+  const shownRows = rows.slice(page * ROWS_PER_PAGE, (page + 1) * ROWS_PER_PAGE);
+
+  return (
+    <Box>
+      <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 3 }}>
+        {STEPS.map((label) => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      {progress && (
+        <Box sx={{ mb: 2 }}>
+          <LinearProgress variant="determinate" value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+          <Typography variant="caption" color="text.secondary">
+            {progress.done} / {progress.total}
+          </Typography>
+        </Box>
+      )}
+
+      {activeStep === 0 && (
+        <Stack spacing={2} alignItems="flex-start">
+          <Typography variant="body2" color="text.secondary">
+            ייבוא קובץ CSV או JSON שיוצא מ"הספרים שלי", ייצוא מ-Goodreads או כל קובץ CSV עם עמודה לכל שדה.
+          </Typography>
+          <Button component="label" variant="outlined" startIcon={<UploadFileIcon />}>
+            {file ? file.name : 'בחירת קובץ'}
+            <input
+              type="file"
+              hidden
+              accept=".csv,.json,.txt,text/csv,application/json"
+              onChange={(event) => setFile(event.target.files?.[0] || null)}
+            />
+          </Button>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel id="import-format-label">סוג הקובץ</InputLabel>
+            <Select
+              labelId="import-format-label"
+              label="סוג הקובץ"
+              value={format}
+              onChange={(event) => setFormat(event.target.value as LibraryImportFormat | 'auto')}
+            >
+              <MenuItem value="auto">זיהוי אוטומטי</MenuItem>
+              {(Object.keys(FORMAT_LABELS) as LibraryImportFormat[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {FORMAT_LABELS[value]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="contained" onClick={handleReadFile} disabled={!file || previewMutation.isPending}>
+            {previewMutation.isPending ? 'קורא את הקובץ...' : 'המשך'}
+          </Button>
+        </Stack>
+      )}
+
+      {activeStep === 1 && preview && (
+        <Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            בחרו איזו עמודה בקובץ מכילה כל שדה. שם הספר הוא שדה חובה.
+          </Typography>
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            {(Object.keys(FIELD_LABELS) as LibraryImportField[]).map((field) => (
+              <Grid key={field} size={{ xs: 12, sm: 6, md: 4 }}>
+                <FormControl size="small" fullWidth>
+                  <InputLabel id={`import-field-${field}`}>{FIELD_LABELS[field]}</InputLabel>
+                  <Select
+                    labelId={`import-field-${field}`}
+                    label={FIELD_LABELS[field]}
+                    value={mapping[field] || ''}
+                    onChange={(event) => {
+                      const column = event.target.value;
+                      setMapping((prev) => {
+                        const next = { ...prev };
+                        if (column) next[field] = column;
+                        else delete next[field];
+                        return next;
+                      });
+                    }}
+                  >
+                    <MenuItem value="">
+                      <em>ללא</em>
+                    </MenuItem>
+                    {preview.headers.map((header) => (
+                      <MenuItem key={header} value={header}>
+                        <bdi>{header}</bdi>
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            ))}
+          </Grid>
+          <Stack direction="row" spacing={1}>
+            <Button onClick={reset}>התחלה מחדש</Button>
+            <Button
+              variant="contained"
+              onClick={handleApplyMapping}
+              disabled={!mapping.title || previewMutation.isPending}
+            >
+              {previewMutation.isPending ? 'קורא את הקובץ...' : 'המשך'}
+            </Button>
+          </Stack>
+        </Box>
+      )}
+
+      {activeStep === 2 && preview && (
+        <Box>
+          <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+            <Chip label={FORMAT_LABELS[preview.format]} />
+            <Chip label={`${preview.summary.total} ספרים בקובץ`} />
+            <Chip color="info" label={`${preview.summary.matched} קיימים בקטלוג`} />
+            <Chip label={`${preview.summary.owned} כבר בספרייה`} />
+            <Chip color="primary" label={`${selectedRows.length} נבחרו לייבוא`} />
+          </Stack>
+
+          <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+            <Button size="small" onClick={() => setAllSelected(true)}>
+              בחר הכל
+            </Button>
+            <Button size="small" onClick={() => setAllSelected(false)}>
+              נקה בחירה
+            </Button>
+            <Button
+              size="small"
+              startIcon={<EnrichIcon />}
+              onClick={handleEnrich}
+              disabled={enrichableRows.length === 0 || enrichMutation.isPending}
+            >
+              השלמת פרטים מהמאגרים ({enrichableRows.length})
+            </Button>
+          </Stack>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>שם הספר</TableCell>
+                <TableCell>מחבר</TableCell>
+                <TableCell>סדרה</TableCell>
+                <TableCell>ISBN</TableCell>
+                <TableCell>מצב</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shownRows.map((row) => (
+                <TableRow key={row.row} hover selected={row.selected}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={row.selected}
+                      disabled={row.issues.includes('missing_title')}
+                      onChange={() => toggleRow(row.row)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <bdi>{row.book.title || '—'}</bdi>
+                  </TableCell>
+                  <TableCell>
+                    <bdi>{row.book.author || ''}</bdi>
+                  </TableCell>
+                  <TableCell>
+                    <bdi>
+                      {row.book.series || ''}
+                      {row.book.series && row.book.series_number ? ` #${row.book.series_number}` : ''}
+                    </bdi>
+                  </TableCell>
+                  <TableCell>{row.book.isbn || ''}</TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={0.5} sx={{ flexWrap: 'wrap', gap: 0.5 }}>
+                      {statusChip(row)}
+                      {row.enrichedFrom && (
+                        <Chip size="small" variant="outlined" label={`הושלם מ-${row.enrichedFrom}`} />
+                      )}
+                      {row.issues.map((issue) => (
+                        <Chip key={issue} size="small" color="warning" variant="outlined" label={ISSUE_LABELS[issue]} />
+                      ))}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <TablePagination
+            component="div"
+            count={rows.length}
+            page={page}
+            onPageChange={(_, next) => setPage(next)}
+            rowsPerPage={ROWS_PER_PAGE}
+            rowsPerPageOptions={[ROWS_PER_PAGE]}
+            labelDisplayedRows={({ from, to, count }) => `${from}-${to} מתוך ${count}`}
+          />
+
+          <Stack direction="row" spacing={1} sx={{ mt: 2 }}>
+            <Button onClick={reset}>ביטול</Button>
+            {preview.headers.length > 0 && (
+              <Button onClick={() => setActiveStep(1)} disabled={enrichMutation.isPending}>
+                שינוי מיפוי
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              onClick={handleImport}
+              disabled={selectedRows.length === 0 || enrichMutation.isPending}
+            >
+              ייבוא {selectedRows.length} ספרים
+            </Button>
+          </Stack>
+        </Box>
+      )}
+
+      {activeStep === 3 && (
+        <Box>
+          {importMutation.isPending && (
+            <Typography variant="body2" color="text.secondary">
+              מוסיף את הספרים לספרייה...
+            </Typography>
+          )}
+          {result && (
+            <>
+              <Alert severity={result.failed > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                {`נוספו ${result.added} ספרים`}
+                {result.skipped > 0 && ` · ${result.skipped} דולגו (כבר קיימים)`}
+                {result.failed > 0 && ` · ${result.failed} נכשלו`}
+              </Alert>
+              {result.errors.length > 0 && (
+                <Box sx={{ mb: 2 }}>
+                  {result.errors.map((item, index) => (
+                    <Typography key={index} variant="body2" color="error">
+                      <bdi>{item.book?.title || `ספר ${index + 1}`}</bdi>: {item.error}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+              <Stack direction="row" spacing={1}>
+                <Button variant="contained" onClick={() => navigate('/books')}>
+                  לספרים שלי
+                </Button>
+                <Button onClick={reset}>ייבוא קובץ נוסף</Button>
+              </Stack>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
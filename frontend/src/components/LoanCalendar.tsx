@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react';
+import { Box, Chip, IconButton, List, ListItem, ListItemText, Paper, Tooltip, Typography } from '@mui/material';
+import { ChevronLeft, ChevronRight } from '@mui/icons-material';
+import { isLoanOverdue } from '../utils/loanDates';
+
+interface CalendarLoan {
+  id: string;
+  status: string;
+  owner_family_id: string;
+  due_date?: string | null;
+  return_date?: string | null;
+  actual_return_date?: string | null;
+  family_books?: {
+    book_catalog?: {
+      title?: string;
+      title_hebrew?: string;
+    };
+  };
+  borrower_family?: { name: string } | null;
+  owner_family?: { name: string } | null;
+}
+
+interface LoanCalendarProps {
+  lentLoans: CalendarLoan[];
+  borrowedLoans: CalendarLoan[];
+  // Returned loans, shown on their return date
+  returnedLoans?: CalendarLoan[];
+  viewerFamilyId: string | null;
+}
+
+type EntryKind = 'lent' | 'borrowed' | 'returned';
+
+interface CalendarEntry {
+  loanId: string;
+  kind: EntryKind;
+  date: Date;
+  title: string;
+  familyName: string;
+  overdue: boolean;
+}
+
+const WEEKDAYS = ['א׳', 'ב׳', 'ג׳', 'ד׳', 'ה׳', 'ו׳', 'ש׳'];
+
+const monthFormatter = new Intl.DateTimeFormat('he-IL', { month: 'long', year: 'numeric' });
+const dayFormatter = new Intl.DateTimeFormat('he-IL', { weekday: 'short', day: 'numeric', month: 'short' });
+
+const KIND_COLORS: Record<EntryKind, 'primary' | 'secondary' | 'default'> = {
+  lent: 'primary',
+  borrowed: 'secondary',
+  returned: 'default',
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const bookTitle = (loan: CalendarLoan) =>
+  loan.family_books?.book_catalog?.title_hebrew || loan.family_books?.book_catalog?.title || 'ספר';
+
+const describeEntry = (entry: CalendarEntry) => {
+  if (entry.kind === 'lent') return `${entry.familyName} מחזירים את "${entry.title}"`;
+  if (entry.kind === 'borrowed') return `להחזיר את "${entry.title}" ל${entry.familyName}`;
+  return `"${entry.title}" הוחזר · ${entry.familyName}`;
+};
+
+/**
+ * Month calendar of loan due dates (lent and borrowed) and return dates
+ */
+export default function LoanCalendar({ lentLoans, borrowedLoans, returnedLoans = [], viewerFamilyId }: LoanCalendarProps) {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+
+  const entries = useMemo(() => {
+    const result: CalendarEntry[] = [];
+    for (const loan of lentLoans) {
+      if (!loan.due_date) continue;
+      result.push({
+        loanId: loan.id,
+        kind: 'lent',
+        date: new Date(loan.due_date),
+        title: bookTitle(loan),
+        familyName: loan.borrower_family?.name || 'משפחה',
+        overdue: isLoanOverdue(loan),
+      });
+    }
+    for (const loan of borrowedLoans) {
+      if (!loan.due_date) continue;
+      result.push({
+        loanId: loan.id,
+        kind: 'borrowed',
+        date: new Date(loan.due_date),
+        title: bookTitle(loan),
+        familyName: loan.owner_family?.name || 'משפחה',
+        overdue: isLoanOverdue(loan),
+      });
+    }
+    for (const loan of returnedLoans) {
+      const returnedAt = loan.return_date || loan.actual_return_date;
+      if (!returnedAt) continue;
+      result.push({
+        loanId: loan.id,
+        kind: 'returned',
+        date: new Date(returnedAt),
+        title: bookTitle(loan),
+        familyName: (viewerFamilyId === loan.owner_family_id ? loan.borrower_family?.name : loan.owner_family?.name) || 'משפחה',
+        overdue: false,
+      });
+    }
+    return result.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }, [lentLoans, borrowedLoans, returnedLoans, viewerFamilyId]);
+
+  const entriesByDay = useMemo(() => {
+    const map = new Map<string, CalendarEntry[]>();
+    for (const entry of entries) {
+      const key = dayKey(entry.date);
+      map.set(key, [...(map.get(key) || []), entry]);
+    }
+    return map;
+  }, [entries]);
+
+  // Whole weeks (Sunday first) covering the month
+  const days = useMemo(() => {
+    const start = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+    const lastDay = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const count = Math.ceil((month.getDay() + lastDay.getDate()) / 7) * 7;
+    return Array.from({ length: count }, (_, index) =>
+      new Date(start.getFullYear(), start.getMonth(), start.getDate() + index)
+    );
+  }, [month]);
+
+  const monthEntries = entries.filter(
+    (entry) => entry.date.getFullYear() === month.getFullYear() && entry.date.getMonth() === month.getMonth()
+  );
+  const todayKey = dayKey(new Date());
+
+  const shiftMonth = (delta: number) =>
+    setMonth((current) => new Date(current.getFullYear(), current.getMonth() + delta, 1));
+
+  return (
+    <Box data-testid="loan-calendar">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        {/* RTL: the right arrow goes back */}
+        <IconButton onClick={() => shiftMonth(-1)} aria-label="חודש קודם">
+          <ChevronRight />
+        </IconButton>
+        <Typography variant="h6">{monthFormatter.format(month)}</Typography>
+        <IconButton onClick={() => shiftMonth(1)} aria-label="חודש הבא">
+          <ChevronLeft />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+        <Chip size="small" color="primary" label="השאלתי" />
+        <Chip size="small" color="secondary" label="שאלתי" />
+        <Chip size="small" label="הוחזר" />
+        <Chip size="small" color="error" label="באיחור" />
+      </Box>
+
+      <Paper variant="outlined" sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', overflow: 'hidden' }}>
+        {WEEKDAYS.map((weekday) => (
+          <Box key={weekday} sx={{ p: 0.5, textAlign: 'center', bgcolor: 'action.hover' }}>
+            <Typography variant="caption">{weekday}</Typography>
+          </Box>
+        ))}
+        {days.map((day) => {
+          const key = dayKey(day);
+          const dayEntries = entriesByDay.get(key) || [];
+          const inMonth = day.getMonth() === month.getMonth();
+          return (
+            <Box
+              key={key}
+              sx={{
+                minHeight: { xs: 56, sm: 88 },
+                p: 0.5,
+                borderTop: 1,
+                borderColor: 'divider',
+                opacity: inMonth ? 1 : 0.4,
+                bgcolor: key === todayKey ? 'action.selected' : undefined,
+              }}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {day.getDate()}
+              </Typography>
+              {dayEntries.map((entry) => (
+                <Tooltip key={`${entry.loanId}-${entry.kind}`} title={describeEntry(entry)}>
+                  <Chip
+                    size="small"
+                    label={entry.title}
+                    color={entry.overdue ? 'error' : KIND_COLORS[entry.kind]}
+                    sx={{ display: 'flex', maxWidth: '100%', mt: 0.5, fontSize: '0.7rem' }}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+          );
+        })}
+      </Paper>
+
+      {/* Agenda for the month - easier to read on a phone than the grid */}
+      {monthEntries.length > 0 ? (
+        <List dense sx={{ mt: 2 }}>
+          {monthEntries.map((entry) => (
+            <ListItem key={`${entry.loanId}-${entry.kind}`} disableGutters sx={{ gap: 1 }}>
+              <Chip
+                size="small"
+                color={entry.overdue ? 'error' : KIND_COLORS[entry.kind]}
+                label={dayFormatter.format(entry.date)}
+              />
+              <ListItemText primary={describeEntry(entry)} />
+            </ListItem>
+          ))}
+        </List>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          אין תאריכי החזרה בחודש זה
+        </Typography>
+      )}
+    </Box>
+  );
+}
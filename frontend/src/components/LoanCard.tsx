@@ -4,15 +4,23 @@ import {
   Typography,
   Box,
   Button,
-  IconButton,
   Chip
 } from '@mui/material';
-import { WhatsApp as WhatsAppIcon } from '@mui/icons-material';
+import type { LoanRequestAction } from '../hooks/useLoanMutations';
+import { isLoanOverdue, daysUntilDue } from '../utils/loanDates';
+import LoanRenewalSection from './LoanRenewalSection';
+import LoanPassOnSection from './LoanPassOnSection';
+import LoanConditionSection from './LoanConditionSection';
+import LoanTimeline from './LoanTimeline';
+import WhatsAppMessageButton from './WhatsAppMessageButton';
+import type { LoanRenewal, WhatsAppTemplateKey } from '../types';
 
 interface Loan {
   id: string;
   status: string;
   request_date?: string;
+  approved_date?: string;
+  due_date?: string | null;
   actual_return_date?: string;
   notes?: string;
   family_books?: {
@@ -40,16 +48,40 @@ interface Loan {
     name: string;
     phone: string;
     whatsapp?: string;
+    max_loan_renewals?: number | null;
   };
+  renewals?: LoanRenewal[];
+  owner_family_id?: string;
+  borrower_family_id?: string;
+  pass_on_family_id?: string | null;
+  pass_on_family?: {
+    name: string;
+  } | null;
 }
 
 interface LoanCardProps {
   loan: Loan;
-  type: 'lent' | 'borrowed' | 'history';
+  type: 'lent' | 'borrowed' | 'history' | 'incoming' | 'outgoing';
   onReturn?: (loan: Loan) => void;
+  onRequestAction?: (loan: Loan, action: LoanRequestAction) => void;
+  actionPending?: boolean;
 }
 
-export default function LoanCard({ loan, type, onReturn }: LoanCardProps) {
+// WhatsApp messages offered on each kind of card, most relevant first
+const WHATSAPP_TEMPLATES: Record<LoanCardProps['type'], WhatsAppTemplateKey[]> = {
+  lent: ['due_reminder', 'general'],
+  borrowed: ['return_coordination', 'general'],
+  history: ['return_thanks', 'general'],
+  incoming: ['general'],
+  outgoing: ['borrow_request', 'general'],
+};
+
+const REQUEST_STATUS_CHIPS: Record<string, { label: string; color: 'warning' | 'info' }> = {
+  pending: { label: 'ממתין לאישור', color: 'warning' },
+  approved: { label: 'אושר - ממתין למסירה', color: 'info' },
+};
+
+export default function LoanCard({ loan, type, onReturn, onRequestAction, actionPending = false }: LoanCardProps) {
   // Get book info from either structure
   const bookInfo = loan.family_books?.book_catalog || loan.books;
   const bookTitle = bookInfo?.title_hebrew || bookInfo?.title || 'ספר';
@@ -57,9 +89,12 @@ export default function LoanCard({ loan, type, onReturn }: LoanCardProps) {
   const coverImage = bookInfo?.cover_image_url;
 
   // Get the other family (borrower for lent, owner for borrowed)
-  const otherFamily = type === 'lent' || type === 'history' 
+  const otherFamily = type === 'lent' || type === 'history' || type === 'incoming'
     ? loan.borrower_family 
     : loan.owner_family;
+  const isRequest = type === 'incoming' || type === 'outgoing';
+  const requestChip = isRequest ? REQUEST_STATUS_CHIPS[loan.status] : undefined;
+  const overdue = (type === 'lent' || type === 'borrowed') && isLoanOverdue(loan);
 
   const formatDate = (dateString?: string) => {
     if (!dateString) return '';
@@ -67,20 +102,6 @@ export default function LoanCard({ loan, type, onReturn }: LoanCardProps) {
     return date.toLocaleDateString('he-IL');
   };
 
-  const handleWhatsApp = () => {
-    if (!otherFamily) return;
-    const phone = otherFamily.whatsapp || otherFamily.phone;
-    const cleanPhone = phone.replace(/[^0-9]/g, '');
-    const internationalPhone = cleanPhone.startsWith('972') 
-      ? cleanPhone 
-      : `972${cleanPhone.replace(/^0/, '')}`;
-    
-    const message = encodeURIComponent(
-      `שלום ${otherFamily.name}, לגבי הספר "${bookTitle}"`
-    );
-    window.open(`https://wa.me/${internationalPhone}?text=${message}`, '_blank');
-  };
-
   return (
     <Card sx={{ mb: 2 }}>
       <CardContent>
@@ -129,24 +150,62 @@ export default function LoanCard({ loan, type, onReturn }: LoanCardProps) {
             {otherFamily && (
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                 <Typography variant="body2" color="text.secondary">
-                  {type === 'lent' || type === 'history' ? 'ל:' : 'מ:'} {otherFamily.name}
+                  {type === 'lent' || type === 'history' || type === 'incoming' ? 'ל:' : 'מ:'} {otherFamily.name}
                 </Typography>
-                <IconButton
-                  size="small"
-                  onClick={handleWhatsApp}
-                  sx={{ color: '#25D366' }}
-                >
-                  <WhatsAppIcon sx={{ fontSize: 20 }} />
-                </IconButton>
+                {(otherFamily.whatsapp || otherFamily.phone) && (
+                  <WhatsAppMessageButton
+                    phone={otherFamily.whatsapp || otherFamily.phone}
+                    templates={WHATSAPP_TEMPLATES[type]}
+                    values={{ book: bookTitle, family: otherFamily.name, due_date: loan.due_date }}
+                  />
+                )}
               </Box>
             )}
 
             {loan.request_date && (
               <Typography variant="caption" color="text.secondary" display="block">
-                תאריך השאלה: {formatDate(loan.request_date)}
+                {isRequest ? 'תאריך בקשה' : 'תאריך השאלה'}: {formatDate(loan.request_date)}
               </Typography>
             )}
 
+            {loan.due_date && (type === 'lent' || type === 'borrowed') && (
+              <Typography
+                variant="caption"
+                color={overdue ? 'error' : 'text.secondary'}
+                display="block"
+              >
+                להחזרה עד: {formatDate(loan.due_date)}
+                {!overdue && daysUntilDue(loan.due_date) <= 3 && ` (בעוד ${daysUntilDue(loan.due_date)} ימים)`}
+              </Typography>
+            )}
+
+            {overdue && (
+              <Chip
+                label="באיחור"
+                size="small"
+                color="error"
+                sx={{ mt: 1 }}
+              />
+            )}
+
+            {(type === 'lent' || type === 'borrowed') && (
+              <>
+                <LoanRenewalSection loan={loan} role={type === 'lent' ? 'owner' : 'borrower'} />
+                <LoanPassOnSection loan={loan} role={type === 'lent' ? 'owner' : 'borrower'} />
+                <LoanConditionSection loan={loan} role={type === 'lent' ? 'owner' : 'borrower'} />
+                <LoanTimeline loanId={loan.id} canDispute />
+              </>
+            )}
+
+            {requestChip && (
+              <Chip
+                label={requestChip.label}
+                size="small"
+                color={requestChip.color}
+                sx={{ mt: 1 }}
+              />
+            )}
+
             {loan.actual_return_date && type === 'history' && (
               <Typography variant="caption" color="text.secondary" display="block">
                 תאריך החזרה: {formatDate(loan.actual_return_date)}
@@ -171,6 +230,55 @@ export default function LoanCard({ loan, type, onReturn }: LoanCardProps) {
               </Button>
             )}
 
+            {/* Request actions - owner approves/rejects and hands over, borrower can withdraw */}
+            {type === 'incoming' && onRequestAction && (
+              <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+                {loan.status === 'pending' && (
+                  <Button
+                    variant="contained"
+                    size="small"
+                    disabled={actionPending}
+                    onClick={() => onRequestAction(loan, 'approve')}
+                  >
+                    אשר בקשה
+                  </Button>
+                )}
+                {loan.status === 'approved' && (
+                  <Button
+                    variant="contained"
+                    size="small"
+                    color="success"
+                    disabled={actionPending}
+                    onClick={() => onRequestAction(loan, 'handover')}
+                  >
+                    הספר נמסר
+                  </Button>
+                )}
+                <Button
+                  variant="outlined"
+                  size="small"
+                  color="error"
+                  disabled={actionPending}
+                  onClick={() => onRequestAction(loan, 'reject')}
+                >
+                  דחה
+                </Button>
+              </Box>
+            )}
+
+            {type === 'outgoing' && onRequestAction && (
+              <Button
+                variant="outlined"
+                size="small"
+                color="error"
+                disabled={actionPending}
+                onClick={() => onRequestAction(loan, 'cancel')}
+                sx={{ mt: 2 }}
+              >
+                בטל בקשה
+              </Button>
+            )}
+
             {/* Status Chip for History */}
             {type === 'history' && (
               <Chip
@@ -0,0 +1,136 @@
+import { useRef, type ChangeEvent } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import { PhotoCamera as PhotoCameraIcon } from '@mui/icons-material';
+import type { BookCondition } from '../types';
+
+export const BOOK_CONDITION_LABELS: Record<BookCondition, string> = {
+  new: 'חדש',
+  good: 'טוב',
+  fair: 'סביר',
+  poor: 'גרוע',
+};
+
+export const MAX_CONDITION_PHOTOS = 4;
+
+export interface ConditionFormValue {
+  condition: BookCondition | '';
+  notes: string;
+  photos: File[];
+}
+
+export const EMPTY_CONDITION: ConditionFormValue = { condition: 'good', notes: '', photos: [] };
+
+interface LoanConditionFieldsProps {
+  value: ConditionFormValue;
+  onChange: (value: ConditionFormValue) => void;
+  disabled?: boolean;
+  // Damage reports may leave the condition unset
+  conditionOptional?: boolean;
+  // Hide the notes field when the dialog already has one
+  showNotes?: boolean;
+  notesPlaceholder?: string;
+}
+
+/**
+ * Condition select, notes and photo picker shared by the loan dialogs
+ */
+export default function LoanConditionFields({
+  value,
+  onChange,
+  disabled,
+  conditionOptional,
+  showNotes = true,
+  notesPlaceholder,
+}: LoanConditionFieldsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhotosSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    onChange({ ...value, photos: [...value.photos, ...selected].slice(0, MAX_CONDITION_PHOTOS) });
+    event.target.value = '';
+  };
+
+  const removePhoto = (index: number) => {
+    onChange({ ...value, photos: value.photos.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Box>
+      <FormControl fullWidth sx={{ mb: 2 }}>
+        <InputLabel>מצב הספר</InputLabel>
+        <Select
+          value={value.condition}
+          label="מצב הספר"
+          onChange={(e) => onChange({ ...value, condition: e.target.value as BookCondition | '' })}
+          disabled={disabled}
+        >
+          {conditionOptional && (
+            <MenuItem value="">
+              <em>ללא שינוי</em>
+            </MenuItem>
+          )}
+          {(Object.keys(BOOK_CONDITION_LABELS) as BookCondition[]).map((condition) => (
+            <MenuItem key={condition} value={condition}>
+              {BOOK_CONDITION_LABELS[condition]}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {showNotes && (
+        <TextField
+          fullWidth
+          label="הערות (אופציונלי)"
+          multiline
+          rows={3}
+          value={value.notes}
+          onChange={(e) => onChange({ ...value, notes: e.target.value })}
+          disabled={disabled}
+          placeholder={notesPlaceholder}
+          sx={{ mb: 2 }}
+        />
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        multiple
+        hidden
+        onChange={handlePhotosSelected}
+      />
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<PhotoCameraIcon />}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || value.photos.length >= MAX_CONDITION_PHOTOS}
+        >
+          צרף תמונות
+        </Button>
+        {value.photos.map((photo, index) => (
+          <Chip
+            key={`${photo.name}-${index}`}
+            label={photo.name}
+            size="small"
+            onDelete={disabled ? undefined : () => removePhoto(index)}
+          />
+        ))}
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        עד {MAX_CONDITION_PHOTOS} תמונות (אופציונלי)
+      </Typography>
+    </Box>
+  );
+}
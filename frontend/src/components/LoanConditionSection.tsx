@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemText,
+  Radio,
+  RadioGroup,
+  Typography
+} from '@mui/material';
+import { useLoanConditionRecords } from '../hooks/useLoans';
+import { useReportLoanDamage } from '../hooks/useLoanMutations';
+import LoanConditionFields, { BOOK_CONDITION_LABELS, type ConditionFormValue } from './LoanConditionFields';
+import type { LoanConditionKind } from '../types';
+
+interface LoanConditionSectionProps {
+  loan: {
+    id: string;
+  };
+  role: 'owner' | 'borrower';
+}
+
+const KIND_LABELS: Record<LoanConditionKind, string> = {
+  checkout: 'בהשאלה',
+  checkin: 'בהחזרה',
+  damage: 'דיווח נזק',
+  loss: 'דיווח אובדן',
+};
+
+const EMPTY_REPORT: ConditionFormValue = { condition: '', notes: '', photos: [] };
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('he-IL');
+
+/**
+ * Condition history of a loan (check-out, check-in, damage and loss reports),
+ * plus the owner's damage / loss report dialog
+ */
+export default function LoanConditionSection({ loan, role }: LoanConditionSectionProps) {
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [kind, setKind] = useState<'damage' | 'loss'>('damage');
+  const [report, setReport] = useState<ConditionFormValue>(EMPTY_REPORT);
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useLoanConditionRecords(loan.id, { enabled: historyOpen });
+  const reportDamage = useReportLoanDamage({
+    onError: (err) => setError(err.message || 'שגיאה בשליחת הדיווח'),
+  });
+
+  const records = data?.records || [];
+
+  const handleSubmit = () => {
+    if (kind === 'damage' && !report.notes.trim() && report.photos.length === 0) {
+      setError('יש לתאר את הנזק או לצרף תמונה');
+      return;
+    }
+    reportDamage.mutate(
+      {
+        loanId: loan.id,
+        kind,
+        condition: report.condition || undefined,
+        notes: report.notes.trim() || undefined,
+        photos: report.photos,
+      },
+      {
+        onSuccess: () => {
+          setDialogOpen(false);
+          setReport(EMPTY_REPORT);
+          setError('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Box sx={{ mt: 1 }} data-testid="loan-condition">
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button size="small" onClick={() => setHistoryOpen((open) => !open)}>
+          {historyOpen ? 'הסתר מצב הספר' : 'מצב הספר'}
+        </Button>
+        {role === 'owner' && (
+          <Button size="small" color="error" onClick={() => setDialogOpen(true)}>
+            דווח על נזק / אובדן
+          </Button>
+        )}
+      </Box>
+
+      <Collapse in={historyOpen}>
+        {isLoading ? (
+          <CircularProgress size={20} sx={{ m: 1 }} />
+        ) : records.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+            לא תועד מצב הספר בהשאלה זו
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {records.map((record) => (
+              <ListItem key={record.id} disableGutters sx={{ display: 'block' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                  <Chip
+                    label={KIND_LABELS[record.kind]}
+                    size="small"
+                    color={record.kind === 'damage' || record.kind === 'loss' ? 'error' : 'default'}
+                  />
+                  <ListItemText
+                    primary={record.condition ? `מצב: ${BOOK_CONDITION_LABELS[record.condition]}` : undefined}
+                    secondary={[formatDate(record.created_at), record.created_by?.full_name, record.notes]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  />
+                </Box>
+                {record.photo_urls.length > 0 && (
+                  <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                    {record.photo_urls.map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <Box
+                          component="img"
+                          src={url}
+                          alt="תמונת מצב הספר"
+                          sx={{ width: 64, height: 64, objectFit: 'cover', borderRadius: 1 }}
+                        />
+                      </a>
+                    ))}
+                  </Box>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Collapse>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>דיווח על נזק או אובדן</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            הספר יסומן כלא זמין להשאלה והדיווח יצורף להשאלה זו
+          </Typography>
+          <RadioGroup row value={kind} onChange={(e) => setKind(e.target.value as 'damage' | 'loss')} sx={{ mb: 2 }}>
+            <FormControlLabel value="damage" control={<Radio />} label="נזק" />
+            <FormControlLabel value="loss" control={<Radio />} label="אובדן" />
+          </RadioGroup>
+          <LoanConditionFields
+            value={report}
+            onChange={setReport}
+            disabled={reportDamage.isPending}
+            conditionOptional
+            notesPlaceholder="מה קרה לספר?"
+          />
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 3 }}>
+          <Button onClick={() => setDialogOpen(false)} disabled={reportDamage.isPending}>
+            ביטול
+          </Button>
+          <Button variant="contained" color="error" onClick={handleSubmit} disabled={reportDamage.isPending}>
+            שלח דיווח
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,76 @@
+import {
+  Box,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Chip,
+  CircularProgress,
+} from '@mui/material';
+import { useLoansByBook } from '../hooks/useLoans';
+import LoanPassOnSection from './LoanPassOnSection';
+import LoanConditionSection from './LoanConditionSection';
+
+interface LoanCustodyChainProps {
+  familyBookId: string;
+}
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return '';
+  return new Date(dateString).toLocaleDateString('he-IL');
+};
+
+/**
+ * Chain of custody for a copy: every family that held it, oldest first,
+ * including direct pass-ons between borrowers
+ */
+export default function LoanCustodyChain({ familyBookId }: LoanCustodyChainProps) {
+  const { data, isLoading } = useLoansByBook(familyBookId, ['active', 'overdue', 'returned']);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={2}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  const loans = [...(data?.loans || [])].sort(
+    (a, b) => new Date(a.request_date).getTime() - new Date(b.request_date).getTime()
+  );
+
+  if (loans.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        הספר עדיין לא הושאל
+      </Typography>
+    );
+  }
+
+  return (
+    <List dense disablePadding data-testid="custody-chain">
+      {loans.map((loan, index) => {
+        const ongoing = loan.status === 'active' || loan.status === 'overdue';
+        const from = formatDate(loan.approved_date || loan.request_date);
+        const to = ongoing ? 'עדיין אצלם' : formatDate(loan.return_date || loan.actual_return_date);
+
+        return (
+          <ListItem key={loan.id} disableGutters divider={index < loans.length - 1} sx={{ display: 'block' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+              <ListItemText
+                primary={`${index + 1}. ${loan.borrower_family?.name || 'משפחה'}`}
+                secondary={`${from} - ${to}`}
+              />
+              {loan.previous_loan_id && (
+                <Chip label="הועבר ישירות ממשפחה קודמת" size="small" variant="outlined" color="info" />
+              )}
+              {loan.status === 'overdue' && <Chip label="באיחור" size="small" color="error" />}
+            </Box>
+            {ongoing && <LoanPassOnSection loan={loan} role="owner" />}
+            <LoanConditionSection loan={loan} role="owner" />
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+}
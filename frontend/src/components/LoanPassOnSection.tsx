@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Typography
+} from '@mui/material';
+import { useFamilies } from '../hooks/useFamilies';
+import { useRequestPassOn, usePassOnDecision } from '../hooks/useLoanMutations';
+
+interface PassableLoan {
+  id: string;
+  owner_family_id?: string;
+  borrower_family_id?: string;
+  pass_on_family_id?: string | null;
+  pass_on_family?: {
+    name: string;
+  } | null;
+}
+
+interface LoanPassOnSectionProps {
+  loan: PassableLoan;
+  role: 'owner' | 'borrower';
+}
+
+/**
+ * Pass-on controls for an ongoing loan: the borrower proposes handing the
+ * copy straight to another family, the owner approves or declines
+ */
+export default function LoanPassOnSection({ loan, role }: LoanPassOnSectionProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [target, setTarget] = useState<'queue' | 'family'>('queue');
+  const [nextFamilyId, setNextFamilyId] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: families = [] } = useFamilies({ enabled: dialogOpen });
+  const requestPassOn = useRequestPassOn({
+    onError: (err) => setError(err.message || 'שגיאה בשליחת בקשת ההעברה'),
+  });
+  const passOnDecision = usePassOnDecision({
+    onError: (err) => setError(err.message || 'שגיאה בעדכון בקשת ההעברה'),
+  });
+
+  const candidateFamilies = families.filter((family) =>
+    String(family.id) !== loan.owner_family_id && String(family.id) !== loan.borrower_family_id
+  );
+  const busy = requestPassOn.isPending || passOnDecision.isPending;
+
+  const handleSubmit = () => {
+    if (target === 'family' && !nextFamilyId) {
+      setError('יש לבחור משפחה');
+      return;
+    }
+    requestPassOn.mutate(
+      {
+        loanId: loan.id,
+        ...(target === 'family' && { next_family_id: nextFamilyId }),
+      },
+      {
+        onSuccess: () => {
+          setDialogOpen(false);
+          setError('');
+        },
+      }
+    );
+  };
+
+  const decide = (decision: 'approve' | 'decline') => {
+    passOnDecision.mutate({ loanId: loan.id, decision }, { onSuccess: () => setError('') });
+  };
+
+  return (
+    <Box sx={{ mt: 1 }} data-testid="loan-pass-on">
+      {error && !dialogOpen && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {loan.pass_on_family_id ? (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Chip
+            label={`העברה ל${loan.pass_on_family?.name || 'משפחה אחרת'} ממתינה לאישור`}
+            size="small"
+            color="warning"
+          />
+          {role === 'owner' && (
+            <Button
+              size="small"
+              variant="contained"
+              disabled={busy}
+              onClick={() => decide('approve')}
+            >
+              אשר העברה
+            </Button>
+          )}
+          <Button
+            size="small"
+            variant="outlined"
+            color="error"
+            disabled={busy}
+            onClick={() => decide('decline')}
+          >
+            {role === 'owner' ? 'דחה' : 'בטל העברה'}
+          </Button>
+        </Box>
+      ) : role === 'borrower' && (
+        <Button size="small" variant="outlined" onClick={() => setDialogOpen(true)}>
+          העבר למשפחה הבאה
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>העברת הספר למשפחה הבאה</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            ההשאלה שלכם תיסגר ותיפתח השאלה חדשה למשפחה הבאה לאחר אישור המשפחה המשאילה
+          </Typography>
+          <RadioGroup value={target} onChange={(e) => setTarget(e.target.value as 'queue' | 'family')}>
+            <FormControlLabel value="queue" control={<Radio />} label="הבאים ברשימת ההמתנה" />
+            <FormControlLabel value="family" control={<Radio />} label="משפחה אחרת" />
+          </RadioGroup>
+          {target === 'family' && (
+            <FormControl fullWidth margin="normal">
+              <InputLabel>משפחה</InputLabel>
+              <Select
+                value={nextFamilyId}
+                label="משפחה"
+                onChange={(e) => setNextFamilyId(e.target.value)}
+              >
+                {candidateFamilies.map((family) => (
+                  <MenuItem key={family.id} value={String(family.id)}>
+                    {family.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 3 }}>
+          <Button onClick={() => setDialogOpen(false)} disabled={busy}>
+            ביטול
+          </Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={busy}>
+            שלח לאישור
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
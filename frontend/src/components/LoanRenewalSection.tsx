@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useRequestRenewal, useRenewalDecision } from '../hooks/useLoanMutations';
+import { addDays } from '../utils/loanDates';
+import type { LoanRenewal } from '../types';
+
+const DEFAULT_MAX_RENEWALS = 2;
+const DEFAULT_EXTRA_DAYS = 14;
+
+interface RenewableLoan {
+  id: string;
+  due_date?: string | null;
+  owner_family?: {
+    max_loan_renewals?: number | null;
+  };
+  renewals?: LoanRenewal[];
+}
+
+interface LoanRenewalSectionProps {
+  loan: RenewableLoan;
+  role: 'owner' | 'borrower';
+}
+
+const RENEWAL_STATUS_LABELS: Record<LoanRenewal['status'], string> = {
+  pending: 'ממתין',
+  approved: 'אושר',
+  declined: 'נדחה',
+};
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('he-IL');
+};
+
+/**
+ * Renewal controls for an ongoing loan: the borrower asks for more time,
+ * the owner approves or declines, and both see the due date history
+ */
+export default function LoanRenewalSection({ loan, role }: LoanRenewalSectionProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [extraDays, setExtraDays] = useState(String(DEFAULT_EXTRA_DAYS));
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const requestRenewal = useRequestRenewal({
+    onError: (err) => setError(err.message || 'שגיאה בשליחת בקשת ההארכה'),
+  });
+  const renewalDecision = useRenewalDecision({
+    onError: (err) => setError(err.message || 'שגיאה בעדכון בקשת ההארכה'),
+  });
+
+  const renewals = [...(loan.renewals || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+  const pendingRenewal = renewals.find((renewal) => renewal.status === 'pending');
+  const maxRenewals = loan.owner_family?.max_loan_renewals ?? DEFAULT_MAX_RENEWALS;
+  const usedRenewals = renewals.filter((renewal) => renewal.status === 'approved').length;
+  const canRequest = role === 'borrower' && !pendingRenewal && usedRenewals < maxRenewals;
+
+  const days = Number(extraDays);
+  const daysValid = Number.isInteger(days) && days >= 1 && days <= 365;
+  const dueBase = loan.due_date && new Date(loan.due_date) > new Date() ? new Date(loan.due_date) : new Date();
+
+  const handleSubmit = () => {
+    if (!daysValid) {
+      setError('מספר הימים חייב להיות בין 1 ל-365');
+      return;
+    }
+    requestRenewal.mutate(
+      { loanId: loan.id, extra_days: days, notes: notes.trim() || null },
+      {
+        onSuccess: () => {
+          setDialogOpen(false);
+          setNotes('');
+          setError('');
+        },
+      }
+    );
+  };
+
+  const decide = (renewalId: string, decision: 'approve' | 'decline') => {
+    renewalDecision.mutate({ loanId: loan.id, renewalId, decision }, { onSuccess: () => setError('') });
+  };
+
+  return (
+    <Box sx={{ mt: 1 }} data-testid="loan-renewals">
+      {error && !dialogOpen && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {pendingRenewal && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Chip
+            label={`בקשת הארכה עד ${formatDate(pendingRenewal.requested_due_date)}`}
+            size="small"
+            color="warning"
+          />
+          {role === 'owner' && (
+            <>
+              <Button
+                size="small"
+                variant="contained"
+                disabled={renewalDecision.isPending}
+                onClick={() => decide(pendingRenewal.id, 'approve')}
+              >
+                אשר הארכה
+              </Button>
+              <Button
+                size="small"
+                variant="outlined"
+                color="error"
+                disabled={renewalDecision.isPending}
+                onClick={() => decide(pendingRenewal.id, 'decline')}
+              >
+                דחה
+              </Button>
+            </>
+          )}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mt: 1 }}>
+        {canRequest && (
+          <Button size="small" variant="outlined" onClick={() => setDialogOpen(true)}>
+            בקש הארכה
+          </Button>
+        )}
+        {role === 'borrower' && !pendingRenewal && usedRenewals >= maxRenewals && (
+          <Typography variant="caption" color="text.secondary">
+            נוצלו כל ההארכות האפשריות ({maxRenewals})
+          </Typography>
+        )}
+        {renewals.length > 0 && (
+          <Button size="small" onClick={() => setHistoryOpen((open) => !open)}>
+            היסטוריית הארכות ({renewals.length})
+          </Button>
+        )}
+      </Box>
+
+      <Collapse in={historyOpen}>
+        <List dense disablePadding>
+          {renewals.map((renewal) => (
+            <ListItem key={renewal.id} disableGutters>
+              <ListItemText
+                primary={`${formatDate(renewal.previous_due_date)} ← ${formatDate(renewal.requested_due_date)}`}
+                secondary={[
+                  `בקשת הארכה - ${RENEWAL_STATUS_LABELS[renewal.status]}`,
+                  formatDate(renewal.created_at),
+                  renewal.notes,
+                ].filter(Boolean).join(' · ')}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>בקשת הארכה</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            הארכות שנוצלו: {usedRenewals} מתוך {maxRenewals}
+          </Typography>
+          <TextField
+            label="כמה ימים נוספים?"
+            type="number"
+            fullWidth
+            margin="normal"
+            value={extraDays}
+            onChange={(e) => setExtraDays(e.target.value)}
+            inputProps={{ min: 1, max: 365 }}
+            helperText={daysValid ? `מועד החזרה חדש: ${formatDate(addDays(days, dueBase))}` : ' '}
+          />
+          <TextField
+            label="הערה (אופציונלי)"
+            fullWidth
+            multiline
+            rows={2}
+            margin="normal"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 3 }}>
+          <Button onClick={() => setDialogOpen(false)} disabled={requestRenewal.isPending}>
+            ביטול
+          </Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={requestRenewal.isPending}>
+            שלח בקשה
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useLoanEvents } from '../hooks/useLoans';
+import { useDisputeLoan } from '../hooks/useLoanMutations';
+import type { LoanEvent, LoanEventType } from '../types';
+
+interface LoanTimelineProps {
+  // One loan's timeline, or every loan of a copy
+  loanId?: string;
+  familyBookId?: string;
+  // Show the "report a dispute" action (families on the loan only)
+  canDispute?: boolean;
+  // Render the list without the show/hide toggle
+  alwaysOpen?: boolean;
+}
+
+const EVENT_LABELS: Record<LoanEventType, string> = {
+  requested: 'בקשת השאלה',
+  approved: 'הבקשה אושרה',
+  rejected: 'הבקשה נדחתה',
+  cancelled: 'הבקשה בוטלה',
+  handed_over: 'הספר נמסר',
+  renewal_requested: 'בקשת הארכה',
+  renewed: 'ההשאלה הוארכה',
+  renewal_declined: 'ההארכה נדחתה',
+  due_date_changed: 'תאריך ההחזרה שונה',
+  overdue: 'באיחור',
+  returned: 'הספר הוחזר',
+  passed_on: 'הועבר למשפחה הבאה',
+  damage_reported: 'דווח נזק',
+  disputed: 'מחלוקת',
+};
+
+const WARNING_EVENTS: LoanEventType[] = ['overdue', 'damage_reported', 'disputed'];
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('he-IL');
+
+// Event-specific extra text (new due date, dispute reason, ...)
+const describeDetails = (event: LoanEvent) => {
+  const details = event.details || {};
+  if (details.reason) return details.reason as string;
+  if (details.due_date) return `תאריך החזרה: ${formatDate(details.due_date)}`;
+  if (details.notes) return details.notes as string;
+  return undefined;
+};
+
+/**
+ * Timeline of loan events (requested, handed over, renewed, returned, overdue, disputed...),
+ * oldest first. For a copy, each entry also names the borrowing family.
+ */
+export default function LoanTimeline({ loanId, familyBookId, canDispute = false, alwaysOpen = false }: LoanTimelineProps) {
+  const [open, setOpen] = useState(alwaysOpen);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useLoanEvents({ loanId, familyBookId }, { enabled: open && !!(loanId || familyBookId) });
+  const disputeLoan = useDisputeLoan({
+    onError: (err) => setError(err.message || 'שגיאה בשליחת המחלוקת'),
+  });
+
+  const events = data?.events || [];
+
+  const handleSubmit = () => {
+    if (!reason.trim()) {
+      setError('יש לתאר את המחלוקת');
+      return;
+    }
+    disputeLoan.mutate(
+      { loanId: loanId!, reason: reason.trim() },
+      {
+        onSuccess: () => {
+          setDialogOpen(false);
+          setReason('');
+          setError('');
+          setOpen(true);
+        },
+      }
+    );
+  };
+
+  const list = isLoading ? (
+    <CircularProgress size={20} sx={{ m: 1 }} />
+  ) : events.length === 0 ? (
+    <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+      אין אירועים להצגה
+    </Typography>
+  ) : (
+    <List dense disablePadding>
+      {events.map((event) => (
+        <ListItem key={event.id} disableGutters sx={{ gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Chip
+            label={EVENT_LABELS[event.event_type] || event.event_type}
+            size="small"
+            color={WARNING_EVENTS.includes(event.event_type) ? 'error' : 'default'}
+          />
+          <ListItemText
+            primary={describeDetails(event)}
+            secondary={[
+              formatDate(event.created_at),
+              event.actor?.full_name,
+              familyBookId && !loanId ? event.loan?.borrower_family?.name : undefined,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          />
+        </ListItem>
+      ))}
+    </List>
+  );
+
+  if (alwaysOpen) {
+    return <Box data-testid="loan-timeline">{list}</Box>;
+  }
+
+  return (
+    <Box sx={{ mt: 1 }} data-testid="loan-timeline">
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button size="small" onClick={() => setOpen((value) => !value)}>
+          {open ? 'הסתר ציר זמן' : 'ציר זמן'}
+        </Button>
+        {canDispute && loanId && (
+          <Button size="small" color="warning" onClick={() => setDialogOpen(true)}>
+            דווח על מחלוקת
+          </Button>
+        )}
+      </Box>
+
+      <Collapse in={open}>{list}</Collapse>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>דיווח על מחלוקת</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            המחלוקת תירשם בציר הזמן של ההשאלה ותוצג לשתי המשפחות
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            label="מה קרה?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            disabled={disputeLoan.isPending}
+          />
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 3 }}>
+          <Button onClick={() => setDialogOpen(false)} disabled={disputeLoan.isPending}>
+            ביטול
+          </Button>
+          <Button variant="contained" color="warning" onClick={handleSubmit} disabled={disputeLoan.isPending}>
+            שלח
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
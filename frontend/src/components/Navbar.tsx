@@ -1,9 +1,10 @@
-import { AppBar, Toolbar, Typography, Button, Box, IconButton, Menu, MenuItem, Avatar, Divider } from '@mui/material'
-import { ArrowBack, Palette as PaletteIcon } from '@mui/icons-material'
+import { AppBar, Toolbar, Typography, Button, Box, IconButton, Menu, MenuItem, Avatar, Divider, Badge } from '@mui/material'
+import { ArrowBack, Palette as PaletteIcon, Notifications as NotificationsIcon } from '@mui/icons-material'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { useState } from 'react'
 import { supabase } from '../lib/supabase'
 import { useThemeContext } from '../contexts/ThemeContext'
+import { useUnreadNotificationCount } from '../hooks/useNotifications'
 
 interface NavbarProps {
   user: any
@@ -15,6 +16,7 @@ export default function Navbar({ user }: NavbarProps) {
   const { setTheme, currentTheme, availableThemes } = useThemeContext()
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
   const [themeAnchorEl, setThemeAnchorEl] = useState<null | HTMLElement>(null)
+  const { data: unread } = useUnreadNotificationCount({ enabled: !!user })
 
   // Pages that should not show back button (main navigation pages)
   const noBackButtonPages = ['/', '/login', '/register']
@@ -72,6 +74,16 @@ export default function Navbar({ user }: NavbarProps) {
 
         {user ? (
           <Box>
+            <IconButton
+              size="large"
+              color="inherit"
+              onClick={() => navigate('/notifications')}
+              aria-label="התראות"
+            >
+              <Badge badgeContent={unread?.count || 0} color="error" max={99}>
+                <NotificationsIcon />
+              </Badge>
+            </IconButton>
             <IconButton
               size="large"
               onClick={handleMenu}
@@ -111,6 +123,9 @@ export default function Navbar({ user }: NavbarProps) {
               <MenuItem onClick={() => { navigate('/recommendations'); handleClose(); }}>
                 המלצות
               </MenuItem>
+              <MenuItem onClick={() => { navigate('/series'); handleClose(); }}>
+                הסדרות שלי
+              </MenuItem>
               <Divider />
               <MenuItem onClick={handleThemeMenuOpen} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <PaletteIcon sx={{ fontSize: '1.25rem' }} />
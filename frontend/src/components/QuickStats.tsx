@@ -1,19 +1,24 @@
 import { Box, Card, CardContent, Grid, Typography } from '@mui/material';
 import { Book, Repeat, HourglassEmpty, Groups } from '@mui/icons-material';
+import { useLoansByOwner } from '../hooks/useLoans';
 
 interface QuickStatsProps {
   booksCount: number;
   activeLoansCount: number;
-  pendingRequestsCount: number;
   familiesCount: number;
+  familyId?: string;
 }
 
 export default function QuickStats({
   booksCount,
   activeLoansCount,
-  pendingRequestsCount,
   familiesCount,
+  familyId,
 }: QuickStatsProps) {
+  // Requests from other families waiting for our approval
+  const { data: pendingRequests } = useLoansByOwner(familyId, 'pending');
+  const pendingRequestsCount = pendingRequests?.loans?.length || 0;
+
   const stats = [
     { icon: <Book fontSize="large" />, value: booksCount, label: 'ספרים בקטלוג' },
     { icon: <Repeat fontSize="large" />, value: activeLoansCount, label: 'השאלות פעילות' },
@@ -11,7 +11,11 @@ import {
   Box,
   Typography
 } from '@mui/material';
-import { useUpdateLoan } from '../hooks/useLoanMutations';
+import { useUpdateLoan, useRecordLoanCondition } from '../hooks/useLoanMutations';
+import LoanConditionFields, { EMPTY_CONDITION, type ConditionFormValue } from './LoanConditionFields';
+
+// The condition at check-in is left unset until the owner picks one
+const EMPTY_CHECKIN: ConditionFormValue = { ...EMPTY_CONDITION, condition: '' };
 
 interface Loan {
   id: string;
@@ -52,18 +56,12 @@ export default function ReturnBookDialog({
   const [returnDate, setReturnDate] = useState(
     new Date().toISOString().split('T')[0]
   );
-  const [notes, setNotes] = useState('');
+  const [checkin, setCheckin] = useState<ConditionFormValue>(EMPTY_CHECKIN);
   const [error, setError] = useState('');
+
+  const recordCondition = useRecordLoanCondition();
   
-  const updateLoan = useUpdateLoan(loan.id, familyBookId, {
-    onSuccess: () => {
-      onSuccess();
-      handleClose();
-    },
-    onError: (err) => {
-      setError(err.message || 'שגיאה בסימון ההחזרה');
-    },
-  });
+  const updateLoan = useUpdateLoan(loan.id, familyBookId);
 
   // Get book info from either structure
   const bookInfo = loan.family_books?.book_catalog || loan.books;
@@ -71,17 +69,44 @@ export default function ReturnBookDialog({
   const bookAuthor = bookInfo?.author || '';
   const borrowerName = loan.borrower_family?.name || 'משפחה';
 
-  const handleSubmit = async () => {
+  const busy = updateLoan.isPending || recordCondition.isPending;
+
+  const handleSubmit = () => {
     setError('');
-    updateLoan.mutate({
-      status: 'returned',
-      return_date: returnDate,
-    });
+    updateLoan.mutate(
+      {
+        status: 'returned',
+        return_date: returnDate,
+      },
+      {
+        onSuccess: async () => {
+          // Check-in is recorded once the return went through; a failure here doesn't undo the return
+          if (checkin.condition || checkin.notes || checkin.photos.length > 0) {
+            try {
+              await recordCondition.mutateAsync({
+                loanId: loan.id,
+                kind: 'checkin',
+                condition: checkin.condition || null,
+                notes: checkin.notes || undefined,
+                photos: checkin.photos,
+              });
+            } catch (err) {
+              console.error('[ReturnBookDialog] Could not record check-in condition:', err);
+            }
+          }
+          onSuccess();
+          handleClose();
+        },
+        onError: (err) => {
+          setError(err.message || 'שגיאה בסימון ההחזרה');
+        },
+      }
+    );
   };
 
   const handleClose = () => {
     setReturnDate(new Date().toISOString().split('T')[0]);
-    setNotes('');
+    setCheckin(EMPTY_CHECKIN);
     setError('');
     onClose();
   };
@@ -109,7 +134,7 @@ export default function ReturnBookDialog({
             type="date"
             value={returnDate}
             onChange={(e) => setReturnDate(e.target.value)}
-            disabled={updateLoan.isPending}
+            disabled={busy}
             sx={{ mb: 3 }}
             InputLabelProps={{
               shrink: true,
@@ -117,15 +142,12 @@ export default function ReturnBookDialog({
             helperText="ברירת מחדל: היום"
           />
 
-          <TextField
-            fullWidth
-            label="הערות (אופציונלי)"
-            multiline
-            rows={3}
-            value={notes}
-            onChange={(e) => setNotes(e.target.value)}
-            disabled={updateLoan.isPending}
-            placeholder="הערות על מצב הספר בעת החזרה"
+          <LoanConditionFields
+            value={checkin}
+            onChange={setCheckin}
+            disabled={busy}
+            conditionOptional
+            notesPlaceholder="הערות על מצב הספר בעת החזרה"
           />
 
           {error && (
@@ -136,14 +158,14 @@ export default function ReturnBookDialog({
         </Box>
       </DialogContent>
       <DialogActions sx={{ px: 3, pb: 3 }}>
-        <Button onClick={handleClose} disabled={updateLoan.isPending}>
+        <Button onClick={handleClose} disabled={busy}>
           ביטול
         </Button>
         <Button
           onClick={handleSubmit}
           variant="contained"
-          disabled={updateLoan.isPending}
-          startIcon={updateLoan.isPending ? <CircularProgress size={20} /> : null}
+          disabled={busy}
+          startIcon={busy ? <CircularProgress size={20} /> : null}
         >
           אשר החזרה
         </Button>
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Box, Button, Checkbox, FormControlLabel, Typography } from '@mui/material';
+import type { SearchFacetValue } from '../types';
+
+// Values shown before "show more"
+const COLLAPSED_VALUES = 8;
+
+interface SearchFacetGroupProps {
+  title: string;
+  values: SearchFacetValue[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  getLabel?: (value: SearchFacetValue) => string;
+}
+
+/**
+ * One search facet - its values with their result counts, selected values first
+ */
+export default function SearchFacetGroup({ title, values, selected, onToggle, getLabel }: SearchFacetGroupProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  // A selected value with no results left still shows, so it can be cleared
+  const missing = selected
+    .filter((value) => !values.some((entry) => entry.value === value))
+    .map((value) => ({ value, label: null, count: 0 }));
+  const ordered = [
+    ...values.filter((entry) => selected.includes(entry.value)),
+    ...missing,
+    ...values.filter((entry) => !selected.includes(entry.value)),
+  ];
+  if (ordered.length === 0) return null;
+
+  const shown = expanded ? ordered : ordered.slice(0, Math.max(COLLAPSED_VALUES, selected.length));
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>
+        {title}
+      </Typography>
+      {shown.map((entry) => (
+        <FormControlLabel
+          key={entry.value}
+          sx={{ display: 'flex', mr: 0 }}
+          control={
+            <Checkbox
+              size="small"
+              checked={selected.includes(entry.value)}
+              onChange={() => onToggle(entry.value)}
+            />
+          }
+          label={
+            <Typography variant="body2" component="span">
+              {getLabel ? getLabel(entry) : entry.label || entry.value}{' '}
+              <Typography variant="body2" component="span" color="text.secondary">
+                ({entry.count})
+              </Typography>
+            </Typography>
+          }
+        />
+      ))}
+      {ordered.length > shown.length && (
+        <Button size="small" onClick={() => setExpanded(true)}>
+          הצג עוד ({ordered.length - shown.length})
+        </Button>
+      )}
+    </Box>
+  );
+}
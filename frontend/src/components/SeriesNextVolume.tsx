@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Chip, CircularProgress, Typography } from '@mui/material';
+import { useRequestLoan } from '../hooks/useLoanMutations';
+import type { SeriesNextVolume as NextVolume } from '../types';
+
+interface SeriesNextVolumeProps {
+  nextVolume: NextVolume | null;
+}
+
+/**
+ * The next volume of a series to read, with a borrow request when a family has it available
+ */
+export default function SeriesNextVolume({ nextVolume }: SeriesNextVolumeProps) {
+  const [requested, setRequested] = useState(false);
+  const [error, setError] = useState('');
+  const requestLoan = useRequestLoan({
+    onMutate: () => setError(''),
+    onError: (err) => setError(err.message || 'שגיאה בשליחת הבקשה'),
+  });
+
+  if (!nextVolume) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        קראתם את כל הכרכים המוכרים בקהילה
+      </Typography>
+    );
+  }
+
+  const label = `כרך ${nextVolume.number}${nextVolume.title ? ` - ${nextVolume.title}` : ''}`;
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+        <Typography variant="body2" fontWeight={600}>
+          הכרך הבא: {label}
+        </Typography>
+        {nextVolume.status === 'missing' && <Chip label="אף משפחה לא מחזיקה בו" size="small" />}
+        {nextVolume.status === 'on_loan' && <Chip label="כל העותקים מושאלים" color="warning" size="small" />}
+        {nextVolume.copy && (
+          <Chip label={`זמין אצל ${nextVolume.copy.familyName || 'משפחה בקהילה'}`} color="success" size="small" />
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError('')}>
+          {error}
+        </Alert>
+      )}
+
+      {nextVolume.copy && (
+        <Box mt={1}>
+          {requested ? (
+            <Chip label="הבקשה נשלחה" color="info" size="small" />
+          ) : (
+            <Button
+              size="small"
+              variant="contained"
+              disabled={requestLoan.isPending}
+              onClick={() =>
+                requestLoan.mutate(
+                  { family_book_id: nextVolume.copy!.familyBookId },
+                  { onSuccess: () => setRequested(true) }
+                )
+              }
+            >
+              {requestLoan.isPending ? <CircularProgress size={18} /> : 'בקש להשאלה'}
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { IconButton, ListItemText, Menu, MenuItem } from '@mui/material';
+import { WhatsApp as WhatsAppIcon } from '@mui/icons-material';
+import { useWhatsAppTemplates } from '../hooks/useWhatsAppTemplates';
+import {
+  WHATSAPP_TEMPLATE_LABELS,
+  buildWhatsAppLink,
+  fillWhatsAppTemplate,
+  type WhatsAppTemplateValues,
+} from '../utils/whatsapp';
+import type { WhatsAppTemplateKey } from '../types';
+
+interface WhatsAppMessageButtonProps {
+  phone: string;
+  // Messages to offer, most relevant first; a single template opens WhatsApp directly
+  templates: WhatsAppTemplateKey[];
+  values: Omit<WhatsAppTemplateValues, 'my_family'>;
+  edge?: 'start' | 'end' | false;
+}
+
+/**
+ * WhatsApp icon that opens a chat with a pre-filled message from the family's templates
+ */
+export default function WhatsAppMessageButton({ phone, templates, values, edge = false }: WhatsAppMessageButtonProps) {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const { getTemplate, myFamilyName } = useWhatsAppTemplates();
+
+  const messageFor = (key: WhatsAppTemplateKey) =>
+    fillWhatsAppTemplate(getTemplate(key), { ...values, my_family: myFamilyName });
+
+  const openChat = (key: WhatsAppTemplateKey) => {
+    window.open(buildWhatsAppLink(phone, messageFor(key)), '_blank');
+    setAnchorEl(null);
+  };
+
+  const handleClick = (event: React.MouseEvent<HTMLElement>) => {
+    event.stopPropagation();
+    if (templates.length === 1) {
+      openChat(templates[0]);
+    } else {
+      setAnchorEl(event.currentTarget);
+    }
+  };
+
+  return (
+    <>
+      <IconButton
+        size="small"
+        edge={edge}
+        onClick={handleClick}
+        title="שלח הודעה בוואטסאפ"
+        sx={{ color: '#25D366' }}
+      >
+        <WhatsAppIcon sx={{ fontSize: 20 }} />
+      </IconButton>
+      {templates.length > 1 && (
+        <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+          {templates.map((key) => (
+            <MenuItem key={key} onClick={() => openChat(key)} sx={{ maxWidth: 360, whiteSpace: 'normal' }}>
+              <ListItemText
+                primary={WHATSAPP_TEMPLATE_LABELS[key]}
+                secondary={messageFor(key)}
+              />
+            </MenuItem>
+          ))}
+        </Menu>
+      )}
+    </>
+  );
+}
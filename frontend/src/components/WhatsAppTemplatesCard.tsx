@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from '../hooks/queryKeys';
+import {
+  DEFAULT_WHATSAPP_TEMPLATES,
+  WHATSAPP_PLACEHOLDERS,
+  WHATSAPP_TEMPLATE_LABELS,
+  fillWhatsAppTemplate,
+} from '../utils/whatsapp';
+import type { WhatsAppTemplateKey, WhatsAppTemplates } from '../types';
+
+interface WhatsAppTemplatesCardProps {
+  familyId: string;
+  familyName: string;
+  templates?: WhatsAppTemplates | null;
+  onSaved?: (templates: WhatsAppTemplates) => void;
+}
+
+const TEMPLATE_KEYS = Object.keys(DEFAULT_WHATSAPP_TEMPLATES) as WhatsAppTemplateKey[];
+
+// Sample values for the preview under each template
+const PREVIEW_VALUES = {
+  book: 'הארי פוטר',
+  family: 'משפחת כהן',
+  due_date: new Date().toISOString(),
+};
+
+/**
+ * Family admin settings for the pre-filled WhatsApp messages sent from loan screens
+ */
+export default function WhatsAppTemplatesCard({ familyId, familyName, templates, onSaved }: WhatsAppTemplatesCardProps) {
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<WhatsAppTemplateKey, string>>(() =>
+    Object.fromEntries(
+      TEMPLATE_KEYS.map((key) => [key, templates?.[key] || DEFAULT_WHATSAPP_TEMPLATES[key]])
+    ) as Record<WhatsAppTemplateKey, string>
+  );
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleSave = async () => {
+    // Only store templates that differ from the default text
+    const custom: WhatsAppTemplates = {};
+    for (const key of TEMPLATE_KEYS) {
+      const text = drafts[key].trim();
+      if (text && text !== DEFAULT_WHATSAPP_TEMPLATES[key]) custom[key] = text;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiCall<{ family: { whatsapp_templates?: WhatsAppTemplates } }>(`/api/families/${familyId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ whatsapp_templates: custom }),
+      });
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+      onSaved?.(response.family.whatsapp_templates || {});
+      setMessage({ type: 'success', text: 'ההודעות נשמרו' });
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'שגיאה בשמירת ההודעות' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card sx={{ mb: 4 }} data-testid="whatsapp-templates">
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          הודעות וואטסאפ
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          הנוסח שייפתח בוואטסאפ כשבני המשפחה פונים למשפחה אחרת ממסכי ההשאלות. אפשר להשתמש ב:{' '}
+          {Object.entries(WHATSAPP_PLACEHOLDERS).map(([placeholder, description]) => (
+            <Box component="span" key={placeholder} sx={{ display: 'inline-block', mx: 0.5 }}>
+              <Box component="code" sx={{ direction: 'ltr' }}>{placeholder}</Box> - {description}
+            </Box>
+          ))}
+        </Typography>
+
+        {message && (
+          <Alert severity={message.type} sx={{ my: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+
+        {TEMPLATE_KEYS.map((key) => (
+          <Box key={key} sx={{ mt: 2 }}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label={WHATSAPP_TEMPLATE_LABELS[key]}
+              value={drafts[key]}
+              onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+              helperText={fillWhatsAppTemplate(drafts[key] || DEFAULT_WHATSAPP_TEMPLATES[key], {
+                ...PREVIEW_VALUES,
+                my_family: familyName,
+              })}
+            />
+            {drafts[key] !== DEFAULT_WHATSAPP_TEMPLATES[key] && (
+              <Button size="small" onClick={() => setDrafts({ ...drafts, [key]: DEFAULT_WHATSAPP_TEMPLATES[key] })}>
+                חזרה לנוסח המקורי
+              </Button>
+            )}
+          </Box>
+        ))}
+
+        <Box mt={2}>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'שמור'}
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
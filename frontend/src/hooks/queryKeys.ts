@@ -25,10 +25,33 @@ export const queryKeys = {
     normalized: () => ['books', 'normalized'] as const, // Single normalized cache
     lists: () => ['books', 'list'] as const,
     list: (filters: Record<string, any>) => ['books', 'list', filters] as const,
+    infiniteList: (filters: Record<string, any>) => ['books', 'list', 'infinite', filters] as const,
     details: () => ['books', 'detail'] as const,
     detail: (bookId: string) => ['books', 'detail', bookId] as const,
+    copies: (bookId: string) => ['books', 'copies', bookId] as const,
+    editions: (bookId: string) => ['books', 'editions', bookId] as const,
     search: (query: string) => ['books', 'search', query] as const,
     suggestions: (query: string) => ['books', 'suggestions', query] as const,
+    advanced: (params: Record<string, any>) => ['books', 'advanced', params] as const,
+  },
+
+  // Author pages
+  authors: {
+    all: ['authors'] as const,
+    detail: (authorId: string) => ['authors', authorId] as const,
+  },
+
+  // Series pages
+  series: {
+    all: ['series'] as const,
+    mine: ['series', 'mine'] as const,
+    detail: (name: string) => ['series', 'detail', name] as const,
+  },
+
+  // Catalog maintenance (admins)
+  catalog: {
+    all: ['catalog'] as const,
+    duplicates: (limit: number) => ['catalog', 'duplicates', limit] as const,
   },
 
   // Loan queries
@@ -42,6 +65,32 @@ export const queryKeys = {
     byBook: (bookId: string, status?: string) => 
       ['loans', 'book', bookId, status] as const,
     detail: (loanId: string) => ['loans', 'detail', loanId] as const,
+    conditions: (loanId: string) => ['loans', 'conditions', loanId] as const,
+    events: (scope: { loanId?: string; familyBookId?: string }) =>
+      ['loans', 'events', scope.loanId ?? null, scope.familyBookId ?? null] as const,
+    policyCheck: (bookId: string, borrowerFamilyId: string, dueDate?: string) =>
+      ['loans', 'policy-check', bookId, borrowerFamilyId, dueDate] as const,
+  },
+
+  // Hold queue (waitlist) queries
+  holds: {
+    all: ['holds'] as const,
+    byBook: (bookCatalogId: string) => ['holds', 'book', bookCatalogId] as const,
+    byFamily: (familyId: string) => ['holds', 'family', familyId] as const,
+  },
+
+  // Loan calendar subscription (per user)
+  calendar: {
+    feed: ['calendar', 'feed'] as const,
+  },
+
+  // In-app notifications (per user)
+  notifications: {
+    all: ['notifications'] as const,
+    list: (unreadOnly: boolean) => ['notifications', 'list', { unreadOnly }] as const,
+    unreadCount: ['notifications', 'unread-count'] as const,
+    preferences: ['notifications', 'preferences'] as const,
+    digest: ['notifications', 'digest'] as const,
   },
 
   // Family queries
@@ -0,0 +1,32 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { AdvancedSearchResponse } from '../types';
+
+const PAGE_SIZE = 24;
+
+// Facet values may repeat (?genre=a&genre=b)
+export type AdvancedSearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * Community search with facets, one page at a time (infinite scroll)
+ */
+export function useAdvancedSearch(params: AdvancedSearchParams) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.books.advanced(params),
+    queryFn: ({ pageParam }) => {
+      const search = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item) search.append(key, item);
+        }
+      });
+      search.set('offset', String(pageParam));
+      search.set('limit', String(PAGE_SIZE));
+      return apiCall<AdvancedSearchResponse>(`/api/search?${search.toString()}`);
+    },
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextOffset ?? undefined,
+    staleTime: 60 * 1000,
+  });
+}
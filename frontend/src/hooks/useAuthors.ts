@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient, type UseMutationOptions, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { Author, AuthorBook } from '../types';
+
+interface AuthorResponse {
+  author: Author;
+  books: AuthorBook[];
+}
+
+interface AddAliasResponse {
+  alias: string;
+  relinked: number;
+}
+
+/**
+ * An author with the community's books by them
+ */
+export function useAuthor(
+  authorId: string | undefined,
+  options?: Omit<UseQueryOptions<AuthorResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.authors.detail(authorId!),
+    queryFn: () => apiCall<AuthorResponse>(`/api/authors/${authorId}`),
+    enabled: !!authorId,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for adding a spelling of an author's name (admins)
+ */
+export function useAddAuthorAlias(
+  authorId: string,
+  options?: Omit<UseMutationOptions<AddAliasResponse, Error, string>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<AddAliasResponse, Error, string>({
+    mutationFn: (alias: string) =>
+      apiCall<AddAliasResponse>(`/api/authors/${authorId}/aliases`, {
+        method: 'POST',
+        body: JSON.stringify({ alias }),
+      }),
+    onSuccess: () => {
+      // Books written with the alias may have moved from another author
+      queryClient.invalidateQueries({ queryKey: queryKeys.authors.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    },
+    ...options,
+  });
+}
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient, type UseMutationOptions } from '@tanstack/react-query';
 import { apiCall } from '../utils/apiCall';
 import { queryKeys } from './queryKeys';
+import type { BookCondition } from '../types';
 
 // Types for book operations
 export interface CreateBookData {
@@ -18,6 +19,14 @@ export interface CreateBookData {
   pages?: number | null;
   description?: string | null;
   cover_image_url?: string | null;
+  // Add another copy when the family already owns this book
+  add_copy?: boolean;
+}
+
+export interface AddBookCopyData {
+  bookId: string;
+  condition?: BookCondition | null;
+  notes?: string | null;
 }
 
 export interface UpdateBookData {
@@ -70,6 +79,30 @@ export function useCreateBook(
   });
 }
 
+/**
+ * Hook for adding another copy of a book the family owns
+ * Invalidates: all book queries (lists, details and copies)
+ */
+export function useAddBookCopy(
+  options?: Omit<UseMutationOptions<BookResponse, Error, AddBookCopyData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<BookResponse, Error, AddBookCopyData>({
+    mutationFn: async ({ bookId, ...copy }: AddBookCopyData) => {
+      const response = await apiCall<{ book: BookResponse }>(`/api/books/${bookId}/copies`, {
+        method: 'POST',
+        body: JSON.stringify(copy),
+      });
+      return response.book;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    },
+    ...options,
+  });
+}
+
 /**
  * Hook for updating an existing book
  * Invalidates: book detail query and all book lists
@@ -1,7 +1,8 @@
-import { useQuery, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useQueryClient, type UseQueryOptions } from '@tanstack/react-query';
 import { apiCall } from '../utils/apiCall';
 import { queryKeys } from './queryKeys';
-import type { CatalogBook } from '../types';
+import { matchesSearch } from '../utils/hebrewSearch';
+import type { BookCopy, BookEdition, CatalogBook, SearchHighlights } from '../types';
 
 // TypeScript interfaces
 interface BookSearchParams {
@@ -15,10 +16,18 @@ interface BookSearchParams {
   sortBy?: string;
 }
 
-interface BooksResponse {
+// Catalog books per page of an infinite list
+const LIST_PAGE_SIZE = 30;
+
+export interface BooksResponse {
   books: CatalogBook[];
   meta?: {
     message?: string;
+    total?: number; // Catalog books matching the filters, across all pages
+    count?: number; // Catalog books in this page
+    view?: string;
+    nextCursor?: string | null; // Pass as ?cursor= for the next page; null on the last page
+    hasMore?: boolean;
   };
 }
 
@@ -26,11 +35,15 @@ interface BookResponse {
   book: any;
 }
 
-interface BookSuggestion {
+// Catalog search result (GET /api/books/search), best match first
+export interface BookSuggestion {
   id: string;
   title: string;
+  title_hebrew?: string | null;
   author: string;
+  author_hebrew?: string | null;
   cover_image_url?: string;
+  highlights?: SearchHighlights;
 }
 
 interface BookSearchResponse {
@@ -108,15 +121,12 @@ function filterBooksFromCache(
   
   let filtered = allBooks;
   
-  // Filter by search query (title, author, series)
+  // Filter by search query (titles, authors, series) - the server adds typo-tolerant matches
   if (filters.q && filters.q.trim()) {
-    const query = filters.q.trim().toLowerCase();
-    filtered = filtered.filter(book => {
-      const title = (book.titleHebrew || book.title || '').toLowerCase();
-      const author = (book.authorHebrew || book.author || '').toLowerCase();
-      const series = (book.series || '').toLowerCase();
-      return title.includes(query) || author.includes(query) || series.includes(query);
-    });
+    const query = filters.q;
+    filtered = filtered.filter(book =>
+      matchesSearch(query, book.title, book.titleHebrew, book.author, book.authorHebrew, book.series)
+    );
   }
   
   // Filter by view (my/borrowed/all)
@@ -157,6 +167,17 @@ function filterBooksFromCache(
   return filtered;
 }
 
+// Query string of the filters, skipping empty ones
+function toSearchParams(filters: BookSearchParams) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.append(key, String(value));
+    }
+  });
+  return params;
+}
+
 /**
  * Fetch books with filters
  * Uses normalized caching - all books stored by ID, queries track which books they contain
@@ -171,13 +192,7 @@ export function useBooks(
   return useQuery({
     queryKey: queryKeys.books.list(filters),
     queryFn: async () => {
-      const params = new URLSearchParams();
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined && value !== '') {
-          params.append(key, String(value));
-        }
-      });
-
+      const params = toSearchParams(filters);
       const response = await apiCall<BooksResponse>(`/api/books?${params.toString()}`);
       
       // Update normalized cache
@@ -201,6 +216,58 @@ export function useBooks(
   });
 }
 
+/**
+ * Fetch books with filters a page at a time, following the server's cursor
+ * Every page also goes into the normalized cache
+ */
+export function useInfiniteBooks(filters: BookSearchParams = {}, options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const queryKey = JSON.stringify({ ...filters, infinite: true });
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.books.infiniteList(filters),
+    queryFn: async ({ pageParam }) => {
+      const params = toSearchParams(filters);
+      params.set('limit', String(LIST_PAGE_SIZE));
+      if (pageParam) params.set('cursor', pageParam);
+
+      const response = await apiCall<BooksResponse>(`/api/books?${params.toString()}`);
+
+      // Update normalized cache - the query tracks the books of all its pages
+      const tracked = pageParam ? getBooksFromCache(queryClient, queryKey) || [] : [];
+      updateNormalizedCache(queryClient, [...tracked, ...response.books], queryKey);
+
+      return response;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.meta?.nextCursor ?? undefined,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    placeholderData: () => {
+      // Cached books matching the filters, shown as a first page while the server responds
+      const books = getBooksFromCache(queryClient, queryKey) || filterBooksFromCache(queryClient, filters);
+      return books ? { pages: [{ books } as BooksResponse], pageParams: [null] } : undefined;
+    },
+    ...options,
+  });
+}
+
+/**
+ * Fetch every book matching the filters, page after page (not cached)
+ */
+export async function fetchAllBooks(filters: BookSearchParams = {}): Promise<CatalogBook[]> {
+  const books: CatalogBook[] = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const params = toSearchParams(filters);
+    if (cursor) params.set('cursor', cursor);
+    const response: BooksResponse = await apiCall<BooksResponse>(`/api/books?${params.toString()}`);
+    books.push(...response.books);
+    cursor = response.meta?.nextCursor;
+  } while (cursor);
+  return books;
+}
+
 /**
  * Fetch single book details
  * Also updates the normalized cache
@@ -234,6 +301,37 @@ export function useBook(
   });
 }
 
+/**
+ * The viewer family's copies of a book (bookId is any family_books id of the book)
+ */
+export function useBookCopies(
+  bookId: string | null | undefined,
+  options?: Omit<UseQueryOptions<{ copies: BookCopy[] }>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.books.copies(String(bookId)),
+    queryFn: () => apiCall<{ copies: BookCopy[] }>(`/api/books/${bookId}/copies`),
+    enabled: !!bookId,
+    ...options,
+  });
+}
+
+/**
+ * Editions of the book's work that the community owns (bookId is a family_books or catalog id)
+ */
+export function useBookEditions(
+  bookId: string | null | undefined,
+  options?: Omit<UseQueryOptions<{ workId: string | null; editions: BookEdition[] }>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.books.editions(String(bookId)),
+    queryFn: () => apiCall<{ workId: string | null; editions: BookEdition[] }>(`/api/books/${bookId}/editions`),
+    enabled: !!bookId,
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Search books (for autocomplete suggestions)
  * Shorter stale time since search results change frequently
@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient, type UseMutationOptions, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { CalendarFeed } from '../types';
+
+interface CalendarFeedResponse {
+  feed: CalendarFeed | null;
+}
+
+/**
+ * Fetch the current user's calendar subscription (feed is null until created)
+ */
+export function useCalendarFeed(
+  options?: Omit<UseQueryOptions<CalendarFeedResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.calendar.feed,
+    queryFn: () => apiCall<CalendarFeedResponse>('/api/calendar/feed'),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for creating the calendar subscription, or replacing its link
+ * (calendars subscribed to the old link stop updating)
+ */
+export function useCreateCalendarFeed(
+  options?: Omit<UseMutationOptions<CalendarFeedResponse, Error, void>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<CalendarFeedResponse, Error, void>({
+    mutationFn: () => apiCall<CalendarFeedResponse>('/api/calendar/feed', { method: 'POST' }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.calendar.feed, data);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for turning the calendar subscription off
+ */
+export function useDeleteCalendarFeed(
+  options?: Omit<UseMutationOptions<{ message: string }, Error, void>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ message: string }, Error, void>({
+    mutationFn: () => apiCall<{ message: string }>('/api/calendar/feed', { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.setQueryData(queryKeys.calendar.feed, { feed: null });
+    },
+    ...options,
+  });
+}
@@ -0,0 +1,87 @@
+import { useMutation, useQuery, useQueryClient, type UseMutationOptions, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { CatalogDuplicateCandidate, CatalogMergeResult } from '../types';
+
+interface DuplicatesResponse {
+  candidates: CatalogDuplicateCandidate[];
+  scanned: number;
+}
+
+interface MergeResponse {
+  merged: CatalogMergeResult;
+}
+
+export interface MergeCatalogBooksData {
+  survivorId: string;
+  duplicateId: string;
+}
+
+/**
+ * Candidate duplicate pairs in the shared catalog (admins only)
+ */
+export function useCatalogDuplicates(
+  limit = 50,
+  options?: Omit<UseQueryOptions<DuplicatesResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.catalog.duplicates(limit),
+    queryFn: () => apiCall<DuplicatesResponse>(`/api/catalog/duplicates?limit=${limit}`),
+    staleTime: 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for merging a duplicate catalog book into the surviving record
+ */
+export function useMergeCatalogBooks(
+  options?: Omit<UseMutationOptions<MergeResponse, Error, MergeCatalogBooksData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<MergeResponse, Error, MergeCatalogBooksData>({
+    mutationFn: ({ survivorId, duplicateId }) =>
+      apiCall<MergeResponse>('/api/catalog/merge', {
+        method: 'POST',
+        body: JSON.stringify({ survivor_id: survivorId, duplicate_id: duplicateId }),
+      }),
+    onSuccess: () => {
+      // Copies, likes, reviews and holds all moved to the survivor
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalog.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+    },
+    ...options,
+  });
+}
+
+export interface LinkEditionData {
+  editionId: string;
+  targetId: string;
+}
+
+/**
+ * Hook for grouping a catalog book under another book's work, as another edition
+ */
+export function useLinkEdition(
+  options?: Omit<UseMutationOptions<{ edition: { id: string; work_id: string } }, Error, LinkEditionData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ edition: { id: string; work_id: string } }, Error, LinkEditionData>({
+    mutationFn: ({ editionId, targetId }) =>
+      apiCall<{ edition: { id: string; work_id: string } }>('/api/catalog/works/link', {
+        method: 'POST',
+        body: JSON.stringify({ edition_id: editionId, target_id: targetId }),
+      }),
+    onSuccess: () => {
+      // Likes and reviews now roll up across both editions
+      queryClient.invalidateQueries({ queryKey: queryKeys.catalog.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.reviews.all });
+    },
+    ...options,
+  });
+}
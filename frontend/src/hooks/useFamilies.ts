@@ -14,6 +14,7 @@ export interface Family {
   id: number;
   name: string;
   created_at: string;
+  default_loan_period_days?: number | null;
   members?: FamilyMember[]; // Optional members array
 }
 
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient, type UseMutationOptions, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { BookHold } from '../types';
+
+interface HoldsResponse {
+  holds: BookHold[];
+}
+
+interface HoldResponse {
+  hold: BookHold;
+  loan?: { id: string };
+}
+
+/**
+ * Fetch the open hold queue for a catalog book (FIFO order)
+ */
+export function useHoldQueue(
+  bookCatalogId: string | undefined,
+  options?: Omit<UseQueryOptions<HoldsResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.holds.byBook(bookCatalogId!),
+    queryFn: () => apiCall<HoldsResponse>(`/api/holds?bookCatalogId=${bookCatalogId}`),
+    enabled: !!bookCatalogId,
+    staleTime: 30 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for joining the hold queue of a catalog book
+ */
+export function useJoinHoldQueue(
+  options?: Omit<UseMutationOptions<HoldResponse, Error, string>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<HoldResponse, Error, string>({
+    mutationFn: (bookCatalogId: string) =>
+      apiCall<HoldResponse>('/api/holds', {
+        method: 'POST',
+        body: JSON.stringify({ book_catalog_id: bookCatalogId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for leaving the queue (or giving up a claim)
+ */
+export function useCancelHold(
+  options?: Omit<UseMutationOptions<HoldResponse, Error, string>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<HoldResponse, Error, string>({
+    mutationFn: (holdId: string) =>
+      apiCall<HoldResponse>(`/api/holds/${holdId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for claiming a reserved copy - creates a loan request for the owner
+ */
+export function useClaimHold(
+  options?: Omit<UseMutationOptions<HoldResponse, Error, string>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<HoldResponse, Error, string>({
+    mutationFn: (holdId: string) =>
+      apiCall<HoldResponse>(`/api/holds/${holdId}/claim`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+    ...options,
+  });
+}
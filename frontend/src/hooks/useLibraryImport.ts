@@ -0,0 +1,141 @@
+import { useMutation, useQueryClient, type UseMutationOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type {
+  ImportCatalogMatch,
+  ImportedBook,
+  LibraryImportField,
+  LibraryImportFormat,
+  LibraryImportPreview,
+  LibraryImportResult,
+  LibraryImportRow,
+} from '../types';
+
+// Books per request, the server's limits
+const MATCH_BATCH_SIZE = 100;
+const ENRICH_BATCH_SIZE = 20;
+const IMPORT_BATCH_SIZE = 50;
+
+export interface ImportPreviewData {
+  file: File;
+  /** Detected from the file when omitted */
+  format?: LibraryImportFormat;
+  /** { field: column }; the format's own mapping when omitted */
+  mapping?: Partial<Record<LibraryImportField, string>>;
+  onProgress?: ImportProgress;
+}
+
+export interface EnrichedImportBook {
+  book: ImportedBook;
+  /** Provider the missing fields came from, null when nothing was found */
+  source: string | null;
+}
+
+export type ImportProgress = (done: number, total: number) => void;
+
+/**
+ * Hook for reading a library file and matching its books against the catalog
+ * The books are matched a few at a time after the file is read; onProgress follows along
+ */
+export function useImportPreview(
+  options?: Omit<UseMutationOptions<LibraryImportPreview, Error, ImportPreviewData>, 'mutationFn'>
+) {
+  return useMutation<LibraryImportPreview, Error, ImportPreviewData>({
+    mutationFn: async ({ file, format, mapping, onProgress }) => {
+      const body = new FormData();
+      body.append('file', file);
+      if (format) body.append('format', format);
+      if (mapping) body.append('mapping', JSON.stringify(mapping));
+      const parsed = await apiCall<Omit<LibraryImportPreview, 'rows' | 'summary'> & {
+        rows: Omit<LibraryImportRow, 'match'>[];
+      }>('/api/books/import/preview', { method: 'POST', body });
+
+      const matches: (ImportCatalogMatch | null)[] = [];
+      for (let i = 0; i < parsed.rows.length; i += MATCH_BATCH_SIZE) {
+        const response = await apiCall<{ matches: (ImportCatalogMatch | null)[] }>('/api/books/import/match', {
+          method: 'POST',
+          body: JSON.stringify({ books: parsed.rows.slice(i, i + MATCH_BATCH_SIZE).map((row) => row.book) }),
+        });
+        matches.push(...response.matches);
+        onProgress?.(matches.length, parsed.rows.length);
+      }
+
+      const rows = parsed.rows.map((row, index) => ({ ...row, match: matches[index] ?? null }));
+      return {
+        ...parsed,
+        rows,
+        summary: {
+          total: rows.length,
+          matched: rows.filter((row) => row.match).length,
+          owned: rows.filter((row) => row.match?.owned).length,
+        },
+      };
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for filling in what imported books are missing from the book metadata providers
+ * Sent a few books at a time; onProgress follows along
+ */
+export function useEnrichImportedBooks(
+  options?: Omit<
+    UseMutationOptions<EnrichedImportBook[], Error, { books: ImportedBook[]; onProgress?: ImportProgress }>,
+    'mutationFn'
+  >
+) {
+  return useMutation<EnrichedImportBook[], Error, { books: ImportedBook[]; onProgress?: ImportProgress }>({
+    mutationFn: async ({ books, onProgress }) => {
+      const enriched: EnrichedImportBook[] = [];
+      for (let i = 0; i < books.length; i += ENRICH_BATCH_SIZE) {
+        const response = await apiCall<{ books: EnrichedImportBook[] }>('/api/books/import/enrich', {
+          method: 'POST',
+          body: JSON.stringify({ books: books.slice(i, i + ENRICH_BATCH_SIZE) }),
+        });
+        enriched.push(...response.books);
+        onProgress?.(enriched.length, books.length);
+      }
+      return enriched;
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for adding imported books to the family's library
+ * Invalidates: all book queries
+ */
+export function useImportBooks(
+  options?: Omit<
+    UseMutationOptions<LibraryImportResult, Error, { books: ImportedBook[]; onProgress?: ImportProgress }>,
+    'mutationFn'
+  >
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LibraryImportResult, Error, { books: ImportedBook[]; onProgress?: ImportProgress }>({
+    mutationFn: async ({ books, onProgress }) => {
+      const result: LibraryImportResult = { added: 0, skipped: 0, failed: 0, skippedBooks: [], errors: [] };
+      for (let i = 0; i < books.length; i += IMPORT_BATCH_SIZE) {
+        const batch = books.slice(i, i + IMPORT_BATCH_SIZE);
+        const response = await apiCall<LibraryImportResult>('/api/books/import', {
+          method: 'POST',
+          body: JSON.stringify({ books: batch }),
+        });
+        result.added += response.added;
+        result.skipped += response.skipped;
+        result.failed += response.failed;
+        result.skippedBooks.push(...response.skippedBooks);
+        result.errors.push(...response.errors);
+        onProgress?.(i + batch.length, books.length);
+      }
+      return result;
+    },
+    onSettled: () => {
+      // Batches before a failed one were added too
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    },
+    ...options,
+  });
+}
@@ -1,20 +1,24 @@
-import { useMutation, useQueryClient, type UseMutationOptions } from '@tanstack/react-query';
+import { useMutation, useQueryClient, type QueryClient, type UseMutationOptions } from '@tanstack/react-query';
 import { apiCall } from '../utils/apiCall';
 import { queryKeys } from './queryKeys';
+import type { LoanStatus, LoanRenewal, LoanConditionRecord, BookCondition, LoanEvent } from '../types';
 
 // Types for loan operations
 export interface CreateLoanData {
-  id?: string; // Optional - will be generated on frontend if not provided
+  // Client-generated UUID - sending the same id again returns the loan it created instead of a duplicate
+  id: string;
   family_book_id: string;
   borrower_family_id: string;
   owner_family_id: string;
   requester_user_id: string;
+  due_date?: string;
   notes?: string | null;
 }
 
 export interface UpdateLoanData {
   return_date?: string;
-  status?: 'active' | 'returned' | 'overdue';
+  status?: Extract<LoanStatus, 'returned' | 'cancelled'>;
+  notes?: string | null;
 }
 
 export interface LoanData {
@@ -25,7 +29,7 @@ export interface LoanData {
   loan_date: string;
   due_date: string | null;
   return_date: string | null;
-  status: 'active' | 'returned' | 'overdue';
+  status: LoanStatus;
   borrower_family?: {
     id: string;
     name: string;
@@ -45,6 +49,23 @@ export interface LoanResponse {
   loan: LoanData;
 }
 
+/**
+ * Replace a catalog book in every cached book list - single lists and infinite (paged) lists
+ */
+function replaceBookInLists(queryClient: QueryClient, catalogId: string, book: any) {
+  const replace = (books: any[]) => books.map((b: any) => (b.catalogId === catalogId ? book : b));
+  queryClient.getQueriesData({ queryKey: queryKeys.books.lists() }).forEach(([queryKey, data]: [any, any]) => {
+    if (data?.pages) {
+      queryClient.setQueryData(queryKey, {
+        ...data,
+        pages: data.pages.map((page: any) => ({ ...page, books: replace(page.books || []) })),
+      });
+    } else if (data?.books) {
+      queryClient.setQueryData(queryKey, { ...data, books: replace(data.books) });
+    }
+  });
+}
+
 interface CreateLoanContext {
   previousCache: any;
   targetCatalogId: string | null;
@@ -63,19 +84,11 @@ export function useCreateLoan(
 
   return useMutation<LoanResponse, Error, CreateLoanData, CreateLoanContext>({
     mutationFn: async (data: CreateLoanData) => {
-      // Use the UUID provided by the caller (should always be provided now)
-      if (!data.id) {
-        console.error('[useCreateLoan.mutationFn] ERROR: No loan ID provided! This should not happen.');
-      }
-      const loanId = data.id || crypto.randomUUID(); // Fallback just in case
-      console.log('[useCreateLoan.mutationFn] Using loan ID:', loanId, 'family_book_id:', data.family_book_id);
+      console.log('[useCreateLoan.mutationFn] Using loan ID:', data.id, 'family_book_id:', data.family_book_id);
       
       return apiCall<LoanResponse>('/api/loans', {
         method: 'POST',
-        body: JSON.stringify({
-          ...data,
-          id: loanId,
-        }),
+        body: JSON.stringify(data),
       });
     },
     onMutate: async (variables) => {
@@ -83,11 +96,7 @@ export function useCreateLoan(
       await queryClient.cancelQueries({ queryKey: queryKeys.books.lists() });
       await queryClient.cancelQueries({ queryKey: ['books', 'normalized'] });
       
-      // Use the loan ID provided by the caller (should always be provided now)
-      if (!variables.id) {
-        console.error('[useCreateLoan.onMutate] ERROR: No loan ID provided! This should not happen.');
-      }
-      const loanId = variables.id || crypto.randomUUID(); // Fallback just in case
+      const loanId = variables.id;
       console.log('[useCreateLoan.onMutate] Using loan ID:', loanId, 'family_book_id:', variables.family_book_id);
       
       // Get normalized cache
@@ -156,7 +165,7 @@ export function useCreateLoan(
                     },
                     status: 'active' as const,
                     loanDate: new Date().toISOString(),
-                    dueDate: null,
+                    dueDate: variables.due_date || null,
                   }
                 };
               }
@@ -183,15 +192,7 @@ export function useCreateLoan(
         queryClient.setQueryData(normalizedCacheKey, newCache);
         
         // Update all book list queries
-        const queries = queryClient.getQueriesData({ queryKey: ['books', 'list'] });
-        queries.forEach(([queryKey, data]: [any, any]) => {
-          if (data?.books) {
-            const updatedBooks = data.books.map((b: any) => 
-              b.catalogId === targetCatalogId ? updatedBook : b
-            );
-            queryClient.setQueryData(queryKey, { ...data, books: updatedBooks });
-          }
-        });
+        replaceBookInLists(queryClient, targetCatalogId, updatedBook);
       }
       
       return { previousCache, targetCatalogId, familyBookId: variables.family_book_id, loanId };
@@ -202,18 +203,10 @@ export function useCreateLoan(
         queryClient.setQueryData(['books', 'normalized'], context.previousCache);
         
         // Update all list queries to reflect rollback
-        const queries = queryClient.getQueriesData({ queryKey: ['books', 'list'] });
-        queries.forEach(([queryKey, data]: [any, any]) => {
-          if (data?.books && context.targetCatalogId) {
-            const rolledBackBook = context.previousCache.byId[context.targetCatalogId];
-            if (rolledBackBook) {
-              const updatedBooks = data.books.map((b: any) => 
-                b.catalogId === context.targetCatalogId ? rolledBackBook : b
-              );
-              queryClient.setQueryData(queryKey, { ...data, books: updatedBooks });
-            }
-          }
-        });
+        const rolledBackBook = context.targetCatalogId ? context.previousCache.byId[context.targetCatalogId] : null;
+        if (context.targetCatalogId && rolledBackBook) {
+          replaceBookInLists(queryClient, context.targetCatalogId, rolledBackBook);
+        }
       }
     },
     onSuccess: (responseData, variables, context) => {
@@ -297,16 +290,7 @@ export function useCreateLoan(
       );
       
       // Update all book list queries
-      const queries = queryClient.getQueriesData({ queryKey: ['books', 'list'] });
-      console.log('[useCreateLoan.onSuccess] Updating', queries.length, 'list queries');
-      queries.forEach(([queryKey, data]: [any, any]) => {
-        if (data?.books) {
-          const updatedBooks = data.books.map((b: any) => 
-            b.catalogId === context.targetCatalogId ? updatedBook : b
-          );
-          queryClient.setQueryData(queryKey, { ...data, books: updatedBooks });
-        }
-      });
+      replaceBookInLists(queryClient, context.targetCatalogId, updatedBook);
       
       // Invalidate loan queries (but NOT book queries - we already have the right data)
       queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
@@ -405,15 +389,7 @@ export function useUpdateLoan(
         queryClient.setQueryData(normalizedCacheKey, newCache);
         
         // Update all book list queries
-        const queries = queryClient.getQueriesData({ queryKey: ['books', 'list'] });
-        queries.forEach(([queryKey, data]: [any, any]) => {
-          if (data?.books) {
-            const updatedBooks = data.books.map((b: any) => 
-              b.catalogId === targetCatalogId ? updatedBook : b
-            );
-            queryClient.setQueryData(queryKey, { ...data, books: updatedBooks });
-          }
-        });
+        replaceBookInLists(queryClient, targetCatalogId, updatedBook);
       }
       
       return { previousCache, targetCatalogId };
@@ -424,21 +400,13 @@ export function useUpdateLoan(
         queryClient.setQueryData(['books', 'normalized'], context.previousCache);
         
         // Update all list queries to reflect rollback
-        const queries = queryClient.getQueriesData({ queryKey: ['books', 'list'] });
-        queries.forEach(([queryKey, data]: [any, any]) => {
-          if (data?.books && context.targetCatalogId) {
-            const rolledBackBook = context.previousCache.byId[context.targetCatalogId];
-            if (rolledBackBook) {
-              const updatedBooks = data.books.map((b: any) => 
-                b.catalogId === context.targetCatalogId ? rolledBackBook : b
-              );
-              queryClient.setQueryData(queryKey, { ...data, books: updatedBooks });
-            }
-          }
-        });
+        const rolledBackBook = context.targetCatalogId ? context.previousCache.byId[context.targetCatalogId] : null;
+        if (context.targetCatalogId && rolledBackBook) {
+          replaceBookInLists(queryClient, context.targetCatalogId, rolledBackBook);
+        }
       }
     },
-    onSuccess: (_responseData, _variables, _context) => {
+    onSuccess: (_responseData, variables, _context) => {
       // Server confirms the return - loan is gone, book is available
       // Cache already updated optimistically, just confirm it's correct
       // If server returned different data, we'd update here, but for return
@@ -446,6 +414,11 @@ export function useUpdateLoan(
       
       // Invalidate loan queries only
       queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+
+      // A returned copy may have been reserved for the next family in the hold queue
+      if (variables.status === 'returned') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+      }
     },
     ...options,
   });
@@ -472,3 +445,300 @@ export function useReturnBook(
     ...options,
   });
 }
+
+export interface RequestLoanData {
+  family_book_id: string;
+  notes?: string | null;
+}
+
+export type LoanRequestAction = 'approve' | 'reject' | 'handover' | 'cancel';
+
+export interface LoanRequestActionData {
+  loanId: string;
+  action: LoanRequestAction;
+  notes?: string;
+}
+
+/**
+ * Hook for requesting to borrow a copy from another family
+ * The request stays pending until the owner approves it
+ */
+export function useRequestLoan(
+  options?: Omit<UseMutationOptions<LoanResponse, Error, RequestLoanData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanResponse, Error, RequestLoanData>({
+    mutationFn: async (data: RequestLoanData) => {
+      return apiCall<LoanResponse>('/api/loans/requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...data,
+          id: crypto.randomUUID(),
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for moving a loan request through its workflow
+ * (owner: approve / reject / handover, borrower: cancel)
+ */
+export function useLoanRequestAction(
+  options?: Omit<UseMutationOptions<LoanResponse, Error, LoanRequestActionData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanResponse, Error, LoanRequestActionData>({
+    mutationFn: async ({ loanId, action, notes }: LoanRequestActionData) => {
+      return apiCall<LoanResponse>(`/api/loans/${loanId}/${action}`, {
+        method: 'POST',
+        body: JSON.stringify(notes ? { notes } : {}),
+      });
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+      // Hand-off changes the copy's availability
+      if (variables.action === 'handover') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+      }
+    },
+    ...options,
+  });
+}
+
+export interface RequestRenewalData {
+  loanId: string;
+  extra_days: number;
+  notes?: string | null;
+}
+
+export type LoanRenewalDecision = 'approve' | 'decline';
+
+export interface RenewalDecisionData {
+  loanId: string;
+  renewalId: string;
+  decision: LoanRenewalDecision;
+}
+
+interface RenewalResponse {
+  renewal: LoanRenewal;
+  loan?: LoanData;
+}
+
+/**
+ * Hook for asking the owner to extend a loan (borrower)
+ */
+export function useRequestRenewal(
+  options?: Omit<UseMutationOptions<RenewalResponse, Error, RequestRenewalData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RenewalResponse, Error, RequestRenewalData>({
+    mutationFn: async ({ loanId, ...data }: RequestRenewalData) => {
+      return apiCall<RenewalResponse>(`/api/loans/${loanId}/renewals`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for the owner's answer to a renewal request
+ */
+export function useRenewalDecision(
+  options?: Omit<UseMutationOptions<RenewalResponse, Error, RenewalDecisionData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<RenewalResponse, Error, RenewalDecisionData>({
+    mutationFn: async ({ loanId, renewalId, decision }: RenewalDecisionData) => {
+      return apiCall<RenewalResponse>(`/api/loans/${loanId}/renewals/${renewalId}/${decision}`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+    ...options,
+  });
+}
+
+export interface PassOnRequestData {
+  loanId: string;
+  // Omit to pass the book to the first family in the hold queue
+  next_family_id?: string;
+}
+
+export type PassOnDecision = 'approve' | 'decline';
+
+export interface PassOnDecisionData {
+  loanId: string;
+  decision: PassOnDecision;
+}
+
+/**
+ * Hook for proposing to hand a borrowed book straight to the next family (borrower)
+ */
+export function useRequestPassOn(
+  options?: Omit<UseMutationOptions<LoanResponse, Error, PassOnRequestData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanResponse, Error, PassOnRequestData>({
+    mutationFn: async ({ loanId, ...data }: PassOnRequestData) => {
+      return apiCall<LoanResponse>(`/api/loans/${loanId}/pass-on`, {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for approving (owner) or declining / withdrawing a pass-on
+ */
+export function usePassOnDecision(
+  options?: Omit<UseMutationOptions<LoanResponse, Error, PassOnDecisionData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanResponse, Error, PassOnDecisionData>({
+    mutationFn: async ({ loanId, decision }: PassOnDecisionData) => {
+      return apiCall<LoanResponse>(`/api/loans/${loanId}/pass-on/${decision}`, {
+        method: 'POST',
+        body: JSON.stringify({}),
+      });
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+      // Approval may fulfil a hold in the queue
+      if (variables.decision === 'approve') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.holds.all });
+      }
+    },
+    ...options,
+  });
+}
+
+export interface LoanConditionData {
+  loanId: string;
+  kind: 'checkout' | 'checkin';
+  // Optional at check-in; the copy's condition is then left as it was
+  condition: BookCondition | null;
+  notes?: string;
+  photos?: File[];
+}
+
+export interface DamageReportData {
+  loanId: string;
+  kind: 'damage' | 'loss';
+  condition?: BookCondition;
+  notes?: string;
+  photos?: File[];
+}
+
+interface LoanConditionResponse {
+  record: LoanConditionRecord;
+}
+
+// Condition records may carry photos, so they are sent as multipart form data
+const toConditionFormData = ({ loanId: _loanId, photos, ...fields }: LoanConditionData | DamageReportData) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value) formData.append(key, value);
+  });
+  photos?.forEach((photo) => formData.append('photos', photo));
+  return formData;
+};
+
+/**
+ * Hook for recording the condition of a copy at check-out or check-in
+ */
+export function useRecordLoanCondition(
+  options?: Omit<UseMutationOptions<LoanConditionResponse, Error, LoanConditionData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanConditionResponse, Error, LoanConditionData>({
+    mutationFn: async (data: LoanConditionData) => {
+      return apiCall<LoanConditionResponse>(`/api/loans/${data.loanId}/condition`, {
+        method: 'POST',
+        body: toConditionFormData(data),
+      });
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.conditions(variables.loanId) });
+      // The copy's condition follows the latest record
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.details() });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for reporting a lent copy as damaged or lost (owner)
+ * The copy is marked unavailable
+ */
+export function useReportLoanDamage(
+  options?: Omit<UseMutationOptions<LoanConditionResponse, Error, DamageReportData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<LoanConditionResponse, Error, DamageReportData>({
+    mutationFn: async (data: DamageReportData) => {
+      return apiCall<LoanConditionResponse>(`/api/loans/${data.loanId}/damage-report`, {
+        method: 'POST',
+        body: toConditionFormData(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.loans.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.books.all });
+    },
+    ...options,
+  });
+}
+
+export interface DisputeLoanData {
+  loanId: string;
+  reason: string;
+}
+
+/**
+ * Hook for flagging a loan as disputed (either family)
+ * Adds a "disputed" entry to the loan's timeline
+ */
+export function useDisputeLoan(
+  options?: Omit<UseMutationOptions<{ event: LoanEvent }, Error, DisputeLoanData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ event: LoanEvent }, Error, DisputeLoanData>({
+    mutationFn: async ({ loanId, reason }: DisputeLoanData) => {
+      return apiCall<{ event: LoanEvent }>(`/api/loans/${loanId}/dispute`, {
+        method: 'POST',
+        body: JSON.stringify({ reason }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['loans', 'events'] });
+    },
+    ...options,
+  });
+}
@@ -1,6 +1,7 @@
 import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
 import { apiCall } from '../utils/apiCall';
 import { queryKeys } from './queryKeys';
+import type { LoanStatus, LoanRenewal, LoanConditionRecord, LendingPolicyViolation, LoanEvent } from '../types';
 
 // TypeScript interfaces
 interface Loan {
@@ -9,15 +10,30 @@ interface Loan {
   borrower_family_id: string;
   owner_family_id: string;
   requester_user_id: string;
-  status: 'active' | 'returned';
+  status: LoanStatus;
   request_date: string;
+  approved_date?: string;
+  due_date?: string | null;
   actual_return_date?: string;
   notes?: string;
   family_books?: any;
   books?: any;
   borrower_family?: any;
+  owner_family?: any;
+  renewals?: LoanRenewal[];
+  return_date?: string | null;
+  previous_loan_id?: string | null;
+  pass_on_family_id?: string | null;
+  pass_on_requested_at?: string | null;
+  pass_on_family?: { name: string } | null;
 }
 
+// A single status or a list of statuses (sent as a comma-separated filter)
+type LoanStatusFilter = LoanStatus | LoanStatus[];
+
+const toStatusParam = (status?: LoanStatusFilter) =>
+  Array.isArray(status) ? status.join(',') : status;
+
 interface LoansResponse {
   loans: Loan[];
 }
@@ -28,15 +44,15 @@ interface LoansResponse {
  */
 export function useLoansByOwner(
   familyId: string | undefined,
-  status?: 'active' | 'returned',
+  status?: LoanStatusFilter,
   options?: Omit<UseQueryOptions<LoansResponse>, 'queryKey' | 'queryFn'>
 ) {
   return useQuery({
-    queryKey: queryKeys.loans.byOwner(familyId!, status),
+    queryKey: queryKeys.loans.byOwner(familyId!, toStatusParam(status)),
     queryFn: () => {
       const params = new URLSearchParams();
       params.append('ownerFamilyId', familyId!);
-      if (status) params.append('status', status);
+      if (status) params.append('status', toStatusParam(status)!);
       return apiCall<LoansResponse>(`/api/loans?${params.toString()}`);
     },
     enabled: !!familyId,
@@ -51,15 +67,15 @@ export function useLoansByOwner(
  */
 export function useLoansByBorrower(
   familyId: string | undefined,
-  status?: 'active' | 'returned',
+  status?: LoanStatusFilter,
   options?: Omit<UseQueryOptions<LoansResponse>, 'queryKey' | 'queryFn'>
 ) {
   return useQuery({
-    queryKey: queryKeys.loans.byBorrower(familyId!, status),
+    queryKey: queryKeys.loans.byBorrower(familyId!, toStatusParam(status)),
     queryFn: () => {
       const params = new URLSearchParams();
       params.append('borrowerFamilyId', familyId!);
-      if (status) params.append('status', status);
+      if (status) params.append('status', toStatusParam(status)!);
       return apiCall<LoansResponse>(`/api/loans?${params.toString()}`);
     },
     enabled: !!familyId,
@@ -74,15 +90,15 @@ export function useLoansByBorrower(
  */
 export function useLoansByBook(
   bookId: string | undefined,
-  status?: 'active' | 'returned',
+  status?: LoanStatusFilter,
   options?: Omit<UseQueryOptions<LoansResponse>, 'queryKey' | 'queryFn'>
 ) {
   return useQuery({
-    queryKey: queryKeys.loans.byBook(bookId!, status),
+    queryKey: queryKeys.loans.byBook(bookId!, toStatusParam(status)),
     queryFn: () => {
       const params = new URLSearchParams();
       params.append('bookId', bookId!);
-      if (status) params.append('status', status);
+      if (status) params.append('status', toStatusParam(status)!);
       return apiCall<LoansResponse>(`/api/loans?${params.toString()}`);
     },
     enabled: !!bookId,
@@ -90,3 +106,79 @@ export function useLoansByBook(
     ...options,
   });
 }
+
+interface LoanConditionRecordsResponse {
+  records: LoanConditionRecord[];
+}
+
+/**
+ * Fetch the check-out / check-in condition records and damage reports of a loan
+ * Only the two families on the loan can read them
+ */
+export function useLoanConditionRecords(
+  loanId: string | undefined,
+  options?: Omit<UseQueryOptions<LoanConditionRecordsResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.loans.conditions(loanId!),
+    queryFn: () => apiCall<LoanConditionRecordsResponse>(`/api/loans/${loanId}/condition`),
+    enabled: !!loanId,
+    // Photo URLs are signed for an hour
+    staleTime: 10 * 60 * 1000,
+    ...options,
+  });
+}
+
+interface LoanEventsResponse {
+  events: LoanEvent[];
+}
+
+/**
+ * Fetch the event timeline of one loan, or of every loan of a copy (oldest first)
+ */
+export function useLoanEvents(
+  scope: { loanId?: string; familyBookId?: string },
+  options?: Omit<UseQueryOptions<LoanEventsResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.loans.events(scope),
+    queryFn: () => apiCall<LoanEventsResponse>(
+      scope.loanId
+        ? `/api/loans/${scope.loanId}/events`
+        : `/api/loans/events?familyBookId=${encodeURIComponent(scope.familyBookId!)}`
+    ),
+    enabled: !!(scope.loanId || scope.familyBookId),
+    staleTime: 30 * 1000,
+    ...options,
+  });
+}
+
+interface LendingPolicyCheckResponse {
+  allowed: boolean;
+  violations: LendingPolicyViolation[];
+}
+
+/**
+ * Check a prospective loan against the owner family's lending policy
+ * Used by CreateLoanDialog to explain violations before submitting
+ */
+export function useLendingPolicyCheck(
+  bookId: string | undefined,
+  borrowerFamilyId: string | undefined,
+  dueDate?: string | null,
+  options?: Omit<UseQueryOptions<LendingPolicyCheckResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.loans.policyCheck(bookId!, borrowerFamilyId!, dueDate || undefined),
+    queryFn: () => {
+      const params = new URLSearchParams();
+      params.append('family_book_id', bookId!);
+      params.append('borrower_family_id', borrowerFamilyId!);
+      if (dueDate) params.append('due_date', dueDate);
+      return apiCall<LendingPolicyCheckResponse>(`/api/loans/policy-check?${params.toString()}`);
+    },
+    enabled: !!bookId && !!borrowerFamilyId,
+    staleTime: 30 * 1000,
+    ...options,
+  });
+}
@@ -0,0 +1,154 @@
+import { useMutation, useQuery, useQueryClient, type UseMutationOptions, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { AppNotification, NotificationPreferences, DigestSettings } from '../types';
+
+interface NotificationsResponse {
+  notifications: AppNotification[];
+  unread_count: number;
+}
+
+interface PreferencesResponse {
+  preferences: NotificationPreferences;
+}
+
+interface DigestSettingsResponse {
+  digest: DigestSettings;
+}
+
+export type UpdateDigestSettingsData = Partial<Omit<DigestSettings, 'last_sent_at'>>;
+
+/**
+ * Fetch the current user's notifications, newest first
+ */
+export function useNotifications(
+  unreadOnly = false,
+  options?: Omit<UseQueryOptions<NotificationsResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.notifications.list(unreadOnly),
+    queryFn: () => apiCall<NotificationsResponse>(`/api/notifications${unreadOnly ? '?unread=true' : ''}`),
+    staleTime: 30 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Unread count for the navbar badge - polled so new notifications show up without a reload
+ */
+export function useUnreadNotificationCount(
+  options?: Omit<UseQueryOptions<{ count: number }>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.notifications.unreadCount,
+    queryFn: () => apiCall<{ count: number }>('/api/notifications/unread-count'),
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for marking one notification as read
+ */
+export function useMarkNotificationRead(
+  options?: Omit<UseMutationOptions<AppNotification, Error, string>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<AppNotification, Error, string>({
+    mutationFn: (notificationId: string) =>
+      apiCall<AppNotification>(`/api/notifications/${notificationId}/read`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook for marking all notifications as read
+ */
+export function useMarkAllNotificationsRead(
+  options?: Omit<UseMutationOptions<{ updated: number }, Error, void>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ updated: number }, Error, void>({
+    mutationFn: () => apiCall<{ updated: number }>('/api/notifications/read-all', { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+    ...options,
+  });
+}
+
+/**
+ * Fetch which notification types the current user gets
+ */
+export function useNotificationPreferences(
+  options?: Omit<UseQueryOptions<PreferencesResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.notifications.preferences,
+    queryFn: () => apiCall<PreferencesResponse>('/api/notifications/preferences'),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for turning notification types on or off (types left out keep their setting)
+ */
+export function useUpdateNotificationPreferences(
+  options?: Omit<UseMutationOptions<PreferencesResponse, Error, Partial<NotificationPreferences>>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<PreferencesResponse, Error, Partial<NotificationPreferences>>({
+    mutationFn: (preferences) =>
+      apiCall<PreferencesResponse>('/api/notifications/preferences', {
+        method: 'PUT',
+        body: JSON.stringify({ preferences }),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.notifications.preferences, data);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Fetch the current user's reminder digest email settings
+ */
+export function useDigestSettings(
+  options?: Omit<UseQueryOptions<DigestSettingsResponse>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.notifications.digest,
+    queryFn: () => apiCall<DigestSettingsResponse>('/api/notifications/digest'),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Hook for changing the digest frequency or quiet hours
+ */
+export function useUpdateDigestSettings(
+  options?: Omit<UseMutationOptions<DigestSettingsResponse, Error, UpdateDigestSettingsData>, 'mutationFn'>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<DigestSettingsResponse, Error, UpdateDigestSettingsData>({
+    mutationFn: (settings) =>
+      apiCall<DigestSettingsResponse>('/api/notifications/digest', {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(queryKeys.notifications.digest, data);
+    },
+    ...options,
+  });
+}
@@ -0,0 +1,34 @@
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import { apiCall } from '../utils/apiCall';
+import { queryKeys } from './queryKeys';
+import type { MySeriesSummary, SeriesOverview } from '../types';
+
+/**
+ * Every known volume of a series, with the family's and the community's copies
+ */
+export function useSeries(
+  name: string | undefined,
+  options?: Omit<UseQueryOptions<{ series: SeriesOverview }>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.series.detail(name!),
+    queryFn: () => apiCall<{ series: SeriesOverview }>(`/api/series/${encodeURIComponent(name!)}`),
+    enabled: !!name,
+    staleTime: 60 * 1000,
+    ...options,
+  });
+}
+
+/**
+ * Series the family has started, with the next volume to borrow
+ */
+export function useMySeries(
+  options?: Omit<UseQueryOptions<{ series: MySeriesSummary[] }>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.series.mine,
+    queryFn: () => apiCall<{ series: MySeriesSummary[] }>('/api/series'),
+    staleTime: 60 * 1000,
+    ...options,
+  });
+}
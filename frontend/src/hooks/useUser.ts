@@ -1,6 +1,7 @@
 import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
 import { apiCall } from '../utils/apiCall';
 import { queryKeys } from './queryKeys';
+import type { WhatsAppTemplates } from '../types';
 
 // TypeScript interfaces
 interface User {
@@ -10,6 +11,8 @@ interface User {
   email: string;
   family_id: string;
   is_family_admin: boolean;
+  // May change the shared catalog (SITE_ADMIN_USER_IDS on the server)
+  is_site_admin?: boolean;
   created_at: string;
 }
 
@@ -22,6 +25,7 @@ interface Family {
   name: string;
   phone: string;
   whatsapp?: string;
+  whatsapp_templates?: WhatsAppTemplates;
 }
 
 interface FamilyResponse {
@@ -0,0 +1,19 @@
+import { useAuth } from '../contexts/AuthContext';
+import { useUserFamily } from './useUser';
+import { resolveWhatsAppTemplate } from '../utils/whatsapp';
+import type { WhatsAppTemplateKey } from '../types';
+
+/**
+ * The current family's WhatsApp templates (custom text where the admin changed it)
+ * and the family name used for {my_family}
+ */
+export function useWhatsAppTemplates() {
+  const { user } = useAuth();
+  const { data: familyResponse } = useUserFamily(user?.id);
+  const family = familyResponse?.family;
+
+  return {
+    getTemplate: (key: WhatsAppTemplateKey) => resolveWhatsAppTemplate(key, family?.whatsapp_templates),
+    myFamilyName: family?.name || '',
+  };
+}
@@ -25,15 +25,19 @@ import {
   CameraAlt as CameraIcon,
   CheckCircle as CheckIcon,
   Edit as EditIcon,
+  UploadFile as UploadFileIcon,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { apiCall } from '../utils/apiCall';
 import { searchBooks, type BookSearchResult } from '../utils/bookSearch';
 import { useCreateBook } from '../hooks/useBookMutations';
+import { fetchAllBooks } from '../hooks/useBooks';
 import ImageUploadManager from '../components/ImageUploadManager';
+import IsbnScanner from '../components/IsbnScanner';
 import { DetectedBooksList, type DetectedBook } from '../components/DetectedBooksList';
 import { JobImagePreview } from '../components/JobImagePreview';
+import LibraryImportWizard from '../components/LibraryImportWizard';
 
 interface BookFormData {
   title: string;
@@ -106,11 +110,19 @@ export default function AddBook() {
   const [success, setSuccess] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>('הספר נוסף בהצלחה! מעביר לדף הספרים...');
   const [familyId, setFamilyId] = useState<string | null>(null);
+  // The family already owns the submitted book - offer to add another copy
+  const [alreadyOwned, setAlreadyOwned] = useState(false);
   
   // Create book mutation
   const createBookMutation = useCreateBook({
     onSuccess: (data) => {
       console.log('[AddBook] Book created successfully:', data);
+      if ((data as any)._alreadyOwned) {
+        setAlreadyOwned(true);
+        setLoading(false);
+        return;
+      }
+
       const wasMerged = (data as any)._merged;
       setSuccess(true);
       setLoading(false);
@@ -132,8 +144,8 @@ export default function AddBook() {
     }
   });
   
-  // Toggle between single and bulk upload
-  const [uploadMode, setUploadMode] = useState<'single' | 'bulk'>('bulk');
+  // Toggle between single book, bulk upload and file import
+  const [uploadMode, setUploadMode] = useState<'single' | 'bulk' | 'import'>('bulk');
   
   // Bulk upload state
   const [detectedBooks, setDetectedBooks] = useState<DetectedBook[]>([]);
@@ -175,11 +187,8 @@ export default function AddBook() {
           // 1. Fetch user's existing books for ownership check
           let currentUserBooks: any[] = [];
           try {
-            const booksResponse = await apiCall<{ books: any[] }>('/api/books?view=my&limit=1000');
-            if (booksResponse && booksResponse.books) {
-              currentUserBooks = booksResponse.books;
-              setUserBooks(currentUserBooks);
-            }
+            currentUserBooks = await fetchAllBooks({ view: 'my' });
+            setUserBooks(currentUserBooks);
           } catch (err) {
             console.error('Failed to fetch user books:', err);
           }
@@ -374,7 +383,10 @@ export default function AddBook() {
 
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
-    
+    submitBook(false);
+  };
+
+  const submitBook = (addCopy: boolean) => {
     if (!validateForm()) {
       return;
     }
@@ -386,6 +398,7 @@ export default function AddBook() {
 
     setLoading(true);
     setError(null);
+    setAlreadyOwned(false);
 
     const bookData = {
       title: formData.title?.trim() || '',
@@ -402,6 +415,7 @@ export default function AddBook() {
       cover_image_url: formData.cover_image_url?.trim() || null,
       family_id: familyId,
       status: 'available',
+      add_copy: addCopy,
     };
 
     createBookMutation.mutate(bookData as any);
@@ -535,6 +549,57 @@ export default function AddBook() {
     setError(null);
   };
 
+  // Continuous barcode scanning - each scanned book goes to the review list
+  const handleScannedBook = (book: BookSearchResult) => {
+    const isOwned = book.alreadyOwned || checkIfOwned(book, userBooks);
+    setDetectedBooks((prevBooks) => [
+      ...prevBooks,
+      {
+        tempId: `barcode-${book.isbn}-${Date.now()}`,
+        title: book.title,
+        author: book.author,
+        publisher: book.publisher || '',
+        publish_year: book.publish_year || undefined,
+        pages: book.pages || undefined,
+        description: book.description || '',
+        cover_image_url: book.cover_image_url || '',
+        isbn: book.isbn,
+        genre: book.genre || '',
+        age_range: '',
+        series: book.series || '',
+        series_number: book.series_number ?? undefined,
+        confidence: 'high',
+        selected: !isOwned,
+        expanded: false,
+        alreadyOwned: isOwned,
+        source: 'barcode',
+      },
+    ]);
+    setSelectedJobId(null);
+    setSuccess(false);
+    setError(null);
+  };
+
+  // Barcode read but the book is unknown - add it with the ISBN for the user to fill in
+  const handleScannedUnknownIsbn = (isbn: string) => {
+    setDetectedBooks((prevBooks) => [
+      ...prevBooks,
+      {
+        tempId: `barcode-${isbn}-${Date.now()}`,
+        title: '',
+        author: '',
+        isbn,
+        confidence: 'low',
+        selected: true,
+        expanded: true,
+        source: 'barcode',
+      },
+    ]);
+    setSelectedJobId(null);
+    setSuccess(false);
+    setError(null);
+  };
+
   const handleToggleBook = (tempId: string) => {
     setDetectedBooks(prevBooks =>
       prevBooks.map(book =>
@@ -795,7 +860,7 @@ export default function AddBook() {
 
   const visibleBooks = selectedJobId 
     ? detectedBooks.filter(b => b.jobId === selectedJobId)
-    : detectedBooks.filter(b => b.source === 'manual'); // Show manual books if no job selected
+    : detectedBooks.filter(b => b.source === 'manual' || b.source === 'barcode'); // Show manual and scanned books if no job selected
 
   const selectedJob = selectedJobId ? initialJobs.find(job => job.id === selectedJobId) : null;
 
@@ -833,6 +898,10 @@ export default function AddBook() {
             <CameraIcon sx={{ mr: 1 }} />
             הוספה מרובה (AI)
           </ToggleButton>
+          <ToggleButton value="import" aria-label="import from file">
+            <UploadFileIcon sx={{ mr: 1 }} />
+            ייבוא מקובץ
+          </ToggleButton>
         </ToggleButtonGroup>
       </Box>
 
@@ -872,6 +941,21 @@ export default function AddBook() {
             />
           </Paper>
 
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              סריקת ברקודים
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              סרקו את הברקוד שבגב הספר, ספר אחרי ספר. כל ספר שנמצא נוסף לרשימה למטה לבדיקה לפני ההוספה.
+            </Typography>
+            <IsbnScanner
+              continuous
+              userId={user?.id}
+              onBookFound={handleScannedBook}
+              onNotFound={handleScannedUnknownIsbn}
+            />
+          </Paper>
+
           <JobImagePreview 
             visible={!!selectedJobId}
             imageUrl={selectedJob?.image_storage_url || selectedJob?.image?.url || (selectedJob?.image_data ? `data:${selectedJob.image_mime_type || 'image/jpeg'};base64,${selectedJob.image_data}` : undefined)}
@@ -897,6 +981,13 @@ export default function AddBook() {
         </>
       )}
 
+      {/* Import Mode */}
+      {uploadMode === 'import' && (
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <LibraryImportWizard />
+        </Paper>
+      )}
+
       {/* Single Book Mode */}
       {uploadMode === 'single' && (
         <>
@@ -933,6 +1024,15 @@ export default function AddBook() {
           />
         </Box>
 
+        <Divider sx={{ my: 2 }}>או</Divider>
+
+        <IsbnScanner
+          userId={user?.id}
+          onBookFound={handleSelectBook}
+          onNotFound={(isbn) => setFormData((prev) => ({ ...prev, isbn }))}
+          disabled={success}
+        />
+
         {searchError && (
           <Alert severity="info" sx={{ mt: 2 }}>
             {searchError}
@@ -992,7 +1092,6 @@ export default function AddBook() {
                     )}
                     <CardActionArea 
                       onClick={() => handleSelectBook(book)}
-                      disabled={book.alreadyOwned}
                     >
                       {book.cover_image_url && (
                         <CardMedia
@@ -1020,7 +1119,7 @@ export default function AddBook() {
                         </Typography>
                         {book.alreadyOwned && (
                           <Typography variant="caption" display="block" color="info.main" fontWeight={600}>
-                            הספר כבר נמצא בספריה שלך
+                            הספר כבר נמצא בספריה שלך - אפשר להוסיף עותק נוסף
                           </Typography>
                         )}
                       </CardContent>
@@ -1234,6 +1333,21 @@ export default function AddBook() {
               />
             </Grid>
 
+            {alreadyOwned && (
+              <Grid size={{ xs: 12 }}>
+                <Alert
+                  severity="info"
+                  action={
+                    <Button color="inherit" size="small" onClick={() => submitBook(true)} disabled={loading}>
+                      הוסף עותק נוסף
+                    </Button>
+                  }
+                >
+                  הספר כבר נמצא בספרייה שלכם. יש לכם עותק נוסף שלו?
+                </Alert>
+              </Grid>
+            )}
+
             {/* Action Buttons */}
             <Grid size={{ xs: 12 }}>
               <Box display="flex" gap={2} justifyContent="flex-end">
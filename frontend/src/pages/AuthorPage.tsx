@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  CardMedia,
+  Chip,
+  CircularProgress,
+  Container,
+  Grid,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { ArrowBack as BackIcon, MenuBook as BookIcon } from '@mui/icons-material'
+import { useAuth } from '../contexts/AuthContext'
+import { useUser } from '../hooks/useUser'
+import { useAddAuthorAlias, useAuthor } from '../hooks/useAuthors'
+import type { AuthorBook } from '../types'
+
+const availabilityChip = (book: AuthorBook) => {
+  if (book.availableCopies > 0) {
+    return { label: `${book.availableCopies} מתוך ${book.totalCopies} זמינים`, color: 'success' as const }
+  }
+  return { label: 'כל העותקים מושאלים', color: 'warning' as const }
+}
+
+/**
+ * Author page - every community book by the author, whichever spelling it was added with
+ */
+export default function AuthorPage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { data: userData } = useUser(user?.id)
+  const isAdmin = Boolean(userData?.user?.is_site_admin)
+
+  const { data, isLoading, error } = useAuthor(id)
+  const [alias, setAlias] = useState('')
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const addAlias = useAddAuthorAlias(id!, {
+    onMutate: () => setMessage(null),
+    onError: (err) => setMessage({ type: 'error', text: err.message || 'שגיאה בהוספת השם' }),
+  })
+
+  const handleAddAlias = () => {
+    addAlias.mutate(alias.trim(), {
+      onSuccess: ({ relinked }) => {
+        setAlias('')
+        setMessage({
+          type: 'success',
+          text: relinked > 0 ? `השם נוסף ו-${relinked} ספרים קושרו לסופר` : 'השם נוסף',
+        })
+      },
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <Container maxWidth="md" sx={{ py: 3 }}>
+        <Alert severity="error">{(error as Error | null)?.message || 'הסופר לא נמצא'}</Alert>
+      </Container>
+    )
+  }
+
+  const { author, books } = data
+  const otherName = author.nameHebrew && author.nameHebrew !== author.name ? author.name : null
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 3 }}>
+      <Button startIcon={<BackIcon />} onClick={() => navigate(-1)} sx={{ mb: 2 }}>
+        חזרה
+      </Button>
+
+      <Typography variant="h4" component="h1">
+        {author.nameHebrew || author.name}
+      </Typography>
+      {otherName && (
+        <Typography variant="h6" color="text.secondary" dir="auto">
+          {otherName}
+        </Typography>
+      )}
+
+      {author.aliases.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            שמות נוספים:
+          </Typography>
+          {author.aliases.map((name) => (
+            <Chip key={name} label={name} size="small" variant="outlined" />
+          ))}
+        </Box>
+      )}
+
+      {isAdmin && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 2, maxWidth: 480 }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="איות נוסף של השם"
+            helperText="ספרים שנכתב בהם השם באיות הזה יקושרו לסופר"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+          />
+          <Button variant="outlined" onClick={handleAddAlias} disabled={!alias.trim() || addAlias.isPending}>
+            {addAlias.isPending ? <CircularProgress size={20} /> : 'הוסף'}
+          </Button>
+        </Box>
+      )}
+
+      {message && (
+        <Alert severity={message.type} sx={{ mt: 2 }} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+
+      <Typography variant="h6" sx={{ mt: 4, mb: 2 }}>
+        ספרים בקהילה ({books.length})
+      </Typography>
+
+      {books.length === 0 ? (
+        <Alert severity="info">אף משפחה בקהילה לא מחזיקה כרגע ספר של הסופר</Alert>
+      ) : (
+        <Grid container spacing={3}>
+          {books.map((book) => {
+            const chip = availabilityChip(book)
+            return (
+              <Grid size={{ xs: 12, sm: 6, md: 4, lg: 3 }} key={book.catalogId}>
+                <Card sx={{ height: '100%' }}>
+                  <CardActionArea onClick={() => navigate(`/books/${book.familyBookId}`)} sx={{ height: '100%' }}>
+                    {book.coverImageUrl ? (
+                      <CardMedia component="img" height="200" image={book.coverImageUrl} alt={book.title} sx={{ objectFit: 'contain', bgcolor: 'grey.100' }} />
+                    ) : (
+                      <Box sx={{ height: 200, display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'grey.100' }}>
+                        <BookIcon sx={{ fontSize: 64, color: 'grey.400' }} />
+                      </Box>
+                    )}
+                    <CardContent>
+                      <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+                        {book.titleHebrew || book.title}
+                      </Typography>
+                      {book.series && (
+                        <Typography variant="body2" color="text.secondary" gutterBottom>
+                          {book.series}
+                          {book.seriesNumber ? ` #${book.seriesNumber}` : ''}
+                        </Typography>
+                      )}
+                      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                        <Chip label={chip.label} color={chip.color} size="small" />
+                        {book.ownedByViewer && <Chip label="שלנו" color="primary" size="small" />}
+                      </Box>
+                    </CardContent>
+                  </CardActionArea>
+                </Card>
+              </Grid>
+            )
+          })}
+        </Grid>
+      )}
+    </Container>
+  )
+}
@@ -14,6 +14,7 @@ import {
   DialogContent,
   DialogContentText,
   DialogActions,
+  Link,
 } from '@mui/material';
 import {
   ArrowBack as BackIcon,
@@ -24,16 +25,25 @@ import {
   SwapHoriz as BorrowedIcon,
   MenuBook as BookIcon,
 } from '@mui/icons-material';
-import { useNavigate, useParams } from 'react-router-dom';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { useBook } from '../hooks/useBooks';
+import { useBook, useBookEditions } from '../hooks/useBooks';
 import { useUser } from '../hooks/useUser';
 import { useLoansByBook } from '../hooks/useLoans';
+import { useRequestLoan, useLoanRequestAction } from '../hooks/useLoanMutations';
 import { apiCall } from '../utils/apiCall';
 import CreateLoanDialog from '../components/CreateLoanDialog';
 import ReturnBookDialog from '../components/ReturnBookDialog';
 import BookReviews from '../components/BookReviews';
 import LikeButton from '../components/LikeButton';
+import FamilyAvailability from '../components/FamilyAvailability';
+import HoldQueuePanel from '../components/HoldQueuePanel';
+import LoanCustodyChain from '../components/LoanCustodyChain';
+import LoanTimeline from '../components/LoanTimeline';
+import BookCopiesPanel from '../components/BookCopiesPanel';
+import BookEditionsPanel from '../components/BookEditionsPanel';
+import { BOOK_CONDITION_LABELS } from '../components/LoanConditionFields';
+import type { BookCondition } from '../types';
 
 export default function BookDetails() {
   const { id } = useParams<{ id: string }>();
@@ -43,17 +53,31 @@ export default function BookDetails() {
   // Reactive hooks - automatic caching and refetching
   const { data: userData } = useUser(user?.id);
   const { data: bookResponse, isLoading: loading, error: bookError } = useBook(id, user?.id);
-  const { data: activeLoansResponse } = useLoansByBook(id, 'active');
+  const { data: activeLoansResponse } = useLoansByBook(id, ['active', 'overdue']);
+  const { data: openRequestsResponse } = useLoansByBook(id, ['pending', 'approved']);
+  const { data: editionsResponse } = useBookEditions(id);
   
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [loanDialogOpen, setLoanDialogOpen] = useState(false);
   const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+
+  const requestLoan = useRequestLoan({
+    onError: (err) => setRequestError(err.message || 'שגיאה בשליחת הבקשה'),
+  });
+  const requestAction = useLoanRequestAction({
+    onError: (err) => setRequestError(err.message || 'שגיאה בעדכון הבקשה'),
+  });
 
   const book = bookResponse?.book;
   const userFamilyId = userData?.user?.family_id;
   const activeLoans = activeLoansResponse?.loans || [];
   const activeLoan = activeLoans.length > 0 ? activeLoans[0] : null;
+  const viewerRequest = (openRequestsResponse?.loans || []).find(
+    (loan) => userFamilyId && loan.borrower_family_id === userFamilyId
+  );
+  const editions = editionsResponse?.editions || [];
   const error = bookError ? (bookError as Error).message : null;
 
   const handleDelete = async () => {
@@ -181,7 +205,13 @@ export default function BookDetails() {
               {book.title}
             </Typography>
             <Typography variant="h6" color="text.secondary" gutterBottom>
-              {book.author}
+              {book.author_id ? (
+                <Link component={RouterLink} to={`/authors/${book.author_id}`} color="inherit" underline="hover">
+                  {book.author}
+                </Link>
+              ) : (
+                book.author
+              )}
             </Typography>
 
             {statusConfig && (
@@ -202,7 +232,9 @@ export default function BookDetails() {
                     סדרה
                   </Typography>
                   <Typography variant="body1">
-                    {book.series}{book.series_number ? ` #${book.series_number}` : ''}
+                    <Link component={RouterLink} to={`/series/${encodeURIComponent(book.series)}`} color="inherit" underline="hover">
+                      {book.series}{book.series_number ? ` #${book.series_number}` : ''}
+                    </Link>
                   </Typography>
                 </Grid>
               )}
@@ -254,6 +286,24 @@ export default function BookDetails() {
                   <Typography variant="body1">{book.isbn}</Typography>
                 </Grid>
               )}
+              {isOwner && book.condition && (
+                <Grid size={{ xs: 6, sm: 4 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    מצב העותק
+                  </Typography>
+                  <Typography variant="body1">
+                    {BOOK_CONDITION_LABELS[book.condition as BookCondition] || book.condition}
+                  </Typography>
+                </Grid>
+              )}
+              {isOwner && book.notes && (
+                <Grid size={12}>
+                  <Typography variant="caption" color="text.secondary">
+                    הערות לעותק
+                  </Typography>
+                  <Typography variant="body1" sx={{ whiteSpace: 'pre-line' }}>{book.notes}</Typography>
+                </Grid>
+              )}
             </Grid>
 
             {book.description && (
@@ -278,6 +328,44 @@ export default function BookDetails() {
               />
             </Box>
 
+            {requestError && (
+              <Alert severity="error" sx={{ mb: 2 }} onClose={() => setRequestError(null)}>
+                {requestError}
+              </Alert>
+            )}
+
+            {!isOwner && userFamilyId && (
+              <Box display="flex" gap={2} alignItems="center">
+                {viewerRequest ? (
+                  <>
+                    <Chip
+                      label={viewerRequest.status === 'approved' ? 'הבקשה אושרה - ממתין למסירה' : 'הבקשה ממתינה לאישור'}
+                      color={viewerRequest.status === 'approved' ? 'info' : 'warning'}
+                    />
+                    <Button
+                      variant="outlined"
+                      color="error"
+                      disabled={requestAction.isPending}
+                      onClick={() => requestAction.mutate({ loanId: viewerRequest.id, action: 'cancel' })}
+                    >
+                      בטל בקשה
+                    </Button>
+                  </>
+                ) : (
+                  book.status === 'available' && (
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      disabled={requestLoan.isPending}
+                      onClick={() => requestLoan.mutate({ family_book_id: book.id })}
+                    >
+                      בקש לשאול
+                    </Button>
+                  )
+                )}
+              </Box>
+            )}
+
             {isOwner && (
               <Box display="flex" gap={2}>
                 {book.status === 'available' && (
@@ -319,6 +407,71 @@ export default function BookDetails() {
         </Grid>
       </Paper>
 
+      {/* Family Copies (owners only) */}
+      {isOwner && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            העותקים שלנו
+          </Typography>
+          <BookCopiesPanel bookId={book.id} />
+        </Paper>
+      )}
+
+      {/* Community Availability */}
+      <Paper sx={{ p: 3, mt: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          זמינות בקהילה
+        </Typography>
+        <FamilyAvailability bookId={book.id} viewerFamilyId={userFamilyId} bookTitle={book.title} />
+      </Paper>
+
+      {/* Other editions of the work (translations, other publishers) */}
+      {editions.length > 1 && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            מהדורות נוספות
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            הלייקים והביקורות משותפים לכל המהדורות של הספר
+          </Typography>
+          <BookEditionsPanel editions={editions} />
+        </Paper>
+      )}
+
+      {/* Chain of Custody (owners only) */}
+      {isOwner && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            היסטוריית השאלות של העותק
+          </Typography>
+          <LoanCustodyChain familyBookId={book.id} />
+        </Paper>
+      )}
+
+      {/* Loan Event Timeline (owners only) */}
+      {isOwner && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            ציר זמן השאלות
+          </Typography>
+          <LoanTimeline familyBookId={book.id} alwaysOpen />
+        </Paper>
+      )}
+
+      {/* Hold Queue */}
+      {book.book_catalog_id && (
+        <Paper sx={{ p: 3, mt: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            רשימת המתנה
+          </Typography>
+          <HoldQueuePanel
+            bookCatalogId={book.book_catalog_id}
+            viewerFamilyId={userFamilyId}
+            isOwner={!!isOwner}
+          />
+        </Paper>
+      )}
+
       {/* Reviews Section */}
       <Paper sx={{ p: 3, mt: 3 }}>
         <BookReviews bookId={book.id} bookTitle={book.title} />
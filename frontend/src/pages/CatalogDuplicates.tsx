@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  Grid,
+  Radio,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { LibraryBooks, MergeType } from '@mui/icons-material'
+import { useCatalogDuplicates, useLinkEdition, useMergeCatalogBooks } from '../hooks/useCatalog'
+import type { CatalogDuplicateCandidate, CatalogDuplicateReason, CatalogRecord } from '../types'
+
+const REASON_LABELS: Record<CatalogDuplicateReason, string> = {
+  same_isbn: 'אותו ISBN',
+  similar_title: 'שם דומה',
+  similar_author: 'סופר דומה',
+  missing_isbn: 'ISBN חסר באחד מהם',
+  missing_series_number: 'מספר בסדרה חסר באחד מהם',
+}
+
+// Rows of the side-by-side comparison
+const FIELDS: { key: keyof CatalogRecord; label: string }[] = [
+  { key: 'title', label: 'שם' },
+  { key: 'title_hebrew', label: 'שם בעברית' },
+  { key: 'author', label: 'סופר' },
+  { key: 'author_hebrew', label: 'סופר בעברית' },
+  { key: 'isbn', label: 'ISBN' },
+  { key: 'series', label: 'סדרה' },
+  { key: 'series_number', label: 'מספר בסדרה' },
+  { key: 'publisher', label: 'הוצאה' },
+  { key: 'year_published', label: 'שנה' },
+  { key: 'copyCount', label: 'עותקים במשפחות' },
+]
+
+const pairKey = (candidate: CatalogDuplicateCandidate) => candidate.books.map((book) => book.id).join(':')
+
+interface DuplicatePairCardProps {
+  candidate: CatalogDuplicateCandidate
+  merging: boolean
+  onMerge: (survivor: CatalogRecord, duplicate: CatalogRecord) => void
+  onLinkEditions: (survivor: CatalogRecord, duplicate: CatalogRecord) => void
+}
+
+function DuplicatePairCard({ candidate, merging, onMerge, onLinkEditions }: DuplicatePairCardProps) {
+  const [survivorId, setSurvivorId] = useState(candidate.suggestedSurvivorId)
+  const survivor = candidate.books.find((book) => book.id === survivorId)!
+  const duplicate = candidate.books.find((book) => book.id !== survivorId)!
+
+  return (
+    <Card sx={{ mb: 2 }}>
+      <CardContent>
+        <Stack direction="row" spacing={1} sx={{ mb: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+          <Typography variant="body2" color="text.secondary">
+            התאמה {Math.round(candidate.score * 100)}%
+          </Typography>
+          {candidate.reasons.map((reason) => (
+            <Chip key={reason} size="small" label={REASON_LABELS[reason] || reason} />
+          ))}
+        </Stack>
+
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                {candidate.books.map((book) => (
+                  <TableCell key={book.id}>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <Radio
+                        size="small"
+                        checked={survivorId === book.id}
+                        onChange={() => setSurvivorId(book.id)}
+                        disabled={merging}
+                      />
+                      <Typography variant="body2">
+                        {survivorId === book.id ? 'הרשומה שנשארת' : 'תימחק במיזוג'}
+                      </Typography>
+                    </Box>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {FIELDS.map(({ key, label }) => {
+                const [a, b] = candidate.books.map((book) => book[key] ?? '')
+                return (
+                  <TableRow key={key}>
+                    <TableCell component="th" sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>
+                      {label}
+                    </TableCell>
+                    {[a, b].map((value, index) => (
+                      <TableCell key={index} sx={{ bgcolor: a !== b ? 'action.hover' : undefined }}>
+                        {String(value) || '—'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </Box>
+
+        <Box sx={{ mt: 2, display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Button
+            variant="contained"
+            startIcon={merging ? <CircularProgress size={16} /> : <MergeType />}
+            disabled={merging}
+            onClick={() => onMerge(survivor, duplicate)}
+          >
+            מזג
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<LibraryBooks />}
+            disabled={merging}
+            onClick={() => onLinkEditions(survivor, duplicate)}
+          >
+            מהדורות שונות של אותו ספר
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            מיזוג מעביר את העותקים, הביקורות, הלייקים ורשימת ההמתנה לרשומה שנשארת. תרגום או הוצאה אחרת - קשרו כמהדורות, ושתי הרשומות יישארו עם לייקים וביקורות משותפים
+          </Typography>
+        </Box>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Admin tool for finding and merging duplicate books in the shared catalog
+ */
+export default function CatalogDuplicates() {
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+
+  const { data, isLoading, error } = useCatalogDuplicates()
+  const mergeBooks = useMergeCatalogBooks({
+    onMutate: () => setMessage(null),
+    onError: (err) => setMessage({ type: 'error', text: err.message || 'שגיאה במיזוג הספרים' }),
+    onSettled: () => setMergingKey(null),
+  })
+
+  const linkEdition = useLinkEdition({
+    onMutate: () => setMessage(null),
+    onError: (err) => setMessage({ type: 'error', text: err.message || 'שגיאה בקישור המהדורות' }),
+    onSettled: () => setMergingKey(null),
+  })
+
+  const handleLinkEditions = (candidate: CatalogDuplicateCandidate, survivor: CatalogRecord, duplicate: CatalogRecord) => {
+    setMergingKey(pairKey(candidate))
+    linkEdition.mutate(
+      { editionId: duplicate.id, targetId: survivor.id },
+      {
+        onSuccess: () =>
+          setMessage({
+            type: 'success',
+            text: `"${duplicate.title_hebrew || duplicate.title}" ו-"${survivor.title_hebrew || survivor.title}" קושרו כמהדורות של אותו ספר`,
+          }),
+      }
+    )
+  }
+
+  const handleMerge = (candidate: CatalogDuplicateCandidate, survivor: CatalogRecord, duplicate: CatalogRecord) => {
+    const name = duplicate.title_hebrew || duplicate.title
+    if (!window.confirm(`למזג את "${name}" לתוך "${survivor.title_hebrew || survivor.title}"? לא ניתן לבטל את הפעולה.`)) {
+      return
+    }
+    setMergingKey(pairKey(candidate))
+    mergeBooks.mutate(
+      { survivorId: survivor.id, duplicateId: duplicate.id },
+      {
+        onSuccess: ({ merged }) =>
+          setMessage({
+            type: 'success',
+            text: `"${name}" מוזג: הועברו ${merged.copies} עותקים, ${merged.reviews} ביקורות ו-${merged.likes} לייקים`,
+          }),
+      }
+    )
+  }
+
+  const candidates = data?.candidates || []
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 3 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        ספרים כפולים בקטלוג
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        רשומות שנראות כמו אותו ספר - למשל שם בעברית ושם באנגלית, או רשומה בלי ISBN. כפילות - בחרו איזו רשומה נשארת ומזגו; מהדורות שונות (תרגום, הוצאה אחרת) - קשרו אותן.
+      </Typography>
+
+      {message && (
+        <Alert severity={message.type} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+          {message.text}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{(error as Error).message || 'שגיאה בטעינת הספרים הכפולים'}</Alert>
+      ) : candidates.length === 0 ? (
+        <Alert severity="success">לא נמצאו ספרים כפולים ({data?.scanned ?? 0} ספרים נבדקו)</Alert>
+      ) : (
+        <Grid container>
+          <Grid size={{ xs: 12 }}>
+            {candidates.map((candidate) => (
+              <DuplicatePairCard
+                key={pairKey(candidate)}
+                candidate={candidate}
+                merging={mergingKey === pairKey(candidate)}
+                onMerge={(survivor, duplicate) => handleMerge(candidate, survivor, duplicate)}
+                onLinkEditions={(survivor, duplicate) => handleLinkEditions(candidate, survivor, duplicate)}
+              />
+            ))}
+          </Grid>
+        </Grid>
+      )}
+    </Container>
+  )
+}
@@ -18,6 +18,8 @@ import {
 import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { apiCall } from '../utils/apiCall';
+import { BOOK_CONDITION_LABELS } from '../components/LoanConditionFields';
+import type { BookCondition } from '../types';
 
 interface BookFormData {
   title: string;
@@ -32,6 +34,9 @@ interface BookFormData {
   pages: string;
   summary: string;
   cover_image_url: string;
+  // This copy only (the rest is shared catalog data)
+  condition: BookCondition | '';
+  notes: string;
 }
 
 const GENRES = [
@@ -84,6 +89,8 @@ export default function EditBook() {
     pages: '',
     summary: '',
     cover_image_url: '',
+    condition: '',
+    notes: '',
   });
 
   const [errors, setErrors] = useState<Partial<BookFormData>>({});
@@ -129,6 +136,8 @@ export default function EditBook() {
         pages: book.pages?.toString() || '',
         summary: book.summary || '',
         cover_image_url: book.cover_image_url || '',
+        condition: book.condition || '',
+        notes: book.notes || '',
       });
       
       setLoading(false);
@@ -196,6 +205,8 @@ export default function EditBook() {
         pages: formData.pages ? parseInt(formData.pages) : null,
         summary: formData.summary.trim() || null,
         cover_image_url: formData.cover_image_url.trim() || null,
+        condition: formData.condition || null,
+        notes: formData.notes.trim() || null,
       };
 
       await apiCall(`/api/books/${id}`, {
@@ -445,6 +456,39 @@ export default function EditBook() {
               />
             </Grid>
 
+            {/* Copy Condition */}
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                select
+                label="מצב העותק"
+                value={formData.condition}
+                onChange={handleChange('condition')}
+                disabled={saving || success}
+              >
+                <MenuItem value="">לא צוין</MenuItem>
+                {(Object.keys(BOOK_CONDITION_LABELS) as BookCondition[]).map((condition) => (
+                  <MenuItem key={condition} value={condition}>
+                    {BOOK_CONDITION_LABELS[condition]}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+
+            {/* Copy Notes */}
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                label="הערות לעותק"
+                value={formData.notes}
+                onChange={handleChange('notes')}
+                disabled={saving || success}
+                placeholder="למשל: העותק של נועה"
+                dir="auto"
+                inputProps={{ dir: 'auto' }}
+              />
+            </Grid>
+
             {/* Action Buttons */}
             <Grid size={{ xs: 12 }}>
               <Box display="flex" gap={2} justifyContent="flex-end">
@@ -9,6 +9,11 @@ import {
   Button,
   CircularProgress,
   Alert,
+  TextField,
+  Autocomplete,
+  Checkbox,
+  Divider,
+  FormControlLabel,
 } from '@mui/material';
 import {
   Book,
@@ -18,10 +23,14 @@ import {
   Add,
   LibraryBooks,
   Settings,
+  MergeType,
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { apiCall } from '../utils/apiCall';
+import { useFamilies } from '../hooks/useFamilies';
+import WhatsAppTemplatesCard from '../components/WhatsAppTemplatesCard';
+import type { WhatsAppTemplates } from '../types';
 
 interface FamilyStats {
   totalBooks: number;
@@ -35,8 +44,19 @@ interface Family {
   name: string;
   phone: string;
   whatsapp: string;
+  default_loan_period_days?: number | null;
+  max_loan_renewals?: number | null;
+  max_loans_per_borrower?: number | null;
+  max_loan_period_days?: number | null;
+  allowed_borrower_family_ids?: string[] | null;
+  children_books_to_families_with_kids?: boolean | null;
+  has_children?: boolean | null;
+  whatsapp_templates?: WhatsAppTemplates;
 }
 
+// Empty input means "no limit"
+const parseOptionalLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+
 export default function FamilyDashboard() {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -50,6 +70,20 @@ export default function FamilyDashboard() {
     membersCount: 0,
   });
   const [isAdmin, setIsAdmin] = useState(false);
+  const [isSiteAdmin, setIsSiteAdmin] = useState(false);
+  const [loanPeriodDays, setLoanPeriodDays] = useState('14');
+  const [maxRenewals, setMaxRenewals] = useState('2');
+  const [maxLoansPerBorrower, setMaxLoansPerBorrower] = useState('');
+  const [maxLoanPeriod, setMaxLoanPeriod] = useState('');
+  const [restrictBorrowers, setRestrictBorrowers] = useState(false);
+  const [allowedFamilyIds, setAllowedFamilyIds] = useState<string[]>([]);
+  const [childrenBooksToKids, setChildrenBooksToKids] = useState(false);
+  const [hasChildren, setHasChildren] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsMessage, setSettingsMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: allFamilies = [] } = useFamilies({ enabled: isAdmin });
+  const otherFamilies = allFamilies.filter((f) => String(f.id) !== family?.id);
 
   useEffect(() => {
     const fetchFamilyData = async () => {
@@ -79,17 +113,26 @@ export default function FamilyDashboard() {
         }
 
         setIsAdmin(userProfile.is_family_admin);
+        setIsSiteAdmin(Boolean(userProfile.is_site_admin));
 
         // Get family details
         const familyResponse = await apiCall<{ family: Family }>(`/api/families/${familyId}`);
         setFamily(familyResponse.family);
+        setLoanPeriodDays(String(familyResponse.family.default_loan_period_days ?? 14));
+        setMaxRenewals(String(familyResponse.family.max_loan_renewals ?? 2));
+        setMaxLoansPerBorrower(String(familyResponse.family.max_loans_per_borrower ?? ''));
+        setMaxLoanPeriod(String(familyResponse.family.max_loan_period_days ?? ''));
+        setRestrictBorrowers(Array.isArray(familyResponse.family.allowed_borrower_family_ids));
+        setAllowedFamilyIds(familyResponse.family.allowed_borrower_family_ids || []);
+        setChildrenBooksToKids(!!familyResponse.family.children_books_to_families_with_kids);
+        setHasChildren(!!familyResponse.family.has_children);
 
         // Get family stats
         const [booksResponse, membersResponse, loansOutResponse, loansInResponse] = await Promise.all([
           apiCall<{ books: any[] }>(`/api/books?familyId=${familyId}`),
           apiCall<{ users: any[] }>(`/api/users?familyId=${familyId}`),
-          apiCall<{ loans: any[] }>(`/api/loans?ownerFamilyId=${familyId}&status=active`),
-          apiCall<{ loans: any[] }>(`/api/loans?borrowerFamilyId=${familyId}&status=active`),
+          apiCall<{ loans: any[] }>(`/api/loans?ownerFamilyId=${familyId}&status=active,overdue`),
+          apiCall<{ loans: any[] }>(`/api/loans?borrowerFamilyId=${familyId}&status=active,overdue`),
         ]);
 
         setStats({
@@ -110,6 +153,56 @@ export default function FamilyDashboard() {
     fetchFamilyData();
   }, [user]);
 
+  const handleSaveLoanSettings = async () => {
+    if (!family) return;
+
+    const days = Number(loanPeriodDays);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      setSettingsMessage({ type: 'error', text: 'תקופת ההשאלה חייבת להיות בין 1 ל-365 ימים' });
+      return;
+    }
+
+    const renewals = Number(maxRenewals);
+    if (!Number.isInteger(renewals) || renewals < 0 || renewals > 20) {
+      setSettingsMessage({ type: 'error', text: 'מספר ההארכות חייב להיות בין 0 ל-20' });
+      return;
+    }
+
+    const maxLoans = parseOptionalLimit(maxLoansPerBorrower);
+    if (maxLoans !== null && (!Number.isInteger(maxLoans) || maxLoans < 1 || maxLoans > 100)) {
+      setSettingsMessage({ type: 'error', text: 'מספר הספרים למשפחה חייב להיות בין 1 ל-100' });
+      return;
+    }
+
+    const maxPeriod = parseOptionalLimit(maxLoanPeriod);
+    if (maxPeriod !== null && (!Number.isInteger(maxPeriod) || maxPeriod < 1 || maxPeriod > 365)) {
+      setSettingsMessage({ type: 'error', text: 'תקופת ההשאלה המרבית חייבת להיות בין 1 ל-365 ימים' });
+      return;
+    }
+
+    setSavingSettings(true);
+    try {
+      const response = await apiCall<{ family: Family }>(`/api/families/${family.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          default_loan_period_days: days,
+          max_loan_renewals: renewals,
+          max_loans_per_borrower: maxLoans,
+          max_loan_period_days: maxPeriod,
+          allowed_borrower_family_ids: restrictBorrowers ? allowedFamilyIds : null,
+          children_books_to_families_with_kids: childrenBooksToKids,
+          has_children: hasChildren,
+        }),
+      });
+      setFamily(response.family);
+      setSettingsMessage({ type: 'success', text: 'ההגדרות נשמרו' });
+    } catch (err: any) {
+      setSettingsMessage({ type: 'error', text: err.message || 'שגיאה בשמירת ההגדרות' });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="60vh">
@@ -240,9 +333,134 @@ export default function FamilyDashboard() {
               </Button>
             </Grid>
           )}
+          {isSiteAdmin && (
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Button
+                fullWidth
+                variant="outlined"
+                startIcon={<MergeType />}
+                onClick={() => navigate('/catalog/duplicates')}
+                sx={{ py: 1.5 }}
+              >
+                ספרים כפולים בקטלוג
+              </Button>
+            </Grid>
+          )}
         </Grid>
       </Box>
 
+      {/* Loan Settings (admins only) */}
+      {isAdmin && family && (
+        <Card sx={{ mb: 4 }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              הגדרות השאלה
+            </Typography>
+            {settingsMessage && (
+              <Alert severity={settingsMessage.type} sx={{ mb: 2 }} onClose={() => setSettingsMessage(null)}>
+                {settingsMessage.text}
+              </Alert>
+            )}
+            <Box display="flex" gap={2} alignItems="flex-start" flexWrap="wrap">
+              <TextField
+                label="תקופת השאלה ברירת מחדל (ימים)"
+                type="number"
+                size="small"
+                value={loanPeriodDays}
+                onChange={(e) => setLoanPeriodDays(e.target.value)}
+                inputProps={{ min: 1, max: 365 }}
+                helperText="מועד ההחזרה של השאלות חדשות יחושב לפי ערך זה"
+                data-testid="loan-period-input"
+              />
+              <TextField
+                label="מספר הארכות מרבי להשאלה"
+                type="number"
+                size="small"
+                value={maxRenewals}
+                onChange={(e) => setMaxRenewals(e.target.value)}
+                inputProps={{ min: 0, max: 20 }}
+                helperText="0 - ללא אפשרות הארכה"
+                data-testid="max-renewals-input"
+              />
+            </Box>
+
+            <Divider sx={{ my: 2 }} />
+            <Typography variant="subtitle1" gutterBottom>
+              מדיניות השאלה
+            </Typography>
+            <Box display="flex" gap={2} alignItems="flex-start" flexWrap="wrap" mb={1}>
+              <TextField
+                label="מספר ספרים מרבי למשפחה שואלת"
+                type="number"
+                size="small"
+                value={maxLoansPerBorrower}
+                onChange={(e) => setMaxLoansPerBorrower(e.target.value)}
+                inputProps={{ min: 1, max: 100 }}
+                helperText="ריק - ללא הגבלה"
+                data-testid="max-loans-per-borrower-input"
+              />
+              <TextField
+                label="תקופת השאלה מרבית (ימים)"
+                type="number"
+                size="small"
+                value={maxLoanPeriod}
+                onChange={(e) => setMaxLoanPeriod(e.target.value)}
+                inputProps={{ min: 1, max: 365 }}
+                helperText="ריק - ללא הגבלה"
+                data-testid="max-loan-period-input"
+              />
+            </Box>
+            <FormControlLabel
+              control={<Checkbox checked={restrictBorrowers} onChange={(e) => setRestrictBorrowers(e.target.checked)} />}
+              label="השאל רק למשפחות מהרשימה"
+            />
+            {restrictBorrowers && (
+              <Autocomplete
+                multiple
+                size="small"
+                options={otherFamilies}
+                getOptionLabel={(option) => option.name}
+                value={otherFamilies.filter((f) => allowedFamilyIds.includes(String(f.id)))}
+                onChange={(_e, selected) => setAllowedFamilyIds(selected.map((f) => String(f.id)))}
+                renderInput={(params) => <TextField {...params} label="משפחות מורשות" />}
+                sx={{ mb: 1, maxWidth: 480 }}
+              />
+            )}
+            <Box>
+              <FormControlLabel
+                control={<Checkbox checked={childrenBooksToKids} onChange={(e) => setChildrenBooksToKids(e.target.checked)} />}
+                label="ספרי ילדים רק למשפחות עם ילדים"
+              />
+            </Box>
+            <Box>
+              <FormControlLabel
+                control={<Checkbox checked={hasChildren} onChange={(e) => setHasChildren(e.target.checked)} />}
+                label="יש ילדים במשפחה שלנו"
+              />
+            </Box>
+            <Box mt={2}>
+              <Button
+                variant="contained"
+                onClick={handleSaveLoanSettings}
+                disabled={savingSettings}
+              >
+                {savingSettings ? <CircularProgress size={20} /> : 'שמור'}
+              </Button>
+            </Box>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* WhatsApp message templates (admins only) */}
+      {isAdmin && family && (
+        <WhatsAppTemplatesCard
+          familyId={family.id}
+          familyName={family.name}
+          templates={family.whatsapp_templates}
+          onSaved={(templates) => setFamily({ ...family, whatsapp_templates: templates })}
+        />
+      )}
+
       {/* Recent Activity or Empty State */}
       <Card>
         <CardContent>
@@ -24,14 +24,22 @@ import {
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useUser } from '../hooks/useUser';
-import { useBooks, useBookSearch } from '../hooks/useBooks';
+import { useBooks, useBookSearch, type BookSuggestion } from '../hooks/useBooks';
 import { useLoansByOwner, useLoansByBorrower } from '../hooks/useLoans';
+import { useFamilies } from '../hooks/useFamilies';
+import QuickStats from '../components/QuickStats';
+import HighlightedText from '../components/HighlightedText';
 
-interface BookSuggestion {
-  id: string;
-  title: string;
-  author: string;
-  cover_image_url?: string;
+/**
+ * A suggestion's title or author - the Hebrew spelling when that's what the search matched
+ */
+function SuggestionText({ book, field }: { book: BookSuggestion; field: 'title' | 'author' }) {
+  const hebrewField = field === 'title' ? 'title_hebrew' : 'author_hebrew';
+  const hebrewText = book[hebrewField];
+  const useHebrew = Boolean(hebrewText && book.highlights?.[hebrewField] && !book.highlights?.[field]);
+  return useHebrew
+    ? <HighlightedText text={hebrewText!} ranges={book.highlights?.[hebrewField]} />
+    : <HighlightedText text={book[field]} ranges={book.highlights?.[field]} />;
 }
 
 export default function Home() {
@@ -46,8 +54,9 @@ export default function Home() {
 
   // These queries automatically run when familyId is available
   const { data: booksData, isLoading: booksLoading } = useBooks({ familyId, userId: user?.id }, { enabled: !!familyId });
-  const { data: loansOutData, isLoading: loansOutLoading } = useLoansByOwner(familyId, 'active');
-  const { data: loansInData, isLoading: loansInLoading } = useLoansByBorrower(familyId, 'active');
+  const { data: loansOutData, isLoading: loansOutLoading } = useLoansByOwner(familyId, ['active', 'overdue']);
+  const { data: loansInData, isLoading: loansInLoading } = useLoansByBorrower(familyId, ['active', 'overdue']);
+  const { data: families } = useFamilies();
 
   // Search suggestions with debouncing
   const { data: searchData, isLoading: loadingSuggestions } = useBookSearch(searchQuery, {
@@ -169,8 +178,8 @@ export default function Home() {
                     )}
                   </Box>
                   <ListItemText
-                    primary={option.title}
-                    secondary={option.author}
+                    primary={<SuggestionText book={option} field="title" />}
+                    secondary={<SuggestionText book={option} field="author" />}
                     sx={{ flex: 1, minWidth: 0 }}
                   />
                 </Box>
@@ -241,6 +250,18 @@ export default function Home() {
         </Box>
       </Box>
 
+      {/* Quick Stats */}
+      {!loading && (
+        <Box mb={4} data-testid="quick-stats-section">
+          <QuickStats
+            booksCount={catalogStats.totalBooks}
+            activeLoansCount={loanStatus.booksLent + loanStatus.booksBorrowed}
+            familiesCount={families?.length || 0}
+            familyId={familyId}
+          />
+        </Box>
+      )}
+
       {/* Current Loan Status */}
       <Box mb={4} data-testid="loan-status-section">
         <Typography variant="h6" gutterBottom>
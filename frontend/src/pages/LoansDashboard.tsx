@@ -8,13 +8,25 @@ import {
   Grid,
   Tabs,
   Tab,
+  Badge,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material'
 import { useAuth } from '../contexts/AuthContext'
 import { useUser } from '../hooks/useUser'
 import { useLoansByOwner, useLoansByBorrower } from '../hooks/useLoans'
+import { useLoanRequestAction, type LoanRequestAction } from '../hooks/useLoanMutations'
 import CatalogBookCard from '../components/CatalogBookCard'
+import LoanCard from '../components/LoanCard'
+import LoanRenewalSection from '../components/LoanRenewalSection'
+import LoanPassOnSection from '../components/LoanPassOnSection'
+import LoanConditionSection from '../components/LoanConditionSection'
 import ReturnBookDialog from '../components/ReturnBookDialog'
-import type { CatalogBook, BookLoanSummary } from '../types'
+import LoanCalendar from '../components/LoanCalendar'
+import CalendarFeedPanel from '../components/CalendarFeedPanel'
+import type { CatalogBook, BookLoanSummary, LoanRenewal } from '../types'
+import { isLoanOverdue } from '../utils/loanDates'
 import { useQueryClient } from '@tanstack/react-query'
 
 interface LoanRecord {
@@ -24,6 +36,7 @@ interface LoanRecord {
   borrower_family_id: string
   owner_family_id: string
   request_date?: string
+  due_date?: string | null
   actual_return_date?: string
   family_books?: {
     book_catalog: {
@@ -47,7 +60,13 @@ interface LoanRecord {
     name: string
     phone?: string
     whatsapp?: string
+    max_loan_renewals?: number | null
   }
+  renewals?: LoanRenewal[]
+  pass_on_family_id?: string | null
+  pass_on_family?: {
+    name: string
+  } | null
 }
 
 const dateFormatter = new Intl.DateTimeFormat('he-IL', { dateStyle: 'medium' })
@@ -59,6 +78,14 @@ const formatDate = (value?: string) => {
   return dateFormatter.format(date)
 }
 
+// Loans where the book is still with the borrower
+const ONGOING_STATUSES: Array<'active' | 'overdue'> = ['active', 'overdue']
+
+const isOngoing = (loan: LoanRecord) => loan.status === 'active' || loan.status === 'overdue'
+
+const getDueLabel = (loan: LoanRecord) =>
+  loan.due_date ? ` · להחזרה עד ${formatDate(loan.due_date)}` : ''
+
 const toCatalogBook = (loan: LoanRecord, viewerFamilyId: string | null): CatalogBook => {
   const bookInfo = loan.family_books?.book_catalog || {}
   const viewerIsOwner = viewerFamilyId === loan.owner_family_id
@@ -76,19 +103,19 @@ const toCatalogBook = (loan: LoanRecord, viewerFamilyId: string | null): Catalog
     stats: {
       totalCopies: 1,
       availableCopies: 1,
-      onLoanCopies: loan.status === 'active' ? 1 : 0,
+      onLoanCopies: isOngoing(loan) ? 1 : 0,
       totalLikes: 0,
       userLiked: false,
     },
     owners: [
       {
         familyBookId: loan.family_book_id,
-        status: loan.status === 'active' ? 'lent' : 'returned',
+        status: isOngoing(loan) ? 'lent' : 'returned',
         condition: null,
         notes: null,
         familyId: loan.owner_family_id,
         family: loan.owner_family || null,
-        loan: loan.status === 'active' ? (loan as any) : null,
+        loan: isOngoing(loan) ? (loan as any) : null,
         isViewerOwner: viewerIsOwner,
       },
     ],
@@ -99,12 +126,12 @@ const toCatalogBook = (loan: LoanRecord, viewerFamilyId: string | null): Catalog
         ? [
             {
               familyBookId: loan.family_book_id,
-              status: loan.status === 'active' ? 'lent' : 'returned',
-              loan: loan.status === 'active' ? (loan as any) : null,
+              status: isOngoing(loan) ? 'lent' : 'returned',
+              loan: isOngoing(loan) ? (loan as any) : null,
             },
           ]
         : [],
-      borrowedLoan: viewerIsBorrower && loan.status === 'active' ? (loan as any) : undefined,
+      borrowedLoan: viewerIsBorrower && isOngoing(loan) ? (loan as any) : undefined,
     },
   }
 }
@@ -123,20 +150,32 @@ export default function LoansDashboard() {
   const [tab, setTab] = useState(0)
   const [returnDialogOpen, setReturnDialogOpen] = useState(false)
   const [selectedLoan, setSelectedLoan] = useState<any | null>(null)
+  const [requestError, setRequestError] = useState('')
+  const [dueFilter, setDueFilter] = useState<'all' | 'overdue'>('all')
 
   // Reactive hooks - automatic caching
   const { data: userData } = useUser(user?.id)
   const familyId = userData?.user?.family_id
 
   // Active Loans
-  const { data: activeLentLoans, isLoading: activeLentLoading } = useLoansByOwner(familyId, 'active')
-  const { data: activeBorrowedLoans, isLoading: activeBorrowedLoading } = useLoansByBorrower(familyId, 'active')
+  const { data: activeLentLoans, isLoading: activeLentLoading } = useLoansByOwner(familyId, ONGOING_STATUSES)
+  const { data: activeBorrowedLoans, isLoading: activeBorrowedLoading } = useLoansByBorrower(familyId, ONGOING_STATUSES)
 
   // History Loans
   const { data: historyLentLoans, isLoading: historyLentLoading } = useLoansByOwner(familyId, 'returned')
   const { data: historyBorrowedLoans, isLoading: historyBorrowedLoading } = useLoansByBorrower(familyId, 'returned')
+
+  // Open loan requests (waiting for approval or hand-off)
+  const { data: incomingRequests, isLoading: incomingLoading } = useLoansByOwner(familyId, ['pending', 'approved'])
+  const { data: outgoingRequests, isLoading: outgoingLoading } = useLoansByBorrower(familyId, ['pending', 'approved'])
+
+  const requestAction = useLoanRequestAction({
+    onError: (err) => setRequestError(err.message || 'שגיאה בעדכון הבקשה'),
+  })
   
-  const loading = activeLentLoading || activeBorrowedLoading || historyLentLoading || historyBorrowedLoading;
+  const loading = activeLentLoading || activeBorrowedLoading || historyLentLoading || historyBorrowedLoading
+    || incomingLoading || outgoingLoading;
+  const pendingIncomingCount = (incomingRequests?.loans || []).filter((loan) => loan.status === 'pending').length;
   const viewerFamilyId = familyId || null;
 
   // Combine and sort history loans
@@ -151,7 +190,20 @@ export default function LoansDashboard() {
     })
   }, [historyLentLoans, historyBorrowedLoans]);
 
-  const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
+  const lentLoans = useMemo(() => {
+    const loans = activeLentLoans?.loans || []
+    return dueFilter === 'overdue' ? loans.filter((loan) => isLoanOverdue(loan)) : loans
+  }, [activeLentLoans, dueFilter])
+
+  const borrowedLoans = useMemo(() => {
+    const loans = activeBorrowedLoans?.loans || []
+    return dueFilter === 'overdue' ? loans.filter((loan) => isLoanOverdue(loan)) : loans
+  }, [activeBorrowedLoans, dueFilter])
+
+  const overdueCount = [...(activeLentLoans?.loans || []), ...(activeBorrowedLoans?.loans || [])]
+    .filter((loan) => isLoanOverdue(loan)).length
+
+  const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setTab(newValue)
   }
 
@@ -160,6 +212,10 @@ export default function LoansDashboard() {
     setReturnDialogOpen(true)
   }
 
+  const handleRequestAction = (loan: { id: string }, action: LoanRequestAction) => {
+    requestAction.mutate({ loanId: loan.id, action }, { onSuccess: () => setRequestError('') })
+  }
+
   const handleReturnSuccess = () => {
     setReturnDialogOpen(false)
     setSelectedLoan(null)
@@ -194,15 +250,40 @@ export default function LoansDashboard() {
           <Tab label="השאלתי" />
           <Tab label="שאלתי" />
           <Tab label="היסטוריה" />
+          <Tab
+            label={
+              <Badge badgeContent={pendingIncomingCount} color="error">
+                בקשות
+              </Badge>
+            }
+          />
+          <Tab label="לוח שנה" data-testid="calendar-tab" />
         </Tabs>
       </Box>
 
+      {(tab === 0 || tab === 1) && (
+        <Box display="flex" alignItems="center" gap={2} mb={2}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={dueFilter}
+            onChange={(_event, value) => value && setDueFilter(value)}
+            aria-label="due date filter"
+          >
+            <ToggleButton value="all">הכל</ToggleButton>
+            <ToggleButton value="overdue" data-testid="overdue-filter">
+              באיחור ({overdueCount})
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+      )}
+
       {/* Tab 0: Lent (Active) */}
       {tab === 0 && (
         <Box>
-          {activeLentLoans?.loans && activeLentLoans.loans.length > 0 ? (
+          {lentLoans.length > 0 ? (
             <Grid container spacing={3}>
-              {activeLentLoans.loans.map((loan) => {
+              {lentLoans.map((loan) => {
                 const book = toCatalogBook(loan, viewerFamilyId)
                 return (
                   <Grid key={loan.id} size={{ xs: 12, md: 6 }}>
@@ -212,15 +293,21 @@ export default function LoansDashboard() {
                         onMarkReturned={handleMarkReturned}
                       />
                       <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                        הושאל ל{loan.borrower_family?.name || 'משפחה'} ב-{formatDate(loan.request_date)}
+                        הושאל ל{loan.borrower_family?.name || 'משפחה'} ב-{formatDate(loan.request_date)}{getDueLabel(loan)}
                       </Typography>
+                      {isLoanOverdue(loan) && <Chip label="באיחור" color="error" size="small" sx={{ mt: 0.5 }} />}
+                      <LoanRenewalSection loan={loan} role="owner" />
+                      <LoanPassOnSection loan={loan} role="owner" />
+                      <LoanConditionSection loan={loan} role="owner" />
                     </Box>
                   </Grid>
                 )
               })}
             </Grid>
           ) : (
-            <Alert severity="info">אין ספרים מושאלים כרגע</Alert>
+            <Alert severity="info">
+              {dueFilter === 'overdue' ? 'אין ספרים מושאלים באיחור' : 'אין ספרים מושאלים כרגע'}
+            </Alert>
           )}
         </Box>
       )}
@@ -228,24 +315,30 @@ export default function LoansDashboard() {
       {/* Tab 1: Borrowed (Active) */}
       {tab === 1 && (
         <Box>
-          {activeBorrowedLoans?.loans && activeBorrowedLoans.loans.length > 0 ? (
+          {borrowedLoans.length > 0 ? (
             <Grid container spacing={3}>
-              {activeBorrowedLoans.loans.map((loan) => {
+              {borrowedLoans.map((loan) => {
                 const book = toCatalogBook(loan, viewerFamilyId)
                 return (
                   <Grid key={loan.id} size={{ xs: 12, md: 6 }}>
                     <Box data-testid="loan-card">
                       <CatalogBookCard book={book} />
                       <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                        הושאל מ{loan.owner_family?.name || 'משפחה'} ב-{formatDate(loan.request_date)}
+                        הושאל מ{loan.owner_family?.name || 'משפחה'} ב-{formatDate(loan.request_date)}{getDueLabel(loan)}
                       </Typography>
+                      {isLoanOverdue(loan) && <Chip label="באיחור" color="error" size="small" sx={{ mt: 0.5 }} />}
+                      <LoanRenewalSection loan={loan} role="borrower" />
+                      <LoanPassOnSection loan={loan} role="borrower" />
+                      <LoanConditionSection loan={loan} role="borrower" />
                     </Box>
                   </Grid>
                 )
               })}
             </Grid>
           ) : (
-            <Alert severity="info">אין ספרים ששאלתם כרגע</Alert>
+            <Alert severity="info">
+              {dueFilter === 'overdue' ? 'אין ספרים ששאלתם באיחור' : 'אין ספרים ששאלתם כרגע'}
+            </Alert>
           )}
         </Box>
       )}
@@ -276,6 +369,70 @@ export default function LoansDashboard() {
         </Box>
       )}
 
+      {/* Tab 3: Loan requests */}
+      {tab === 3 && (
+        <Box>
+          {requestError && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setRequestError('')}>
+              {requestError}
+            </Alert>
+          )}
+
+          <Typography variant="h6" gutterBottom>
+            בקשות לספרים שלנו
+          </Typography>
+          {incomingRequests?.loans && incomingRequests.loans.length > 0 ? (
+            <Grid container spacing={3} mb={4}>
+              {incomingRequests.loans.map((loan) => (
+                <Grid key={loan.id} size={{ xs: 12, md: 6 }}>
+                  <LoanCard
+                    loan={loan}
+                    type="incoming"
+                    onRequestAction={handleRequestAction}
+                    actionPending={requestAction.isPending}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          ) : (
+            <Alert severity="info" sx={{ mb: 4 }}>אין בקשות ממתינות</Alert>
+          )}
+
+          <Typography variant="h6" gutterBottom>
+            הבקשות שלנו
+          </Typography>
+          {outgoingRequests?.loans && outgoingRequests.loans.length > 0 ? (
+            <Grid container spacing={3}>
+              {outgoingRequests.loans.map((loan) => (
+                <Grid key={loan.id} size={{ xs: 12, md: 6 }}>
+                  <LoanCard
+                    loan={loan}
+                    type="outgoing"
+                    onRequestAction={handleRequestAction}
+                    actionPending={requestAction.isPending}
+                  />
+                </Grid>
+              ))}
+            </Grid>
+          ) : (
+            <Alert severity="info">לא שלחתם בקשות השאלה</Alert>
+          )}
+        </Box>
+      )}
+
+      {/* Tab 4: Calendar of due and return dates */}
+      {tab === 4 && (
+        <Box>
+          <CalendarFeedPanel />
+          <LoanCalendar
+            lentLoans={activeLentLoans?.loans || []}
+            borrowedLoans={activeBorrowedLoans?.loans || []}
+            returnedLoans={historyLoans}
+            viewerFamilyId={viewerFamilyId}
+          />
+        </Box>
+      )}
+
       {selectedLoan && (
         <ReturnBookDialog
           open={returnDialogOpen}
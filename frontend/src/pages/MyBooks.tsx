@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react'
-import { Virtuoso } from 'react-virtuoso'
+import { List, useDynamicRowHeight, type RowComponentProps } from 'react-window'
 import { useQueryClient } from '@tanstack/react-query'
 import {
   Container,
@@ -28,7 +28,7 @@ import {
   Download as DownloadIcon,
 } from '@mui/icons-material'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import { useBooks } from '../hooks/useBooks'
+import { fetchAllBooks, useInfiniteBooks } from '../hooks/useBooks'
 import CatalogBookCard from '../components/CatalogBookCard'
 import ReturnBookDialog from '../components/ReturnBookDialog'
 import CreateLoanDialog from '../components/CreateLoanDialog'
@@ -69,6 +69,28 @@ type ReturnDialogLoan = {
   }
 }
 
+type BookRowProps = Pick<
+  React.ComponentProps<typeof CatalogBookCard>,
+  'onMarkReturned' | 'onLoanSuccess' | 'onCreateLoan'
+> & {
+  rows: CatalogBook[][]
+}
+
+// One row of book cards - rows differ in height, which the list measures as they render
+function BookRow({ index, style, ariaAttributes, rows, ...cardProps }: RowComponentProps<BookRowProps>) {
+  return (
+    <div style={style} {...ariaAttributes}>
+      <Grid container spacing={3} sx={{ pb: 3 }}>
+        {rows[index].map((book) => (
+          <Grid size={{ xs: 12, sm: 6, md: 4 }} key={book.catalogId}>
+            <CatalogBookCard book={book} {...cardProps} />
+          </Grid>
+        ))}
+      </Grid>
+    </div>
+  )
+}
+
 export default function MyBooks() {
   const navigate = useNavigate()
   const { user } = useAuth()
@@ -94,16 +116,35 @@ export default function MyBooks() {
   const [exportAnchorEl, setExportAnchorEl] = useState<null | HTMLElement>(null)
   const exportMenuOpen = Boolean(exportAnchorEl)
 
-  // Reactive hook - automatic caching and refetching
-  const { data: booksResponse, isLoading: loading, error: booksError, refetch } = useBooks({
+  const listFilters = useMemo(() => ({
     view,
     q: searchQuery.trim() || undefined,
     status: statusFilter !== 'all' ? (statusFilter as 'available' | 'on_loan') : undefined,
     genre: genreFilter !== 'all' ? genreFilter : undefined,
     sortBy: sortBy !== 'title' ? sortBy : undefined,
-  });
-  
-  const books = useMemo(() => booksResponse?.books || [], [booksResponse?.books]);
+  }), [view, searchQuery, statusFilter, genreFilter, sortBy]);
+
+  // Reactive hook - automatic caching and refetching, one page at a time
+  const {
+    data: booksPages,
+    isLoading: loading,
+    error: booksError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteBooks(listFilters);
+
+  // Loaded pages as one list (a book edited between pages could show up twice)
+  const books = useMemo(() => {
+    const seen = new Set<string>();
+    return (booksPages?.pages || []).flatMap((page) => page.books).filter((book) => {
+      if (seen.has(book.catalogId)) return false;
+      seen.add(book.catalogId);
+      return true;
+    });
+  }, [booksPages?.pages]);
+  const totalBooks = booksPages?.pages[0]?.meta?.total ?? books.length;
   const error = booksError ? (booksError as Error).message : '';
 
   // Group books into rows for responsive grid (3 per row on desktop, 2 on tablet, 1 on mobile)
@@ -115,6 +156,7 @@ export default function MyBooks() {
     }
     return rows;
   }, [books]);
+  const rowHeight = useDynamicRowHeight({ defaultRowHeight: 420 });
 
   useEffect(() => {
     const params = new URLSearchParams()
@@ -154,8 +196,8 @@ export default function MyBooks() {
   const [selectedFamilyBookId, setSelectedFamilyBookId] = useState<string | undefined>()
   
   const handleMarkReturned = useCallback(({ book, loan }: { book: CatalogBook; loan: BookLoanSummary }) => {
-    // Get the family book ID from the book's owned copies
-    const familyBookId = book.viewerContext?.ownedCopies?.[0]?.familyBookId
+    // The loan belongs to one of the family's copies
+    const familyBookId = loan.familyBookId || book.viewerContext?.ownedCopies?.[0]?.familyBookId
     setSelectedFamilyBookId(familyBookId)
     
     const dialogLoan: ReturnDialogLoan = {
@@ -197,6 +239,13 @@ export default function MyBooks() {
     setLoanDialogOpen(true)
   }, [])
 
+  const bookRowProps = useMemo(() => ({
+    rows: bookRows,
+    onMarkReturned: handleMarkReturned,
+    onLoanSuccess: handleLoanCreated,
+    onCreateLoan: handleOpenLoanDialog
+  }), [bookRows, handleMarkReturned, handleLoanCreated, handleOpenLoanDialog])
+
   const handleCloseLoanDialog = useCallback(() => {
     setLoanDialogOpen(false)
     setSelectedBookForLoan(null)
@@ -216,9 +265,16 @@ export default function MyBooks() {
     setExportAnchorEl(null)
   }
 
-  const exportToCSV = useCallback(() => {
-    const headers = ['Title', 'Author', 'Series', 'Series Number', 'Genre', 'Age Range', 'Status', 'Owner']
-    const rows = books.map(book => [
+  // Exports cover the whole list, not just the pages scrolled so far
+  const loadBooksForExport = useCallback(
+    () => (hasNextPage ? fetchAllBooks(listFilters) : Promise.resolve(books)),
+    [hasNextPage, listFilters, books]
+  )
+
+  const exportToCSV = useCallback(async () => {
+    const exportBooks = await loadBooksForExport()
+    const headers = ['Title', 'Author', 'Series', 'Series Number', 'Genre', 'Age Range', 'Status', 'Copies', 'Owner']
+    const rows = exportBooks.map(book => [
       book.title || book.titleHebrew || '',
       book.author || book.authorHebrew || '',
       book.series || '',
@@ -226,7 +282,8 @@ export default function MyBooks() {
       book.genre || '',
       book.ageRange || '',
       book.stats.availableCopies > 0 ? 'Available' : 'On Loan',
-      book.owners.map(o => o.family?.name || '').join('; ')
+      book.stats.totalCopies,
+      [...new Set(book.owners.map(o => o.family?.name || ''))].join('; ')
     ])
 
     const csvContent = [headers, ...rows]
@@ -239,10 +296,11 @@ export default function MyBooks() {
     link.download = `my-books-${new Date().toISOString().split('T')[0]}.csv`
     link.click()
     handleExportClose()
-  }, [books])
+  }, [loadBooksForExport])
 
-  const exportToJSON = useCallback(() => {
-    const exportData = books.map(book => ({
+  const exportToJSON = useCallback(async () => {
+    const exportBooks = await loadBooksForExport()
+    const exportData = exportBooks.map(book => ({
       title: book.title || book.titleHebrew || '',
       author: book.author || book.authorHebrew || '',
       series: book.series || '',
@@ -254,7 +312,8 @@ export default function MyBooks() {
       totalCopies: book.stats.totalCopies,
       owners: book.owners.map(o => ({
         familyName: o.family?.name || '',
-        status: o.status
+        status: o.status,
+        condition: o.condition || null
       }))
     }))
 
@@ -264,7 +323,7 @@ export default function MyBooks() {
     link.download = `my-books-${new Date().toISOString().split('T')[0]}.json`
     link.click()
     handleExportClose()
-  }, [books])
+  }, [loadBooksForExport])
 
   const subtitle = {
     my: 'צפו בכל הספרים שבבעלות המשפחה שלכם, כולל ספרים זמינים ומושאלים',
@@ -281,7 +340,7 @@ export default function MyBooks() {
               {view === 'all' ? 'קטלוג הקהילה' : 'הספרים שלי'}
             </Typography>
                <Typography variant="h6" color="text.secondary" sx={{ fontWeight: 'normal' }}>
-              ({books.length})
+              ({totalBooks})
             </Typography>
           </Box>
           <Typography variant="body1" color="text.secondary">
@@ -419,24 +478,23 @@ export default function MyBooks() {
           </Typography>
         </Box>
       ) : (
-        <Virtuoso
-          useWindowScroll
-          totalCount={bookRows.length}
-          itemContent={(rowIndex) => (
-            <Grid container spacing={3} sx={{ mb: 3 }}>
-              {bookRows[rowIndex].map((book) => (
-                <Grid size={{ xs: 12, sm: 6, md: 4 }} key={book.catalogId}>
-                  <CatalogBookCard 
-                    book={book} 
-                    onMarkReturned={handleMarkReturned}
-                    onLoanSuccess={handleLoanCreated}
-                    onCreateLoan={handleOpenLoanDialog}
-                  />
-                </Grid>
-              ))}
-            </Grid>
+        <>
+          <List
+            rowComponent={BookRow}
+            rowCount={bookRows.length}
+            rowHeight={rowHeight}
+            rowProps={bookRowProps}
+            onRowsRendered={({ stopIndex }) => {
+              if (stopIndex >= bookRows.length - 2 && hasNextPage && !isFetchingNextPage) fetchNextPage()
+            }}
+            style={{ height: '80vh' }}
+          />
+          {isFetchingNextPage && (
+            <Box display="flex" justifyContent="center" py={3}>
+              <CircularProgress size={28} />
+            </Box>
           )}
-        />
+        </>
       )}
 
       {/* Shared CreateLoanDialog - only rendered when needed */}
@@ -0,0 +1,78 @@
+import { useNavigate } from 'react-router-dom'
+import {
+  Alert,
+  Box,
+  Card,
+  CardActionArea,
+  CardContent,
+  CircularProgress,
+  Container,
+  Grid,
+  LinearProgress,
+  Typography,
+} from '@mui/material'
+import SeriesNextVolume from '../components/SeriesNextVolume'
+import { useMySeries } from '../hooks/useSeries'
+
+/**
+ * Complete my series - series the family has started, with the next volume to borrow
+ */
+export default function MySeries() {
+  const navigate = useNavigate()
+  const { data, isLoading, error } = useMySeries()
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  const series = data?.series || []
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 3 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        השלמת סדרות
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        סדרות שהתחלתם לקרוא או שיש לכם ספרים מהן, והכרך הבא שכדאי לשאול
+      </Typography>
+
+      {error && <Alert severity="error">{(error as Error).message || 'שגיאה בטעינת הסדרות'}</Alert>}
+
+      {!error && series.length === 0 && (
+        <Alert severity="info">עדיין אין סדרות - ספרים עם שם סדרה ומספר כרך יופיעו כאן</Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {series.map((item) => {
+          const total = item.lastVolume || item.knownVolumes
+          const progress = total > 0 ? Math.min(100, (item.readVolumes / total) * 100) : 0
+          return (
+            <Grid size={{ xs: 12, md: 6 }} key={item.name}>
+              <Card sx={{ height: '100%' }}>
+                <CardActionArea onClick={() => navigate(`/series/${encodeURIComponent(item.name)}`)}>
+                  <CardContent>
+                    <Typography variant="h6" dir="auto">
+                      {item.name}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {item.readVolumes} מתוך {total} כרכים נקראו או אצלנו · {item.ownedVolumes} בבעלותנו
+                      {item.missingNumbers.length > 0 && ` · חסרים בקהילה: ${item.missingNumbers.join(', ')}`}
+                    </Typography>
+                    <LinearProgress variant="determinate" value={progress} sx={{ mt: 1, height: 6, borderRadius: 3 }} />
+                  </CardContent>
+                </CardActionArea>
+                <CardContent sx={{ pt: 0 }}>
+                  <SeriesNextVolume nextVolume={item.nextVolume} />
+                </CardContent>
+              </Card>
+            </Grid>
+          )
+        })}
+      </Grid>
+    </Container>
+  )
+}
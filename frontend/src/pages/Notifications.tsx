@@ -0,0 +1,155 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  Container,
+  Typography,
+  Box,
+  Button,
+  CircularProgress,
+  Alert,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  FormControlLabel,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material'
+import {
+  useNotifications,
+  useMarkNotificationRead,
+  useMarkAllNotificationsRead,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from '../hooks/useNotifications'
+import type { AppNotification, NotificationType } from '../types'
+
+const PREFERENCE_LABELS: Record<NotificationType, string> = {
+  loan_request: 'בקשות השאלה לספרים שלנו',
+  loan_approved: 'אישור בקשות השאלה שלנו',
+  due_soon: 'תזכורת לפני מועד ההחזרה',
+  overdue: 'ספרים באיחור',
+  new_review: 'ביקורות חדשות על ספרים שלנו',
+  hold_claimable: 'ספר מרשימת ההמתנה פנוי עבורנו',
+}
+
+const timeFormatter = new Intl.DateTimeFormat('he-IL', { dateStyle: 'short', timeStyle: 'short' })
+
+export default function Notifications() {
+  const navigate = useNavigate()
+  const [unreadOnly, setUnreadOnly] = useState(false)
+  const [error, setError] = useState('')
+
+  const { data, isLoading, error: loadError } = useNotifications(unreadOnly)
+  const { data: preferencesData } = useNotificationPreferences()
+
+  const onError = (err: Error) => setError(err.message || 'שגיאה בעדכון ההתראות')
+  const markRead = useMarkNotificationRead({ onError })
+  const markAllRead = useMarkAllNotificationsRead({ onError })
+  const updatePreferences = useUpdateNotificationPreferences({ onError })
+
+  const notifications = data?.notifications || []
+  const unreadCount = data?.unread_count || 0
+  const preferences = preferencesData?.preferences
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) {
+      markRead.mutate(notification.id)
+    }
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 1, flexWrap: 'wrap' }}>
+        <Typography variant="h4" component="h1">
+          התראות
+        </Typography>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={() => markAllRead.mutate()}
+          disabled={unreadCount === 0 || markAllRead.isPending}
+        >
+          סמן הכל כנקרא
+        </Button>
+      </Box>
+
+      {(error || loadError) && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
+          {error || 'שגיאה בטעינת ההתראות'}
+        </Alert>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={unreadOnly ? 'unread' : 'all'}
+        onChange={(_, value) => value && setUnreadOnly(value === 'unread')}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="all">הכל</ToggleButton>
+        <ToggleButton value="unread">לא נקראו ({unreadCount})</ToggleButton>
+      </ToggleButtonGroup>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : notifications.length === 0 ? (
+        <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+          {unreadOnly ? 'אין התראות שלא נקראו' : 'אין התראות'}
+        </Typography>
+      ) : (
+        <Paper variant="outlined">
+          <List disablePadding data-testid="notifications-list">
+            {notifications.map((notification) => (
+              <ListItemButton
+                key={notification.id}
+                divider
+                onClick={() => handleOpen(notification)}
+                sx={{ bgcolor: notification.read_at ? undefined : 'action.hover' }}
+              >
+                <ListItemText
+                  primary={notification.title}
+                  secondary={[notification.body, timeFormatter.format(new Date(notification.created_at))]
+                    .filter(Boolean)
+                    .join(' · ')}
+                  slotProps={{ primary: { sx: { fontWeight: notification.read_at ? 'normal' : 'bold' } } }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        </Paper>
+      )}
+
+      <Paper variant="outlined" sx={{ p: 2, mt: 4 }} data-testid="notification-preferences">
+        <Typography variant="h6" gutterBottom>
+          אילו התראות לקבל
+        </Typography>
+        {preferences ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+            {(Object.keys(PREFERENCE_LABELS) as NotificationType[]).map((type) => (
+              <FormControlLabel
+                key={type}
+                label={PREFERENCE_LABELS[type]}
+                control={
+                  <Switch
+                    checked={preferences[type]}
+                    disabled={updatePreferences.isPending}
+                    onChange={(e) => updatePreferences.mutate({ [type]: e.target.checked })}
+                  />
+                }
+              />
+            ))}
+          </Box>
+        ) : (
+          <CircularProgress size={20} />
+        )}
+      </Paper>
+    </Container>
+  )
+}
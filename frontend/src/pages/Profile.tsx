@@ -15,6 +15,7 @@ import { useNavigate } from 'react-router-dom';
 import { useUser, useUserFamily } from '../hooks/useUser';
 import { apiCall } from '../utils/apiCall';
 import { supabase } from '../lib/supabase';
+import DigestSettingsSection from '../components/DigestSettingsSection';
 
 export default function Profile() {
   const navigate = useNavigate();
@@ -275,6 +276,16 @@ export default function Profile() {
 
         <Divider sx={{ my: 3 }} />
 
+        {/* Reminder digest email */}
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            תזכורות במייל
+          </Typography>
+          <DigestSettingsSection />
+        </Box>
+
+        <Divider sx={{ my: 3 }} />
+
         {/* Actions */}
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
           <Button
@@ -1,15 +1,317 @@
-import { useEffect } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  CardMedia,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  Grid,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { Clear as ClearIcon, MenuBook as BookIcon, Search as SearchIcon } from '@mui/icons-material'
+import HighlightedText from '../components/HighlightedText'
+import SearchFacetGroup from '../components/SearchFacetGroup'
+import { useAdvancedSearch, type AdvancedSearchParams } from '../hooks/useAdvancedSearch'
+import type { AdvancedSearchResult, SearchFacetName, SearchFacetValue } from '../types'
 
-export default function SearchBooks() {
+// Facets kept in the URL as repeated parameters (?genre=a&genre=b); the decade facet is yearFrom / yearTo
+const LIST_FACETS: SearchFacetName[] = ['genre', 'ageRange', 'series', 'author', 'language', 'availability', 'family']
+
+const FACET_TITLES: Record<SearchFacetName, string> = {
+  genre: "ז'אנר",
+  ageRange: 'גיל',
+  series: 'סדרה',
+  author: 'מחבר',
+  language: 'שפה',
+  availability: 'זמינות',
+  family: 'משפחה',
+  decade: 'שנת הוצאה',
+}
+
+const LANGUAGE_LABELS: Record<string, string> = { he: 'עברית', en: 'אנגלית', other: 'אחר' }
+const AVAILABILITY_LABELS: Record<string, string> = { available: 'זמין להשאלה', on_loan: 'כל העותקים מושאלים' }
+
+const facetLabel = (facet: SearchFacetName) => (entry: SearchFacetValue) => {
+  if (facet === 'language') return LANGUAGE_LABELS[entry.value] || entry.value
+  if (facet === 'availability') return AVAILABILITY_LABELS[entry.value] || entry.value
+  if (facet === 'decade') return `${entry.value}-${Number(entry.value) + 9}`
+  if (facet === 'family') return entry.label || 'משפחה'
+  return entry.label || entry.value
+}
+
+function SearchResultCard({ book }: { book: AdvancedSearchResult }) {
   const navigate = useNavigate()
-  const location = useLocation()
+  const useHebrewTitle = Boolean(book.titleHebrew && book.highlights.title_hebrew && !book.highlights.title)
+  const familyNames = book.families.map((family) => family.name).filter(Boolean)
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardActionArea
+        onClick={() => book.familyBookId && navigate(`/books/${book.familyBookId}`)}
+        sx={{ height: '100%', display: 'flex', flexDirection: 'column', alignItems: 'stretch', justifyContent: 'flex-start' }}
+      >
+        {book.coverImageUrl ? (
+          <CardMedia component="img" height="180" image={book.coverImageUrl} alt={book.title} sx={{ objectFit: 'contain', bgcolor: 'grey.100' }} />
+        ) : (
+          <Box sx={{ height: 180, display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'grey.100' }}>
+            <BookIcon sx={{ fontSize: 56, color: 'grey.400' }} />
+          </Box>
+        )}
+        <CardContent>
+          <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+            {useHebrewTitle ? (
+              <HighlightedText text={book.titleHebrew!} ranges={book.highlights.title_hebrew} />
+            ) : (
+              <HighlightedText text={book.title} ranges={book.highlights.title} />
+            )}
+          </Typography>
+          {book.author && (
+            <Typography variant="body2" color="text.secondary">
+              <HighlightedText text={book.author} ranges={book.highlights.author} />
+            </Typography>
+          )}
+          {book.series && (
+            <Typography variant="body2" color="text.secondary">
+              <HighlightedText text={book.series} ranges={book.highlights.series} />
+              {book.seriesNumber ? ` #${book.seriesNumber}` : ''}
+            </Typography>
+          )}
+          <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 1 }}>
+            <Chip
+              size="small"
+              label={`${book.availableCopies}/${book.totalCopies}`}
+              color={book.availableCopies > 0 ? 'success' : 'default'}
+            />
+            {book.ownedByViewer && <Chip size="small" color="primary" label="שלנו" />}
+            {book.genre && <Chip size="small" variant="outlined" label={book.genre} />}
+            {book.yearPublished && <Chip size="small" variant="outlined" label={book.yearPublished} />}
+          </Box>
+          {familyNames.length > 0 && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+              אצל: {familyNames.join(', ')}
+            </Typography>
+          )}
+        </CardContent>
+      </CardActionArea>
+    </Card>
+  )
+}
+
+/**
+ * Advanced search - free text and facets over the whole community, kept in the URL
+ */
+export default function SearchBooks() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [queryInput, setQueryInput] = useState(searchParams.get('q') || '')
+  const sentinelRef = useRef<HTMLDivElement | null>(null)
+
+  const q = searchParams.get('q') || ''
+  const sort = searchParams.get('sort') || ''
+  const yearFrom = searchParams.get('yearFrom') || ''
+  const yearTo = searchParams.get('yearTo') || ''
+
+  const params = useMemo(() => {
+    const next: AdvancedSearchParams = { q: q || undefined, sort: sort || undefined, yearFrom: yearFrom || undefined, yearTo: yearTo || undefined }
+    for (const facet of LIST_FACETS) {
+      const values = searchParams.getAll(facet)
+      if (values.length) next[facet] = values
+    }
+    return next
+  }, [searchParams, q, sort, yearFrom, yearTo])
 
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useAdvancedSearch(params)
+  const results = data?.pages.flatMap((page) => page.results) || []
+  const firstPage = data?.pages[0]
+
+  useEffect(() => {
+    setQueryInput(q)
+  }, [q])
+
+  // Load the next page when the end of the list scrolls into view
   useEffect(() => {
-    const params = new URLSearchParams(location.search)
-    params.set('view', params.get('view') || 'all')
-    navigate({ pathname: '/books', search: params.toString() }, { replace: true })
-  }, [location.search, navigate])
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasNextPage) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage()
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
+  const updateParams = (update: (next: URLSearchParams) => void) => {
+    const next = new URLSearchParams(searchParams)
+    update(next)
+    setSearchParams(next, { replace: true })
+  }
+
+  const toggleFacet = (facet: SearchFacetName, value: string) => {
+    updateParams((next) => {
+      if (facet === 'decade') {
+        const selected = yearFrom === value && yearTo === String(Number(value) + 9)
+        next.delete('yearFrom')
+        next.delete('yearTo')
+        if (!selected) {
+          next.set('yearFrom', value)
+          next.set('yearTo', String(Number(value) + 9))
+        }
+        return
+      }
+      const values = next.getAll(facet)
+      next.delete(facet)
+      const updated = values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+      updated.forEach((item) => next.append(facet, item))
+    })
+  }
+
+  const selectedValues = (facet: SearchFacetName) => {
+    if (facet !== 'decade') return searchParams.getAll(facet)
+    return yearFrom && yearTo === String(Number(yearFrom) + 9) ? [yearFrom] : []
+  }
+
+  const hasFilters = LIST_FACETS.some((facet) => searchParams.has(facet)) || Boolean(yearFrom || yearTo)
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    updateParams((next) => {
+      if (queryInput.trim()) next.set('q', queryInput.trim())
+      else next.delete('q')
+    })
+  }
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 3 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        חיפוש ספרים
+      </Typography>
+
+      <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', gap: 1.5, mb: 3, flexWrap: 'wrap' }}>
+        <TextField
+          sx={{ flex: 1, minWidth: 240 }}
+          placeholder="שם ספר, מחבר או סדרה - בעברית או באנגלית"
+          value={queryInput}
+          onChange={(e) => setQueryInput(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+            endAdornment: queryInput && (
+              <InputAdornment position="end">
+                <IconButton
+                  aria-label="נקה חיפוש"
+                  size="small"
+                  edge="end"
+                  onClick={() => {
+                    setQueryInput('')
+                    updateParams((next) => next.delete('q'))
+                  }}
+                >
+                  <ClearIcon />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+        />
+        <FormControl sx={{ minWidth: 160 }}>
+          <InputLabel id="search-sort-label">מיון</InputLabel>
+          <Select
+            labelId="search-sort-label"
+            label="מיון"
+            value={sort && (sort !== 'relevance' || q) ? sort : (q ? 'relevance' : 'title')}
+            onChange={(e) => updateParams((next) => next.set('sort', e.target.value))}
+          >
+            {q && <MenuItem value="relevance">רלוונטיות</MenuItem>}
+            <MenuItem value="title">שם הספר</MenuItem>
+            <MenuItem value="year">שנת הוצאה (חדש קודם)</MenuItem>
+          </Select>
+        </FormControl>
+        <Button type="submit" variant="contained" startIcon={<SearchIcon />}>
+          חיפוש
+        </Button>
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, md: 3 }}>
+          <Paper sx={{ p: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="h6">סינון</Typography>
+              {hasFilters && (
+                <Button
+                  size="small"
+                  onClick={() => updateParams((next) => {
+                    LIST_FACETS.forEach((facet) => next.delete(facet))
+                    next.delete('yearFrom')
+                    next.delete('yearTo')
+                  })}
+                >
+                  נקה הכל
+                </Button>
+              )}
+            </Box>
+            {firstPage ? (
+              [...LIST_FACETS, 'decade' as const].map((facet) => (
+                <SearchFacetGroup
+                  key={facet}
+                  title={FACET_TITLES[facet]}
+                  values={firstPage.facets?.[facet] || []}
+                  selected={selectedValues(facet)}
+                  onToggle={(value) => toggleFacet(facet, value)}
+                  getLabel={facetLabel(facet)}
+                />
+              ))
+            ) : (
+              isLoading && <CircularProgress size={24} />
+            )}
+          </Paper>
+        </Grid>
+
+        <Grid size={{ xs: 12, md: 9 }}>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{(error as Error).message || 'שגיאה בחיפוש'}</Alert>}
 
-  return null
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <>
+              {firstPage && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {firstPage.total} ספרים
+                </Typography>
+              )}
+              {results.length === 0 && !error ? (
+                <Alert severity="info">לא נמצאו ספרים - נסו לשנות את החיפוש או להסיר סינונים</Alert>
+              ) : (
+                <Grid container spacing={2}>
+                  {results.map((book) => (
+                    <Grid size={{ xs: 12, sm: 6, lg: 4 }} key={book.catalogId}>
+                      <SearchResultCard book={book} />
+                    </Grid>
+                  ))}
+                </Grid>
+              )}
+              <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                {isFetchingNextPage && <CircularProgress size={28} />}
+              </Box>
+            </>
+          )}
+        </Grid>
+      </Grid>
+    </Container>
+  )
 }
@@ -0,0 +1,146 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Divider,
+  List,
+  ListItem,
+  ListItemAvatar,
+  ListItemButton,
+  ListItemText,
+  Avatar,
+  Paper,
+  Typography,
+} from '@mui/material'
+import { ArrowBack as BackIcon, MenuBook as BookIcon } from '@mui/icons-material'
+import SeriesNextVolume from '../components/SeriesNextVolume'
+import { useSeries } from '../hooks/useSeries'
+import type { SeriesVolume } from '../types'
+
+type VolumeRow = { number: number | null; volume: SeriesVolume | null }
+
+const availabilityChip = (volume: SeriesVolume) => {
+  if (volume.availableCopies > 0) {
+    return { label: `${volume.availableCopies} מתוך ${volume.totalCopies} זמינים`, color: 'success' as const }
+  }
+  if (volume.totalCopies > 0) {
+    return { label: 'כל העותקים מושאלים', color: 'warning' as const }
+  }
+  return { label: 'אין עותקים בקהילה', color: 'default' as const }
+}
+
+// Families holding the volume, each named once
+const holderNames = (volume: SeriesVolume) =>
+  [...new Set(volume.holders.filter((holder) => !holder.isViewerFamily).map((holder) => holder.familyName || 'משפחה'))]
+
+/**
+ * Series page - every known volume, what our family owns and read, who in the community
+ * has the rest, and which volumes no one has
+ */
+export default function SeriesPage() {
+  const { name } = useParams<{ name: string }>()
+  const navigate = useNavigate()
+  const { data, isLoading, error } = useSeries(name)
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <Container maxWidth="md" sx={{ py: 3 }}>
+        <Alert severity="error">{(error as Error | null)?.message || 'הסדרה לא נמצאה'}</Alert>
+      </Container>
+    )
+  }
+
+  const { series } = data
+  const rows: VolumeRow[] = [
+    ...series.volumes.map((volume) => ({ number: volume.number, volume })),
+    ...series.missingNumbers.map((number) => ({ number, volume: null })),
+  ].sort((a, b) => (a.number ?? 0) - (b.number ?? 0))
+  rows.push(...series.unnumbered.map((volume) => ({ number: null, volume })))
+
+  const ownedCount = series.volumes.filter((volume) => volume.ownedByFamily).length
+  const readCount = series.volumes.filter((volume) => volume.read).length
+
+  const openVolume = (volume: SeriesVolume) => {
+    const copy = volume.holders.find((holder) => holder.isViewerFamily) || volume.holders[0]
+    if (copy) navigate(`/books/${copy.familyBookId}`)
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 3 }}>
+      <Button startIcon={<BackIcon />} onClick={() => navigate(-1)} sx={{ mb: 2 }}>
+        חזרה
+      </Button>
+
+      <Typography variant="h4" component="h1" dir="auto">
+        {series.name}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+        <Chip label={`${series.volumes.length} כרכים מוכרים`} size="small" variant="outlined" />
+        <Chip label={`${ownedCount} אצלנו`} size="small" color="primary" variant="outlined" />
+        <Chip label={`${readCount} קראנו`} size="small" color="secondary" variant="outlined" />
+        {series.missingNumbers.length > 0 && (
+          <Chip label={`${series.missingNumbers.length} חסרים בקהילה`} size="small" variant="outlined" />
+        )}
+      </Box>
+
+      <Paper sx={{ p: 2, mt: 3 }}>
+        <SeriesNextVolume nextVolume={series.nextVolume} />
+      </Paper>
+
+      <Paper sx={{ mt: 3 }}>
+        <List disablePadding>
+          {rows.map(({ number, volume }, index) => (
+            <Box key={volume ? volume.editions[0].catalogId : `missing-${number}`}>
+              {index > 0 && <Divider component="li" />}
+              {volume ? (
+                <ListItem disablePadding>
+                  <ListItemButton onClick={() => openVolume(volume)} disabled={volume.totalCopies === 0}>
+                    <ListItemAvatar>
+                      <Avatar variant="rounded" src={volume.editions[0].coverImageUrl || undefined}>
+                        <BookIcon />
+                      </Avatar>
+                    </ListItemAvatar>
+                    <ListItemText
+                      primary={`${number ? `${number}. ` : ''}${volume.editions[0].titleHebrew || volume.editions[0].title}`}
+                      secondary={holderNames(volume).length > 0 ? `אצל: ${holderNames(volume).join(', ')}` : undefined}
+                    />
+                    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                      {volume.ownedByFamily && <Chip label="שלנו" color="primary" size="small" />}
+                      {volume.read && <Chip label="קראנו" color="secondary" size="small" />}
+                      <Chip {...availabilityChip(volume)} size="small" />
+                    </Box>
+                  </ListItemButton>
+                </ListItem>
+              ) : (
+                <ListItem>
+                  <ListItemAvatar>
+                    <Avatar variant="rounded" sx={{ bgcolor: 'grey.200' }}>
+                      <BookIcon sx={{ color: 'grey.400' }} />
+                    </Avatar>
+                  </ListItemAvatar>
+                  <ListItemText
+                    primary={`${number}. כרך חסר`}
+                    secondary="אף משפחה בקהילה לא הוסיפה את הכרך הזה"
+                    slotProps={{ primary: { color: 'text.secondary' } }}
+                  />
+                </ListItem>
+              )}
+            </Box>
+          ))}
+        </List>
+      </Paper>
+    </Container>
+  )
+}
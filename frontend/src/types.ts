@@ -30,26 +30,156 @@ export interface User {
   whatsapp?: string;
   family_id: string;
   is_family_admin: boolean;
+  // May change the shared catalog (SITE_ADMIN_USER_IDS on the server)
+  is_site_admin?: boolean;
   created_at?: string;
 }
 
+export type WhatsAppTemplateKey =
+  | 'borrow_request'
+  | 'due_reminder'
+  | 'return_coordination'
+  | 'return_thanks'
+  | 'general';
+
+// Templates a family customized; missing keys use the default text
+export type WhatsAppTemplates = Partial<Record<WhatsAppTemplateKey, string>>;
+
 export interface Family {
   id: string;
   name: string;
   phone: string;
   whatsapp?: string;
   email?: string;
+  whatsapp_templates?: WhatsAppTemplates;
   created_at?: string;
 }
 
+export type LoanStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'active' | 'overdue' | 'returned';
+
+export type LoanRenewalStatus = 'pending' | 'approved' | 'declined';
+
+// A borrower's request to move the due date, and the owner's decision
+export interface LoanRenewal {
+  id: string;
+  status: LoanRenewalStatus;
+  previous_due_date?: string | null;
+  requested_due_date: string;
+  notes?: string | null;
+  created_at: string;
+  decided_at?: string | null;
+}
+
+// A rule of the owner family's lending policy that a prospective loan breaks
+export interface LendingPolicyViolation {
+  code: 'borrower_not_allowed' | 'max_loans_per_borrower' | 'max_loan_period' | 'children_books_need_kids';
+  message: string;
+  limit?: number;
+  current?: number;
+}
+
+export type BookCondition = 'new' | 'good' | 'fair' | 'poor';
+
+export type LoanConditionKind = 'checkout' | 'checkin' | 'damage' | 'loss';
+
+// State of a copy when a loan starts or ends, or an owner's damage/loss report
+export interface LoanConditionRecord {
+  id: string;
+  loan_id: string;
+  kind: LoanConditionKind;
+  condition?: BookCondition | null;
+  notes?: string | null;
+  photo_urls: string[];
+  created_at: string;
+  created_by?: {
+    full_name: string;
+  } | null;
+}
+
+export type LoanEventType =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'cancelled'
+  | 'handed_over'
+  | 'renewal_requested'
+  | 'renewed'
+  | 'renewal_declined'
+  | 'due_date_changed'
+  | 'overdue'
+  | 'returned'
+  | 'passed_on'
+  | 'damage_reported'
+  | 'disputed';
+
+// Entry of the append-only loan ledger (actor is null for system events such as overdue)
+export interface LoanEvent {
+  id: string;
+  loan_id: string;
+  family_book_id: string;
+  event_type: LoanEventType;
+  details?: Record<string, any> | null;
+  created_at: string;
+  actor?: {
+    full_name: string;
+  } | null;
+  loan?: {
+    borrower_family?: {
+      name: string;
+    } | null;
+  } | null;
+}
+
+// The user's subscription to the loan due date calendar (.ics)
+export interface CalendarFeed {
+  path: string;
+  created_at: string;
+  last_accessed_at?: string | null;
+}
+
+export type NotificationType =
+  | 'loan_request'
+  | 'loan_approved'
+  | 'due_soon'
+  | 'overdue'
+  | 'new_review'
+  | 'hold_claimable';
+
+// Named AppNotification so it doesn't shadow the DOM Notification type
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  data?: Record<string, unknown> | null;
+  read_at?: string | null;
+  created_at: string;
+}
+
+// Type -> enabled
+export type NotificationPreferences = Record<NotificationType, boolean>;
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+// Reminder digest email settings; quiet hours are in Israel time, null for none
+export interface DigestSettings {
+  frequency: DigestFrequency;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  last_sent_at?: string | null;
+}
+
 export interface Loan {
   id: string;
   family_book_id: string;
   borrower_family_id: string;
   owner_family_id: string;
   requester_id?: string;
-  status: 'active' | 'returned';
+  status: LoanStatus;
   request_date: string;
+  due_date?: string | null;
   actual_return_date?: string;
   notes?: string;
   return_notes?: string;
@@ -79,7 +209,15 @@ export interface Loan {
     name: string;
     phone: string;
     whatsapp?: string;
+    max_loan_renewals?: number | null;
   };
+  renewals?: LoanRenewal[];
+  previous_loan_id?: string | null;
+  pass_on_family_id?: string | null;
+  pass_on_requested_at?: string | null;
+  pass_on_family?: {
+    name: string;
+  } | null;
   requester?: {
     full_name: string;
     email: string;
@@ -87,6 +225,27 @@ export interface Loan {
   };
 }
 
+export type BookHoldStatus = 'waiting' | 'claimable' | 'fulfilled' | 'expired' | 'cancelled';
+
+// A family's place in the hold queue for a catalog book
+export interface BookHold {
+  id: string;
+  book_catalog_id: string;
+  family_id: string;
+  status: BookHoldStatus;
+  claim_family_book_id?: string | null;
+  claim_expires_at?: string | null;
+  loan_id?: string | null;
+  created_at: string;
+  position: number | null;
+  queue_length: number;
+  family?: {
+    name: string;
+    phone?: string;
+    whatsapp?: string;
+  };
+}
+
 export interface BookLoanSummary {
   id: string;
   status: string;
@@ -115,6 +274,7 @@ export interface BookOwner {
   status: string;
   condition?: string | null;
   notes?: string | null;
+  addedAt?: string;
   familyId: string;
   family: FamilyContact | null;
   loan?: BookLoanSummary | null;
@@ -124,20 +284,57 @@ export interface BookOwner {
 export interface CatalogBookViewerContext {
   owns: boolean;
   borrowed: boolean;
+  // Oldest copy first - a family may own several copies of a book
   ownedCopies: Array<{
     familyBookId: string;
     status: string;
+    condition?: string | null;
+    notes?: string | null;
+    addedAt?: string;
     loan?: BookLoanSummary | null;
   }>;
   borrowedLoan?: BookLoanSummary | null;
 }
 
+// One physical copy owned by the viewer's family (GET /api/books/:id/copies)
+export interface BookCopy {
+  familyBookId: string;
+  status: string;
+  condition?: BookCondition | null;
+  notes?: string | null;
+  acquiredDate?: string | null;
+  addedAt: string;
+  loan?: BookLoanSummary | null;
+}
+
+// An edition of the book's work owned in the community (GET /api/books/:id/editions)
+export interface BookEdition {
+  catalogId: string;
+  title: string;
+  titleHebrew?: string | null;
+  author?: string | null;
+  authorHebrew?: string | null;
+  isbn?: string | null;
+  publisher?: string | null;
+  yearPublished?: number | null;
+  coverImageUrl?: string | null;
+  isCurrent: boolean;
+  totalCopies: number;
+  availableCopies: number;
+  ownedByViewer: boolean;
+  familyBookId: string | null;
+}
+
+// Matched [start, end) character ranges per field of a search result
+export type SearchHighlights = Record<string, Array<[number, number]>>;
+
 export interface CatalogBook {
   catalogId: string;
   title?: string;
   titleHebrew?: string;
   author?: string;
   authorHebrew?: string;
+  authorId?: string | null;
   isbn?: string;
   publisher?: string;
   publishYear?: number;
@@ -157,4 +354,250 @@ export interface CatalogBook {
   };
   owners: BookOwner[];
   viewerContext: CatalogBookViewerContext;
+  // Present when the list was searched (q)
+  highlights?: SearchHighlights;
+}
+
+// Advanced search (GET /api/search)
+export type SearchFacetName =
+  | 'genre'
+  | 'ageRange'
+  | 'series'
+  | 'author'
+  | 'language'
+  | 'availability'
+  | 'family'
+  | 'decade';
+
+export interface SearchFacetValue {
+  value: string;
+  label: string | null;
+  count: number;
+}
+
+export interface AdvancedSearchResult {
+  catalogId: string;
+  title: string;
+  titleHebrew?: string | null;
+  author?: string | null;
+  authorHebrew?: string | null;
+  authorId?: string | null;
+  series?: string | null;
+  seriesNumber?: number | null;
+  genre?: string | null;
+  ageRange?: string | null;
+  yearPublished?: number | null;
+  language: 'he' | 'en' | 'other';
+  coverImageUrl?: string | null;
+  totalCopies: number;
+  availableCopies: number;
+  ownedByViewer: boolean;
+  // Copy to open: the viewer's, otherwise an available one
+  familyBookId: string | null;
+  families: { id: string; name: string | null }[];
+  highlights: SearchHighlights;
+}
+
+export interface AdvancedSearchResponse {
+  results: AdvancedSearchResult[];
+  total: number;
+  // Only counted for the first page (offset 0)
+  facets: Record<SearchFacetName, SearchFacetValue[]> | null;
+  nextOffset: number | null;
+}
+
+// Author page (GET /api/authors/:id) - one person across Hebrew and English spellings
+export interface Author {
+  id: string;
+  name: string;
+  nameHebrew?: string | null;
+  aliases: string[];
+}
+
+export interface AuthorBook {
+  catalogId: string;
+  workId?: string | null;
+  title: string;
+  titleHebrew?: string | null;
+  series?: string | null;
+  seriesNumber?: number | null;
+  yearPublished?: number | null;
+  genre?: string | null;
+  ageRange?: string | null;
+  coverImageUrl?: string | null;
+  totalCopies: number;
+  availableCopies: number;
+  ownedByViewer: boolean;
+  familyBookId: string;
+}
+
+// Series page (GET /api/series/:name)
+export interface SeriesHolder {
+  familyBookId: string;
+  catalogId: string;
+  familyId: string;
+  familyName: string | null;
+  status: string;
+  isViewerFamily: boolean;
+}
+
+export interface SeriesVolume {
+  number: number | null;
+  editions: {
+    catalogId: string;
+    workId: string | null;
+    title: string;
+    titleHebrew?: string | null;
+    author?: string | null;
+    coverImageUrl?: string | null;
+  }[];
+  holders: SeriesHolder[];
+  read: boolean;
+  ownedByFamily: boolean;
+  totalCopies: number;
+  availableCopies: number;
+}
+
+// First volume the family neither owns nor has read
+export interface SeriesNextVolume {
+  number: number;
+  status: 'available' | 'on_loan' | 'missing';
+  title: string | null;
+  catalogId: string | null;
+  copy: SeriesHolder | null;
+}
+
+export interface SeriesOverview {
+  name: string;
+  volumes: SeriesVolume[];
+  unnumbered: SeriesVolume[];
+  missingNumbers: number[];
+  nextVolume: SeriesNextVolume | null;
+}
+
+// "Complete my series" (GET /api/series)
+export interface MySeriesSummary {
+  name: string;
+  knownVolumes: number;
+  lastVolume: number | null;
+  ownedVolumes: number;
+  readVolumes: number;
+  missingNumbers: number[];
+  nextVolume: SeriesNextVolume | null;
+}
+
+// Catalog duplicate review (GET /api/catalog/duplicates, admins only)
+export type CatalogDuplicateReason =
+  | 'same_isbn'
+  | 'similar_title'
+  | 'similar_author'
+  | 'missing_isbn'
+  | 'missing_series_number';
+
+// Raw book_catalog row, as the admin tools see it
+export interface CatalogRecord {
+  id: string;
+  work_id?: string | null;
+  title: string;
+  title_hebrew?: string | null;
+  author?: string | null;
+  author_hebrew?: string | null;
+  isbn?: string | null;
+  publisher?: string | null;
+  year_published?: number | null;
+  genre?: string | null;
+  age_level?: string | null;
+  pages?: number | null;
+  summary?: string | null;
+  cover_image_url?: string | null;
+  series?: string | null;
+  series_number?: number | null;
+  created_at: string;
+  copyCount: number;
+}
+
+export interface CatalogDuplicateCandidate {
+  score: number;
+  reasons: CatalogDuplicateReason[];
+  suggestedSurvivorId: string;
+  books: [CatalogRecord, CatalogRecord];
+}
+
+// What merge_catalog_books moved to the surviving record
+export interface CatalogMergeResult {
+  survivor_id: string;
+  duplicate_id: string;
+  copies: number;
+  likes: number;
+  reviews: number;
+  holds: number;
+}
+
+// Library import (POST /api/books/import/preview)
+export type LibraryImportFormat = 'shelf-csv' | 'json' | 'goodreads' | 'csv';
+
+export type LibraryImportField =
+  | 'title'
+  | 'author'
+  | 'isbn'
+  | 'series'
+  | 'series_number'
+  | 'genre'
+  | 'age_range'
+  | 'publisher'
+  | 'publish_year'
+  | 'pages'
+  | 'cover_image_url'
+  | 'description';
+
+export type LibraryImportIssue = 'missing_title' | 'invalid_isbn' | 'to_read';
+
+export interface ImportedBook {
+  title: string;
+  author: string | null;
+  isbn: string | null;
+  series: string | null;
+  series_number: number | null;
+  genre: string | null;
+  age_range: string | null;
+  publisher: string | null;
+  publish_year: number | null;
+  pages: number | null;
+  cover_image_url: string | null;
+  description: string | null;
+}
+
+// The catalog book an imported row would be added as
+export interface ImportCatalogMatch {
+  id: string;
+  title: string;
+  author: string | null;
+  series: string | null;
+  series_number: number | null;
+  cover_image_url: string | null;
+  owned: boolean;
+}
+
+export interface LibraryImportRow {
+  row: number;
+  book: ImportedBook;
+  issues: LibraryImportIssue[];
+  match: ImportCatalogMatch | null;
+}
+
+export interface LibraryImportPreview {
+  format: LibraryImportFormat;
+  headers: string[];
+  mapping: Partial<Record<LibraryImportField, string>>;
+  rows: LibraryImportRow[];
+  summary: { total: number; matched: number; owned: number };
+}
+
+// Same shape as POST /api/books/bulk-add
+export interface LibraryImportResult {
+  added: number;
+  skipped: number;
+  failed: number;
+  skippedBooks: { title: string; author: string; message: string }[];
+  errors: { book: ImportedBook; error: string }[];
 }
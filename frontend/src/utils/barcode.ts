@@ -0,0 +1,114 @@
+/**
+ * Barcode Utilities
+ *
+ * Reads the EAN-13 barcode on the back of a book from a camera photo.
+ * Uses the browser's BarcodeDetector where available (Chrome on Android),
+ * otherwise falls back to ZXing, which is loaded only when first needed.
+ */
+
+// Not in the TypeScript DOM lib yet
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<Array<{ rawValue: string }>>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+// Larger photos are scaled down before decoding - barcodes stay readable and ZXing stays fast
+const MAX_DECODE_SIZE = 1280;
+
+/**
+ * Strip separators from a scanned or typed ISBN; returns null unless it looks like an ISBN-10/13
+ * (check digits are verified by the server)
+ */
+export function cleanIsbn(value: string): string | null {
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+  if (/^97[89]\d{10}$/.test(isbn) || /^\d{9}[\dX]$/.test(isbn)) {
+    return isbn;
+  }
+  return null;
+}
+
+async function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function detectNative(image: HTMLImageElement): Promise<string[]> {
+  if (!window.BarcodeDetector) return [];
+  try {
+    const detector = new window.BarcodeDetector({ formats: ['ean_13'] });
+    const barcodes = await detector.detect(image);
+    return barcodes.map((barcode) => barcode.rawValue);
+  } catch (err) {
+    console.warn('BarcodeDetector failed, falling back to ZXing:', err);
+    return [];
+  }
+}
+
+async function detectWithZxing(image: HTMLImageElement): Promise<string[]> {
+  const {
+    BarcodeFormat,
+    BinaryBitmap,
+    DecodeHintType,
+    HybridBinarizer,
+    MultiFormatReader,
+    RGBLuminanceSource,
+  } = await import('@zxing/library');
+
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return [];
+  context.drawImage(image, 0, 0, width, height);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    luminances[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+
+  const hints = new Map();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13]);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+
+  const reader = new MultiFormatReader();
+  try {
+    const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)));
+    return [reader.decode(bitmap, hints).getText()];
+  } catch {
+    // NotFoundException - no barcode in the photo
+    return [];
+  }
+}
+
+/**
+ * Find a book ISBN barcode in a photo
+ * @returns The ISBN-13, or null when the photo has no readable ISBN barcode
+ */
+export async function decodeIsbnFromImage(file: File): Promise<string | null> {
+  const image = await loadImage(file);
+
+  let values = await detectNative(image);
+  if (values.length === 0) {
+    values = await detectWithZxing(image);
+  }
+
+  // Other EAN-13 barcodes (price stickers, products) don't start with 978/979
+  return values.map(cleanIsbn).find((isbn): isbn is string => !!isbn && isbn.length === 13) ?? null;
+}
@@ -16,6 +16,8 @@ export interface BookSearchResult {
   description: string;
   cover_image_url: string;
   source: string;
+  /** Every provider that found the book, when results of several providers were merged */
+  sources?: string[];
   genre?: string | null;
   series?: string | null;
   series_number?: number | null;
@@ -26,7 +28,7 @@ export interface BookSearchResult {
 }
 
 export interface SearchOptions {
-  /** Search provider (auto, simania, google) */
+  /** Search provider - auto, or a name from getAvailableSources() */
   provider?: string;
   /** Maximum number of results to return */
   maxResults?: number;
@@ -89,13 +91,37 @@ export async function searchBooks(
 }
 
 /**
- * Get list of available search sources
+ * Look up a single book by ISBN (e.g. a scanned barcode) - shared catalog first, then external sources
+ *
+ * @param isbn - ISBN-10 or ISBN-13, hyphens allowed
+ * @param userId - User ID to check if the book is already owned
+ * @returns The book, or null when it wasn't found
  */
-export function getAvailableSources(): Array<{ name: string; displayName: string }> {
-  return [
-    { name: 'auto', displayName: 'אוטומטי' },
-    { name: 'simania', displayName: 'סימניה' },
-  ];
+export async function lookupIsbn(isbn: string, userId?: string): Promise<BookSearchResult | null> {
+  try {
+    const params = userId ? `?${new URLSearchParams({ userId }).toString()}` : '';
+    const data = await apiCall<{ success: boolean; result: BookSearchResult }>(
+      `/api/search-books/isbn/${encodeURIComponent(isbn)}${params}`
+    );
+    return data.success ? data.result : null;
+  } catch (err) {
+    console.error('ISBN lookup failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Get list of available search sources - the providers the server is configured with
+ */
+export async function getAvailableSources(): Promise<Array<{ name: string; displayName: string }>> {
+  const auto = { name: 'auto', displayName: 'אוטומטי' };
+  try {
+    const data = await apiCall<{ sources: Array<{ name: string; displayName: string }> }>('/api/search-books/sources');
+    return [auto, ...data.sources];
+  } catch (err) {
+    console.error('Failed to load search sources:', err);
+    return [auto];
+  }
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Hebrew Search Utilities
+ *
+ * Same normalization as the catalog search on the server (normalize_hebrew_search),
+ * for filtering cached books while the server results load.
+ */
+
+const FINAL_LETTERS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+/**
+ * Search form of a text: lowercase, no niqqud, regular final letters, no quotes or geresh
+ */
+export function normalizeHebrew(text: string | null | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/־/g, ' ')
+    .replace(/[֑-ׇ'"`׳״]/g, '')
+    .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter])
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether any of the texts contains the query, compared in search form
+ */
+export function matchesSearch(query: string, ...texts: Array<string | null | undefined>): boolean {
+  const normalizedQuery = normalizeHebrew(query);
+  if (!normalizedQuery) return true;
+  return texts.some((text) => normalizeHebrew(text).includes(normalizedQuery));
+}
@@ -0,0 +1,39 @@
+/**
+ * Loan Date Utilities
+ * 
+ * Helpers for due dates and overdue detection shared by loan components.
+ */
+
+export const DEFAULT_LOAN_PERIOD_DAYS = 14;
+
+interface LoanDueInfo {
+  status: string;
+  due_date?: string | null;
+}
+
+/**
+ * Add a number of days to a date and return an ISO string
+ */
+export function addDays(days: number, from: Date = new Date()): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+}
+
+/**
+ * A loan is overdue once the cron job marked it, or as soon as an
+ * active loan passes its due date (before the next cron run)
+ */
+export function isLoanOverdue(loan: LoanDueInfo, now: Date = new Date()): boolean {
+  if (loan.status === 'overdue') return true;
+  if (loan.status !== 'active' || !loan.due_date) return false;
+  return new Date(loan.due_date).getTime() < now.getTime();
+}
+
+/**
+ * Whole days until the due date (negative when overdue)
+ */
+export function daysUntilDue(dueDate: string, now: Date = new Date()): number {
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.ceil((new Date(dueDate).getTime() - now.getTime()) / msPerDay);
+}
@@ -0,0 +1,75 @@
+/**
+ * WhatsApp Message Utilities
+ *
+ * Pre-written Hebrew messages for loan actions, opened as wa.me deep links.
+ * Family admins can replace any template (families.whatsapp_templates).
+ */
+
+import type { WhatsAppTemplateKey, WhatsAppTemplates } from '../types';
+
+export const DEFAULT_WHATSAPP_TEMPLATES: Record<WhatsAppTemplateKey, string> = {
+  borrow_request: 'שלום {family}, כאן {my_family}. נשמח לשאול את הספר "{book}" - אפשר?',
+  due_reminder: 'שלום {family}, תזכורת קטנה: את הספר "{book}" צריך להחזיר עד {due_date}. תודה!',
+  return_coordination: 'שלום {family}, סיימנו את "{book}". מתי נוח לכם שנחזיר?',
+  return_thanks: 'שלום {family}, תודה שהחזרתם את "{book}"! מקווים שנהניתם 📚',
+  general: 'שלום {family}, לגבי הספר "{book}"',
+};
+
+export const WHATSAPP_TEMPLATE_LABELS: Record<WhatsAppTemplateKey, string> = {
+  borrow_request: 'בקשה לשאול ספר',
+  due_reminder: 'תזכורת למועד החזרה',
+  return_coordination: 'תיאום החזרה',
+  return_thanks: 'תודה על ההחזרה',
+  general: 'הודעה כללית',
+};
+
+// Shown to admins editing the templates
+export const WHATSAPP_PLACEHOLDERS: Record<string, string> = {
+  '{book}': 'שם הספר',
+  '{family}': 'המשפחה שמקבלת את ההודעה',
+  '{my_family}': 'המשפחה שלכם',
+  '{due_date}': 'מועד ההחזרה',
+};
+
+export interface WhatsAppTemplateValues {
+  book: string;
+  family: string;
+  my_family?: string;
+  due_date?: string | null;
+}
+
+/**
+ * The family's template for a key, or the default text
+ */
+export function resolveWhatsAppTemplate(key: WhatsAppTemplateKey, custom?: WhatsAppTemplates | null): string {
+  return custom?.[key]?.trim() || DEFAULT_WHATSAPP_TEMPLATES[key];
+}
+
+/**
+ * Fill a template's placeholders; dates are formatted for display, unknown placeholders are left as is
+ */
+export function fillWhatsAppTemplate(template: string, values: WhatsAppTemplateValues): string {
+  const replacements: Record<string, string> = {
+    book: values.book,
+    family: values.family,
+    my_family: values.my_family || '',
+    due_date: values.due_date ? new Date(values.due_date).toLocaleDateString('he-IL') : '',
+  };
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => replacements[name] ?? match);
+}
+
+/**
+ * International number for wa.me (Israeli local numbers get the 972 prefix)
+ */
+export function toWhatsAppPhone(phone: string): string {
+  const digits = phone.replace(/[^0-9]/g, '');
+  return digits.startsWith('972') ? digits : `972${digits.replace(/^0/, '')}`;
+}
+
+/**
+ * wa.me deep link, optionally with a pre-filled message
+ */
+export function buildWhatsAppLink(phone: string, text?: string): string {
+  const base = `https://wa.me/${toWhatsAppPhone(phone)}`;
+  return text ? `${base}?text=${encodeURIComponent(text)}` : base;
+}
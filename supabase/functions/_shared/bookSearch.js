@@ -2,6 +2,7 @@
  * Book Search Service
  * 
  * Multi-provider book search supporting Simania and Google Books
+ * Answers are kept in the lookup cache (lookupCache.js) when one is set.
  */
 
 const SIMANIA_API = 'https://simania.co.il/api/search';
@@ -21,6 +22,18 @@ const PROVIDERS = {
   }
 };
 
+let lookupCache = null;
+
+/**
+ * Set the cache for external lookups (createLookupCache()) - null looks everything up again
+ */
+export function setLookupCache(cache) {
+  lookupCache = cache;
+}
+
+const cachedLookup = (type, params, lookup) =>
+  lookupCache ? lookupCache.cached(type, params, lookup) : lookup();
+
 /**
  * Search for books using query string
  * @param {string} query - Search query (title, author, ISBN, etc.)
@@ -29,7 +42,10 @@ const PROVIDERS = {
  */
 export async function searchBooks(query, options = {}) {
   const { provider = 'auto', maxResults = 10 } = options;
-  
+  return cachedLookup('search', { query, provider, maxResults }, () => searchProviders(query, provider, maxResults));
+}
+
+async function searchProviders(query, provider, maxResults) {
   try {
     console.log(`Searching books: "${query}" (provider: ${provider})`);
     
@@ -75,26 +91,27 @@ export async function searchBooks(query, options = {}) {
  */
 export async function searchBookDetails(title, author = '') {
   try {
-    console.log(`Searching for book details: "${title}" by "${author}"`);
-    
-    // 1. Try searching with Title + Author
-    let query = author ? `${title} ${author}` : title;
-    let results = await searchBooks(query, { maxResults: 5 });
-    
-    // 2. If no results and we have an author, try searching by Title only
-    if ((!results || results.length === 0) && author) {
-      console.log(`No results for "${title} ${author}", retrying with title only: "${title}"`);
-      query = title;
-      results = await searchBooks(query, { maxResults: 5 });
-    }
-    
-    if (!results || results.length === 0) {
-      return null;
-    }
-    
-    // Find best match
-    const bestMatch = findBestMatch(results, title, author);
-    return bestMatch;
+    return await cachedLookup('details', { title, author }, async () => {
+      console.log(`Searching for book details: "${title}" by "${author}"`);
+      
+      // 1. Try searching with Title + Author
+      let query = author ? `${title} ${author}` : title;
+      let results = await searchProviders(query, 'auto', 5);
+      
+      // 2. If no results and we have an author, try searching by Title only
+      if ((!results || results.length === 0) && author) {
+        console.log(`No results for "${title} ${author}", retrying with title only: "${title}"`);
+        query = title;
+        results = await searchProviders(query, 'auto', 5);
+      }
+      
+      if (!results || results.length === 0) {
+        return null;
+      }
+      
+      // Find best match
+      return findBestMatch(results, title, author);
+    });
     
   } catch (error) {
     console.error('Book details search error:', error);
@@ -0,0 +1,130 @@
+/**
+ * Book Lookup Cache
+ * Keeps the answers of external book metadata lookups in book_lookup_cache (migration 042), so
+ * looking up the same title, author or ISBN again doesn't go back to Simania. "Nothing found" is
+ * cached too, for a shorter time - the book may be added to the provider. Hits and misses are
+ * counted per day in book_lookup_metrics.
+ *
+ * Used by the API (services/bookSearch.js) and the edge functions (supabase/functions/_shared) -
+ * the two copies of this file are identical, so it depends on nothing but a Supabase client.
+ */
+
+export const LOOKUP_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const NOT_FOUND_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Postgres: undefined table / function - the migration hasn't been run
+const MISSING_SCHEMA_CODES = ['42P01', '42883', 'PGRST202', 'PGRST205'];
+
+const FINAL_LETTERS = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+/**
+ * Search form of a title, author or query - same as normalize_hebrew_search() in the database
+ */
+export function normalizeLookupText(value) {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/־/g, ' ') // Maqaf
+    .replace(/[֑-ׇ]/g, '') // Niqqud and cantillation
+    .replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter])
+    .replace(/['"`׳״]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Cache key of a lookup
+ * @param {'details'|'search'|'isbn'} type
+ * @param {Object} params - details: { title, author }, search: { query, provider, maxResults }, isbn: { isbn }
+ */
+export function lookupCacheKey(type, params) {
+  if (type === 'details') {
+    return `details:${normalizeLookupText(params.title)}|${normalizeLookupText(params.author)}`;
+  }
+  if (type === 'isbn') {
+    return `isbn:${String(params.isbn ?? '').replace(/[\s-]/g, '').toUpperCase()}`;
+  }
+  return `search:${params.provider || 'auto'}:${params.maxResults || 10}:${normalizeLookupText(params.query)}`;
+}
+
+const isNotFound = (value) => value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Cache entries in book_lookup_cache through a Supabase client (service role)
+ */
+export function supabaseLookupStore(supabase) {
+  return {
+    // { result, found } when there's an unexpired entry, otherwise null - counts the hit or miss
+    async get(key, type) {
+      const { data, error } = await supabase.rpc('get_book_lookup', { p_cache_key: key, p_lookup_type: type });
+      if (error) throw error;
+      return data?.[0] || null;
+    },
+
+    async set(entry) {
+      const { error } = await supabase
+        .from('book_lookup_cache')
+        .upsert({ ...entry, hit_count: 0, last_hit_at: null }, { onConflict: 'cache_key' });
+      if (error) throw error;
+    }
+  };
+}
+
+/**
+ * Create a lookup cache
+ * @param {Object} store - { get(key, type), set(entry) }, e.g. supabaseLookupStore(supabase)
+ * @param {Object} [options]
+ * @param {number} [options.ttlMs] - How long an answer is kept
+ * @param {number} [options.notFoundTtlMs] - How long "nothing found" is kept
+ * @param {Function} [options.now] - Current time in ms
+ * @returns {{ cached: Function }}
+ */
+export function createLookupCache(store, { ttlMs = LOOKUP_TTL_MS, notFoundTtlMs = NOT_FOUND_TTL_MS, now = () => Date.now() } = {}) {
+  let disabled = false;
+
+  // The cache never fails a lookup - when it can't be read or written, the lookup just isn't cached
+  const quietly = async (action) => {
+    if (disabled) return null;
+    try {
+      return await action();
+    } catch (error) {
+      if (MISSING_SCHEMA_CODES.includes(error?.code)) {
+        console.warn('[lookupCache] book_lookup_cache is missing (migration 042) - lookups are not cached');
+        disabled = true;
+      } else {
+        console.warn('[lookupCache]', error?.message || error);
+      }
+      return null;
+    }
+  };
+
+  return {
+    /**
+     * The cached answer of a lookup, or the lookup's answer (then cached)
+     * A lookup that throws isn't cached
+     * @param {'details'|'search'|'isbn'} type
+     * @param {Object} params - see lookupCacheKey()
+     * @param {Function} lookup - () => Promise of the answer; null or [] is "nothing found"
+     */
+    async cached(type, params, lookup) {
+      const key = lookupCacheKey(type, params);
+      const entry = await quietly(() => store.get(key, type));
+      if (entry) {
+        console.log(`[lookupCache] ${entry.found ? 'Hit' : 'Hit (nothing found)'}: ${key}`);
+        return entry.result;
+      }
+
+      const value = await lookup();
+      const found = !isNotFound(value);
+      await quietly(() => store.set({
+        cache_key: key,
+        lookup_type: type,
+        result: value ?? null,
+        found,
+        expires_at: new Date(now() + (found ? ttlMs : notFoundTtlMs)).toISOString(),
+        updated_at: new Date(now()).toISOString()
+      }));
+      return value;
+    }
+  };
+}
@@ -6,7 +6,8 @@ import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { GoogleAuth } from "npm:google-auth-library@9.0.0";
 import { generateBookDetectionPrompt, formatStructuredOCR, parseVisionResponse } from '../_shared/visionServiceUtils.js';
-import { searchBookDetails } from '../_shared/bookSearch.js';
+import { searchBookDetails, setLookupCache } from '../_shared/bookSearch.js';
+import { createLookupCache, supabaseLookupStore } from '../_shared/lookupCache.js';
 
 // ============================================================================
 // Google Cloud Vision Logic (OCR)
@@ -207,6 +208,9 @@ Deno.serve(async (req: Request) => {
       
       const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+      // Enrichment lookups go through the same cache as the API
+      setLookupCache(createLookupCache(supabaseLookupStore(supabase)));
+
       // Get the job to retrieve user_id
       const { data: jobData, error: jobError } = await supabase
         .from('detection_jobs')